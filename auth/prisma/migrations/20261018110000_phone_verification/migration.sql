@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "OneTimeCodePurpose" AS ENUM ('PHONE_VERIFICATION');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "phone_verified_at" TIMESTAMP(3);
+
+-- Accounts created before phone verification existed stay usable
+UPDATE "User" SET "phone_verified_at" = "created_at";
+
+-- CreateTable
+CREATE TABLE "OneTimeCode" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "purpose" "OneTimeCodePurpose" NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OneTimeCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OneTimeCode_user_id_purpose_created_at_idx" ON "OneTimeCode"("user_id", "purpose", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "OneTimeCode" ADD CONSTRAINT "OneTimeCode_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
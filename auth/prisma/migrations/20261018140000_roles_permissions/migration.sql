@@ -0,0 +1,91 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Permission" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserRole" (
+    "user_id" INTEGER NOT NULL,
+    "role_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserRole_pkey" PRIMARY KEY ("user_id","role_id")
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "role_id" INTEGER NOT NULL,
+    "permission_id" INTEGER NOT NULL,
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("role_id","permission_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Permission_name_key" ON "Permission"("name");
+
+-- AddForeignKey
+ALTER TABLE "UserRole" ADD CONSTRAINT "UserRole_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRole" ADD CONSTRAINT "UserRole_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_permission_id_fkey" FOREIGN KEY ("permission_id") REFERENCES "Permission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed roles
+INSERT INTO "Role" ("name", "description") VALUES
+    ('customer', 'Pays for goods and services; default role of new accounts'),
+    ('merchant', 'Collects payments'),
+    ('support', 'Customer support staff'),
+    ('admin', 'Full access');
+
+-- Seed permissions
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('payments:create', 'Initiate payments'),
+    ('payments:read', 'View payments'),
+    ('payments:update_status', 'Set payment status outside the provider webhook flow'),
+    ('users:unlock', 'Lift login lockouts'),
+    ('users:manage_roles', 'Assign roles to users');
+
+-- Grant permissions to roles
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "Role" r
+JOIN "Permission" p ON (r."name", p."name") IN (
+    ('customer', 'payments:create'),
+    ('customer', 'payments:read'),
+    ('merchant', 'payments:create'),
+    ('merchant', 'payments:read'),
+    ('support', 'payments:read'),
+    ('support', 'users:unlock'),
+    ('admin', 'payments:create'),
+    ('admin', 'payments:read'),
+    ('admin', 'payments:update_status'),
+    ('admin', 'users:unlock'),
+    ('admin', 'users:manage_roles')
+);
+
+-- Existing accounts become customers
+INSERT INTO "UserRole" ("user_id", "role_id")
+SELECT u."id", r."id" FROM "User" u CROSS JOIN "Role" r WHERE r."name" = 'customer';
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "SigningKey" (
+    "id" SERIAL NOT NULL,
+    "kid" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "public_key" TEXT NOT NULL,
+    "private_key" TEXT,
+    "activated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retire_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SigningKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SigningKey_kid_key" ON "SigningKey"("kid");
+
+-- CreateIndex
+CREATE INDEX "SigningKey_retire_at_idx" ON "SigningKey"("retire_at");
+
+-- Seed permissions
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('keys:manage', 'Rotate and retire token signing keys');
+
+-- Grant permissions to roles
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "Role" r
+JOIN "Permission" p ON (r."name", p."name") IN (
+    ('admin', 'keys:manage')
+);
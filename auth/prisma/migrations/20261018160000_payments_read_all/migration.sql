@@ -0,0 +1,12 @@
+-- Seed permissions
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('payments:read_all', 'View payments of all users');
+
+-- Grant permissions to roles
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "Role" r
+JOIN "Permission" p ON (r."name", p."name") IN (
+    ('support', 'payments:read_all'),
+    ('admin', 'payments:read_all')
+);
@@ -0,0 +1,11 @@
+-- Seed permissions
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('webhooks:read', 'Browse provider webhook deliveries of payments');
+
+-- Grant permissions to roles
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "Role" r
+JOIN "Permission" p ON (r."name", p."name") IN (
+    ('admin', 'webhooks:read')
+);
@@ -0,0 +1,13 @@
+-- Seed permissions
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('payments:cancel', 'Cancel pending payments');
+
+-- Grant permissions to roles
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "Role" r
+JOIN "Permission" p ON (r."name", p."name") IN (
+    ('customer', 'payments:cancel'),
+    ('merchant', 'payments:cancel'),
+    ('admin', 'payments:cancel')
+);
@@ -0,0 +1,12 @@
+-- Seed permissions
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('merchant_webhooks:manage', 'Register webhook endpoints for payment events and inspect their deliveries');
+
+-- Grant permissions to roles
+INSERT INTO "RolePermission" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "Role" r
+JOIN "Permission" p ON (r."name", p."name") IN (
+    ('merchant', 'merchant_webhooks:manage'),
+    ('admin', 'merchant_webhooks:manage')
+);
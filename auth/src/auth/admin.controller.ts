@@ -0,0 +1,212 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { AdminGuard } from './guards/admin.guard';
+import { Permissions } from './decorators/permissions.decorator';
+import { SetUserRolesDto } from './dto/set-user-roles.dto';
+import { KeysService } from '../keys/keys.service';
+import {
+  RetireSigningKeyDto,
+  RotateSigningKeyDto,
+  SigningKeyResponseDto,
+} from '../keys/dto/signing-key.dto';
+import {
+  MessageResponseDto,
+  UserRolesResponseDto,
+} from './dto/auth-response.dto';
+
+@ApiTags('Admin')
+@ApiSecurity('admin-api-key')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AdminGuard)
+@Controller('auth/admin')
+export class AdminController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly keysService: KeysService,
+  ) {}
+
+  @Post('users/:id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @Permissions('users:unlock')
+  @ApiOperation({
+    summary: 'Unlock user account',
+    description:
+      'Lifts a login lockout and clears the failed attempt history of the account. Requires the admin API key or the users:unlock permission',
+  })
+  @ApiParam({ name: 'id', description: 'User ID', example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Account unlocked',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid admin API key or token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Token lacks the users:unlock permission',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async unlockAccount(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<MessageResponseDto> {
+    return this.authService.unlockAccount(id);
+  }
+
+  @Put('users/:id/roles')
+  @HttpCode(HttpStatus.OK)
+  @Permissions('users:manage_roles')
+  @ApiOperation({
+    summary: 'Set user roles',
+    description:
+      'Replaces the roles of a user and revokes their current access tokens. Requires the admin API key or the users:manage_roles permission',
+  })
+  @ApiParam({ name: 'id', description: 'User ID', example: 1 })
+  @ApiBody({ type: SetUserRolesDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Roles updated',
+    type: UserRolesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown role or validation error',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid admin API key or token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Token lacks the users:manage_roles permission',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async setUserRoles(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() setUserRolesDto: SetUserRolesDto,
+  ): Promise<UserRolesResponseDto> {
+    return this.authService.setUserRoles(id, setUserRolesDto.roles);
+  }
+
+  @Get('keys')
+  @Permissions('keys:manage')
+  @ApiOperation({
+    summary: 'List signing keys',
+    description:
+      'All access token signing keys, newest first. Requires the admin API key or the keys:manage permission',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Signing keys',
+    type: [SigningKeyResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid admin API key or token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Token lacks the keys:manage permission',
+  })
+  async listSigningKeys(): Promise<SigningKeyResponseDto[]> {
+    return this.keysService.listKeys();
+  }
+
+  @Post('keys/rotate')
+  @HttpCode(HttpStatus.CREATED)
+  @Permissions('keys:manage')
+  @ApiOperation({
+    summary: 'Rotate the signing key',
+    description:
+      'Generates a new key that signs all new tokens. The previous key stays published and accepted until the tokens it signed have expired, so nobody is logged out. Requires the admin API key or the keys:manage permission',
+  })
+  @ApiBody({ type: RotateSigningKeyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'New signing key',
+    type: SigningKeyResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid admin API key or token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Token lacks the keys:manage permission',
+  })
+  async rotateSigningKey(
+    @Body() rotateSigningKeyDto: RotateSigningKeyDto,
+  ): Promise<SigningKeyResponseDto> {
+    return this.keysService.rotate(rotateSigningKeyDto.algorithm);
+  }
+
+  @Post('keys/:kid/retire')
+  @HttpCode(HttpStatus.OK)
+  @Permissions('keys:manage')
+  @ApiOperation({
+    summary: 'Retire a signing key',
+    description:
+      'Changes when a replaced key stops being accepted; without retire_at it is rejected right away, invalidating the tokens it signed. Requires the admin API key or the keys:manage permission',
+  })
+  @ApiParam({ name: 'kid', description: 'Key ID' })
+  @ApiBody({ type: RetireSigningKeyDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Retirement scheduled',
+    type: SigningKeyResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid admin API key or token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Token lacks the keys:manage permission',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Signing key not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The key is the active signing key',
+  })
+  async retireSigningKey(
+    @Param('kid') kid: string,
+    @Body() retireSigningKeyDto: RetireSigningKeyDto,
+  ): Promise<SigningKeyResponseDto> {
+    return this.keysService.retire(
+      kid,
+      retireSigningKeyDto.retire_at
+        ? new Date(retireSigningKeyDto.retire_at)
+        : undefined,
+    );
+  }
+}
@@ -0,0 +1,47 @@
+export const ACCESS_TOKEN_TTL_SECONDS =
+  Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 60 * 60;
+
+// `client_id` claim of access tokens, all issued to first-party apps for now
+export const TOKEN_CLIENT_ID = process.env.TOKEN_CLIENT_ID || 'opareta';
+
+export const REFRESH_TOKEN_TTL_DAYS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export const OTP_LENGTH = 6;
+
+export const OTP_TTL_SECONDS = Number(process.env.OTP_TTL_SECONDS) || 5 * 60;
+
+export const OTP_MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS) || 5;
+
+export const OTP_RESEND_INTERVAL_SECONDS =
+  Number(process.env.OTP_RESEND_INTERVAL_SECONDS) || 60;
+
+export const OTP_MAX_SENDS_PER_HOUR =
+  Number(process.env.OTP_MAX_SENDS_PER_HOUR) || 5;
+
+export const LOGIN_MAX_FAILED_ATTEMPTS =
+  Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5;
+
+export const LOGIN_MAX_FAILED_ATTEMPTS_PER_IP =
+  Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP) || 50;
+
+export const LOGIN_FAILURE_WINDOW_SECONDS =
+  Number(process.env.LOGIN_FAILURE_WINDOW_SECONDS) || 15 * 60;
+
+export const LOGIN_LOCKOUT_SECONDS =
+  Number(process.env.LOGIN_LOCKOUT_SECONDS) || 15 * 60;
+
+export const LOGIN_BACKOFF_BASE_SECONDS =
+  Number(process.env.LOGIN_BACKOFF_BASE_SECONDS) || 1;
+
+export const MFA_ISSUER = process.env.MFA_ISSUER || 'Opareta';
+
+export const MFA_CHALLENGE_TTL_SECONDS =
+  Number(process.env.MFA_CHALLENGE_TTL_SECONDS) || 5 * 60;
+
+export const MFA_CHALLENGE_TOKEN_TYPE = 'mfa_challenge';
+
+export const MFA_RECOVERY_CODE_COUNT = 10;
+
+// Role assigned to every new account
+export const DEFAULT_ROLE = 'customer';
@@ -1,37 +1,60 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBody,
   ApiBearerAuth,
+  ApiExtraModels,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { VerifyTokenDto } from './dto/verify-token.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { LogoutDto } from './dto/logout.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { AuthenticatedUser } from './interfaces/jwt-payload.interface';
 import {
   AuthResponseDto,
+  MessageResponseDto,
+  MfaChallengeResponseDto,
+  RegisterResponseDto,
+  VerificationCodeSentDto,
   VerifyTokenResponseDto,
 } from './dto/auth-response.dto';
+import { ResendVerificationDto, VerifyPhoneDto } from './dto/verify-phone.dto';
 
 @ApiTags('Authentication')
+@ApiExtraModels(AuthResponseDto, MfaChallengeResponseDto)
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) { }
+  constructor(private readonly authService: AuthService) {}
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
     summary: 'Register a new user',
     description:
-      'Creates a new user account with email (optional), phone number, and password',
+      'Creates an unverified user account with email (optional), phone number, and password, and sends a verification code to the phone number',
   })
   @ApiBody({ type: RegisterDto })
   @ApiResponse({
     status: 201,
-    description: 'User successfully registered',
-    type: AuthResponseDto,
+    description: 'User successfully registered, verification code sent',
+    type: RegisterResponseDto,
   })
   @ApiResponse({
     status: 409,
@@ -41,45 +64,241 @@ export class AuthController {
     status: 400,
     description: 'Validation error',
   })
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(
+    @Body() registerDto: RegisterDto,
+  ): Promise<RegisterResponseDto> {
     return this.authService.register(registerDto);
   }
 
+  @Post('verify-phone')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify phone number',
+    description:
+      'Confirms the phone number with the code sent by SMS and returns tokens for the now verified account',
+  })
+  @ApiBody({ type: VerifyPhoneDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Phone number verified',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Code invalid, expired, already used or too many incorrect attempts',
+  })
+  async verifyPhone(
+    @Body() verifyPhoneDto: VerifyPhoneDto,
+  ): Promise<AuthResponseDto> {
+    return this.authService.verifyPhone(verifyPhoneDto);
+  }
+
+  @Post('verify-phone/resend')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Resend phone verification code',
+    description:
+      'Sends a new verification code, invalidating the previous one. Limited to one code per interval and a few per hour',
+  })
+  @ApiBody({ type: ResendVerificationDto })
+  @ApiResponse({
+    status: 202,
+    description: 'Verification code sent if the account awaits verification',
+    type: VerificationCodeSentDto,
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'A code was requested too recently or too often',
+  })
+  async resendVerificationCode(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ): Promise<VerificationCodeSentDto> {
+    return this.authService.resendVerificationCode(
+      resendVerificationDto.phone_number,
+    );
+  }
+
   @Post('login')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Login user',
     description:
-      'Authenticates a user with phone number and password, returns JWT token',
+      'Authenticates a user with phone number and password, returns JWT token. Accounts with two-factor authentication get an MFA challenge instead, to complete at /auth/mfa/verify',
   })
   @ApiBody({ type: LoginDto })
   @ApiResponse({
     status: 200,
-    description: 'User successfully logged in',
-    type: AuthResponseDto,
+    description: 'User successfully logged in, or MFA challenge issued',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthResponseDto) },
+        { $ref: getSchemaPath(MfaChallengeResponseDto) },
+      ],
+    },
   })
   @ApiResponse({
     status: 401,
     description: 'Invalid phone number or password',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Phone number not verified',
+  })
+  @ApiResponse({
+    status: 423,
+    description:
+      'Account temporarily locked after too many failed attempts (see Retry-After)',
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Progressive delay after a failed attempt, or too many failures from this client (see Retry-After)',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error',
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ip: string,
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+    return this.authService.login(loginDto, ip);
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description:
+      'Exchanges a refresh token for a new access token and a new refresh token. Each refresh token can be used once; presenting a used token revokes every token in its family',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens successfully refreshed',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token invalid, expired, revoked or reused',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error',
+  })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+  ): Promise<AuthResponseDto> {
+    return this.authService.refresh(refreshTokenDto.refresh_token);
+  }
+
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Request a password reset code',
+    description:
+      'Sends a short-lived single-use reset code by SMS (when identified by phone number) or email. The response does not reveal whether an account exists',
+  })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({
+    status: 202,
+    description: 'Reset code sent if an account matches',
+    type: MessageResponseDto,
+  })
   @ApiResponse({
     status: 400,
     description: 'Validation error',
   })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<MessageResponseDto> {
+    return this.authService.forgotPassword(forgotPasswordDto);
+  }
+
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset password',
+    description:
+      'Sets a new password using the reset code and revokes every existing session of the account',
+  })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Password reset',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Code invalid, expired, already used or too many incorrect attempts',
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<MessageResponseDto> {
+    return this.authService.resetPassword(resetPasswordDto);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Logout current session',
+    description:
+      'Revokes the access token used for this request and, when provided, the refresh token of the same session',
+  })
+  @ApiBody({ type: LogoutDto })
+  @ApiResponse({
+    status: 204,
+    description: 'Session revoked',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, invalid or already revoked token',
+  })
+  async logout(
+    @Req() req: Request & { user: AuthenticatedUser },
+    @Body() logoutDto: LogoutDto,
+  ): Promise<void> {
+    return this.authService.logout(req.user, logoutDto.refresh_token);
+  }
+
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Logout all sessions',
+    description:
+      'Revokes every access and refresh token issued to the user, on all devices',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'All sessions revoked',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, invalid or already revoked token',
+  })
+  async logoutAll(
+    @Req() req: Request & { user: AuthenticatedUser },
+  ): Promise<void> {
+    return this.authService.logoutAll(req.user.userId);
   }
 
   @Post('verify')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Verify JWT token',
-    description: 'Validates a JWT token and returns whether it is valid',
+    summary: 'Introspect access token',
+    description:
+      'Validates an access token (signature, expiry and revocation) and returns its subject and claims, in the style of RFC 7662 token introspection',
   })
   @ApiBody({ type: VerifyTokenDto })
   @ApiResponse({
     status: 200,
-    description: 'Token verification result',
+    description: 'Introspection result; active is false for invalid tokens',
     type: VerifyTokenResponseDto,
   })
   @ApiResponse({
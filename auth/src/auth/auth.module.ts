@@ -1,21 +1,51 @@
 import { Module } from '@nestjs/common';
-import { JwtModule } from '@nestjs/jwt';
+import { JwtModule, JwtSecretRequestType, JwtSignOptions } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthController } from './auth.controller';
+import { AdminController } from './admin.controller';
+import { MfaController } from './mfa.controller';
 import { AuthService } from './auth.service';
 import { AuthRepository } from './auth.repository';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { TokenRevocationService } from './token-revocation.service';
+import { OtpService } from './otp.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { MfaService } from './mfa.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { KeysModule } from '../keys/keys.module';
+import { KeysService } from '../keys/keys.service';
+import { SUPPORTED_ALGORITHMS } from '../keys/keys.constants';
+import { ACCESS_TOKEN_TTL_SECONDS } from './auth.constants';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
-    JwtModule.register({
-      secret: process.env.JWT_SECRET || 'your-secret-key',
-      signOptions: { expiresIn: '1h' },
+    NotificationsModule,
+    KeysModule,
+    JwtModule.registerAsync({
+      imports: [KeysModule],
+      inject: [KeysService],
+      // Keys rotate at runtime: callers pass KeysService.signOptions() when signing
+      useFactory: (keysService: KeysService) => ({
+        signOptions: { expiresIn: ACCESS_TOKEN_TTL_SECONDS },
+        verifyOptions: { algorithms: [...SUPPORTED_ALGORITHMS] },
+        secretOrKeyProvider: (requestType, tokenOrPayload, options) =>
+          requestType === JwtSecretRequestType.SIGN
+            ? keysService.getPrivateKey((options as JwtSignOptions)?.keyid)
+            : keysService.resolveVerificationKey(tokenOrPayload as string),
+      }),
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, AuthRepository, JwtStrategy],
+  controllers: [AuthController, MfaController, AdminController],
+  providers: [
+    AuthService,
+    AuthRepository,
+    JwtStrategy,
+    TokenRevocationService,
+    OtpService,
+    LoginAttemptService,
+    MfaService,
+  ],
   exports: [AuthService, JwtModule],
 })
 export class AuthModule {}
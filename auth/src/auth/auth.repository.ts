@@ -1,10 +1,17 @@
 import { Injectable } from '@nestjs/common';
-import { User } from '@prisma/client';
+import {
+  OneTimeCode,
+  OneTimeCodePurpose,
+  RefreshToken,
+  Role,
+  User,
+} from '@prisma/client';
 import { PrismaService } from 'src/common/database/prisma.service';
+import { DEFAULT_ROLE } from './auth.constants';
 
 @Injectable()
 export class AuthRepository {
-  constructor(private readonly prisma: PrismaService) { }
+  constructor(private readonly prisma: PrismaService) {}
 
   async findByPhoneNumber(phoneNumber: string): Promise<User | null> {
     return this.prisma.user.findUnique({
@@ -28,6 +35,9 @@ export class AuthRepository {
         email: data.email,
         phone_number: data.phone_number,
         password: data.password,
+        user_roles: {
+          create: { role: { connect: { name: DEFAULT_ROLE } } },
+        },
       },
     });
   }
@@ -37,4 +47,249 @@ export class AuthRepository {
       where: { id },
     });
   }
+
+  async createRefreshToken(data: {
+    user_id: number;
+    token_hash: string;
+    family_id: string;
+    expires_at: Date;
+  }): Promise<RefreshToken> {
+    return this.prisma.refreshToken.create({ data });
+  }
+
+  async findRefreshTokenByHash(
+    tokenHash: string,
+  ): Promise<(RefreshToken & { user: User }) | null> {
+    return this.prisma.refreshToken.findUnique({
+      where: { token_hash: tokenHash },
+      include: { user: true },
+    });
+  }
+
+  /**
+   * Consume a refresh token and issue its successor in one transaction.
+   * Returns null when the token was consumed concurrently, which callers
+   * must treat as reuse.
+   */
+  async rotateRefreshToken(
+    currentId: number,
+    next: {
+      user_id: number;
+      token_hash: string;
+      family_id: string;
+      expires_at: Date;
+    },
+  ): Promise<RefreshToken | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: currentId, used_at: null, revoked_at: null },
+        data: { used_at: new Date() },
+      });
+      if (count === 0) {
+        return null;
+      }
+      return tx.refreshToken.create({ data: next });
+    });
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { family_id: familyId, revoked_at: null },
+      data: { revoked_at: new Date() },
+    });
+    return count;
+  }
+
+  async revokeAllRefreshTokens(userId: number): Promise<number> {
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { user_id: userId, revoked_at: null },
+      data: { revoked_at: new Date() },
+    });
+    return count;
+  }
+
+  /**
+   * Bumping the version invalidates every access token issued before it
+   */
+  async incrementTokenVersion(userId: number): Promise<User> {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { token_version: { increment: 1 } },
+    });
+  }
+
+  async updatePassword(userId: number, password: string): Promise<User> {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { password },
+    });
+  }
+
+  async markPhoneVerified(userId: number): Promise<User> {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { phone_verified_at: new Date() },
+    });
+  }
+
+  /**
+   * Store a new code, invalidating any unconsumed code of the same purpose
+   */
+  async replaceOneTimeCode(data: {
+    user_id: number;
+    purpose: OneTimeCodePurpose;
+    code_hash: string;
+    expires_at: Date;
+  }): Promise<OneTimeCode> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.oneTimeCode.updateMany({
+        where: {
+          user_id: data.user_id,
+          purpose: data.purpose,
+          consumed_at: null,
+        },
+        data: { consumed_at: new Date() },
+      });
+      return tx.oneTimeCode.create({ data });
+    });
+  }
+
+  async findLatestOneTimeCode(
+    userId: number,
+    purpose: OneTimeCodePurpose,
+  ): Promise<OneTimeCode | null> {
+    return this.prisma.oneTimeCode.findFirst({
+      where: { user_id: userId, purpose },
+      orderBy: { created_at: 'desc' },
+    });
+  }
+
+  async countOneTimeCodesSince(
+    userId: number,
+    purpose: OneTimeCodePurpose,
+    since: Date,
+  ): Promise<number> {
+    return this.prisma.oneTimeCode.count({
+      where: { user_id: userId, purpose, created_at: { gte: since } },
+    });
+  }
+
+  /**
+   * Count an attempt at a code, unless it already had `maxAttempts`.
+   * Returns false when no attempt is left.
+   */
+  async recordOneTimeCodeAttempt(
+    id: number,
+    maxAttempts: number,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.oneTimeCode.updateMany({
+      where: { id, attempts: { lt: maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+    return count === 1;
+  }
+
+  async consumeOneTimeCode(id: number): Promise<boolean> {
+    const { count } = await this.prisma.oneTimeCode.updateMany({
+      where: { id, consumed_at: null },
+      data: { consumed_at: new Date() },
+    });
+    return count === 1;
+  }
+
+  async setMfaSecret(userId: number, encryptedSecret: string): Promise<User> {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { mfa_secret: encryptedSecret },
+    });
+  }
+
+  /**
+   * Activate MFA and replace any previous recovery codes
+   */
+  async enableMfa(
+    userId: number,
+    lastUsedStep: number,
+    recoveryCodeHashes: string[],
+  ): Promise<User> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.mfaRecoveryCode.deleteMany({ where: { user_id: userId } });
+      await tx.mfaRecoveryCode.createMany({
+        data: recoveryCodeHashes.map((code_hash) => ({
+          user_id: userId,
+          code_hash,
+        })),
+      });
+      return tx.user.update({
+        where: { id: userId },
+        data: { mfa_enabled_at: new Date(), mfa_last_used_step: lastUsedStep },
+      });
+    });
+  }
+
+  /**
+   * Record an accepted TOTP step. Returns false if the same or a later step
+   * was already used, i.e. the code is being replayed.
+   */
+  async recordMfaStep(userId: number, step: number): Promise<boolean> {
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [
+          { mfa_last_used_step: null },
+          { mfa_last_used_step: { lt: step } },
+        ],
+      },
+      data: { mfa_last_used_step: step },
+    });
+    return count === 1;
+  }
+
+  async useMfaRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const { count } = await this.prisma.mfaRecoveryCode.updateMany({
+      where: { user_id: userId, code_hash: codeHash, used_at: null },
+      data: { used_at: new Date() },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Role names of the user and the union of their permissions, sorted
+   */
+  async findAuthorization(
+    userId: number,
+  ): Promise<{ roles: string[]; permissions: string[] }> {
+    const userRoles = await this.prisma.userRole.findMany({
+      where: { user_id: userId },
+      include: {
+        role: {
+          include: { role_permissions: { include: { permission: true } } },
+        },
+      },
+    });
+
+    const roles = userRoles.map(({ role }) => role.name).sort();
+    const permissions = [
+      ...new Set(
+        userRoles.flatMap(({ role }) =>
+          role.role_permissions.map(({ permission }) => permission.name),
+        ),
+      ),
+    ].sort();
+
+    return { roles, permissions };
+  }
+
+  async findRolesByName(names: string[]): Promise<Role[]> {
+    return this.prisma.role.findMany({ where: { name: { in: names } } });
+  }
+
+  async replaceUserRoles(userId: number, roleIds: number[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.userRole.deleteMany({ where: { user_id: userId } }),
+      this.prisma.userRole.createMany({
+        data: roleIds.map((role_id) => ({ user_id: userId, role_id })),
+      }),
+    ]);
+  }
 }
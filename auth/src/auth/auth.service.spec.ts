@@ -1,11 +1,30 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
-import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { OneTimeCodePurpose } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 import { AuthService } from './auth.service';
 import { AuthRepository } from './auth.repository';
+import { TokenRevocationService } from './token-revocation.service';
+import { OtpService } from './otp.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { AccountLockedException } from './exceptions/account-locked.exception';
+import { SMS_SENDER } from '../notifications/sms-sender.interface';
+import { EMAIL_SENDER } from '../notifications/email-sender.interface';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { MfaService } from './mfa.service';
+import { KeysService } from '../keys/keys.service';
+import { MFA_CHALLENGE_TOKEN_TYPE, TOKEN_CLIENT_ID } from './auth.constants';
 
 jest.mock('bcrypt');
 
@@ -19,6 +38,11 @@ describe('AuthService', () => {
     phone_number: '+256700000000',
     email: 'test@example.com',
     password: 'hashedPassword123',
+    token_version: 0,
+    phone_verified_at: new Date(),
+    mfa_secret: null,
+    mfa_enabled_at: null,
+    mfa_last_used_step: null,
     created_at: new Date(),
     updated_at: new Date(),
   };
@@ -28,22 +52,78 @@ describe('AuthService', () => {
     phone_number: '+256700000001',
     email: null,
     password: 'hashedPassword123',
+    token_version: 0,
+    phone_verified_at: new Date(),
+    mfa_secret: null,
+    mfa_enabled_at: null,
+    mfa_last_used_step: null,
     created_at: new Date(),
     updated_at: new Date(),
   };
 
+  const customerAuthorization = {
+    roles: ['customer'],
+    permissions: ['payments:create', 'payments:read'],
+  };
+
   const mockRepository = {
     findByPhoneNumber: jest.fn(),
     findByEmail: jest.fn(),
     createUser: jest.fn(),
     findById: jest.fn(),
+    createRefreshToken: jest.fn(),
+    findRefreshTokenByHash: jest.fn(),
+    rotateRefreshToken: jest.fn(),
+    revokeRefreshTokenFamily: jest.fn(),
+    revokeAllRefreshTokens: jest.fn(),
+    incrementTokenVersion: jest.fn(),
+    markPhoneVerified: jest.fn(),
+    updatePassword: jest.fn(),
+    findAuthorization: jest.fn().mockResolvedValue(customerAuthorization),
+    findRolesByName: jest.fn(),
+    replaceUserRoles: jest.fn(),
   };
 
   const mockJwtService = {
     sign: jest.fn(),
+    verifyAsync: jest.fn(),
+  };
+
+  const signOptions = { algorithm: 'RS256', keyid: 'test-kid' };
+  const mockKeysService = {
+    signOptions: jest.fn().mockReturnValue(signOptions),
+  };
+
+  const mockTokenRevocationService = {
+    revoke: jest.fn(),
+    isRevoked: jest.fn().mockResolvedValue(false),
+    publishTokenVersion: jest.fn(),
+  };
+
+  const mockOtpService = {
+    issue: jest.fn(),
     verify: jest.fn(),
   };
 
+  const mockLoginAttemptService = {
+    assertCanAttempt: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+    unlock: jest.fn(),
+  };
+
+  const mockMfaService = {
+    verifyCode: jest.fn(),
+  };
+
+  const mockSmsSender = {
+    send: jest.fn(),
+  };
+
+  const mockEmailSender = {
+    send: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -56,6 +136,34 @@ describe('AuthService', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: TokenRevocationService,
+          useValue: mockTokenRevocationService,
+        },
+        {
+          provide: OtpService,
+          useValue: mockOtpService,
+        },
+        {
+          provide: LoginAttemptService,
+          useValue: mockLoginAttemptService,
+        },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
+        {
+          provide: KeysService,
+          useValue: mockKeysService,
+        },
+        {
+          provide: SMS_SENDER,
+          useValue: mockSmsSender,
+        },
+        {
+          provide: EMAIL_SENDER,
+          useValue: mockEmailSender,
+        },
       ],
     }).compile();
 
@@ -76,6 +184,13 @@ describe('AuthService', () => {
       password: 'password123',
     };
 
+    beforeEach(() => {
+      mockOtpService.issue.mockResolvedValue({
+        code: '123456',
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+      });
+    });
+
     it('should register a new user successfully with email', async () => {
       mockRepository.findByPhoneNumber.mockResolvedValue(null);
       mockRepository.findByEmail.mockResolvedValue(null);
@@ -87,28 +202,49 @@ describe('AuthService', () => {
 
       const result = await service.register(registerDto);
 
-      expect(result).toHaveProperty('access_token');
+      expect(result).not.toHaveProperty('access_token');
       expect(result).toHaveProperty('user_id');
       expect(result).toHaveProperty('phone_number');
       expect(result).toHaveProperty('email');
-      expect(result.access_token).toBe('mock-jwt-token');
+      expect(result.phone_verified).toBe(false);
+      expect(result.expires_at).toEqual(expect.any(Date));
       expect(result.user_id).toBe(mockUser.id);
       expect(result.phone_number).toBe(registerDto.phone_number);
       expect(result.email).toBe(registerDto.email);
       expect(mockRepository.findByPhoneNumber).toHaveBeenCalledWith(
         registerDto.phone_number,
       );
-      expect(mockRepository.findByEmail).toHaveBeenCalledWith(registerDto.email);
+      expect(mockRepository.findByEmail).toHaveBeenCalledWith(
+        registerDto.email,
+      );
       expect(bcrypt.hash).toHaveBeenCalledWith(registerDto.password, 10);
       expect(mockRepository.createUser).toHaveBeenCalledWith({
         email: registerDto.email,
         phone_number: registerDto.phone_number,
         password: 'hashedPassword123',
       });
-      expect(mockJwtService.sign).toHaveBeenCalledWith({
-        sub: mockUser.id,
-        phone_number: mockUser.phone_number,
-      });
+      expect(mockOtpService.issue).toHaveBeenCalledWith(
+        mockUser.id,
+        OneTimeCodePurpose.PHONE_VERIFICATION,
+      );
+      expect(mockSmsSender.send).toHaveBeenCalledWith(
+        mockUser.phone_number,
+        expect.stringContaining('123456'),
+      );
+      expect(mockJwtService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should still register the user when the SMS cannot be sent', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(null);
+      mockRepository.findByEmail.mockResolvedValue(null);
+      mockRepository.createUser.mockResolvedValue(mockUser);
+      mockSmsSender.send.mockRejectedValueOnce(new Error('Gateway down'));
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashedPassword123');
+
+      const result = await service.register(registerDto);
+
+      expect(result.user_id).toBe(mockUser.id);
+      expect(result.phone_verified).toBe(false);
     });
 
     it('should register a new user successfully without email', async () => {
@@ -125,7 +261,6 @@ describe('AuthService', () => {
 
       const result = await service.register(registerDtoNoEmail);
 
-      expect(result).toHaveProperty('access_token');
       expect(result.user_id).toBe(mockUserWithoutEmail.id);
       expect(result.phone_number).toBe(registerDtoNoEmail.phone_number);
       expect(result.email).toBeUndefined();
@@ -168,7 +303,9 @@ describe('AuthService', () => {
       expect(mockRepository.findByPhoneNumber).toHaveBeenCalledWith(
         registerDto.phone_number,
       );
-      expect(mockRepository.findByEmail).toHaveBeenCalledWith(registerDto.email);
+      expect(mockRepository.findByEmail).toHaveBeenCalledWith(
+        registerDto.email,
+      );
       expect(mockRepository.createUser).not.toHaveBeenCalled();
     });
 
@@ -197,13 +334,17 @@ describe('AuthService', () => {
       phone_number: '+256700000000',
       password: 'password123',
     };
+    const clientIp = '203.0.113.10';
 
     it('should login successfully with valid credentials', async () => {
       mockRepository.findByPhoneNumber.mockResolvedValue(mockUser);
       (bcrypt.compare as jest.Mock).mockResolvedValue(true);
       mockJwtService.sign.mockReturnValue('mock-jwt-token');
 
-      const result = await service.login(loginDto);
+      const result = (await service.login(
+        loginDto,
+        clientIp,
+      )) as AuthResponseDto;
 
       expect(result).toHaveProperty('access_token');
       expect(result).toHaveProperty('user_id');
@@ -219,10 +360,26 @@ describe('AuthService', () => {
         loginDto.password,
         mockUser.password,
       );
-      expect(mockJwtService.sign).toHaveBeenCalledWith({
-        sub: mockUser.id,
-        phone_number: mockUser.phone_number,
-      });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        {
+          sub: mockUser.id,
+          phone_number: mockUser.phone_number,
+          email: mockUser.email,
+          client_id: TOKEN_CLIENT_ID,
+          jti: expect.any(String) as string,
+          ver: mockUser.token_version,
+          roles: customerAuthorization.roles,
+          permissions: customerAuthorization.permissions,
+        },
+        signOptions,
+      );
+      expect(mockLoginAttemptService.assertCanAttempt).toHaveBeenCalledWith(
+        loginDto.phone_number,
+        clientIp,
+      );
+      expect(mockLoginAttemptService.recordSuccess).toHaveBeenCalledWith(
+        loginDto.phone_number,
+      );
     });
 
     it('should login successfully with user without email', async () => {
@@ -230,7 +387,10 @@ describe('AuthService', () => {
       (bcrypt.compare as jest.Mock).mockResolvedValue(true);
       mockJwtService.sign.mockReturnValue('mock-jwt-token');
 
-      const result = await service.login(loginDto);
+      const result = (await service.login(
+        loginDto,
+        clientIp,
+      )) as AuthResponseDto;
 
       expect(result.email).toBeUndefined();
       expect(result.phone_number).toBe(mockUserWithoutEmail.phone_number);
@@ -239,10 +399,10 @@ describe('AuthService', () => {
     it('should throw UnauthorizedException when user not found', async () => {
       mockRepository.findByPhoneNumber.mockResolvedValue(null);
 
-      await expect(service.login(loginDto)).rejects.toThrow(
+      await expect(service.login(loginDto, clientIp)).rejects.toThrow(
         UnauthorizedException,
       );
-      await expect(service.login(loginDto)).rejects.toThrow(
+      await expect(service.login(loginDto, clientIp)).rejects.toThrow(
         'Invalid phone number or password',
       );
       expect(mockRepository.findByPhoneNumber).toHaveBeenCalledWith(
@@ -252,14 +412,28 @@ describe('AuthService', () => {
       expect(mockJwtService.sign).not.toHaveBeenCalled();
     });
 
+    it('should throw ForbiddenException when phone number is not verified', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue({
+        ...mockUser,
+        phone_verified_at: null,
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+      await expect(service.login(loginDto, clientIp)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockRepository.createRefreshToken).not.toHaveBeenCalled();
+      expect(mockJwtService.sign).not.toHaveBeenCalled();
+    });
+
     it('should throw UnauthorizedException when password is invalid', async () => {
       mockRepository.findByPhoneNumber.mockResolvedValue(mockUser);
       (bcrypt.compare as jest.Mock).mockResolvedValue(false);
 
-      await expect(service.login(loginDto)).rejects.toThrow(
+      await expect(service.login(loginDto, clientIp)).rejects.toThrow(
         UnauthorizedException,
       );
-      await expect(service.login(loginDto)).rejects.toThrow(
+      await expect(service.login(loginDto, clientIp)).rejects.toThrow(
         'Invalid phone number or password',
       );
       expect(mockRepository.findByPhoneNumber).toHaveBeenCalledWith(
@@ -270,6 +444,578 @@ describe('AuthService', () => {
         mockUser.password,
       );
       expect(mockJwtService.sign).not.toHaveBeenCalled();
+      expect(mockLoginAttemptService.recordFailure).toHaveBeenCalledWith(
+        loginDto.phone_number,
+        clientIp,
+      );
+      expect(mockLoginAttemptService.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should record a failed attempt when user not found', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(null);
+
+      await expect(service.login(loginDto, clientIp)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockLoginAttemptService.recordFailure).toHaveBeenCalledWith(
+        loginDto.phone_number,
+        clientIp,
+      );
+    });
+
+    it('should reject a locked account without checking the password', async () => {
+      mockLoginAttemptService.assertCanAttempt.mockRejectedValueOnce(
+        new AccountLockedException(600),
+      );
+
+      await expect(service.login(loginDto, clientIp)).rejects.toThrow(
+        AccountLockedException,
+      );
+      expect(mockRepository.findByPhoneNumber).not.toHaveBeenCalled();
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+      expect(mockLoginAttemptService.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue({
+        ...mockUser,
+        mfa_enabled_at: new Date(),
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      mockJwtService.sign.mockReturnValue('mfa-challenge-token');
+
+      const result = await service.login(loginDto, clientIp);
+
+      expect(result).toEqual({
+        mfa_required: true,
+        mfa_token: 'mfa-challenge-token',
+        expires_in: expect.any(Number) as number,
+      });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sub: mockUser.id,
+          typ: MFA_CHALLENGE_TOKEN_TYPE,
+        }),
+        { ...signOptions, expiresIn: expect.any(Number) as number },
+      );
+      expect(mockRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMfa', () => {
+    const mfaUser = { ...mockUser, mfa_enabled_at: new Date() };
+    const challenge = {
+      sub: mfaUser.id,
+      phone_number: mfaUser.phone_number,
+      jti: 'challenge-jti',
+      ver: 0,
+      typ: MFA_CHALLENGE_TOKEN_TYPE,
+      exp: Math.floor(Date.now() / 1000) + 300,
+    };
+    const verifyMfaDto = { mfa_token: 'mfa-challenge-token', code: '123456' };
+    const clientIp = '203.0.113.10';
+
+    it('should issue tokens and spend the challenge when the code is valid', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue(challenge);
+      mockRepository.findById.mockResolvedValue(mfaUser);
+      mockMfaService.verifyCode.mockResolvedValue(true);
+      mockJwtService.sign.mockReturnValue('mock-jwt-token');
+
+      const result = await service.verifyMfa(verifyMfaDto, clientIp);
+
+      expect(result.access_token).toBe('mock-jwt-token');
+      expect(mockMfaService.verifyCode).toHaveBeenCalledWith(mfaUser, '123456');
+      expect(mockTokenRevocationService.revoke).toHaveBeenCalledWith(
+        challenge.jti,
+        challenge.exp,
+      );
+      expect(mockLoginAttemptService.recordSuccess).toHaveBeenCalledWith(
+        mfaUser.phone_number,
+      );
+    });
+
+    it('should record a failed attempt when the code is invalid', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue(challenge);
+      mockRepository.findById.mockResolvedValue(mfaUser);
+      mockMfaService.verifyCode.mockResolvedValue(false);
+
+      await expect(service.verifyMfa(verifyMfaDto, clientIp)).rejects.toThrow(
+        'Invalid authentication code',
+      );
+      expect(mockLoginAttemptService.recordFailure).toHaveBeenCalledWith(
+        mfaUser.phone_number,
+        clientIp,
+      );
+      expect(mockRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject an access token used as MFA token', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        ...challenge,
+        typ: undefined,
+      });
+
+      await expect(service.verifyMfa(verifyMfaDto, clientIp)).rejects.toThrow(
+        'Invalid or expired MFA token',
+      );
+      expect(mockMfaService.verifyCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject a challenge that was already used', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue(challenge);
+      mockRepository.findById.mockResolvedValue(mfaUser);
+      mockTokenRevocationService.isRevoked.mockResolvedValueOnce(true);
+
+      await expect(service.verifyMfa(verifyMfaDto, clientIp)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockMfaService.verifyCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should clear the lockout of the user phone number', async () => {
+      mockRepository.findById.mockResolvedValue(mockUser);
+      mockLoginAttemptService.unlock.mockResolvedValue(true);
+
+      const result = await service.unlockAccount(mockUser.id);
+
+      expect(result.message).toBe('Account unlocked');
+      expect(mockLoginAttemptService.unlock).toHaveBeenCalledWith(
+        mockUser.phone_number,
+      );
+    });
+
+    it('should throw NotFoundException when user not found', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(service.unlockAccount(999)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockLoginAttemptService.unlock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setUserRoles', () => {
+    it('should replace the roles and revoke current access tokens', async () => {
+      mockRepository.findById.mockResolvedValue(mockUser);
+      mockRepository.findRolesByName.mockResolvedValue([
+        { id: 2, name: 'merchant' },
+      ]);
+      mockRepository.findAuthorization.mockResolvedValueOnce({
+        roles: ['merchant'],
+        permissions: ['payments:create', 'payments:read'],
+      });
+      mockRepository.incrementTokenVersion.mockResolvedValue({
+        ...mockUser,
+        token_version: 1,
+      });
+
+      const result = await service.setUserRoles(mockUser.id, ['merchant']);
+
+      expect(result.roles).toEqual(['merchant']);
+      expect(mockRepository.replaceUserRoles).toHaveBeenCalledWith(
+        mockUser.id,
+        [2],
+      );
+      expect(mockRepository.incrementTokenVersion).toHaveBeenCalledWith(
+        mockUser.id,
+      );
+      expect(
+        mockTokenRevocationService.publishTokenVersion,
+      ).toHaveBeenCalledWith(mockUser.id, 1);
+    });
+
+    it('should throw BadRequestException for unknown roles', async () => {
+      mockRepository.findById.mockResolvedValue(mockUser);
+      mockRepository.findRolesByName.mockResolvedValue([
+        { id: 2, name: 'merchant' },
+      ]);
+
+      await expect(
+        service.setUserRoles(mockUser.id, ['merchant', 'superuser']),
+      ).rejects.toThrow('Unknown role(s): superuser');
+      expect(mockRepository.replaceUserRoles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyPhone', () => {
+    const unverifiedUser = { ...mockUser, phone_verified_at: null };
+    const verifyPhoneDto = {
+      phone_number: mockUser.phone_number,
+      code: '123456',
+    };
+
+    it('should verify the phone number and issue tokens', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(unverifiedUser);
+      mockOtpService.verify.mockResolvedValue(undefined);
+      mockRepository.markPhoneVerified.mockResolvedValue(mockUser);
+      mockJwtService.sign.mockReturnValue('mock-jwt-token');
+
+      const result = await service.verifyPhone(verifyPhoneDto);
+
+      expect(result.access_token).toBe('mock-jwt-token');
+      expect(result).toHaveProperty('refresh_token');
+      expect(mockOtpService.verify).toHaveBeenCalledWith(
+        mockUser.id,
+        OneTimeCodePurpose.PHONE_VERIFICATION,
+        verifyPhoneDto.code,
+      );
+      expect(mockRepository.markPhoneVerified).toHaveBeenCalledWith(
+        mockUser.id,
+      );
+    });
+
+    it('should not verify the phone number when the code is rejected', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(unverifiedUser);
+      mockOtpService.verify.mockRejectedValue(
+        new BadRequestException('Verification code is invalid or has expired'),
+      );
+
+      await expect(service.verifyPhone(verifyPhoneDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRepository.markPhoneVerified).not.toHaveBeenCalled();
+      expect(mockJwtService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when phone is already verified', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(mockUser);
+
+      await expect(service.verifyPhone(verifyPhoneDto)).rejects.toThrow(
+        'Phone number is already verified',
+      );
+      expect(mockOtpService.verify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerificationCode', () => {
+    it('should send a new code to an unverified user', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue({
+        ...mockUser,
+        phone_verified_at: null,
+      });
+      mockOtpService.issue.mockResolvedValue({
+        code: '654321',
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+      });
+
+      const result = await service.resendVerificationCode(
+        mockUser.phone_number,
+      );
+
+      expect(result.expires_at).toEqual(expect.any(Date));
+      expect(mockSmsSender.send).toHaveBeenCalledWith(
+        mockUser.phone_number,
+        expect.stringContaining('654321'),
+      );
+    });
+
+    it('should not reveal whether the phone number is registered', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(null);
+
+      const result = await service.resendVerificationCode('+256799999999');
+
+      expect(result.message).toBeDefined();
+      expect(mockOtpService.issue).not.toHaveBeenCalled();
+      expect(mockSmsSender.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    const refreshToken = 'opaque-refresh-token';
+    const storedToken = {
+      id: 10,
+      user_id: mockUser.id,
+      token_hash: 'hash',
+      family_id: 'family-1',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      used_at: null,
+      revoked_at: null,
+      created_at: new Date(),
+      user: mockUser,
+    };
+
+    it('should rotate the refresh token and issue new tokens', async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue(storedToken);
+      mockRepository.rotateRefreshToken.mockResolvedValue({ id: 11 });
+      mockJwtService.sign.mockReturnValue('new-jwt-token');
+
+      const result = await service.refresh(refreshToken);
+
+      expect(result.access_token).toBe('new-jwt-token');
+      expect(result.refresh_token).toEqual(expect.any(String));
+      expect(result.refresh_token).not.toBe(refreshToken);
+      expect(result.user_id).toBe(mockUser.id);
+      expect(mockRepository.findRefreshTokenByHash).toHaveBeenCalledWith(
+        expect.not.stringContaining(refreshToken),
+      );
+      expect(mockRepository.rotateRefreshToken).toHaveBeenCalledWith(
+        storedToken.id,
+        expect.objectContaining({
+          user_id: mockUser.id,
+          family_id: storedToken.family_id,
+        }),
+      );
+      expect(mockRepository.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException when refresh token is unknown', async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue(null);
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow(
+        'Invalid refresh token',
+      );
+      expect(mockRepository.rotateRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole family when a used token is presented again', async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue({
+        ...storedToken,
+        used_at: new Date(),
+      });
+      mockRepository.revokeRefreshTokenFamily.mockResolvedValue(2);
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+      expect(mockRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith(
+        storedToken.family_id,
+      );
+      expect(mockRepository.rotateRefreshToken).not.toHaveBeenCalled();
+      expect(mockJwtService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should treat a lost rotation race as reuse', async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue(storedToken);
+      mockRepository.rotateRefreshToken.mockResolvedValue(null);
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith(
+        storedToken.family_id,
+      );
+    });
+
+    it('should throw UnauthorizedException when refresh token is revoked', async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue({
+        ...storedToken,
+        revoked_at: new Date(),
+      });
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow(
+        'Refresh token has been revoked',
+      );
+      expect(mockRepository.rotateRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException when refresh token is expired', async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue({
+        ...storedToken,
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.refresh(refreshToken)).rejects.toThrow(
+        'Refresh token expired',
+      );
+      expect(mockRepository.rotateRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    const currentUser = {
+      userId: mockUser.id,
+      phone_number: mockUser.phone_number,
+      roles: ['customer'],
+      permissions: ['payments:create', 'payments:read'],
+      jti: 'token-jti',
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    };
+
+    it('should revoke the current access token', async () => {
+      await service.logout(currentUser);
+
+      expect(mockTokenRevocationService.revoke).toHaveBeenCalledWith(
+        currentUser.jti,
+        currentUser.exp,
+      );
+      expect(mockRepository.findRefreshTokenByHash).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the refresh token family of the session', async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue({
+        id: 10,
+        user_id: mockUser.id,
+        family_id: 'family-1',
+      });
+
+      await service.logout(currentUser, 'opaque-refresh-token');
+
+      expect(mockRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith(
+        'family-1',
+      );
+    });
+
+    it("should not revoke another user's refresh token", async () => {
+      mockRepository.findRefreshTokenByHash.mockResolvedValue({
+        id: 10,
+        user_id: 999,
+        family_id: 'family-1',
+      });
+
+      await service.logout(currentUser, 'opaque-refresh-token');
+
+      expect(mockRepository.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should bump the token version and revoke all refresh tokens', async () => {
+      mockRepository.incrementTokenVersion.mockResolvedValue({
+        ...mockUser,
+        token_version: 1,
+      });
+      mockRepository.revokeAllRefreshTokens.mockResolvedValue(3);
+
+      await service.logoutAll(mockUser.id);
+
+      expect(mockRepository.incrementTokenVersion).toHaveBeenCalledWith(
+        mockUser.id,
+      );
+      expect(mockRepository.revokeAllRefreshTokens).toHaveBeenCalledWith(
+        mockUser.id,
+      );
+      expect(
+        mockTokenRevocationService.publishTokenVersion,
+      ).toHaveBeenCalledWith(mockUser.id, 1);
+    });
+  });
+
+  describe('forgotPassword', () => {
+    const genericMessage =
+      'If an account matches, a password reset code has been sent';
+
+    beforeEach(() => {
+      mockOtpService.issue.mockResolvedValue({
+        code: '654321',
+        expiresAt: new Date(Date.now() + 300000),
+      });
+    });
+
+    it('should send the reset code by SMS when identified by phone number', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(mockUser);
+
+      const result = await service.forgotPassword({
+        phone_number: mockUser.phone_number,
+      });
+
+      expect(result.message).toBe(genericMessage);
+      expect(mockOtpService.issue).toHaveBeenCalledWith(
+        mockUser.id,
+        OneTimeCodePurpose.PASSWORD_RESET,
+      );
+      expect(mockSmsSender.send).toHaveBeenCalledWith(
+        mockUser.phone_number,
+        expect.stringContaining('654321'),
+      );
+      expect(mockEmailSender.send).not.toHaveBeenCalled();
+    });
+
+    it('should send the reset code by email when identified by email', async () => {
+      mockRepository.findByEmail.mockResolvedValue(mockUser);
+
+      const result = await service.forgotPassword({ email: mockUser.email });
+
+      expect(result.message).toBe(genericMessage);
+      expect(mockEmailSender.send).toHaveBeenCalledWith(
+        mockUser.email,
+        expect.any(String),
+        expect.stringContaining('654321'),
+      );
+      expect(mockSmsSender.send).not.toHaveBeenCalled();
+    });
+
+    it('should return the same response when no account matches', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(null);
+
+      const result = await service.forgotPassword({
+        phone_number: '+256799999999',
+      });
+
+      expect(result.message).toBe(genericMessage);
+      expect(mockOtpService.issue).not.toHaveBeenCalled();
+      expect(mockSmsSender.send).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal throttling to the caller', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(mockUser);
+      mockOtpService.issue.mockRejectedValue(
+        new HttpException('Too many', HttpStatus.TOO_MANY_REQUESTS),
+      );
+
+      const result = await service.forgotPassword({
+        phone_number: mockUser.phone_number,
+      });
+
+      expect(result.message).toBe(genericMessage);
+      expect(mockSmsSender.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const resetPasswordDto = {
+      phone_number: mockUser.phone_number,
+      code: '654321',
+      new_password: 'newPassword123',
+    };
+
+    it('should update the password and revoke all sessions', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(mockUser);
+      mockOtpService.verify.mockResolvedValue(undefined);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('newHashedPassword');
+
+      const result = await service.resetPassword(resetPasswordDto);
+
+      expect(result.message).toContain('Password has been reset');
+      expect(mockOtpService.verify).toHaveBeenCalledWith(
+        mockUser.id,
+        OneTimeCodePurpose.PASSWORD_RESET,
+        '654321',
+      );
+      expect(bcrypt.hash).toHaveBeenCalledWith('newPassword123', 10);
+      expect(mockRepository.updatePassword).toHaveBeenCalledWith(
+        mockUser.id,
+        'newHashedPassword',
+      );
+      expect(mockRepository.incrementTokenVersion).toHaveBeenCalledWith(
+        mockUser.id,
+      );
+      expect(mockRepository.revokeAllRefreshTokens).toHaveBeenCalledWith(
+        mockUser.id,
+      );
+    });
+
+    it('should throw BadRequestException when no account matches', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(null);
+
+      await expect(service.resetPassword(resetPasswordDto)).rejects.toThrow(
+        'Reset code is invalid or has expired',
+      );
+      expect(mockRepository.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should not change the password when the code is rejected', async () => {
+      mockRepository.findByPhoneNumber.mockResolvedValue(mockUser);
+      mockOtpService.verify.mockRejectedValue(
+        new BadRequestException('Verification code is invalid or has expired'),
+      );
+
+      await expect(service.resetPassword(resetPasswordDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRepository.updatePassword).not.toHaveBeenCalled();
+      expect(mockRepository.incrementTokenVersion).not.toHaveBeenCalled();
     });
   });
 
@@ -279,68 +1025,165 @@ describe('AuthService', () => {
 
     it('should verify token successfully when token is valid and user exists', async () => {
       const payload = { sub: mockUser.id, phone_number: mockUser.phone_number };
-      mockJwtService.verify.mockReturnValue(payload);
+      mockJwtService.verifyAsync.mockResolvedValue(payload);
       mockRepository.findById.mockResolvedValue(mockUser);
 
       const result = await service.verifyToken(validToken);
 
-      expect(result.valid).toBe(true);
-      expect(result.user_id).toBe(mockUser.id);
+      expect(result.active).toBe(true);
+      expect(result.sub).toBe(String(mockUser.id));
       expect(result.error).toBeUndefined();
-      expect(mockJwtService.verify).toHaveBeenCalledWith(validToken);
+      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(validToken);
       expect(mockRepository.findById).toHaveBeenCalledWith(mockUser.id);
     });
 
+    it('should return the identity and claims carried by the token', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: mockUser.id,
+        phone_number: mockUser.phone_number,
+        client_id: TOKEN_CLIENT_ID,
+        jti: 'token-jti',
+        ver: 0,
+        iat: 1760799600,
+        exp: 1760803200,
+        ...customerAuthorization,
+      });
+      mockRepository.findById.mockResolvedValue(mockUser);
+
+      const result = await service.verifyToken(validToken);
+
+      expect(result).toEqual({
+        active: true,
+        sub: String(mockUser.id),
+        phone_number: mockUser.phone_number,
+        email: mockUser.email,
+        roles: customerAuthorization.roles,
+        scope: customerAuthorization.permissions.join(' '),
+        client_id: TOKEN_CLIENT_ID,
+        token_type: 'Bearer',
+        exp: 1760803200,
+        iat: 1760799600,
+        jti: 'token-jti',
+      });
+    });
+
+    it('should omit the email of users without one', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: mockUserWithoutEmail.id,
+        phone_number: mockUserWithoutEmail.phone_number,
+      });
+      mockRepository.findById.mockResolvedValue(mockUserWithoutEmail);
+
+      const result = await service.verifyToken(validToken);
+
+      expect(result.active).toBe(true);
+      expect(result.email).toBeUndefined();
+      expect(result.scope).toBe('');
+    });
+
+    it('should return invalid for an MFA challenge token', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: mockUser.id,
+        phone_number: mockUser.phone_number,
+        typ: MFA_CHALLENGE_TOKEN_TYPE,
+      });
+
+      const result = await service.verifyToken(validToken);
+
+      expect(result.active).toBe(false);
+      expect(result.error).toBe('Not an access token');
+      expect(mockRepository.findById).not.toHaveBeenCalled();
+    });
+
     it('should return invalid when token is valid but user not found', async () => {
       const payload = { sub: 999, phone_number: '+256700000000' };
-      mockJwtService.verify.mockReturnValue(payload);
+      mockJwtService.verifyAsync.mockResolvedValue(payload);
       mockRepository.findById.mockResolvedValue(null);
 
       const result = await service.verifyToken(validToken);
 
-      expect(result.valid).toBe(false);
+      expect(result.active).toBe(false);
       expect(result.error).toBe('User not found');
-      expect(result.user_id).toBeUndefined();
-      expect(mockJwtService.verify).toHaveBeenCalledWith(validToken);
+      expect(result.sub).toBeUndefined();
+      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(validToken);
       expect(mockRepository.findById).toHaveBeenCalledWith(999);
     });
 
+    it('should return invalid when token jti has been revoked', async () => {
+      const payload = {
+        sub: mockUser.id,
+        phone_number: mockUser.phone_number,
+        jti: 'revoked-jti',
+        ver: 0,
+      };
+      mockJwtService.verifyAsync.mockResolvedValue(payload);
+      mockRepository.findById.mockResolvedValue(mockUser);
+      mockTokenRevocationService.isRevoked.mockResolvedValueOnce(true);
+
+      const result = await service.verifyToken(validToken);
+
+      expect(result.active).toBe(false);
+      expect(result.error).toBe('Token has been revoked');
+      expect(mockTokenRevocationService.isRevoked).toHaveBeenCalledWith(
+        'revoked-jti',
+      );
+    });
+
+    it('should return invalid when token version is outdated', async () => {
+      const payload = {
+        sub: mockUser.id,
+        phone_number: mockUser.phone_number,
+        jti: 'old-jti',
+        ver: 0,
+      };
+      mockJwtService.verifyAsync.mockResolvedValue(payload);
+      mockRepository.findById.mockResolvedValue({
+        ...mockUser,
+        token_version: 1,
+      });
+
+      const result = await service.verifyToken(validToken);
+
+      expect(result.active).toBe(false);
+      expect(result.error).toBe('Token has been revoked');
+    });
+
     it('should return invalid when token is invalid (JWT error)', async () => {
       const jwtError = new Error('Token expired');
-      mockJwtService.verify.mockImplementation(() => {
+      mockJwtService.verifyAsync.mockImplementation(() => {
         throw jwtError;
       });
 
       const result = await service.verifyToken(invalidToken);
 
-      expect(result.valid).toBe(false);
+      expect(result.active).toBe(false);
       expect(result.error).toBe('Token expired');
-      expect(result.user_id).toBeUndefined();
-      expect(mockJwtService.verify).toHaveBeenCalledWith(invalidToken);
+      expect(result.sub).toBeUndefined();
+      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(invalidToken);
       expect(mockRepository.findById).not.toHaveBeenCalled();
     });
 
     it('should return invalid when token verification throws error without message', async () => {
       const jwtError = new Error();
-      mockJwtService.verify.mockImplementation(() => {
+      mockJwtService.verifyAsync.mockImplementation(() => {
         throw jwtError;
       });
 
       const result = await service.verifyToken(invalidToken);
 
-      expect(result.valid).toBe(false);
+      expect(result.active).toBe(false);
       expect(result.error).toBe('Invalid token');
-      expect(result.user_id).toBeUndefined();
+      expect(result.sub).toBeUndefined();
     });
 
     it('should handle non-Error exceptions', async () => {
-      mockJwtService.verify.mockImplementation(() => {
+      mockJwtService.verifyAsync.mockImplementation(() => {
         throw 'String error';
       });
 
       const result = await service.verifyToken(invalidToken);
 
-      expect(result.valid).toBe(false);
+      expect(result.active).toBe(false);
       expect(result.error).toBe('Invalid token');
     });
   });
@@ -366,4 +1209,3 @@ describe('AuthService', () => {
     });
   });
 });
-
@@ -2,25 +2,72 @@ import {
   Injectable,
   ConflictException,
   UnauthorizedException,
+  ForbiddenException,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Logger,
+  NotFoundException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { OneTimeCodePurpose, User } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
 import { AuthRepository } from './auth.repository';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import {
   AuthResponseDto,
+  MessageResponseDto,
+  MfaChallengeResponseDto,
+  RegisterResponseDto,
+  UserRolesResponseDto,
+  VerificationCodeSentDto,
   VerifyTokenResponseDto,
 } from './dto/auth-response.dto';
+import { VerifyPhoneDto } from './dto/verify-phone.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  MFA_CHALLENGE_TOKEN_TYPE,
+  MFA_CHALLENGE_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_DAYS,
+  TOKEN_CLIENT_ID,
+} from './auth.constants';
+import { TokenRevocationService } from './token-revocation.service';
+import { OtpService } from './otp.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { MfaService } from './mfa.service';
+import { VerifyMfaDto } from './dto/mfa.dto';
+import { SMS_SENDER } from '../notifications/sms-sender.interface';
+import type { SmsSender } from '../notifications/sms-sender.interface';
+import { EMAIL_SENDER } from '../notifications/email-sender.interface';
+import type { EmailSender } from '../notifications/email-sender.interface';
+import { KeysService } from '../keys/keys.service';
+import {
+  AuthenticatedUser,
+  JwtPayload,
+} from './interfaces/jwt-payload.interface';
+import { generateOpaqueToken, sha256 } from '../common/utils/crypto.util';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly authRepository: AuthRepository,
     private readonly jwtService: JwtService,
-  ) { }
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly otpService: OtpService,
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly mfaService: MfaService,
+    private readonly keysService: KeysService,
+    @Inject(SMS_SENDER) private readonly smsSender: SmsSender,
+    @Inject(EMAIL_SENDER) private readonly emailSender: EmailSender,
+  ) {}
 
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(registerDto: RegisterDto): Promise<RegisterResponseDto> {
     const existingUserByPhone = await this.authRepository.findByPhoneNumber(
       registerDto.phone_number,
     );
@@ -45,22 +92,69 @@ export class AuthService {
       password: hashedPassword,
     });
 
-    const payload = { sub: user.id, phone_number: user.phone_number };
-    const access_token = this.jwtService.sign(payload);
+    const { message, expires_at } = await this.sendVerificationCode(user);
 
     return {
-      access_token,
+      message,
+      expires_at,
       user_id: user.id,
       email: user.email || undefined,
       phone_number: user.phone_number,
+      phone_verified: false,
     };
   }
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async verifyPhone(verifyPhoneDto: VerifyPhoneDto): Promise<AuthResponseDto> {
+    const user = await this.authRepository.findByPhoneNumber(
+      verifyPhoneDto.phone_number,
+    );
+    if (!user) {
+      throw new BadRequestException(
+        'Verification code is invalid or has expired',
+      );
+    }
+    if (user.phone_verified_at) {
+      throw new BadRequestException('Phone number is already verified');
+    }
+
+    await this.otpService.verify(
+      user.id,
+      OneTimeCodePurpose.PHONE_VERIFICATION,
+      verifyPhoneDto.code,
+    );
+    const verifiedUser = await this.authRepository.markPhoneVerified(user.id);
+
+    this.logger.log(`Phone number verified for user ${user.id}`);
+    return this.issueTokens(verifiedUser);
+  }
+
+  async resendVerificationCode(
+    phoneNumber: string,
+  ): Promise<VerificationCodeSentDto> {
+    const user = await this.authRepository.findByPhoneNumber(phoneNumber);
+    if (!user || user.phone_verified_at) {
+      // Same answer whether or not there is anything to verify
+      return {
+        message:
+          'If this phone number awaits verification, a new code has been sent',
+      };
+    }
+
+    return this.sendVerificationCode(user);
+  }
+
+  async login(
+    loginDto: LoginDto,
+    ip: string,
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
+    // Rejects locked accounts and clients before any password is compared
+    await this.loginAttemptService.assertCanAttempt(loginDto.phone_number, ip);
+
     const user = await this.authRepository.findByPhoneNumber(
       loginDto.phone_number,
     );
     if (!user) {
+      await this.loginAttemptService.recordFailure(loginDto.phone_number, ip);
       throw new UnauthorizedException('Invalid phone number or password');
     }
 
@@ -69,39 +163,326 @@ export class AuthService {
       user.password,
     );
     if (!isPasswordValid) {
+      await this.loginAttemptService.recordFailure(loginDto.phone_number, ip);
       throw new UnauthorizedException('Invalid phone number or password');
     }
 
-    const payload = { sub: user.id, phone_number: user.phone_number };
-    const access_token = this.jwtService.sign(payload);
+    await this.loginAttemptService.recordSuccess(loginDto.phone_number);
+
+    if (!user.phone_verified_at) {
+      throw new ForbiddenException(
+        'Phone number not verified. Verify it with the code sent by SMS',
+      );
+    }
+
+    if (user.mfa_enabled_at) {
+      return this.createMfaChallenge(user);
+    }
+
+    return this.issueTokens(user);
+  }
+
+  /**
+   * Second step of login for accounts with MFA: exchange the challenge token
+   * from `login` and a TOTP or recovery code for access and refresh tokens.
+   */
+  async verifyMfa(
+    verifyMfaDto: VerifyMfaDto,
+    ip: string,
+  ): Promise<AuthResponseDto> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(
+        verifyMfaDto.mfa_token,
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+    if (payload.typ !== MFA_CHALLENGE_TOKEN_TYPE) {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+
+    const user = await this.authRepository.findById(payload.sub);
+    if (!user || (await this.isRevoked(payload, user))) {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await this.loginAttemptService.assertCanAttempt(user.phone_number, ip);
+    const valid = await this.mfaService.verifyCode(user, verifyMfaDto.code);
+    if (!valid) {
+      await this.loginAttemptService.recordFailure(user.phone_number, ip);
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+    await this.loginAttemptService.recordSuccess(user.phone_number);
+
+    // A challenge completes a single login
+    if (payload.jti && payload.exp) {
+      await this.tokenRevocationService.revoke(payload.jti, payload.exp);
+    }
+
+    return this.issueTokens(user);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthResponseDto> {
+    const stored = await this.authRepository.findRefreshTokenByHash(
+      sha256(refreshToken),
+    );
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (stored.used_at) {
+      // A consumed token presented again means it leaked: kill the whole family
+      await this.revokeFamilyOnReuse(stored.family_id, stored.user_id);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    if (stored.revoked_at) {
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    if (stored.expires_at.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const next = this.generateRefreshToken();
+    const rotated = await this.authRepository.rotateRefreshToken(stored.id, {
+      user_id: stored.user_id,
+      token_hash: next.hash,
+      family_id: stored.family_id,
+      expires_at: next.expiresAt,
+    });
+    if (!rotated) {
+      // Lost a race against another refresh with the same token
+      await this.revokeFamilyOnReuse(stored.family_id, stored.user_id);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    return this.buildAuthResponse(stored.user, next.token);
+  }
+
+  /**
+   * Revoke the caller's access token and, if given, the refresh token
+   * family of the same session
+   */
+  async logout(
+    currentUser: AuthenticatedUser,
+    refreshToken?: string,
+  ): Promise<void> {
+    if (currentUser.jti && currentUser.exp) {
+      await this.tokenRevocationService.revoke(
+        currentUser.jti,
+        currentUser.exp,
+      );
+    }
+
+    if (refreshToken) {
+      const stored = await this.authRepository.findRefreshTokenByHash(
+        sha256(refreshToken),
+      );
+      if (stored && stored.user_id === currentUser.userId) {
+        await this.authRepository.revokeRefreshTokenFamily(stored.family_id);
+      }
+    }
+
+    this.logger.log(`User ${currentUser.userId} logged out`);
+  }
+
+  /**
+   * Revoke every access and refresh token of the user, on all devices
+   */
+  async logoutAll(userId: number): Promise<void> {
+    await this.revokeAccessTokens(userId);
+    const revoked = await this.authRepository.revokeAllRefreshTokens(userId);
+
+    this.logger.log(
+      `User ${userId} logged out of all sessions, revoked ${revoked} refresh token(s)`,
+    );
+  }
+
+  /**
+   * Send a password reset code by SMS or email. The response is the same
+   * whether or not an account matches, so it cannot be used to probe for
+   * registered phone numbers or emails.
+   */
+  async forgotPassword(
+    forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<MessageResponseDto> {
+    const response = {
+      message: 'If an account matches, a password reset code has been sent',
+    };
+
+    const user = await this.findUserForPasswordReset(forgotPasswordDto);
+    if (!user) {
+      return response;
+    }
+
+    let issued: { code: string; expiresAt: Date };
+    try {
+      issued = await this.otpService.issue(
+        user.id,
+        OneTimeCodePurpose.PASSWORD_RESET,
+      );
+    } catch (error) {
+      if (
+        error instanceof HttpException &&
+        error.getStatus() === (HttpStatus.TOO_MANY_REQUESTS as number)
+      ) {
+        // Throttled silently: a 429 would reveal that the account exists
+        this.logger.warn(`Password reset throttled for user ${user.id}`);
+        return response;
+      }
+      throw error;
+    }
+
+    const minutes = Math.round(
+      (issued.expiresAt.getTime() - Date.now()) / 60000,
+    );
+    const message = `Your Opareta password reset code is ${issued.code}. It expires in ${minutes} minutes. If you did not request it, ignore this message.`;
+    try {
+      if (forgotPasswordDto.phone_number) {
+        await this.smsSender.send(user.phone_number, message);
+      } else if (user.email) {
+        await this.emailSender.send(
+          user.email,
+          'Reset your Opareta password',
+          message,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset code to user ${user.id}: ${(error as Error).message}`,
+      );
+    }
+
+    this.logger.log(`Password reset requested for user ${user.id}`);
+    return response;
+  }
+
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+  ): Promise<MessageResponseDto> {
+    const user = await this.findUserForPasswordReset(resetPasswordDto);
+    if (!user) {
+      throw new BadRequestException('Reset code is invalid or has expired');
+    }
+
+    await this.otpService.verify(
+      user.id,
+      OneTimeCodePurpose.PASSWORD_RESET,
+      resetPasswordDto.code,
+    );
+
+    const hashedPassword = await bcrypt.hash(resetPasswordDto.new_password, 10);
+    await this.authRepository.updatePassword(user.id, hashedPassword);
+
+    // Whoever knew the old password must not keep a session
+    await this.logoutAll(user.id);
+
+    this.logger.log(`Password reset completed for user ${user.id}`);
+    return {
+      message: 'Password has been reset. Please log in with your new password',
+    };
+  }
+
+  async unlockAccount(userId: number): Promise<MessageResponseDto> {
+    const user = await this.authRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const wasLocked = await this.loginAttemptService.unlock(user.phone_number);
+    this.logger.log(
+      `Account ${user.id} unlocked by an administrator (was locked: ${wasLocked})`,
+    );
 
     return {
-      access_token,
-      user_id: user.id,
-      email: user.email || undefined,
-      phone_number: user.phone_number,
+      message: wasLocked
+        ? 'Account unlocked'
+        : 'Account was not locked; failed login history cleared',
     };
   }
 
+  /**
+   * Replace the roles of a user. Access tokens issued before the change are
+   * revoked so stale claims stop working; refresh tokens stay valid and pick
+   * up the new roles on the next refresh.
+   */
+  async setUserRoles(
+    userId: number,
+    roleNames: string[],
+  ): Promise<UserRolesResponseDto> {
+    const user = await this.authRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const names = [...new Set(roleNames)];
+    const roles = await this.authRepository.findRolesByName(names);
+    if (roles.length !== names.length) {
+      const known = roles.map((role) => role.name);
+      const unknown = names.filter((name) => !known.includes(name));
+      throw new BadRequestException(`Unknown role(s): ${unknown.join(', ')}`);
+    }
+
+    await this.authRepository.replaceUserRoles(
+      user.id,
+      roles.map((role) => role.id),
+    );
+    await this.revokeAccessTokens(user.id);
+
+    this.logger.log(`Roles of user ${user.id} set to [${names.join(', ')}]`);
+    const authorization = await this.authRepository.findAuthorization(user.id);
+    return { user_id: user.id, ...authorization };
+  }
+
+  /**
+   * RFC 7662-style introspection: identity and claims of an active access
+   * token, or `active: false` with the reason.
+   */
   async verifyToken(token: string): Promise<VerifyTokenResponseDto> {
     try {
-      const payload = this.jwtService.verify(token);
+      const payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+      if (payload.typ === MFA_CHALLENGE_TOKEN_TYPE) {
+        return {
+          active: false,
+          error: 'Not an access token',
+        };
+      }
+
       const user = await this.authRepository.findById(payload.sub);
 
       if (!user) {
         return {
-          valid: false,
+          active: false,
           error: 'User not found',
         };
       }
 
+      if (await this.isRevoked(payload, user)) {
+        return {
+          active: false,
+          error: 'Token has been revoked',
+        };
+      }
+
       return {
-        valid: true,
-        user_id: user.id,
+        active: true,
+        sub: String(user.id),
+        phone_number: user.phone_number,
+        email: user.email || undefined,
+        roles: payload.roles ?? [],
+        scope: (payload.permissions ?? []).join(' '),
+        client_id: payload.client_id,
+        token_type: 'Bearer',
+        exp: payload.exp,
+        iat: payload.iat,
+        jti: payload.jti,
       };
     } catch (error) {
       return {
-        valid: false,
+        active: false,
         error: error.message || 'Invalid token',
       };
     }
@@ -114,4 +495,157 @@ export class AuthService {
     }
     return user;
   }
+
+  async validateTokenPayload(payload: JwtPayload): Promise<User> {
+    if (payload.typ === MFA_CHALLENGE_TOKEN_TYPE) {
+      throw new UnauthorizedException('Not an access token');
+    }
+    const user = await this.validateUser(payload.sub);
+    if (await this.isRevoked(payload, user)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+    return user;
+  }
+
+  /**
+   * Invalidate every access token of the user by bumping the version
+   * claim they are checked against
+   */
+  private async revokeAccessTokens(userId: number): Promise<void> {
+    const user = await this.authRepository.incrementTokenVersion(userId);
+    await this.tokenRevocationService.publishTokenVersion(
+      user.id,
+      user.token_version,
+    );
+  }
+
+  private async isRevoked(payload: JwtPayload, user: User): Promise<boolean> {
+    // Tokens issued before the version claim existed count as version 0
+    if ((payload.ver ?? 0) !== user.token_version) {
+      return true;
+    }
+    return payload.jti
+      ? this.tokenRevocationService.isRevoked(payload.jti)
+      : false;
+  }
+
+  private async findUserForPasswordReset(
+    dto: ForgotPasswordDto,
+  ): Promise<User | null> {
+    if (dto.phone_number) {
+      return this.authRepository.findByPhoneNumber(dto.phone_number);
+    }
+    if (dto.email) {
+      return this.authRepository.findByEmail(dto.email);
+    }
+    return null;
+  }
+
+  private async sendVerificationCode(
+    user: User,
+  ): Promise<VerificationCodeSentDto> {
+    const { code, expiresAt } = await this.otpService.issue(
+      user.id,
+      OneTimeCodePurpose.PHONE_VERIFICATION,
+    );
+
+    try {
+      await this.smsSender.send(
+        user.phone_number,
+        `Your Opareta verification code is ${code}. It expires in ${Math.round((expiresAt.getTime() - Date.now()) / 60000)} minutes.`,
+      );
+    } catch (error) {
+      // The code is stored, so the user can still ask for a resend
+      this.logger.error(
+        `Failed to send verification SMS to user ${user.id}: ${(error as Error).message}`,
+      );
+    }
+
+    return {
+      message: 'A verification code has been sent to your phone number',
+      expires_at: expiresAt,
+    };
+  }
+
+  private async issueTokens(user: User): Promise<AuthResponseDto> {
+    const refresh = this.generateRefreshToken();
+    await this.authRepository.createRefreshToken({
+      user_id: user.id,
+      token_hash: refresh.hash,
+      family_id: randomUUID(),
+      expires_at: refresh.expiresAt,
+    });
+
+    return this.buildAuthResponse(user, refresh.token);
+  }
+
+  private async buildAuthResponse(
+    user: User,
+    refreshToken: string,
+  ): Promise<AuthResponseDto> {
+    const { roles, permissions } = await this.authRepository.findAuthorization(
+      user.id,
+    );
+    const payload: JwtPayload = {
+      sub: user.id,
+      phone_number: user.phone_number,
+      email: user.email || undefined,
+      client_id: TOKEN_CLIENT_ID,
+      jti: randomUUID(),
+      ver: user.token_version,
+      roles,
+      permissions,
+    };
+    const access_token = this.jwtService.sign(
+      payload,
+      this.keysService.signOptions(),
+    );
+
+    return {
+      access_token,
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      user_id: user.id,
+      email: user.email || undefined,
+      phone_number: user.phone_number,
+    };
+  }
+
+  private createMfaChallenge(user: User): MfaChallengeResponseDto {
+    const payload: JwtPayload = {
+      sub: user.id,
+      phone_number: user.phone_number,
+      jti: randomUUID(),
+      ver: user.token_version,
+      typ: MFA_CHALLENGE_TOKEN_TYPE,
+    };
+
+    return {
+      mfa_required: true,
+      mfa_token: this.jwtService.sign(payload, {
+        ...this.keysService.signOptions(),
+        expiresIn: MFA_CHALLENGE_TTL_SECONDS,
+      }),
+      expires_in: MFA_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  private generateRefreshToken() {
+    const token = generateOpaqueToken();
+    return {
+      token,
+      hash: sha256(token),
+      expiresAt: new Date(
+        Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+      ),
+    };
+  }
+
+  private async revokeFamilyOnReuse(familyId: string, userId: number) {
+    const revoked =
+      await this.authRepository.revokeRefreshTokenFamily(familyId);
+    this.logger.warn(
+      `Refresh token reuse detected for user ${userId}, revoked ${revoked} token(s) in family ${familyId}`,
+    );
+  }
 }
@@ -7,6 +7,19 @@ export class AuthResponseDto {
   })
   access_token: string;
 
+  @ApiProperty({
+    description:
+      'Opaque refresh token. Single use: every refresh returns a new one',
+    example: 'q7m0Zr3n6X2b...',
+  })
+  refresh_token: string;
+
+  @ApiProperty({
+    description: 'Access token lifetime in seconds',
+    example: 3600,
+  })
+  expires_in: number;
+
   @ApiProperty({
     description: 'User ID',
     example: 1,
@@ -27,24 +40,203 @@ export class AuthResponseDto {
   phone_number: string;
 }
 
+/**
+ * Token introspection result in the shape of RFC 7662. Inactive tokens
+ * only carry `active: false` and the reason in `error`.
+ */
 export class VerifyTokenResponseDto {
   @ApiProperty({
-    description: 'Whether the token is valid',
+    description:
+      'Whether the token is a valid, unexpired and unrevoked access token',
     example: true,
   })
-  valid: boolean;
+  active: boolean;
 
   @ApiProperty({
-    description: 'User ID if token is valid',
-    example: 1,
+    description: 'Subject of the token: the user ID',
+    example: '1',
+    required: false,
+  })
+  sub?: string;
+
+  @ApiProperty({
+    description: 'User phone number',
+    example: '+1234567890',
+    required: false,
+  })
+  phone_number?: string;
+
+  @ApiProperty({
+    description: 'User email',
+    example: 'user@example.com',
+    required: false,
+  })
+  email?: string;
+
+  @ApiProperty({
+    description: 'Roles granted by the token',
+    example: ['customer'],
+    required: false,
+  })
+  roles?: string[];
+
+  @ApiProperty({
+    description: 'Space-separated permissions granted by the token',
+    example: 'payments:create payments:read',
+    required: false,
+  })
+  scope?: string;
+
+  @ApiProperty({
+    description: 'Client the token was issued to',
+    example: 'opareta',
+    required: false,
+  })
+  client_id?: string;
+
+  @ApiProperty({
+    description: 'Type of the token',
+    example: 'Bearer',
+    required: false,
+  })
+  token_type?: string;
+
+  @ApiProperty({
+    description: 'Expiry as a Unix timestamp (seconds)',
+    example: 1760803200,
+    required: false,
+  })
+  exp?: number;
+
+  @ApiProperty({
+    description: 'Issue time as a Unix timestamp (seconds)',
+    example: 1760799600,
     required: false,
   })
-  user_id?: number;
+  iat?: number;
 
   @ApiProperty({
-    description: 'Error message if token is invalid',
-    example: 'Token expired',
+    description: 'Unique token ID',
+    example: '9b2f6a4e-1c3d-4e5f-8a7b-0c1d2e3f4a5b',
+    required: false,
+  })
+  jti?: string;
+
+  @ApiProperty({
+    description: 'Why the token is inactive',
+    example: 'jwt expired',
     required: false,
   })
   error?: string;
 }
+
+export class MessageResponseDto {
+  @ApiProperty({
+    description: 'Human readable status message',
+    example: 'A verification code has been sent to your phone number',
+  })
+  message: string;
+}
+
+export class VerificationCodeSentDto extends MessageResponseDto {
+  @ApiProperty({
+    description: 'When the verification code expires',
+    example: '2024-01-01T12:05:00.000Z',
+    required: false,
+  })
+  expires_at?: Date;
+}
+
+export class RegisterResponseDto extends VerificationCodeSentDto {
+  @ApiProperty({
+    description: 'User ID',
+    example: 1,
+  })
+  user_id: number;
+
+  @ApiProperty({
+    description: 'User email',
+    example: 'user@example.com',
+    required: false,
+  })
+  email?: string;
+
+  @ApiProperty({
+    description: 'User phone number',
+    example: '+1234567890',
+  })
+  phone_number: string;
+
+  @ApiProperty({
+    description:
+      'Whether the phone number is verified. New accounts must call /auth/verify-phone before they can log in',
+    example: false,
+  })
+  phone_verified: boolean;
+}
+
+export class MfaChallengeResponseDto {
+  @ApiProperty({
+    description:
+      'Always true: the account has two-factor authentication enabled',
+    example: true,
+  })
+  mfa_required: boolean;
+
+  @ApiProperty({
+    description:
+      'Short-lived token to exchange, together with a code, at /auth/mfa/verify',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  mfa_token: string;
+
+  @ApiProperty({
+    description: 'MFA token lifetime in seconds',
+    example: 300,
+  })
+  expires_in: number;
+}
+
+export class MfaEnrollmentResponseDto {
+  @ApiProperty({
+    description: 'Base32 TOTP secret, for manual entry in an authenticator app',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth:// URI to render as a QR code',
+    example:
+      'otpauth://totp/Opareta%3A%2B1234567890?secret=JBSWY3DPEHPK3PXP&issuer=Opareta&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauth_uri: string;
+}
+
+export class MfaRecoveryCodesResponseDto {
+  @ApiProperty({
+    description:
+      'Single-use recovery codes. Shown only once: store them somewhere safe',
+    example: ['3f9a1-c07d2', '8b2e4-51a9f'],
+  })
+  recovery_codes: string[];
+}
+
+export class UserRolesResponseDto {
+  @ApiProperty({
+    description: 'User ID',
+    example: 1,
+  })
+  user_id: number;
+
+  @ApiProperty({
+    description: 'Roles now assigned to the user',
+    example: ['merchant'],
+  })
+  roles: string[];
+
+  @ApiProperty({
+    description: 'Permissions granted by those roles',
+    example: ['payments:create', 'payments:read'],
+  })
+  permissions: string[];
+}
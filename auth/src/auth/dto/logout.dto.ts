@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class LogoutDto {
+  @ApiProperty({
+    description:
+      'Refresh token of the session being closed. When provided, it is revoked along with the access token',
+    example: 'q7m0Zr3n6X2b...',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  refresh_token?: string;
+}
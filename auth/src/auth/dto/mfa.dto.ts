@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsNumberString, IsString, Length } from 'class-validator';
+
+export class ConfirmMfaEnrollmentDto {
+  @ApiProperty({
+    description: 'Current 6-digit code from the authenticator app',
+    example: '123456',
+  })
+  @IsNotEmpty({ message: 'Authentication code is required' })
+  @IsNumberString({}, { message: 'Authentication code must be numeric' })
+  @Length(6, 6, { message: 'Authentication code must be 6 digits' })
+  code: string;
+}
+
+export class VerifyMfaDto {
+  @ApiProperty({
+    description: 'MFA challenge token returned by /auth/login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsNotEmpty({ message: 'MFA token is required' })
+  @IsString()
+  mfa_token: string;
+
+  @ApiProperty({
+    description:
+      '6-digit code from the authenticator app, or one of the recovery codes',
+    example: '123456',
+  })
+  @IsNotEmpty({ message: 'Authentication code is required' })
+  @IsString()
+  @Length(6, 32)
+  code: string;
+}
@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsNumberString,
+  IsString,
+  Length,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class ForgotPasswordDto {
+  @ApiProperty({
+    description:
+      'Phone number of the account. The reset code is sent by SMS. Required unless email is given',
+    example: '+1234567890',
+    required: false,
+  })
+  @ValidateIf((dto: ForgotPasswordDto) => !dto.email)
+  @IsNotEmpty({ message: 'Phone number or email is required' })
+  @IsString()
+  phone_number?: string;
+
+  @ApiProperty({
+    description:
+      'Email of the account. The reset code is sent by email. Required unless phone_number is given',
+    example: 'user@example.com',
+    required: false,
+  })
+  @ValidateIf((dto: ForgotPasswordDto) => !dto.phone_number)
+  @IsNotEmpty({ message: 'Phone number or email is required' })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email?: string;
+}
+
+export class ResetPasswordDto extends ForgotPasswordDto {
+  @ApiProperty({
+    description: '6-digit reset code received by SMS or email',
+    example: '123456',
+  })
+  @IsNotEmpty({ message: 'Reset code is required' })
+  @IsNumberString({}, { message: 'Reset code must be numeric' })
+  @Length(6, 6, { message: 'Reset code must be 6 digits' })
+  code: string;
+
+  @ApiProperty({
+    description: 'New password',
+    example: 'NewSecurePassword123!',
+    minLength: 6,
+  })
+  @IsNotEmpty({ message: 'New password is required' })
+  @IsString()
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  new_password: string;
+}
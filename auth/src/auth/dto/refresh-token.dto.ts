@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token issued at login, registration or last refresh',
+    example: 'q7m0Zr3n6X2b...',
+  })
+  @IsNotEmpty({ message: 'Refresh token is required' })
+  @IsString()
+  refresh_token: string;
+}
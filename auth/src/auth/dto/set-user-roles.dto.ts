@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsString } from 'class-validator';
+
+export class SetUserRolesDto {
+  @ApiProperty({
+    description:
+      'Roles the user should have, replacing the current ones (customer, merchant, support, admin)',
+    example: ['merchant'],
+  })
+  @IsArray()
+  @ArrayNotEmpty({ message: 'At least one role is required' })
+  @IsString({ each: true })
+  roles: string[];
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsNumberString, IsString, Length } from 'class-validator';
+
+export class VerifyPhoneDto {
+  @ApiProperty({
+    description: 'Phone number the code was sent to',
+    example: '+1234567890',
+  })
+  @IsNotEmpty({ message: 'Phone number is required' })
+  @IsString()
+  phone_number: string;
+
+  @ApiProperty({
+    description: '6-digit verification code received by SMS',
+    example: '123456',
+  })
+  @IsNotEmpty({ message: 'Verification code is required' })
+  @IsNumberString({}, { message: 'Verification code must be numeric' })
+  @Length(6, 6, { message: 'Verification code must be 6 digits' })
+  code: string;
+}
+
+export class ResendVerificationDto {
+  @ApiProperty({
+    description: 'Phone number to send a new verification code to',
+    example: '+1234567890',
+  })
+  @IsNotEmpty({ message: 'Phone number is required' })
+  @IsString()
+  phone_number: string;
+}
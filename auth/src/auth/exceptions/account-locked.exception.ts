@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when an account is temporarily locked after too many failed
+ * logins. `retry_after` is surfaced by the exception filter as the
+ * `Retry-After` header.
+ */
+export class AccountLockedException extends HttpException {
+  constructor(retryAfterSeconds: number) {
+    super(
+      {
+        statusCode: HttpStatus.LOCKED,
+        message:
+          'Account temporarily locked after too many failed login attempts',
+        error: 'Locked',
+        retry_after: retryAfterSeconds,
+      },
+      HttpStatus.LOCKED,
+    );
+  }
+}
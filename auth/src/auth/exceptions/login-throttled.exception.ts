@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown while a progressive login delay is in effect, or when a client
+ * address has failed too many logins across accounts.
+ */
+export class LoginThrottledException extends HttpException {
+  constructor(retryAfterSeconds: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: `Too many failed login attempts, retry in ${retryAfterSeconds} seconds`,
+        error: 'Too Many Requests',
+        retry_after: retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { sha256 } from '../../common/utils/crypto.util';
+
+export const ADMIN_API_KEY_HEADER = 'x-admin-api-key';
+
+/**
+ * Protects operator endpoints with the shared `ADMIN_API_KEY`.
+ * When the variable is not set every request is rejected.
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const expected = process.env.ADMIN_API_KEY;
+    const provided = request.headers[ADMIN_API_KEY_HEADER];
+
+    if (!expected || typeof provided !== 'string') {
+      throw new UnauthorizedException('Admin API key required');
+    }
+
+    // Compare digests so the comparison is constant time regardless of length
+    const matches = timingSafeEqual(
+      Buffer.from(sha256(provided), 'hex'),
+      Buffer.from(sha256(expected), 'hex'),
+    );
+    if (!matches) {
+      throw new UnauthorizedException('Invalid admin API key');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { AdminApiKeyGuard, ADMIN_API_KEY_HEADER } from './admin-api-key.guard';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+
+/**
+ * Operator endpoints accept either the shared admin API key (for
+ * automation and bootstrapping the first admin) or an access token
+ * carrying every permission listed with `@Permissions()`.
+ */
+@Injectable()
+export class AdminGuard extends JwtAuthGuard {
+  private readonly apiKeyGuard = new AdminApiKeyGuard();
+
+  constructor(private readonly reflector: Reflector) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+
+    if (request.headers[ADMIN_API_KEY_HEADER] !== undefined) {
+      return this.apiKeyGuard.canActivate(context);
+    }
+
+    // Authenticates the bearer token and sets request.user
+    await (super.canActivate(context) as Promise<boolean>);
+
+    const required =
+      this.reflector.getAllAndOverride<string[]>(PERMISSIONS_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const granted = request.user?.permissions ?? [];
+    const missing = required.filter(
+      (permission) => !granted.includes(permission),
+    );
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Missing permission(s): ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,23 @@
+export interface JwtPayload {
+  sub: number;
+  phone_number: string;
+  email?: string;
+  client_id?: string;
+  jti?: string;
+  ver?: number;
+  roles?: string[];
+  permissions?: string[];
+  // Set on non-access tokens (e.g. MFA challenges) so they cannot be used as access tokens
+  typ?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface AuthenticatedUser {
+  userId: number;
+  phone_number: string;
+  roles: string[];
+  permissions: string[];
+  jti?: string;
+  exp?: number;
+}
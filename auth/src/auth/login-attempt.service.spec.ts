@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { LoginAttemptService } from './login-attempt.service';
+import { AccountLockedException } from './exceptions/account-locked.exception';
+import { LoginThrottledException } from './exceptions/login-throttled.exception';
+import {
+  LOGIN_LOCKOUT_SECONDS,
+  LOGIN_MAX_FAILED_ATTEMPTS,
+} from './auth.constants';
+
+describe('LoginAttemptService', () => {
+  let service: LoginAttemptService;
+
+  const phoneNumber = '+256700000000';
+  const ip = '203.0.113.10';
+
+  const mockMulti = {
+    incr: jest.fn().mockReturnThis(),
+    expire: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    del: jest.fn().mockReturnThis(),
+    exec: jest.fn(),
+  };
+
+  const mockRedis = {
+    pttl: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+    multi: jest.fn(() => mockMulti),
+  };
+
+  // Replies of the incr/expire pipeline in recordFailure
+  const failureCounts = (account: number, client: number) => [
+    [null, account],
+    [null, 1],
+    [null, client],
+    [null, 1],
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptService,
+        {
+          provide: RedisService,
+          useValue: { getClient: () => mockRedis },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptService>(LoginAttemptService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assertCanAttempt', () => {
+    it('should pass when nothing is locked', async () => {
+      mockRedis.pttl.mockResolvedValue(-2);
+
+      await expect(
+        service.assertCanAttempt(phoneNumber, ip),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should throw AccountLockedException while the account is locked', async () => {
+      mockRedis.pttl
+        .mockResolvedValueOnce(120500)
+        .mockResolvedValueOnce(-2)
+        .mockResolvedValueOnce(-2);
+
+      await expect(service.assertCanAttempt(phoneNumber, ip)).rejects.toThrow(
+        AccountLockedException,
+      );
+    });
+
+    it('should throw LoginThrottledException during the backoff delay', async () => {
+      mockRedis.pttl.mockImplementation((key: string) =>
+        Promise.resolve(key.startsWith('login:backoff:') ? 1500 : -2),
+      );
+
+      await expect(service.assertCanAttempt(phoneNumber, ip)).rejects.toThrow(
+        LoginThrottledException,
+      );
+      await expect(
+        service.assertCanAttempt(phoneNumber, ip),
+      ).rejects.toMatchObject({ response: { retry_after: 2 } });
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should double the backoff delay with every failure', async () => {
+      mockMulti.exec.mockResolvedValueOnce(failureCounts(3, 3));
+
+      await service.recordFailure(phoneNumber, ip);
+
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        `login:backoff:${phoneNumber}`,
+        '1',
+        'PX',
+        4000,
+      );
+    });
+
+    it('should lock the account after the maximum number of failures', async () => {
+      mockMulti.exec
+        .mockResolvedValueOnce(failureCounts(LOGIN_MAX_FAILED_ATTEMPTS, 5))
+        .mockResolvedValueOnce([]);
+
+      await service.recordFailure(phoneNumber, ip);
+
+      expect(mockMulti.set).toHaveBeenCalledWith(
+        `login:lock:account:${phoneNumber}`,
+        '1',
+        'EX',
+        LOGIN_LOCKOUT_SECONDS,
+      );
+      expect(mockRedis.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlock', () => {
+    it('should report whether the account was locked', async () => {
+      mockMulti.exec.mockResolvedValueOnce([
+        [null, 1],
+        [null, 2],
+      ]);
+
+      await expect(service.unlock(phoneNumber)).resolves.toBe(true);
+      expect(mockMulti.del).toHaveBeenCalledWith(
+        `login:lock:account:${phoneNumber}`,
+      );
+    });
+  });
+});
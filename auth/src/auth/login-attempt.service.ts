@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { Redis } from 'ioredis';
+import {
+  LOGIN_BACKOFF_BASE_SECONDS,
+  LOGIN_FAILURE_WINDOW_SECONDS,
+  LOGIN_LOCKOUT_SECONDS,
+  LOGIN_MAX_FAILED_ATTEMPTS,
+  LOGIN_MAX_FAILED_ATTEMPTS_PER_IP,
+} from './auth.constants';
+import { AccountLockedException } from './exceptions/account-locked.exception';
+import { LoginThrottledException } from './exceptions/login-throttled.exception';
+
+/**
+ * Failed login tracking per account (phone number) and per client IP.
+ *
+ * Each failure on an account doubles the wait before the next attempt is
+ * accepted, and reaching `LOGIN_MAX_FAILED_ATTEMPTS` locks the account for
+ * `LOGIN_LOCKOUT_SECONDS`. Failures are tracked by phone number whether or
+ * not an account exists, so lockouts do not reveal registered numbers.
+ */
+@Injectable()
+export class LoginAttemptService {
+  private readonly logger = new Logger(LoginAttemptService.name);
+  private readonly redis: Redis;
+
+  constructor(private readonly redisService: RedisService) {
+    this.redis = this.redisService.getClient();
+  }
+
+  async assertCanAttempt(phoneNumber: string, ip: string): Promise<void> {
+    const [accountLockMs, ipLockMs, backoffMs] = await Promise.all([
+      this.redis.pttl(this.accountLockKey(phoneNumber)),
+      this.redis.pttl(this.ipLockKey(ip)),
+      this.redis.pttl(this.backoffKey(phoneNumber)),
+    ]);
+
+    if (accountLockMs > 0) {
+      throw new AccountLockedException(Math.ceil(accountLockMs / 1000));
+    }
+    if (ipLockMs > 0) {
+      throw new LoginThrottledException(Math.ceil(ipLockMs / 1000));
+    }
+    if (backoffMs > 0) {
+      throw new LoginThrottledException(Math.ceil(backoffMs / 1000));
+    }
+  }
+
+  async recordFailure(phoneNumber: string, ip: string): Promise<void> {
+    const results = await this.redis
+      .multi()
+      .incr(this.accountFailuresKey(phoneNumber))
+      .expire(
+        this.accountFailuresKey(phoneNumber),
+        LOGIN_FAILURE_WINDOW_SECONDS,
+      )
+      .incr(this.ipFailuresKey(ip))
+      .expire(this.ipFailuresKey(ip), LOGIN_FAILURE_WINDOW_SECONDS)
+      .exec();
+    const accountFailures = Number(results?.[0]?.[1] ?? 0);
+    const ipFailures = Number(results?.[2]?.[1] ?? 0);
+
+    if (accountFailures >= LOGIN_MAX_FAILED_ATTEMPTS) {
+      await this.redis
+        .multi()
+        .set(this.accountLockKey(phoneNumber), '1', 'EX', LOGIN_LOCKOUT_SECONDS)
+        .del(this.accountFailuresKey(phoneNumber), this.backoffKey(phoneNumber))
+        .exec();
+      this.logger.warn(
+        `Account ${phoneNumber} locked for ${LOGIN_LOCKOUT_SECONDS}s after ${accountFailures} failed logins`,
+      );
+    } else {
+      const backoffMs =
+        LOGIN_BACKOFF_BASE_SECONDS * 1000 * 2 ** (accountFailures - 1);
+      await this.redis.set(this.backoffKey(phoneNumber), '1', 'PX', backoffMs);
+    }
+
+    if (ipFailures >= LOGIN_MAX_FAILED_ATTEMPTS_PER_IP) {
+      await this.redis
+        .multi()
+        .set(this.ipLockKey(ip), '1', 'EX', LOGIN_LOCKOUT_SECONDS)
+        .del(this.ipFailuresKey(ip))
+        .exec();
+      this.logger.warn(
+        `Client ${ip} blocked for ${LOGIN_LOCKOUT_SECONDS}s after ${ipFailures} failed logins`,
+      );
+    }
+  }
+
+  async recordSuccess(phoneNumber: string): Promise<void> {
+    await this.redis.del(
+      this.accountFailuresKey(phoneNumber),
+      this.backoffKey(phoneNumber),
+    );
+  }
+
+  /**
+   * Clears the lockout and failure history of an account.
+   * Returns whether the account was locked.
+   */
+  async unlock(phoneNumber: string): Promise<boolean> {
+    const results = await this.redis
+      .multi()
+      .del(this.accountLockKey(phoneNumber))
+      .del(this.accountFailuresKey(phoneNumber), this.backoffKey(phoneNumber))
+      .exec();
+    return Number(results?.[0]?.[1] ?? 0) > 0;
+  }
+
+  private accountFailuresKey(phoneNumber: string): string {
+    return `login:failures:account:${phoneNumber}`;
+  }
+
+  private ipFailuresKey(ip: string): string {
+    return `login:failures:ip:${ip}`;
+  }
+
+  private backoffKey(phoneNumber: string): string {
+    return `login:backoff:${phoneNumber}`;
+  }
+
+  private accountLockKey(phoneNumber: string): string {
+    return `login:lock:account:${phoneNumber}`;
+  }
+
+  private ipLockKey(ip: string): string {
+    return `login:lock:ip:${ip}`;
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { MfaService } from './mfa.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { AuthenticatedUser } from './interfaces/jwt-payload.interface';
+import { ConfirmMfaEnrollmentDto, VerifyMfaDto } from './dto/mfa.dto';
+import {
+  AuthResponseDto,
+  MfaEnrollmentResponseDto,
+  MfaRecoveryCodesResponseDto,
+} from './dto/auth-response.dto';
+
+@ApiTags('Authentication')
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly mfaService: MfaService,
+  ) {}
+
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start TOTP enrollment',
+    description:
+      'Generates a new TOTP secret for the authenticated user. Two-factor authentication is enabled only after /auth/mfa/enroll/confirm',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret generated',
+    type: MfaEnrollmentResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, invalid or revoked token',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Two-factor authentication is already enabled',
+  })
+  async enroll(
+    @Req() req: Request & { user: AuthenticatedUser },
+  ): Promise<MfaEnrollmentResponseDto> {
+    return this.mfaService.beginEnrollment(req.user.userId);
+  }
+
+  @Post('enroll/confirm')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Confirm TOTP enrollment',
+    description:
+      'Enables two-factor authentication once the first code from the authenticator app is valid, and returns single-use recovery codes',
+  })
+  @ApiBody({ type: ConfirmMfaEnrollmentDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    type: MfaRecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code, or enrollment not started',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Two-factor authentication is already enabled',
+  })
+  async confirmEnrollment(
+    @Req() req: Request & { user: AuthenticatedUser },
+    @Body() confirmMfaEnrollmentDto: ConfirmMfaEnrollmentDto,
+  ): Promise<MfaRecoveryCodesResponseDto> {
+    return this.mfaService.confirmEnrollment(
+      req.user.userId,
+      confirmMfaEnrollmentDto.code,
+    );
+  }
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete login with a second factor',
+    description:
+      'Exchanges the MFA challenge token from /auth/login and a TOTP or recovery code for access and refresh tokens',
+  })
+  @ApiBody({ type: VerifyMfaDto })
+  @ApiResponse({
+    status: 200,
+    description: 'User successfully logged in',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired MFA token, or invalid code',
+  })
+  @ApiResponse({
+    status: 423,
+    description: 'Account temporarily locked after too many failed attempts',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Progressive delay after a failed attempt',
+  })
+  async verify(
+    @Body() verifyMfaDto: VerifyMfaDto,
+    @Ip() ip: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.verifyMfa(verifyMfaDto, ip);
+  }
+}
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { MfaService } from './mfa.service';
+import { AuthRepository } from './auth.repository';
+import { MFA_RECOVERY_CODE_COUNT } from './auth.constants';
+import { encryptSecret, sha256 } from '../common/utils/crypto.util';
+import {
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+} from '../common/utils/totp.util';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  const encryptionKey = 'test-mfa-encryption-key';
+  const secret = generateTotpSecret();
+
+  const baseUser = {
+    id: 1,
+    phone_number: '+256700000000',
+    email: 'test@example.com',
+    password: 'hashedPassword123',
+    token_version: 0,
+    phone_verified_at: new Date(),
+    mfa_secret: null,
+    mfa_enabled_at: null,
+    mfa_last_used_step: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const enrolledUser = {
+    ...baseUser,
+    mfa_secret: encryptSecret(secret, encryptionKey),
+    mfa_enabled_at: new Date(),
+  };
+
+  const mockRepository = {
+    findById: jest.fn(),
+    setMfaSecret: jest.fn(),
+    enableMfa: jest.fn(),
+    recordMfaStep: jest.fn(),
+    useMfaRecoveryCode: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    process.env.MFA_ENCRYPTION_KEY = encryptionKey;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: AuthRepository,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('beginEnrollment', () => {
+    it('should store the secret encrypted and return an otpauth URI', async () => {
+      mockRepository.findById.mockResolvedValue(baseUser);
+
+      const result = await service.beginEnrollment(baseUser.id);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauth_uri).toContain(`secret=${result.secret}`);
+      const [, stored] = mockRepository.setMfaSecret.mock.calls[0] as [
+        number,
+        string,
+      ];
+      expect(stored).not.toContain(result.secret);
+    });
+
+    it('should throw ConflictException when MFA is already enabled', async () => {
+      mockRepository.findById.mockResolvedValue(enrolledUser);
+
+      await expect(service.beginEnrollment(baseUser.id)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockRepository.setMfaSecret).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    const pendingUser = { ...enrolledUser, mfa_enabled_at: null };
+
+    it('should enable MFA and return hashed-at-rest recovery codes', async () => {
+      mockRepository.findById.mockResolvedValue(pendingUser);
+      const step = totpStep();
+
+      const result = await service.confirmEnrollment(
+        pendingUser.id,
+        generateTotp(secret, step),
+      );
+
+      expect(result.recovery_codes).toHaveLength(MFA_RECOVERY_CODE_COUNT);
+      const [, usedStep, hashes] = mockRepository.enableMfa.mock.calls[0] as [
+        number,
+        number,
+        string[],
+      ];
+      expect(usedStep).toBe(step);
+      expect(hashes[0]).toBe(
+        sha256(
+          `${pendingUser.id}:${result.recovery_codes[0].replace('-', '')}`,
+        ),
+      );
+    });
+
+    it('should throw BadRequestException for a wrong code', async () => {
+      mockRepository.findById.mockResolvedValue(pendingUser);
+      const wrongCode = generateTotp(secret, totpStep() + 5);
+
+      await expect(
+        service.confirmEnrollment(pendingUser.id, wrongCode),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.enableMfa).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when enrollment was not started', async () => {
+      mockRepository.findById.mockResolvedValue(baseUser);
+
+      await expect(
+        service.confirmEnrollment(baseUser.id, '123456'),
+      ).rejects.toThrow('Start enrollment with /auth/mfa/enroll first');
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a current TOTP code once', async () => {
+      mockRepository.recordMfaStep.mockResolvedValue(true);
+      const step = totpStep();
+
+      const result = await service.verifyCode(
+        enrolledUser,
+        generateTotp(secret, step),
+      );
+
+      expect(result).toBe(true);
+      expect(mockRepository.recordMfaStep).toHaveBeenCalledWith(
+        enrolledUser.id,
+        step,
+      );
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      mockRepository.recordMfaStep.mockResolvedValue(false);
+
+      const result = await service.verifyCode(
+        enrolledUser,
+        generateTotp(secret, totpStep()),
+      );
+
+      expect(result).toBe(false);
+    });
+
+    it('should accept a recovery code regardless of case and dashes', async () => {
+      mockRepository.useMfaRecoveryCode.mockResolvedValue(true);
+
+      const result = await service.verifyCode(enrolledUser, 'AB12C-D34EF');
+
+      expect(result).toBe(true);
+      expect(mockRepository.useMfaRecoveryCode).toHaveBeenCalledWith(
+        enrolledUser.id,
+        sha256(`${enrolledUser.id}:ab12cd34ef`),
+      );
+    });
+
+    it('should reject codes when MFA is not enabled', async () => {
+      const result = await service.verifyCode(baseUser, '123456');
+
+      expect(result).toBe(false);
+      expect(mockRepository.recordMfaStep).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { User } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { AuthRepository } from './auth.repository';
+import { MFA_ISSUER, MFA_RECOVERY_CODE_COUNT } from './auth.constants';
+import {
+  MfaEnrollmentResponseDto,
+  MfaRecoveryCodesResponseDto,
+} from './dto/auth-response.dto';
+import {
+  decryptSecret,
+  encryptSecret,
+  sha256,
+} from '../common/utils/crypto.util';
+import {
+  buildOtpauthUri,
+  findTotpStep,
+  generateTotpSecret,
+} from '../common/utils/totp.util';
+
+/**
+ * TOTP enrollment and verification. Secrets are stored encrypted with
+ * `MFA_ENCRYPTION_KEY`, recovery codes as hashes.
+ */
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+  private readonly encryptionKey: string;
+
+  constructor(private readonly authRepository: AuthRepository) {
+    if (!process.env.MFA_ENCRYPTION_KEY) {
+      throw new Error('MFA_ENCRYPTION_KEY is not set');
+    }
+    this.encryptionKey = process.env.MFA_ENCRYPTION_KEY;
+  }
+
+  /**
+   * Generate a new secret. MFA stays inactive until the user proves the
+   * authenticator app works with `confirmEnrollment`.
+   */
+  async beginEnrollment(userId: number): Promise<MfaEnrollmentResponseDto> {
+    const user = await this.findUser(userId);
+    if (user.mfa_enabled_at) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.authRepository.setMfaSecret(
+      user.id,
+      encryptSecret(secret, this.encryptionKey),
+    );
+
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(secret, user.phone_number, MFA_ISSUER),
+    };
+  }
+
+  async confirmEnrollment(
+    userId: number,
+    code: string,
+  ): Promise<MfaRecoveryCodesResponseDto> {
+    const user = await this.findUser(userId);
+    if (user.mfa_enabled_at) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.mfa_secret) {
+      throw new BadRequestException(
+        'Start enrollment with /auth/mfa/enroll first',
+      );
+    }
+
+    const step = findTotpStep(
+      decryptSecret(user.mfa_secret, this.encryptionKey),
+      code,
+    );
+    if (step === null) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = Array.from({ length: MFA_RECOVERY_CODE_COUNT }, () =>
+      this.generateRecoveryCode(),
+    );
+    await this.authRepository.enableMfa(
+      user.id,
+      step,
+      recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(user.id, recoveryCode),
+      ),
+    );
+
+    this.logger.log(`Two-factor authentication enabled for user ${user.id}`);
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Check a TOTP code or, failing that, a recovery code. Accepted codes are
+   * spent: a TOTP step cannot be replayed and a recovery code works once.
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!user.mfa_enabled_at || !user.mfa_secret) {
+      return false;
+    }
+
+    if (/^\d{6}$/.test(code)) {
+      const step = findTotpStep(
+        decryptSecret(user.mfa_secret, this.encryptionKey),
+        code,
+      );
+      if (step === null) {
+        return false;
+      }
+      return this.authRepository.recordMfaStep(user.id, step);
+    }
+
+    const used = await this.authRepository.useMfaRecoveryCode(
+      user.id,
+      this.hashRecoveryCode(user.id, code),
+    );
+    if (used) {
+      this.logger.warn(`Recovery code used by user ${user.id}`);
+    }
+    return used;
+  }
+
+  private async findUser(userId: number): Promise<User> {
+    const user = await this.authRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private generateRecoveryCode(): string {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  }
+
+  private hashRecoveryCode(userId: number, code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return sha256(`${userId}:${normalized}`);
+  }
+}
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, HttpException } from '@nestjs/common';
+import { OneTimeCodePurpose } from '@prisma/client';
+import { OtpService } from './otp.service';
+import { AuthRepository } from './auth.repository';
+import { OTP_MAX_ATTEMPTS } from './auth.constants';
+import { sha256 } from '../common/utils/crypto.util';
+
+describe('OtpService', () => {
+  let service: OtpService;
+
+  const purpose = OneTimeCodePurpose.PHONE_VERIFICATION;
+  const userId = 1;
+
+  const mockRepository = {
+    replaceOneTimeCode: jest.fn(),
+    findLatestOneTimeCode: jest.fn(),
+    countOneTimeCodesSince: jest.fn(),
+    recordOneTimeCodeAttempt: jest.fn(),
+    consumeOneTimeCode: jest.fn(),
+  };
+
+  const storedCode = (code: string, overrides = {}) => ({
+    id: 5,
+    user_id: userId,
+    purpose,
+    code_hash: sha256(`${userId}:${code}`),
+    expires_at: new Date(Date.now() + 60 * 1000),
+    attempts: 0,
+    consumed_at: null,
+    created_at: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OtpService,
+        {
+          provide: AuthRepository,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OtpService>(OtpService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('issue', () => {
+    it('should store a hashed 6-digit code', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(null);
+      mockRepository.countOneTimeCodesSince.mockResolvedValue(0);
+
+      const result = await service.issue(userId, purpose);
+
+      expect(result.code).toMatch(/^\d{6}$/);
+      expect(result.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockRepository.replaceOneTimeCode).toHaveBeenCalledWith({
+        user_id: userId,
+        purpose,
+        code_hash: sha256(`${userId}:${result.code}`),
+        expires_at: result.expiresAt,
+      });
+    });
+
+    it('should refuse to resend before the resend interval has passed', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(
+        storedCode('123456'),
+      );
+
+      await expect(service.issue(userId, purpose)).rejects.toThrow(
+        HttpException,
+      );
+      expect(mockRepository.replaceOneTimeCode).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to send more codes than the hourly limit', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(
+        storedCode('123456', { created_at: new Date(Date.now() - 10 * 60000) }),
+      );
+      mockRepository.countOneTimeCodesSince.mockResolvedValue(100);
+
+      await expect(service.issue(userId, purpose)).rejects.toThrow(
+        'Too many codes requested',
+      );
+      expect(mockRepository.replaceOneTimeCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      mockRepository.recordOneTimeCodeAttempt.mockResolvedValue(true);
+    });
+
+    it('should consume a matching code', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(
+        storedCode('123456'),
+      );
+      mockRepository.consumeOneTimeCode.mockResolvedValue(true);
+
+      await service.verify(userId, purpose, '123456');
+
+      expect(mockRepository.consumeOneTimeCode).toHaveBeenCalledWith(5);
+    });
+
+    it('should count an incorrect attempt', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(
+        storedCode('123456'),
+      );
+
+      await expect(service.verify(userId, purpose, '000000')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRepository.recordOneTimeCodeAttempt).toHaveBeenCalledWith(
+        5,
+        OTP_MAX_ATTEMPTS,
+      );
+      expect(mockRepository.consumeOneTimeCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject even the right code once attempts are exhausted', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(
+        storedCode('123456', { attempts: OTP_MAX_ATTEMPTS }),
+      );
+      mockRepository.recordOneTimeCodeAttempt.mockResolvedValue(false);
+
+      await expect(service.verify(userId, purpose, '123456')).rejects.toThrow(
+        'Too many incorrect attempts',
+      );
+      expect(mockRepository.consumeOneTimeCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired code', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(
+        storedCode('123456', { expires_at: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(service.verify(userId, purpose, '123456')).rejects.toThrow(
+        'Verification code is invalid or has expired',
+      );
+    });
+
+    it('should reject a code that was already used', async () => {
+      mockRepository.findLatestOneTimeCode.mockResolvedValue(
+        storedCode('123456', { consumed_at: new Date() }),
+      );
+
+      await expect(service.verify(userId, purpose, '123456')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRepository.consumeOneTimeCode).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { OneTimeCodePurpose } from '@prisma/client';
+import { randomInt, timingSafeEqual } from 'crypto';
+import { AuthRepository } from './auth.repository';
+import {
+  OTP_LENGTH,
+  OTP_MAX_ATTEMPTS,
+  OTP_MAX_SENDS_PER_HOUR,
+  OTP_RESEND_INTERVAL_SECONDS,
+  OTP_TTL_SECONDS,
+} from './auth.constants';
+import { sha256 } from '../common/utils/crypto.util';
+
+export interface IssuedOneTimeCode {
+  code: string;
+  expiresAt: Date;
+}
+
+/**
+ * Issues and checks short numeric one-time codes. Codes are stored hashed,
+ * expire after OTP_TTL_SECONDS, allow OTP_MAX_ATTEMPTS guesses and can only
+ * be re-sent after OTP_RESEND_INTERVAL_SECONDS.
+ */
+@Injectable()
+export class OtpService {
+  private readonly logger = new Logger(OtpService.name);
+
+  constructor(private readonly authRepository: AuthRepository) {}
+
+  async issue(
+    userId: number,
+    purpose: OneTimeCodePurpose,
+  ): Promise<IssuedOneTimeCode> {
+    await this.assertCanSend(userId, purpose);
+
+    const code = randomInt(0, 10 ** OTP_LENGTH)
+      .toString()
+      .padStart(OTP_LENGTH, '0');
+    const expiresAt = new Date(Date.now() + OTP_TTL_SECONDS * 1000);
+
+    await this.authRepository.replaceOneTimeCode({
+      user_id: userId,
+      purpose,
+      code_hash: this.hash(userId, code),
+      expires_at: expiresAt,
+    });
+
+    this.logger.log(`Issued ${purpose} code for user ${userId}`);
+    return { code, expiresAt };
+  }
+
+  async verify(
+    userId: number,
+    purpose: OneTimeCodePurpose,
+    code: string,
+  ): Promise<void> {
+    const stored = await this.authRepository.findLatestOneTimeCode(
+      userId,
+      purpose,
+    );
+
+    if (
+      !stored ||
+      stored.consumed_at ||
+      stored.expires_at.getTime() <= Date.now()
+    ) {
+      throw new BadRequestException(
+        'Verification code is invalid or has expired',
+      );
+    }
+
+    // Counted before the comparison, so concurrent guesses cannot exceed
+    // the limit
+    if (
+      !(await this.authRepository.recordOneTimeCodeAttempt(
+        stored.id,
+        OTP_MAX_ATTEMPTS,
+      ))
+    ) {
+      throw new BadRequestException(
+        'Too many incorrect attempts, please request a new code',
+      );
+    }
+
+    const expected = Buffer.from(stored.code_hash);
+    const actual = Buffer.from(this.hash(userId, code));
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      this.logger.warn(`Incorrect ${purpose} code for user ${userId}`);
+      throw new BadRequestException(
+        'Verification code is invalid or has expired',
+      );
+    }
+
+    if (!(await this.authRepository.consumeOneTimeCode(stored.id))) {
+      throw new BadRequestException(
+        'Verification code is invalid or has expired',
+      );
+    }
+  }
+
+  private async assertCanSend(userId: number, purpose: OneTimeCodePurpose) {
+    const latest = await this.authRepository.findLatestOneTimeCode(
+      userId,
+      purpose,
+    );
+    if (latest) {
+      const elapsedSeconds = (Date.now() - latest.created_at.getTime()) / 1000;
+      if (elapsedSeconds < OTP_RESEND_INTERVAL_SECONDS) {
+        throw new HttpException(
+          `Please wait ${Math.ceil(OTP_RESEND_INTERVAL_SECONDS - elapsedSeconds)} seconds before requesting a new code`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    const sentLastHour = await this.authRepository.countOneTimeCodesSince(
+      userId,
+      purpose,
+      new Date(Date.now() - 60 * 60 * 1000),
+    );
+    if (sentLastHour >= OTP_MAX_SENDS_PER_HOUR) {
+      throw new HttpException(
+        'Too many codes requested, please try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private hash(userId: number, code: string): string {
+    return sha256(`${userId}:${code}`);
+  }
+}
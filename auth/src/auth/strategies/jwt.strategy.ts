@@ -2,25 +2,44 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { AuthService } from '../auth.service';
+import { KeysService } from '../../keys/keys.service';
+import { SUPPORTED_ALGORITHMS } from '../../keys/keys.constants';
+import {
+  AuthenticatedUser,
+  JwtPayload,
+} from '../interfaces/jwt-payload.interface';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private readonly authService: AuthService) {
-    if (!process.env.JWT_SECRET) {
-      throw new Error('JWT_SECRET is not set');
-    }
+  constructor(
+    private readonly authService: AuthService,
+    keysService: KeysService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: process.env.JWT_SECRET,
+      algorithms: [...SUPPORTED_ALGORITHMS],
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        keysService
+          .resolveVerificationKey(rawJwtToken)
+          .then((key) => done(null, key))
+          .catch((error) => done(error));
+      },
     });
   }
 
-  async validate(payload: any) {
-    const user = await this.authService.validateUser(payload.sub);
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    const user = await this.authService.validateTokenPayload(payload);
     if (!user) {
       throw new UnauthorizedException();
     }
-    return { userId: user.id, phone_number: user.phone_number };
+    return {
+      userId: user.id,
+      phone_number: user.phone_number,
+      roles: payload.roles ?? [],
+      permissions: payload.permissions ?? [],
+      jti: payload.jti,
+      exp: payload.exp,
+    };
   }
 }
@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { Redis } from 'ioredis';
+import { ACCESS_TOKEN_TTL_SECONDS } from './auth.constants';
+
+/**
+ * Denylist of individually revoked access tokens, keyed by `jti`.
+ * Entries expire together with the token they revoke, so the list
+ * never grows beyond the set of still-valid tokens.
+ *
+ * Services that verify tokens locally against the JWKS read these keys
+ * from the shared Redis, together with the published token versions.
+ */
+@Injectable()
+export class TokenRevocationService {
+  private readonly logger = new Logger(TokenRevocationService.name);
+  private readonly redis: Redis;
+
+  constructor(private readonly redisService: RedisService) {
+    this.redis = this.redisService.getClient();
+  }
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    const ttlSeconds = expiresAt - Math.floor(Date.now() / 1000);
+    if (ttlSeconds <= 0) {
+      return;
+    }
+    await this.redis.set(this.key(jti), '1', 'EX', ttlSeconds);
+    this.logger.debug(`Revoked access token ${jti} for ${ttlSeconds}s`);
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await this.redis.exists(this.key(jti))) === 1;
+  }
+
+  /**
+   * Publish the token version of a user after it was bumped, so tokens
+   * carrying an older `ver` claim are rejected by local verifiers. The
+   * entry only has to outlive the access tokens issued before it.
+   */
+  async publishTokenVersion(userId: number, version: number): Promise<void> {
+    await this.redis.set(
+      this.versionKey(userId),
+      String(version),
+      'EX',
+      ACCESS_TOKEN_TTL_SECONDS,
+    );
+  }
+
+  private key(jti: string): string {
+    return `revoked:jti:${jti}`;
+  }
+
+  private versionKey(userId: number): string {
+    return `token_version:${userId}`;
+  }
+}
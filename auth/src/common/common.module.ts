@@ -1,9 +1,22 @@
 import { Global, Module } from '@nestjs/common';
+import { RedisModule, RedisModuleOptions } from '@liaoliaots/nestjs-redis';
 import { PrismaService } from './database/prisma.service';
 
 @Global()
 @Module({
-  imports: [],
+  imports: [
+    RedisModule.forRootAsync({
+      useFactory: () =>
+        ({
+          config: {
+            host: process.env.REDIS_HOST,
+            port: Number(process.env.REDIS_PORT),
+            password: process.env.REDIS_PASSWORD,
+            keyPrefix: ':auth:',
+          },
+        }) as RedisModuleOptions,
+    }),
+  ],
   providers: [PrismaService],
   exports: [PrismaService],
 })
@@ -0,0 +1,44 @@
+import {
+  findInsecureSecrets,
+  MIN_PRODUCTION_SECRET_LENGTH,
+} from './secrets.util';
+
+describe('findInsecureSecrets', () => {
+  const strong = 'x'.repeat(MIN_PRODUCTION_SECRET_LENGTH);
+  const production = {
+    NODE_ENV: 'production',
+    JWT_KEYS_ENCRYPTION_KEY: strong,
+    MFA_ENCRYPTION_KEY: strong,
+  };
+
+  it('should accept strong secrets in production', () => {
+    expect(findInsecureSecrets(production)).toEqual([]);
+  });
+
+  it('should not check secrets outside production', () => {
+    expect(findInsecureSecrets({ NODE_ENV: 'development' })).toEqual([]);
+  });
+
+  it('should reject missing required secrets', () => {
+    expect(
+      findInsecureSecrets({ ...production, JWT_KEYS_ENCRYPTION_KEY: '' }),
+    ).toEqual(['JWT_KEYS_ENCRYPTION_KEY is not set']);
+  });
+
+  it('should reject the development defaults from docker-compose', () => {
+    expect(
+      findInsecureSecrets({
+        ...production,
+        MFA_ENCRYPTION_KEY: 'm4x0c2q8v7n1r5t9k3w6y0b4d8f2h6j1',
+      }),
+    ).toEqual(['MFA_ENCRYPTION_KEY uses a published default value']);
+  });
+
+  it('should check optional secrets only when set', () => {
+    expect(
+      findInsecureSecrets({ ...production, ADMIN_API_KEY: 'short' }),
+    ).toEqual([
+      `ADMIN_API_KEY must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters`,
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Secrets the service reads from the environment. Required ones must be
+ * set; optional ones are only checked when present.
+ */
+const REQUIRED_SECRETS = ['JWT_KEYS_ENCRYPTION_KEY', 'MFA_ENCRYPTION_KEY'];
+const OPTIONAL_SECRETS = ['ADMIN_API_KEY'];
+
+/**
+ * Values published in docker-compose.yml, .env.example and earlier
+ * releases for local development.
+ */
+const DEFAULT_SECRETS = new Set([
+  'your-secret-key',
+  'your-secret-key-here',
+  'change-me',
+  '15zw8t6t5q1nbo1cm97eulio4hzg2evq',
+  'm4x0c2q8v7n1r5t9k3w6y0b4d8f2h6j1',
+  'k8d2p5w9r3t7y1u6i0o4a8s2f6g1h5j9',
+]);
+
+export const MIN_PRODUCTION_SECRET_LENGTH = 32;
+
+/**
+ * Missing, default or short secrets in a production environment, as
+ * messages; empty when the configuration is acceptable. Outside
+ * production nothing is checked.
+ */
+export function findInsecureSecrets(
+  env: NodeJS.ProcessEnv = process.env,
+): string[] {
+  if (env.NODE_ENV !== 'production') {
+    return [];
+  }
+
+  const problems: string[] = [];
+  for (const name of [...REQUIRED_SECRETS, ...OPTIONAL_SECRETS]) {
+    const value = env[name];
+    if (!value) {
+      if (REQUIRED_SECRETS.includes(name)) {
+        problems.push(`${name} is not set`);
+      }
+    } else if (DEFAULT_SECRETS.has(value)) {
+      problems.push(`${name} uses a published default value`);
+    } else if (value.length < MIN_PRODUCTION_SECRET_LENGTH) {
+      problems.push(
+        `${name} must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters`,
+      );
+    }
+  }
+  return problems;
+}
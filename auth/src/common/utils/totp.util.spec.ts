@@ -0,0 +1,53 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  findTotpStep,
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+} from './totp.util';
+
+describe('totp.util', () => {
+  // RFC 6238 appendix B test secret for HMAC-SHA1
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32 encoding', () => {
+    const bytes = Buffer.from('any carnal pleasure');
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(rfcSecret, totpStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateTotp(rfcSecret, totpStep(1111111109 * 1000), 8)).toBe(
+      '07081804',
+    );
+    expect(generateTotp(rfcSecret, totpStep(20000000000 * 1000), 8)).toBe(
+      '65353130',
+    );
+  });
+
+  it('should accept codes within the drift window and report their step', () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    const previous = totpStep(now) - 1;
+
+    expect(findTotpStep(secret, generateTotp(secret, previous), 1, now)).toBe(
+      previous,
+    );
+    expect(
+      findTotpStep(secret, generateTotp(secret, previous - 1), 1, now),
+    ).toBeNull();
+    expect(findTotpStep(secret, '12345', 1, now)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', '+256700000000', 'Opareta');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Opareta%3A%2B256700000000\?/);
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+    expect(uri).toContain('issuer=Opareta');
+  });
+});
@@ -1,25 +1,27 @@
 import { Controller, Get } from '@nestjs/common';
 import {
-    HealthCheckService,
-    HealthCheck,
-    PrismaHealthIndicator,
+  HealthCheckService,
+  HealthCheck,
+  PrismaHealthIndicator,
 } from '@nestjs/terminus';
 import { PrismaService } from '../common/database/prisma.service';
+import { RedisHealthIndicator } from './redis.health';
 
 @Controller('health')
 export class HealthController {
-    constructor(
-        private health: HealthCheckService,
-        private prismaHealth: PrismaHealthIndicator,
-        private prisma: PrismaService,
-    ) { }
+  constructor(
+    private health: HealthCheckService,
+    private prismaHealth: PrismaHealthIndicator,
+    private redisHealth: RedisHealthIndicator,
+    private prisma: PrismaService,
+  ) {}
 
-    @Get()
-    @HealthCheck()
-    check() {
-        return this.health.check([
-            () => this.prismaHealth.pingCheck('database', this.prisma),
-        ]);
-    }
+  @Get()
+  @HealthCheck()
+  check() {
+    return this.health.check([
+      () => this.prismaHealth.pingCheck('database', this.prisma),
+      () => this.redisHealth.isHealthy('redis'),
+    ]);
+  }
 }
-
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class JwkDto {
+  @ApiProperty({ description: 'Key type', example: 'RSA', enum: ['RSA', 'EC'] })
+  kty: 'RSA' | 'EC';
+
+  @ApiProperty({
+    description: 'Key ID (RFC 7638 thumbprint), matches the kid token header',
+    example: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+  })
+  kid: string;
+
+  @ApiProperty({ description: 'Public key use', example: 'sig' })
+  use: 'sig';
+
+  @ApiProperty({
+    description: 'Signing algorithm',
+    example: 'RS256',
+    enum: ['RS256', 'ES256'],
+  })
+  alg: string;
+
+  @ApiProperty({ description: 'RSA modulus', required: false })
+  n?: string;
+
+  @ApiProperty({
+    description: 'RSA public exponent',
+    example: 'AQAB',
+    required: false,
+  })
+  e?: string;
+
+  @ApiProperty({ description: 'EC curve', example: 'P-256', required: false })
+  crv?: string;
+
+  @ApiProperty({ description: 'EC x coordinate', required: false })
+  x?: string;
+
+  @ApiProperty({ description: 'EC y coordinate', required: false })
+  y?: string;
+}
+
+export class JwksResponseDto {
+  @ApiProperty({
+    description: 'Public keys accepted for access token signatures',
+    type: [JwkDto],
+  })
+  keys: JwkDto[];
+}
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsISO8601, IsOptional } from 'class-validator';
+import { SUPPORTED_ALGORITHMS } from '../keys.constants';
+import type { SigningAlgorithm } from '../keys.constants';
+
+export class RotateSigningKeyDto {
+  @ApiProperty({
+    description: 'Algorithm of the new key (defaults to JWT_SIGNING_ALGORITHM)',
+    enum: SUPPORTED_ALGORITHMS,
+    example: 'RS256',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(SUPPORTED_ALGORITHMS)
+  algorithm?: SigningAlgorithm;
+}
+
+export class RetireSigningKeyDto {
+  @ApiProperty({
+    description:
+      'When the key stops being accepted. Omit to retire it immediately, e.g. after a compromise',
+    example: '2026-10-18T16:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  retire_at?: string;
+}
+
+export class SigningKeyResponseDto {
+  @ApiProperty({ description: 'Key version', example: 2 })
+  version: number;
+
+  @ApiProperty({
+    description: 'Key ID, sent as the kid header of tokens it signs',
+    example: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+  })
+  kid: string;
+
+  @ApiProperty({ description: 'Signing algorithm', example: 'RS256' })
+  algorithm: string;
+
+  @ApiProperty({
+    description:
+      'active: signs new tokens; verify_only: still accepted until retire_at; retired: no longer accepted',
+    enum: ['active', 'verify_only', 'retired'],
+    example: 'active',
+  })
+  status: 'active' | 'verify_only' | 'retired';
+
+  @ApiProperty({
+    description: 'When the key started signing tokens',
+    example: '2026-10-18T15:00:00.000Z',
+  })
+  activated_at: Date;
+
+  @ApiProperty({
+    description: 'When the key stops (or stopped) being accepted',
+    example: null,
+    nullable: true,
+    type: Date,
+  })
+  retire_at: Date | null;
+}
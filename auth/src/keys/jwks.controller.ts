@@ -0,0 +1,29 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { KeysService } from './keys.service';
+import { JwksResponseDto } from './dto/jwks.dto';
+
+// Verifiers refetch on an unknown kid, so a short cache is enough
+const JWKS_MAX_AGE_SECONDS = 300;
+
+@ApiTags('Keys')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly keysService: KeysService) {}
+
+  @Get('jwks.json')
+  @Header('Cache-Control', `public, max-age=${JWKS_MAX_AGE_SECONDS}`)
+  @ApiOperation({
+    summary: 'JSON Web Key Set',
+    description:
+      'Public keys for verifying access token signatures locally. Pick the key whose kid matches the token header',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Published signing keys',
+    type: JwksResponseDto,
+  })
+  getJwks(): JwksResponseDto {
+    return this.keysService.getJwks();
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  MFA_CHALLENGE_TTL_SECONDS,
+} from '../auth/auth.constants';
+
+export const SUPPORTED_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export type SigningAlgorithm = (typeof SUPPORTED_ALGORITHMS)[number];
+
+export const DEFAULT_SIGNING_ALGORITHM: SigningAlgorithm =
+  process.env.JWT_SIGNING_ALGORITHM === 'ES256' ? 'ES256' : 'RS256';
+
+export const RSA_MODULUS_LENGTH = 2048;
+
+/** How often each instance picks up keys rotated by another instance */
+export const KEYS_RELOAD_INTERVAL_SECONDS = 60;
+
+/** Lower bound between reloads triggered by tokens with an unknown `kid` */
+export const KEYS_MIN_RELOAD_INTERVAL_SECONDS = 10;
+
+/**
+ * A replaced key stays published until every token it signed has expired,
+ * including tokens signed by instances that have not reloaded yet.
+ */
+export const KEY_RETIREMENT_DELAY_SECONDS =
+  Math.max(ACCESS_TOKEN_TTL_SECONDS, MFA_CHALLENGE_TTL_SECONDS) +
+  KEYS_RELOAD_INTERVAL_SECONDS;
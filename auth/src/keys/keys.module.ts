@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { KeysService } from './keys.service';
+import { KeysRepository } from './keys.repository';
+import { JwksController } from './jwks.controller';
+
+@Module({
+  controllers: [JwksController],
+  providers: [KeysService, KeysRepository],
+  exports: [KeysService],
+})
+export class KeysModule {}
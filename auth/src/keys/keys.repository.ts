@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, SigningKey } from '@prisma/client';
+import { PrismaService } from 'src/common/database/prisma.service';
+
+// Serializes key creation across instances (arbitrary application lock id)
+const SIGNING_KEY_LOCK_ID = 7_146_001;
+
+type NewSigningKey = Pick<
+  SigningKey,
+  'kid' | 'algorithm' | 'public_key' | 'private_key'
+>;
+
+@Injectable()
+export class KeysRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(): Promise<SigningKey[]> {
+    return this.prisma.signingKey.findMany({ orderBy: { id: 'desc' } });
+  }
+
+  async findByKid(kid: string): Promise<SigningKey | null> {
+    return this.prisma.signingKey.findUnique({ where: { kid } });
+  }
+
+  /**
+   * Keys still accepted at `now`, newest first. The signing key is the
+   * one without a retirement date.
+   */
+  async findUnretired(now: Date): Promise<SigningKey[]> {
+    return this.prisma.signingKey.findMany({
+      where: { OR: [{ retire_at: null }, { retire_at: { gt: now } }] },
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  /**
+   * Store the first signing key unless another instance already did.
+   * Returns the signing key in place.
+   */
+  async createIfNoneActive(key: NewSigningKey): Promise<SigningKey> {
+    return this.withLock(async (tx) => {
+      const current = await tx.signingKey.findFirst({
+        where: { retire_at: null },
+      });
+      return current ?? tx.signingKey.create({ data: key });
+    });
+  }
+
+  /**
+   * Activate a new signing key and schedule the retirement of the
+   * current one in a single transaction.
+   */
+  async rotate(key: NewSigningKey, retireAt: Date): Promise<SigningKey> {
+    return this.withLock(async (tx) => {
+      await tx.signingKey.updateMany({
+        where: { retire_at: null },
+        data: { retire_at: retireAt },
+      });
+      return tx.signingKey.create({ data: key });
+    });
+  }
+
+  async setRetireAt(id: number, retireAt: Date): Promise<SigningKey> {
+    return this.prisma.signingKey.update({
+      where: { id },
+      data: { retire_at: retireAt },
+    });
+  }
+
+  /**
+   * Private keys are only needed for signing; drop them once retired
+   */
+  async clearRetiredPrivateKeys(now: Date): Promise<number> {
+    const result = await this.prisma.signingKey.updateMany({
+      where: { retire_at: { lte: now }, private_key: { not: null } },
+      data: { private_key: null },
+    });
+    return result.count;
+  }
+
+  private async withLock<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${SIGNING_KEY_LOCK_ID})`;
+      return fn(tx);
+    });
+  }
+}
@@ -0,0 +1,266 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { SigningKey } from '@prisma/client';
+import { generateKeyPairSync } from 'crypto';
+import { KeysService } from './keys.service';
+import { KeysRepository } from './keys.repository';
+import { KEY_RETIREMENT_DELAY_SECONDS } from './keys.constants';
+
+describe('KeysService', () => {
+  let service: KeysService;
+  let stored: SigningKey[];
+
+  const pkcs8 = { type: 'pkcs8', format: 'pem' } as const;
+  const spki = { type: 'spki', format: 'pem' } as const;
+
+  // In-memory stand-in for the SigningKey table
+  const mockRepository = {
+    findAll: jest.fn(() => Promise.resolve([...stored].reverse())),
+    findByKid: jest.fn((kid: string) =>
+      Promise.resolve(stored.find((key) => key.kid === kid) ?? null),
+    ),
+    findUnretired: jest.fn((now: Date) =>
+      Promise.resolve(
+        stored.filter((key) => !key.retire_at || key.retire_at > now).reverse(),
+      ),
+    ),
+    createIfNoneActive: jest.fn((data: Partial<SigningKey>) =>
+      Promise.resolve(stored.find((key) => !key.retire_at) ?? insert(data)),
+    ),
+    rotate: jest.fn((data: Partial<SigningKey>, retireAt: Date) => {
+      stored
+        .filter((key) => !key.retire_at)
+        .forEach((key) => (key.retire_at = retireAt));
+      return Promise.resolve(insert(data));
+    }),
+    setRetireAt: jest.fn((id: number, retireAt: Date) => {
+      const key = stored.find((candidate) => candidate.id === id)!;
+      key.retire_at = retireAt;
+      return Promise.resolve(key);
+    }),
+    clearRetiredPrivateKeys: jest.fn().mockResolvedValue(0),
+  };
+
+  const insert = (data: Partial<SigningKey>): SigningKey => {
+    const key = {
+      ...data,
+      id: stored.length + 1,
+      activated_at: new Date(),
+      retire_at: null,
+      created_at: new Date(),
+    } as SigningKey;
+    stored.push(key);
+    return key;
+  };
+
+  const tokenWithKid = (kid?: string) =>
+    `${Buffer.from(JSON.stringify({ alg: 'RS256', kid })).toString('base64url')}.e30.sig`;
+
+  const createService = async (): Promise<KeysService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeysService,
+        {
+          provide: KeysRepository,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+    const keysService = module.get<KeysService>(KeysService);
+    await keysService.onModuleInit();
+    return keysService;
+  };
+
+  beforeEach(async () => {
+    stored = [];
+    process.env.JWT_KEYS_ENCRYPTION_KEY = 'test-keys-encryption-key';
+    service = await createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    delete process.env.JWT_PRIVATE_KEY;
+    jest.clearAllMocks();
+  });
+
+  describe('onModuleInit', () => {
+    it('should generate a first RS256 key and publish it', () => {
+      const { keys } = service.getJwks();
+
+      expect(stored).toHaveLength(1);
+      expect(service.signOptions()).toEqual({
+        algorithm: 'RS256',
+        keyid: stored[0].kid,
+      });
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).toMatchObject({
+        kty: 'RSA',
+        kid: stored[0].kid,
+        use: 'sig',
+        alg: 'RS256',
+        e: 'AQAB',
+      });
+      expect(keys[0]).not.toHaveProperty('d');
+    });
+
+    it('should store the private key encrypted', () => {
+      expect(stored[0].private_key).not.toContain('PRIVATE KEY');
+      expect(service.getPrivateKey(stored[0].kid).asymmetricKeyType).toBe(
+        'rsa',
+      );
+    });
+
+    it('should reuse the key stored by another instance', async () => {
+      const other = await createService();
+
+      expect(stored).toHaveLength(1);
+      expect(other.signOptions().keyid).toBe(stored[0].kid);
+      other.onModuleDestroy();
+    });
+
+    it('should import JWT_PRIVATE_KEY into an empty key store', async () => {
+      stored = [];
+      process.env.JWT_PRIVATE_KEY = generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+        privateKeyEncoding: pkcs8,
+        publicKeyEncoding: spki,
+      }).privateKey;
+
+      const imported = await createService();
+
+      expect(imported.signOptions().algorithm).toBe('ES256');
+      expect(imported.getJwks().keys[0]).toMatchObject({
+        kty: 'EC',
+        crv: 'P-256',
+      });
+      imported.onModuleDestroy();
+    });
+
+    it('should refuse to import RSA keys shorter than 2048 bits', async () => {
+      stored = [];
+      process.env.JWT_PRIVATE_KEY = generateKeyPairSync('rsa', {
+        modulusLength: 1024,
+        privateKeyEncoding: pkcs8,
+        publicKeyEncoding: spki,
+      }).privateKey;
+
+      await expect(createService()).rejects.toThrow('Unsupported JWT key');
+    });
+
+    it('should refuse to start without JWT_KEYS_ENCRYPTION_KEY', async () => {
+      delete process.env.JWT_KEYS_ENCRYPTION_KEY;
+
+      await expect(createService()).rejects.toThrow(
+        'JWT_KEYS_ENCRYPTION_KEY is not set',
+      );
+    });
+  });
+
+  describe('rotate', () => {
+    it('should sign with the new key and keep the previous one accepted', async () => {
+      const previousKid = stored[0].kid;
+
+      const result = await service.rotate('ES256');
+
+      expect(result).toMatchObject({
+        version: 2,
+        algorithm: 'ES256',
+        status: 'active',
+      });
+      expect(service.signOptions()).toEqual({
+        algorithm: 'ES256',
+        keyid: result.kid,
+      });
+      expect(service.getJwks().keys.map((key) => key.kid)).toEqual([
+        result.kid,
+        previousKid,
+      ]);
+      await expect(
+        service.resolveVerificationKey(tokenWithKid(previousKid)),
+      ).resolves.toBe(stored[0].public_key);
+
+      const [, retireAt] = mockRepository.rotate.mock.calls[0];
+      expect(retireAt.getTime()).toBeGreaterThanOrEqual(
+        Date.now() + (KEY_RETIREMENT_DELAY_SECONDS - 5) * 1000,
+      );
+    });
+
+    it('should refuse to sign with a replaced key', async () => {
+      const previousKid = stored[0].kid;
+
+      await service.rotate();
+
+      expect(() => service.getPrivateKey(previousKid)).toThrow(
+        'is not the signing key',
+      );
+    });
+  });
+
+  describe('retire', () => {
+    it('should stop accepting a replaced key right away', async () => {
+      const previousKid = stored[0].kid;
+      await service.rotate();
+
+      const result = await service.retire(previousKid);
+
+      expect(result.status).toBe('retired');
+      expect(service.getJwks().keys.map((key) => key.kid)).not.toContain(
+        previousKid,
+      );
+      await expect(
+        service.resolveVerificationKey(tokenWithKid(previousKid)),
+      ).rejects.toThrow('Unknown signing key');
+    });
+
+    it('should schedule a later retirement', async () => {
+      const previousKid = stored[0].kid;
+      await service.rotate();
+      const retireAt = new Date(Date.now() + 60_000);
+
+      const result = await service.retire(previousKid, retireAt);
+
+      expect(result).toMatchObject({
+        status: 'verify_only',
+        retire_at: retireAt,
+      });
+    });
+
+    it('should refuse to retire the active signing key', async () => {
+      await expect(service.retire(stored[0].kid)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown key', async () => {
+      await expect(service.retire('unknown')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('resolveVerificationKey', () => {
+    it('should pick up keys rotated in by another instance', async () => {
+      const other = await createService();
+      const rotated = await other.rotate();
+      other.onModuleDestroy();
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+
+      await expect(
+        service.resolveVerificationKey(tokenWithKid(rotated.kid)),
+      ).resolves.toContain('BEGIN PUBLIC KEY');
+      jest.restoreAllMocks();
+    });
+
+    it('should reject tokens with an unknown or missing kid', async () => {
+      await expect(
+        service.resolveVerificationKey(tokenWithKid('other')),
+      ).rejects.toThrow('Unknown signing key');
+      await expect(
+        service.resolveVerificationKey(tokenWithKid()),
+      ).rejects.toThrow('Unknown signing key');
+      await expect(service.resolveVerificationKey('not-a-jwt')).rejects.toThrow(
+        'Unknown signing key',
+      );
+    });
+  });
+});
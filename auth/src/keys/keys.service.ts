@@ -0,0 +1,337 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { SigningKey as SigningKeyRecord } from '@prisma/client';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  JsonWebKey,
+  KeyObject,
+} from 'crypto';
+import { readFileSync } from 'fs';
+import { KeysRepository } from './keys.repository';
+import { JwkDto, JwksResponseDto } from './dto/jwks.dto';
+import { SigningKeyResponseDto } from './dto/signing-key.dto';
+import {
+  DEFAULT_SIGNING_ALGORITHM,
+  KEY_RETIREMENT_DELAY_SECONDS,
+  KEYS_MIN_RELOAD_INTERVAL_SECONDS,
+  KEYS_RELOAD_INTERVAL_SECONDS,
+  RSA_MODULUS_LENGTH,
+  SigningAlgorithm,
+} from './keys.constants';
+import { decryptSecret, encryptSecret } from '../common/utils/crypto.util';
+
+export interface VerificationKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  /** SPKI PEM, accepted by both jsonwebtoken and passport-jwt */
+  publicKey: string;
+  jwk: JwkDto;
+  retireAt: Date | null;
+}
+
+export interface SigningKey extends VerificationKey {
+  privateKey: KeyObject;
+}
+
+/**
+ * Versioned asymmetric keys for access tokens, stored in the database with
+ * the private key encrypted under `JWT_KEYS_ENCRYPTION_KEY`. Tokens are
+ * signed with the newest key and carry its `kid`; replaced keys stay
+ * published in the JWKS and accepted until their `retire_at`, so rotating
+ * does not invalidate tokens already issued.
+ */
+@Injectable()
+export class KeysService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(KeysService.name);
+  private readonly encryptionKey: string;
+  private signingKey?: SigningKey;
+  private verificationKeys = new Map<string, VerificationKey>();
+  private loadedAt = 0;
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(private readonly keysRepository: KeysRepository) {
+    if (!process.env.JWT_KEYS_ENCRYPTION_KEY) {
+      throw new Error('JWT_KEYS_ENCRYPTION_KEY is not set');
+    }
+    this.encryptionKey = process.env.JWT_KEYS_ENCRYPTION_KEY;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.keysRepository.createIfNoneActive(this.initialKey());
+    await this.reload();
+
+    // Picks up rotations and retirements made through other instances
+    this.reloadTimer = setInterval(() => {
+      this.reload().catch((error: Error) =>
+        this.logger.error(`Failed to reload signing keys: ${error.message}`),
+      );
+    }, KEYS_RELOAD_INTERVAL_SECONDS * 1000);
+    this.reloadTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.reloadTimer);
+  }
+
+  /** `kid` and algorithm headers for tokens signed now */
+  signOptions(): { algorithm: SigningAlgorithm; keyid: string } {
+    const key = this.currentSigningKey();
+    return { algorithm: key.alg, keyid: key.kid };
+  }
+
+  getPrivateKey(kid: string | undefined): KeyObject {
+    const key = this.currentSigningKey();
+    if (kid !== key.kid) {
+      throw new Error(`Key ${kid} is not the signing key`);
+    }
+    return key.privateKey;
+  }
+
+  /**
+   * Public key for the `kid` in the token header. Reloads once for keys
+   * rotated in by another instance; throws for tokens without a `kid` or
+   * signed by a retired key.
+   */
+  async resolveVerificationKey(token: string): Promise<string> {
+    const kid = readKid(token);
+    if (
+      kid &&
+      !this.verificationKeys.has(kid) &&
+      Date.now() - this.loadedAt >= KEYS_MIN_RELOAD_INTERVAL_SECONDS * 1000
+    ) {
+      await this.reload();
+    }
+
+    const key = kid ? this.verificationKeys.get(kid) : undefined;
+    if (!key || isRetired(key.retireAt)) {
+      throw new Error('Unknown signing key');
+    }
+    return key.publicKey;
+  }
+
+  getJwks(): JwksResponseDto {
+    return {
+      keys: [...this.verificationKeys.values()]
+        .filter((key) => !isRetired(key.retireAt))
+        .map((key) => key.jwk),
+    };
+  }
+
+  async listKeys(): Promise<SigningKeyResponseDto[]> {
+    const keys = await this.keysRepository.findAll();
+    return keys.map(toResponse);
+  }
+
+  /**
+   * Start signing with a new key. The previous key stays accepted for
+   * KEY_RETIREMENT_DELAY_SECONDS, the longest lifetime of a token it signed.
+   */
+  async rotate(
+    algorithm: SigningAlgorithm = DEFAULT_SIGNING_ALGORITHM,
+  ): Promise<SigningKeyResponseDto> {
+    const retireAt = new Date(Date.now() + KEY_RETIREMENT_DELAY_SECONDS * 1000);
+    const created = await this.keysRepository.rotate(
+      this.generateKey(algorithm),
+      retireAt,
+    );
+    await this.reload();
+
+    this.logger.log(
+      `Rotated signing key to ${created.kid} (version ${created.id}), previous key retires at ${retireAt.toISOString()}`,
+    );
+    return toResponse(created);
+  }
+
+  /**
+   * Stop accepting a replaced key at `retireAt`, or right away. The signing
+   * key itself cannot be retired: rotate first.
+   */
+  async retire(kid: string, retireAt?: Date): Promise<SigningKeyResponseDto> {
+    const key = await this.keysRepository.findByKid(kid);
+    if (!key) {
+      throw new NotFoundException('Signing key not found');
+    }
+    if (!key.retire_at) {
+      throw new ConflictException(
+        'Cannot retire the active signing key, rotate to a new key first',
+      );
+    }
+
+    const updated = await this.keysRepository.setRetireAt(
+      key.id,
+      retireAt ?? new Date(),
+    );
+    await this.reload();
+
+    this.logger.log(
+      `Signing key ${kid} retires at ${updated.retire_at?.toISOString()}`,
+    );
+    return toResponse(updated);
+  }
+
+  private currentSigningKey(): SigningKey {
+    if (!this.signingKey) {
+      throw new Error('Signing keys are not loaded');
+    }
+    return this.signingKey;
+  }
+
+  private async reload(): Promise<void> {
+    const now = new Date();
+    const records = await this.keysRepository.findUnretired(now);
+    const current = records.find((record) => record.retire_at === null);
+    if (!current?.private_key) {
+      throw new Error('No active signing key');
+    }
+
+    this.verificationKeys = new Map(
+      records.map((record) => [record.kid, toVerificationKey(record)]),
+    );
+    if (this.signingKey?.kid !== current.kid) {
+      this.signingKey = {
+        ...toVerificationKey(current),
+        privateKey: createPrivateKey(
+          decryptSecret(current.private_key, this.encryptionKey),
+        ),
+      };
+      this.logger.log(
+        `Signing tokens with ${current.algorithm} key ${current.kid} (version ${current.id})`,
+      );
+    }
+    this.loadedAt = Date.now();
+
+    await this.keysRepository.clearRetiredPrivateKeys(now);
+  }
+
+  /**
+   * First key of a fresh database. A PEM in JWT_PRIVATE_KEY or
+   * JWT_PRIVATE_KEY_FILE is imported so tokens issued before the key
+   * store existed stay valid; otherwise a new key is generated.
+   */
+  private initialKey() {
+    const pem = readKeyMaterial('JWT_PRIVATE_KEY');
+    return pem
+      ? this.toRecord(createPrivateKey(pem))
+      : this.generateKey(DEFAULT_SIGNING_ALGORITHM);
+  }
+
+  private generateKey(algorithm: SigningAlgorithm) {
+    const { privateKey } =
+      algorithm === 'ES256'
+        ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : generateKeyPairSync('rsa', { modulusLength: RSA_MODULUS_LENGTH });
+    return this.toRecord(privateKey);
+  }
+
+  private toRecord(privateKey: KeyObject) {
+    const publicKey = createPublicKey(privateKey);
+    return {
+      kid: thumbprint(publicKey.export({ format: 'jwk' })),
+      algorithm: algorithmFor(publicKey),
+      public_key: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      private_key: encryptSecret(
+        privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        this.encryptionKey,
+      ),
+    };
+  }
+}
+
+function isRetired(retireAt: Date | null): boolean {
+  return retireAt !== null && retireAt.getTime() <= Date.now();
+}
+
+function toResponse(record: SigningKeyRecord): SigningKeyResponseDto {
+  return {
+    version: record.id,
+    kid: record.kid,
+    algorithm: record.algorithm,
+    status: !record.retire_at
+      ? 'active'
+      : isRetired(record.retire_at)
+        ? 'retired'
+        : 'verify_only',
+    activated_at: record.activated_at,
+    retire_at: record.retire_at,
+  };
+}
+
+/**
+ * Reads `NAME` (PEM, `\n` escapes allowed for single-line env files) or
+ * the file referenced by `NAME_FILE`.
+ */
+function readKeyMaterial(name: string): string | undefined {
+  const inline = process.env[name];
+  if (inline) {
+    return inline.replace(/\\n/g, '\n');
+  }
+  const file = process.env[`${name}_FILE`];
+  return file ? readFileSync(file, 'utf8') : undefined;
+}
+
+function readKid(token: string): string | undefined {
+  try {
+    const header = JSON.parse(
+      Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+    ) as { kid?: unknown };
+    return typeof header.kid === 'string' ? header.kid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toVerificationKey(record: SigningKeyRecord): VerificationKey {
+  const alg = record.algorithm as SigningAlgorithm;
+  const jwk = createPublicKey(record.public_key).export({ format: 'jwk' });
+  const { kid } = record;
+
+  return {
+    kid,
+    alg,
+    publicKey: record.public_key,
+    jwk:
+      jwk.kty === 'RSA'
+        ? { kty: 'RSA', kid, use: 'sig', alg, n: jwk.n, e: jwk.e }
+        : { kty: 'EC', kid, use: 'sig', alg, crv: jwk.crv, x: jwk.x, y: jwk.y },
+    retireAt: record.retire_at,
+  };
+}
+
+function algorithmFor(key: KeyObject): SigningAlgorithm {
+  const details = key.asymmetricKeyDetails;
+  if (
+    key.asymmetricKeyType === 'rsa' &&
+    (details?.modulusLength ?? 0) >= RSA_MODULUS_LENGTH
+  ) {
+    return 'RS256';
+  }
+  if (key.asymmetricKeyType === 'ec' && details?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  throw new Error(
+    `Unsupported JWT key: use RSA (${RSA_MODULUS_LENGTH} bits or more) or EC P-256`,
+  );
+}
+
+/**
+ * RFC 7638 JWK thumbprint: SHA-256 over the required members in
+ * lexicographic order, so the `kid` is stable for a given key.
+ */
+function thumbprint(jwk: JsonWebKey): string {
+  const members =
+    jwk.kty === 'RSA'
+      ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+  return createHash('sha256')
+    .update(JSON.stringify(members))
+    .digest('base64url');
+}
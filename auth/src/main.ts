@@ -1,17 +1,29 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { logger } from './common/logger/logger';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { AccessLoggerInterceptor } from './common/interceptors/access-logger.interceptor';
+import { findInsecureSecrets } from './common/utils/secrets.util';
 
 async function bootstrap() {
   const isProduction = process.env.NODE_ENV === 'production';
-  const app = await NestFactory.create(AppModule, {
+
+  // Never serve production traffic with secrets published in the repository
+  const insecureSecrets = findInsecureSecrets();
+  if (insecureSecrets.length > 0) {
+    throw new Error(`Refusing to start: ${insecureSecrets.join('; ')}`);
+  }
+
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: logger,
   });
 
+  // Requests arrive through nginx; take the client IP from X-Forwarded-For
+  app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS ?? 1));
+
   app.enableCors();
 
   // Register global exception filter
@@ -44,7 +56,18 @@ async function bootstrap() {
       },
       'JWT-auth',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'x-admin-api-key',
+        in: 'header',
+        description: 'Operator key from ADMIN_API_KEY',
+      },
+      'admin-api-key',
+    )
     .addTag('Authentication', 'User authentication endpoints')
+    .addTag('Admin', 'Operator endpoints')
+    .addTag('Keys', 'Public keys for verifying access tokens')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
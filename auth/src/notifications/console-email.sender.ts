@@ -0,0 +1,16 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EmailSender } from './email-sender.interface';
+
+/**
+ * Local stand-in that writes outgoing email to the application log.
+ * Never use in production: messages contain one-time codes.
+ */
+@Injectable()
+export class ConsoleEmailSender implements EmailSender {
+  private readonly logger = new Logger(ConsoleEmailSender.name);
+
+  async send(to: string, subject: string, body: string): Promise<void> {
+    this.logger.log(`Email to ${to} - ${subject}: ${body}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,16 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SmsSender } from './sms-sender.interface';
+
+/**
+ * Local stand-in that writes outgoing SMS to the application log.
+ * Never use in production: messages contain one-time codes.
+ */
+@Injectable()
+export class ConsoleSmsSender implements SmsSender {
+  private readonly logger = new Logger(ConsoleSmsSender.name);
+
+  async send(phoneNumber: string, message: string): Promise<void> {
+    this.logger.log(`SMS to ${phoneNumber}: ${message}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,5 @@
+export const EMAIL_SENDER = Symbol('EMAIL_SENDER');
+
+export interface EmailSender {
+  send(to: string, subject: string, body: string): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { EmailSender } from './email-sender.interface';
+
+/**
+ * Local stand-in that appends outgoing email as JSON lines to an outbox file
+ */
+@Injectable()
+export class FileEmailSender implements EmailSender {
+  private readonly logger = new Logger(FileEmailSender.name);
+  private readonly outboxPath =
+    process.env.EMAIL_OUTBOX_FILE || 'logs/email-outbox.log';
+
+  async send(to: string, subject: string, body: string): Promise<void> {
+    await mkdir(dirname(this.outboxPath), { recursive: true });
+    await appendFile(
+      this.outboxPath,
+      JSON.stringify({
+        to,
+        subject,
+        body,
+        sent_at: new Date().toISOString(),
+      }) + '\n',
+    );
+    this.logger.debug(`Email to ${to} written to ${this.outboxPath}`);
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { SmsSender } from './sms-sender.interface';
+
+/**
+ * Local stand-in that appends outgoing SMS as JSON lines to an outbox file,
+ * so tests and developers can read codes without a real SMS gateway.
+ */
+@Injectable()
+export class FileSmsSender implements SmsSender {
+  private readonly logger = new Logger(FileSmsSender.name);
+  private readonly outboxPath =
+    process.env.SMS_OUTBOX_FILE || 'logs/sms-outbox.log';
+
+  async send(phoneNumber: string, message: string): Promise<void> {
+    await mkdir(dirname(this.outboxPath), { recursive: true });
+    await appendFile(
+      this.outboxPath,
+      JSON.stringify({
+        to: phoneNumber,
+        message,
+        sent_at: new Date().toISOString(),
+      }) + '\n',
+    );
+    this.logger.debug(`SMS to ${phoneNumber} written to ${this.outboxPath}`);
+  }
+}
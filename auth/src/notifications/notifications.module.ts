@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { SMS_SENDER } from './sms-sender.interface';
+import { EMAIL_SENDER } from './email-sender.interface';
+import { ConsoleSmsSender } from './console-sms.sender';
+import { FileSmsSender } from './file-sms.sender';
+import { ConsoleEmailSender } from './console-email.sender';
+import { FileEmailSender } from './file-email.sender';
+
+@Module({
+  providers: [
+    {
+      provide: SMS_SENDER,
+      useFactory: () =>
+        process.env.SMS_SENDER === 'file'
+          ? new FileSmsSender()
+          : new ConsoleSmsSender(),
+    },
+    {
+      provide: EMAIL_SENDER,
+      useFactory: () =>
+        process.env.EMAIL_SENDER === 'file'
+          ? new FileEmailSender()
+          : new ConsoleEmailSender(),
+    },
+  ],
+  exports: [SMS_SENDER, EMAIL_SENDER],
+})
+export class NotificationsModule {}
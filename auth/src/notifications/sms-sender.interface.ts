@@ -0,0 +1,5 @@
+export const SMS_SENDER = Symbol('SMS_SENDER');
+
+export interface SmsSender {
+  send(phoneNumber: string, message: string): Promise<void>;
+}
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "merchant_id" INTEGER,
+ADD COLUMN     "user_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Payment_user_id_idx" ON "Payment"("user_id");
+
+-- CreateIndex
+CREATE INDEX "Payment_merchant_id_idx" ON "Payment"("merchant_id");
@@ -0,0 +1,14 @@
+-- CreateIndex
+CREATE INDEX "Payment_created_at_id_idx" ON "Payment"("created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "Payment_amount_id_idx" ON "Payment"("amount", "id");
+
+-- CreateIndex
+CREATE INDEX "Payment_status_created_at_idx" ON "Payment"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "Payment_customer_phone_created_at_idx" ON "Payment"("customer_phone", "created_at");
+
+-- CreateIndex
+CREATE INDEX "Payment_provider_name_created_at_idx" ON "Payment"("provider_name", "created_at");
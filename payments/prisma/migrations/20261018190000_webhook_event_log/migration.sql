@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "WebhookSignatureResult" AS ENUM ('VALID', 'MISSING', 'STALE', 'INVALID');
+
+-- CreateEnum
+CREATE TYPE "WebhookOutcome" AS ENUM ('RECEIVED', 'PROCESSED', 'DUPLICATE', 'REJECTED', 'FAILED');
+
+-- DropForeignKey
+ALTER TABLE "WebhookEvent" DROP CONSTRAINT "WebhookEvent_payment_reference_id_fkey";
+
+-- DropIndex
+DROP INDEX "WebhookEvent_payment_reference_id_key";
+
+-- DropIndex
+DROP INDEX "WebhookEvent_provider_transaction_id_key";
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'mtn',
+ADD COLUMN     "event_id" TEXT,
+ADD COLUMN     "raw_payload" TEXT,
+ADD COLUMN     "headers" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "signature_result" "WebhookSignatureResult",
+ADD COLUMN     "outcome" "WebhookOutcome" NOT NULL DEFAULT 'RECEIVED',
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "dedup_key" TEXT,
+ALTER COLUMN "payment_reference_id" DROP NOT NULL,
+ALTER COLUMN "status" DROP NOT NULL,
+ALTER COLUMN "provider_transaction_id" DROP NOT NULL,
+ALTER COLUMN "timestamp" DROP NOT NULL;
+
+-- Backfill: earlier rows only kept the parsed fields of the latest MTN delivery per payment
+UPDATE "WebhookEvent"
+SET "raw_payload" = json_build_object(
+        'payment_reference_id', "payment_reference_id",
+        'status', "status",
+        'provider_transaction_id', "provider_transaction_id",
+        'timestamp', "timestamp"
+    )::text,
+    "outcome" = CASE WHEN "is_processed" THEN 'PROCESSED'::"WebhookOutcome" ELSE 'RECEIVED'::"WebhookOutcome" END,
+    "dedup_key" = CASE WHEN "is_processed" THEN "provider_transaction_id" || ':' || "status"::text END;
+
+ALTER TABLE "WebhookEvent" ALTER COLUMN "raw_payload" SET NOT NULL,
+ALTER COLUMN "provider" DROP DEFAULT,
+ALTER COLUMN "headers" DROP DEFAULT,
+DROP COLUMN "is_processed";
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_payment_reference_id_created_at_idx" ON "WebhookEvent"("payment_reference_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_provider_dedup_key_key" ON "WebhookEvent"("provider", "dedup_key");
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatusSource" AS ENUM ('PROVIDER_INITIATION', 'WEBHOOK', 'MANUAL_CALLBACK', 'RECONCILIATION');
+
+-- CreateTable
+CREATE TABLE "PaymentStatusTransition" (
+    "id" SERIAL NOT NULL,
+    "payment_id" INTEGER NOT NULL,
+    "from_status" "PaymentStatus" NOT NULL,
+    "to_status" "PaymentStatus" NOT NULL,
+    "source" "PaymentStatusSource" NOT NULL,
+    "actor_user_id" INTEGER,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentStatusTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentStatusTransition_payment_id_created_at_idx" ON "PaymentStatusTransition"("payment_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "PaymentStatusTransition" ADD CONSTRAINT "PaymentStatusTransition_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
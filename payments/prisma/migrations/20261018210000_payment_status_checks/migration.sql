@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "status_checked_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Payment_status_updated_at_idx" ON "Payment"("status", "updated_at");
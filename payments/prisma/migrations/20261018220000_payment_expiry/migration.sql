@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'EXPIRED';
+ALTER TYPE "PaymentStatus" ADD VALUE 'CANCELLED';
+
+-- AlterEnum
+ALTER TYPE "PaymentStatusSource" ADD VALUE 'EXPIRY';
+ALTER TYPE "PaymentStatusSource" ADD VALUE 'CANCELLATION';
+
+-- AlterTable
+ALTER TABLE "PaymentMethod" ADD COLUMN     "expiry_minutes" INTEGER NOT NULL DEFAULT 15;
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "expires_at" TIMESTAMP(3);
+
+-- Backfill existing payments with the window of their payment method
+UPDATE "Payment" p
+SET "expires_at" = p."created_at" + make_interval(mins => m."expiry_minutes")
+FROM "PaymentMethod" m
+WHERE m."id" = p."payment_method_id";
+
+ALTER TABLE "Payment" ALTER COLUMN "expires_at" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Payment_status_expires_at_idx" ON "Payment"("status", "expires_at");
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "MerchantWebhookDeliveryStatus" AS ENUM ('PENDING', 'DELIVERED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "MerchantWebhookEndpoint" (
+    "id" SERIAL NOT NULL,
+    "merchant_id" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "description" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MerchantWebhookEndpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MerchantWebhookDelivery" (
+    "id" SERIAL NOT NULL,
+    "endpoint_id" INTEGER NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "payment_reference_id" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "MerchantWebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempt_count" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "last_attempt_at" TIMESTAMP(3),
+    "delivered_at" TIMESTAMP(3),
+    "dead_lettered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MerchantWebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MerchantWebhookAttempt" (
+    "id" SERIAL NOT NULL,
+    "delivery_id" INTEGER NOT NULL,
+    "response_status" INTEGER,
+    "response_body" TEXT,
+    "error" TEXT,
+    "duration_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MerchantWebhookAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MerchantWebhookEndpoint_merchant_id_idx" ON "MerchantWebhookEndpoint"("merchant_id");
+
+-- CreateIndex
+CREATE INDEX "MerchantWebhookDelivery_status_next_attempt_at_idx" ON "MerchantWebhookDelivery"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "MerchantWebhookDelivery_endpoint_id_created_at_idx" ON "MerchantWebhookDelivery"("endpoint_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "MerchantWebhookDelivery_payment_reference_id_idx" ON "MerchantWebhookDelivery"("payment_reference_id");
+
+-- CreateIndex
+CREATE INDEX "MerchantWebhookAttempt_delivery_id_created_at_idx" ON "MerchantWebhookAttempt"("delivery_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "MerchantWebhookDelivery" ADD CONSTRAINT "MerchantWebhookDelivery_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "MerchantWebhookEndpoint"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MerchantWebhookAttempt" ADD CONSTRAINT "MerchantWebhookAttempt_delivery_id_fkey" FOREIGN KEY ("delivery_id") REFERENCES "MerchantWebhookDelivery"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
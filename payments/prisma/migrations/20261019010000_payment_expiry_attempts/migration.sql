@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "expiry_attempted_at" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "status_checked_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Refund_status_updated_at_idx" ON "Refund"("status", "updated_at");
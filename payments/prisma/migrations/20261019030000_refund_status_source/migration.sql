@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatusSource" ADD VALUE 'REFUND';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "MerchantWebhookAttempt" DROP COLUMN "response_body";
@@ -4,10 +4,22 @@ import { AuthModule } from './auth/auth.module';
 import { PaymentsModule } from './payments/payments.module';
 import { HealthModule } from './health/health.module';
 import { MetricsModule } from './metrics/metrics.module';
+import { ReconciliationModule } from './reconciliation/reconciliation.module';
+import { ExpiryModule } from './expiry/expiry.module';
+import { MerchantWebhooksModule } from './merchant-webhooks/merchant-webhooks.module';
 
 @Module({
-  imports: [CommonModule, AuthModule, PaymentsModule, HealthModule, MetricsModule],
+  imports: [
+    CommonModule,
+    AuthModule,
+    PaymentsModule,
+    HealthModule,
+    MetricsModule,
+    ReconciliationModule,
+    ExpiryModule,
+    MerchantWebhooksModule,
+  ],
   controllers: [],
   providers: [],
 })
-export class AppModule { }
+export class AppModule {}
@@ -0,0 +1,14 @@
+/** Redis client whose key prefix matches the auth service's keys */
+export const AUTH_REDIS_NAMESPACE = 'auth';
+
+export const SUPPORTED_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export type SigningAlgorithm = (typeof SUPPORTED_ALGORITHMS)[number];
+
+export const JWKS_CACHE_TTL_SECONDS =
+  Number(process.env.JWKS_CACHE_TTL_SECONDS) || 5 * 60;
+
+/** Lower bound between two JWKS fetches */
+export const JWKS_MIN_REFRESH_INTERVAL_SECONDS = 30;
+
+export const JWKS_FETCH_TIMEOUT_MS = 5000;
@@ -0,0 +1,161 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { AuthGuard } from './auth.guard';
+import { JwksService, VerificationKey } from './jwks.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+
+describe('AuthGuard', () => {
+  let guard: AuthGuard;
+  let request: { headers: Record<string, string>; user?: unknown };
+
+  const jwtService = new JwtService({});
+  const spki = { type: 'spki', format: 'pem' } as const;
+
+  const signingKey = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const otherKey = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const publishedKey: VerificationKey = {
+    alg: 'ES256',
+    publicKey: signingKey.publicKey.export(spki).toString(),
+  };
+
+  const claims: JwtPayload = {
+    sub: 7,
+    phone_number: '+256700000000',
+    email: 'user@example.com',
+    client_id: 'opareta',
+    jti: 'token-jti',
+    ver: 0,
+    roles: ['customer'],
+    permissions: ['payments:create', 'payments:read'],
+  };
+
+  const sign = (
+    payload: object = claims,
+    options: { privateKey?: unknown; expiresIn?: number; keyid?: string } = {},
+  ) =>
+    jwtService.sign(payload, {
+      privateKey: (options.privateKey ?? signingKey.privateKey) as string,
+      algorithm: 'ES256',
+      keyid: options.keyid ?? 'kid-1',
+      expiresIn: options.expiresIn ?? 60,
+    });
+
+  const reflector = { getAllAndOverride: jest.fn() };
+  const jwksService = {
+    getKey: jest.fn((kid: string) =>
+      Promise.resolve(kid === 'kid-1' ? publishedKey : undefined),
+    ),
+  };
+  const tokenRevocationService = {
+    isRevoked: jest.fn().mockResolvedValue(false),
+  };
+
+  const contextWith = (token?: string): ExecutionContext => {
+    request = {
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    };
+    return {
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+  };
+
+  beforeEach(() => {
+    reflector.getAllAndOverride.mockReturnValue(false);
+    guard = new AuthGuard(
+      reflector as unknown as Reflector,
+      jwtService,
+      jwksService as unknown as JwksService,
+      tokenRevocationService as unknown as TokenRevocationService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should verify the token locally and expose its claims', async () => {
+    await expect(guard.canActivate(contextWith(sign()))).resolves.toBe(true);
+
+    expect(request.user).toEqual({
+      user_id: 7,
+      phone_number: '+256700000000',
+      email: 'user@example.com',
+      roles: ['customer'],
+      permissions: ['payments:create', 'payments:read'],
+      client_id: 'opareta',
+      jti: 'token-jti',
+      iat: expect.any(Number) as number,
+      exp: expect.any(Number) as number,
+    });
+    expect(jwksService.getKey).toHaveBeenCalledWith('kid-1');
+  });
+
+  it('should skip public routes', async () => {
+    reflector.getAllAndOverride.mockReturnValue(true);
+
+    await expect(guard.canActivate(contextWith())).resolves.toBe(true);
+    expect(jwksService.getKey).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a token', async () => {
+    await expect(guard.canActivate(contextWith())).rejects.toThrow(
+      'No token provided',
+    );
+  });
+
+  it('should reject tokens signed with an unpublished key', async () => {
+    await expect(
+      guard.canActivate(contextWith(sign(claims, { keyid: 'unknown' }))),
+    ).rejects.toThrow('Unknown signing key');
+  });
+
+  it('should reject tokens whose signature does not match the kid', async () => {
+    const forged = sign(claims, { privateKey: otherKey.privateKey });
+
+    await expect(guard.canActivate(contextWith(forged))).rejects.toThrow(
+      'Invalid token',
+    );
+  });
+
+  it('should reject tokens using another algorithm than the key', async () => {
+    const forged = jwtService.sign(claims, {
+      secret: publishedKey.publicKey,
+      algorithm: 'HS256',
+      keyid: 'kid-1',
+    });
+
+    await expect(guard.canActivate(contextWith(forged))).rejects.toThrow(
+      'Invalid token',
+    );
+  });
+
+  it('should reject expired tokens', async () => {
+    const expired = sign(claims, { expiresIn: -10 });
+
+    await expect(guard.canActivate(contextWith(expired))).rejects.toThrow(
+      'Token has expired',
+    );
+  });
+
+  it('should reject MFA challenge tokens', async () => {
+    await expect(
+      guard.canActivate(contextWith(sign({ ...claims, typ: 'mfa_challenge' }))),
+    ).rejects.toThrow('Not an access token');
+  });
+
+  it('should reject revoked tokens', async () => {
+    tokenRevocationService.isRevoked.mockResolvedValueOnce(true);
+
+    await expect(guard.canActivate(contextWith(sign()))).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(tokenRevocationService.isRevoked).toHaveBeenCalledWith(
+      expect.objectContaining({ sub: 7, jti: 'token-jti' }),
+    );
+  });
+});
@@ -6,18 +6,23 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { ConfigService } from '@nestjs/config';
+import { JwtService, TokenExpiredError } from '@nestjs/jwt';
 import { IS_PUBLIC_KEY } from '../common/decorators/public.decorator';
-import Axios from 'axios';
+import { JwksService } from './jwks.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
 
 @Injectable()
 export class AuthGuard implements CanActivate {
   private readonly logger = new Logger(AuthGuard.name);
 
   constructor(
-    private readonly configService: ConfigService,
     private readonly reflector: Reflector,
-  ) { }
+    private readonly jwtService: JwtService,
+    private readonly jwksService: JwksService,
+    private readonly tokenRevocationService: TokenRevocationService,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
@@ -39,34 +44,33 @@ export class AuthGuard implements CanActivate {
     }
 
     try {
-      const authServiceUrl =
-        this.configService.get<string>('AUTH_SERVICE_URL')
-      const verifyEndpoint = `${authServiceUrl}/auth/verify`;
+      const payload = await this.verifyToken(token);
 
-      this.logger.debug(`Verifying token with auth service: ${verifyEndpoint}`);
-
-      const response = await Axios.post(
-        verifyEndpoint,
-        { token },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          timeout: 5000,
-        },
-      ).catch((error) => {
-        this.logger.error(`Token verification error: ${error.message}`);
-        throw new UnauthorizedException('Token verification failed');
-      });
+      if (payload.typ) {
+        this.logger.warn(`Rejected ${payload.typ} token`);
+        throw new UnauthorizedException('Not an access token');
+      }
 
-      if (response.data && response.data.valid) {
-        request.user = response.data.user || {};
-        this.logger.debug('Token verified successfully');
-        return true;
+      if (await this.tokenRevocationService.isRevoked(payload)) {
+        this.logger.warn(`Rejected revoked token of user ${payload.sub}`);
+        throw new UnauthorizedException('Token has been revoked');
       }
 
-      this.logger.warn('Token verification failed: invalid token');
-      throw new UnauthorizedException('Invalid token');
+      // Claims used by RolesGuard and the handlers (see @CurrentUser())
+      const user: AuthenticatedUser = {
+        user_id: payload.sub,
+        phone_number: payload.phone_number,
+        email: payload.email,
+        roles: payload.roles || [],
+        permissions: payload.permissions || [],
+        client_id: payload.client_id,
+        jti: payload.jti,
+        iat: payload.iat,
+        exp: payload.exp,
+      };
+      request.user = user;
+      this.logger.debug('Token verified successfully');
+      return true;
     } catch (error) {
       this.logger.error(
         `Token verification error: ${error.message}`,
@@ -79,10 +83,36 @@ export class AuthGuard implements CanActivate {
     }
   }
 
+  /**
+   * Checks the signature against the auth service's published key named
+   * by the `kid` header, and the expiry.
+   */
+  private async verifyToken(token: string): Promise<JwtPayload> {
+    const decoded = this.jwtService.decode<{
+      header?: { kid?: string };
+    } | null>(token, { complete: true });
+    const kid = decoded?.header?.kid;
+    const key = kid ? await this.jwksService.getKey(kid) : undefined;
+    if (!key) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+
+    try {
+      return await this.jwtService.verifyAsync<JwtPayload>(token, {
+        publicKey: key.publicKey,
+        algorithms: [key.alg],
+      });
+    } catch (error) {
+      throw new UnauthorizedException(
+        error instanceof TokenExpiredError
+          ? 'Token has expired'
+          : 'Invalid token',
+      );
+    }
+  }
+
   private extractTokenFromHeader(request: any): string | undefined {
-    const [type, token] =
-      request.headers.authorization?.split(' ') ?? [];
+    const [type, token] = request.headers.authorization?.split(' ') ?? [];
     return type === 'Bearer' ? token : undefined;
   }
 }
-
@@ -1,6 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
 import { AuthGuard } from './auth.guard';
+import { RolesGuard } from './roles.guard';
+import { JwksService } from './jwks.service';
+import { TokenRevocationService } from './token-revocation.service';
 import { APP_GUARD } from '@nestjs/core';
 
 @Module({
@@ -8,15 +12,23 @@ import { APP_GUARD } from '@nestjs/core';
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    // Verification only: keys come from the auth service's JWKS
+    JwtModule.register({}),
   ],
   providers: [
     AuthGuard,
+    JwksService,
+    TokenRevocationService,
     {
       provide: APP_GUARD,
       useClass: AuthGuard,
     },
+    // Registered after AuthGuard so request.user is populated
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
   ],
   exports: [AuthGuard],
 })
-export class AuthModule { }
-
+export class AuthModule {}
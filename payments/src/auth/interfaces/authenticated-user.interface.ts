@@ -0,0 +1,17 @@
+/**
+ * Caller of an authenticated request, built by AuthGuard from the access
+ * token claims and injected in handlers with `@CurrentUser()`
+ */
+export interface AuthenticatedUser {
+  user_id: number;
+  phone_number: string;
+  email?: string;
+  roles: string[];
+  permissions: string[];
+  /** Client the token was issued to */
+  client_id?: string;
+  jti?: string;
+  /** Issue and expiry times, as Unix timestamps (seconds) */
+  iat?: number;
+  exp?: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * Claims of access tokens issued by the auth service
+ */
+export interface JwtPayload {
+  sub: number;
+  phone_number: string;
+  email?: string;
+  client_id?: string;
+  jti?: string;
+  ver?: number;
+  roles?: string[];
+  permissions?: string[];
+  /** Set on tokens that are not access tokens, such as MFA challenges */
+  typ?: string;
+  iat?: number;
+  exp?: number;
+}
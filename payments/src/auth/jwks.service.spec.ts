@@ -0,0 +1,92 @@
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync } from 'crypto';
+import { JwksService } from './jwks.service';
+
+const mockGet = jest.fn<Promise<unknown>, unknown[]>();
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: (...args: unknown[]) => mockGet(...args) },
+}));
+
+describe('JwksService', () => {
+  let service: JwksService;
+
+  const get = mockGet;
+  const configService = {
+    get: jest.fn((key: string) =>
+      key === 'AUTH_SERVICE_URL' ? 'http://auth:3001' : undefined,
+    ),
+  };
+
+  const jwkFor = (kid: string, alg = 'ES256') => ({
+    ...generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey.export({
+      format: 'jwk',
+    }),
+    kid,
+    alg,
+    use: 'sig',
+  });
+
+  const current = jwkFor('current');
+  const next = jwkFor('next');
+
+  const respondWith = (...keys: object[]) =>
+    get.mockResolvedValueOnce({ data: { keys } });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    service = new JwksService(configService as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should fetch the key set from the auth service', async () => {
+    respondWith(current, jwkFor('legacy', 'HS256'));
+
+    await service.onModuleInit();
+
+    expect(get).toHaveBeenCalledWith(
+      'http://auth:3001/.well-known/jwks.json',
+      expect.objectContaining({ timeout: 5000 }),
+    );
+    await expect(service.getKey('current')).resolves.toMatchObject({
+      alg: 'ES256',
+      publicKey: expect.stringContaining('BEGIN PUBLIC KEY') as string,
+    });
+    await expect(service.getKey('legacy')).resolves.toBeUndefined();
+  });
+
+  it('should refetch when a token names an unknown kid', async () => {
+    respondWith(current);
+    await service.onModuleInit();
+
+    jest.advanceTimersByTime(31_000);
+    respondWith(current, next);
+
+    await expect(service.getKey('next')).resolves.toBeDefined();
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throttle refetches for unknown kids', async () => {
+    respondWith(current);
+    await service.onModuleInit();
+
+    await expect(service.getKey('random')).resolves.toBeUndefined();
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep serving cached keys when the auth service is down', async () => {
+    respondWith(current);
+    await service.onModuleInit();
+
+    jest.advanceTimersByTime(10 * 60 * 1000);
+    get.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+    await expect(service.getKey('current')).resolves.toBeDefined();
+    expect(get).toHaveBeenCalledTimes(2);
+    await expect(service.getKey('current')).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import Axios from 'axios';
+import {
+  JWKS_CACHE_TTL_SECONDS,
+  JWKS_FETCH_TIMEOUT_MS,
+  JWKS_MIN_REFRESH_INTERVAL_SECONDS,
+  SigningAlgorithm,
+  SUPPORTED_ALGORITHMS,
+} from './auth.constants';
+
+export interface VerificationKey {
+  alg: SigningAlgorithm;
+  /** SPKI PEM */
+  publicKey: string;
+}
+
+type Jwk = JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+/**
+ * In-memory copy of the auth service's JWKS. The set is refreshed in the
+ * background once older than JWKS_CACHE_TTL_SECONDS, and right away when a
+ * token names an unknown `kid` (a rotation). Fetches are throttled, and when
+ * the auth service is unreachable the last fetched keys stay in use, so
+ * token verification does not depend on it being up.
+ */
+@Injectable()
+export class JwksService implements OnModuleInit {
+  private readonly logger = new Logger(JwksService.name);
+  private keys = new Map<string, VerificationKey>();
+  private fetchedAt = 0;
+  private attemptedAt = 0;
+  private refreshing?: Promise<void>;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.refresh();
+  }
+
+  async getKey(kid: string): Promise<VerificationKey | undefined> {
+    const cached = this.keys.get(kid);
+    if (cached) {
+      if (Date.now() - this.fetchedAt >= JWKS_CACHE_TTL_SECONDS * 1000) {
+        void this.refresh();
+      }
+      return cached;
+    }
+
+    await this.refresh();
+    return this.keys.get(kid);
+  }
+
+  /** Concurrent callers share one request; failures keep the cached keys */
+  private refresh(): Promise<void> {
+    if (
+      !this.refreshing &&
+      Date.now() - this.attemptedAt >= JWKS_MIN_REFRESH_INTERVAL_SECONDS * 1000
+    ) {
+      this.attemptedAt = Date.now();
+      this.refreshing = this.fetchKeys()
+        .catch((error: Error) =>
+          this.logger.warn(
+            `JWKS refresh failed, keeping ${this.keys.size} cached key(s): ${error.message}`,
+          ),
+        )
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    return this.refreshing ?? Promise.resolve();
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const response = await Axios.get<{ keys?: Jwk[] }>(this.jwksUrl(), {
+      timeout: JWKS_FETCH_TIMEOUT_MS,
+    });
+
+    const keys = new Map<string, VerificationKey>();
+    for (const jwk of response.data.keys ?? []) {
+      const alg = SUPPORTED_ALGORITHMS.find(
+        (supported) => supported === jwk.alg,
+      );
+      if (!jwk.kid || !alg || (jwk.use && jwk.use !== 'sig')) {
+        continue;
+      }
+      const publicKey = createPublicKey({ key: jwk, format: 'jwk' })
+        .export({ type: 'spki', format: 'pem' })
+        .toString();
+      keys.set(jwk.kid, { alg, publicKey });
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+    this.logger.debug(`Loaded ${keys.size} signing key(s) from JWKS`);
+  }
+
+  private jwksUrl(): string {
+    return (
+      this.configService.get<string>('AUTH_JWKS_URL') ||
+      `${this.configService.get<string>('AUTH_SERVICE_URL')}/.well-known/jwks.json`
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { IS_PUBLIC_KEY } from '../common/decorators/public.decorator';
+import { ROLES_KEY } from '../common/decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../common/decorators/permissions.decorator';
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  let metadata: Record<string, unknown>;
+
+  const reflector = {
+    getAllAndOverride: jest.fn((key: string) => metadata[key]),
+  };
+
+  const contextFor = (user?: {
+    roles?: string[];
+    permissions?: string[];
+  }): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  const customer = {
+    roles: ['customer'],
+    permissions: ['payments:create', 'payments:read'],
+  };
+
+  beforeEach(() => {
+    metadata = {};
+    guard = new RolesGuard(reflector as unknown as Reflector);
+  });
+
+  it('should allow routes without requirements', () => {
+    expect(guard.canActivate(contextFor(customer))).toBe(true);
+  });
+
+  it('should allow public routes without a user', () => {
+    metadata[IS_PUBLIC_KEY] = true;
+    metadata[PERMISSIONS_KEY] = ['payments:update_status'];
+
+    expect(guard.canActivate(contextFor())).toBe(true);
+  });
+
+  it('should allow a user holding all required permissions', () => {
+    metadata[PERMISSIONS_KEY] = ['payments:create', 'payments:read'];
+
+    expect(guard.canActivate(contextFor(customer))).toBe(true);
+  });
+
+  it('should reject a user missing a required permission', () => {
+    metadata[PERMISSIONS_KEY] = ['payments:update_status'];
+
+    expect(() => guard.canActivate(contextFor(customer))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should allow a user holding any of the required roles', () => {
+    metadata[ROLES_KEY] = ['support', 'customer'];
+
+    expect(guard.canActivate(contextFor(customer))).toBe(true);
+  });
+
+  it('should reject a user without any of the required roles', () => {
+    metadata[ROLES_KEY] = ['admin'];
+
+    expect(() => guard.canActivate(contextFor(customer))).toThrow(
+      'Insufficient role',
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from '../common/decorators/public.decorator';
+import { ROLES_KEY } from '../common/decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../common/decorators/permissions.decorator';
+import { AuthenticatedUser } from './interfaces/authenticated-user.interface';
+
+/**
+ * Enforces `@Roles()` (any one of the listed roles) and `@Permissions()`
+ * (all listed permissions) against the claims that AuthGuard attached to
+ * `request.user`. Must run after AuthGuard.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const requiredRoles =
+      this.reflector.getAllAndOverride<string[]>(ROLES_KEY, targets) ?? [];
+    const requiredPermissions =
+      this.reflector.getAllAndOverride<string[]>(PERMISSIONS_KEY, targets) ??
+      [];
+
+    if (requiredRoles.length === 0 && requiredPermissions.length === 0) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    const roles = request.user?.roles ?? [];
+    const permissions = request.user?.permissions ?? [];
+
+    if (
+      requiredRoles.length > 0 &&
+      !requiredRoles.some((role) => roles.includes(role))
+    ) {
+      this.logger.warn(
+        `Access denied: requires one of roles [${requiredRoles.join(', ')}]`,
+      );
+      throw new ForbiddenException('Insufficient role');
+    }
+
+    const missing = requiredPermissions.filter(
+      (permission) => !permissions.includes(permission),
+    );
+    if (missing.length > 0) {
+      this.logger.warn(
+        `Access denied: missing permission(s) [${missing.join(', ')}]`,
+      );
+      throw new ForbiddenException(
+        `Missing permission(s): ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
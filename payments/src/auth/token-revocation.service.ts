@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { Redis } from 'ioredis';
+import { AUTH_REDIS_NAMESPACE } from './auth.constants';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+
+/**
+ * Reads the revocation state the auth service keeps in the shared Redis:
+ * the `jti` denylist and the token version published after logout-all,
+ * password resets and role changes.
+ */
+@Injectable()
+export class TokenRevocationService {
+  private readonly redis: Redis;
+
+  constructor(private readonly redisService: RedisService) {
+    this.redis = this.redisService.getClient(AUTH_REDIS_NAMESPACE);
+  }
+
+  async isRevoked(payload: JwtPayload): Promise<boolean> {
+    const [revoked, version] = await Promise.all([
+      payload.jti ? this.redis.exists(`revoked:jti:${payload.jti}`) : 0,
+      this.redis.get(`token_version:${payload.sub}`),
+    ]);
+    if (revoked === 1) {
+      return true;
+    }
+    // Tokens issued before the version claim existed count as version 0
+    return version !== null && (payload.ver ?? 0) < Number(version);
+  }
+}
@@ -3,6 +3,8 @@ import { PrismaService } from './database/prisma.service';
 import { RedisLockModule } from '@huangang/nestjs-simple-redis-lock';
 import { RedisModule, RedisModuleOptions } from '@liaoliaots/nestjs-redis';
 import { UtilsService } from './utils.service';
+import { LeaderElectionService } from './leader-election.service';
+import { AUTH_REDIS_NAMESPACE } from '../auth/auth.constants';
 
 @Global()
 @Module({
@@ -11,17 +13,21 @@ import { UtilsService } from './utils.service';
       // import RedisModule before RedisLockModule
       useFactory: () =>
         ({
-          config: {
+          commonOptions: {
             host: process.env.REDIS_HOST,
             port: Number(process.env.REDIS_PORT),
             password: process.env.REDIS_PASSWORD,
-            keyPrefix: ':payments:',
           },
+          config: [
+            { keyPrefix: ':payments:' },
+            // Read-only view of the auth service's token revocation keys
+            { namespace: AUTH_REDIS_NAMESPACE, keyPrefix: ':auth:' },
+          ],
         }) as RedisModuleOptions,
     }),
     RedisLockModule.register({}),
   ],
-  providers: [PrismaService, UtilsService],
-  exports: [PrismaService, UtilsService],
+  providers: [PrismaService, UtilsService, LeaderElectionService],
+  exports: [PrismaService, UtilsService, LeaderElectionService],
 })
-export class CommonModule { }
+export class CommonModule {}
@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * Injects the id of the webhook delivery that WebhookSignatureGuard
+ * recorded for the request.
+ */
+export const WebhookEventId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): number | undefined =>
+    context.switchToHttp().getRequest<{ webhookEventId?: number }>()
+      .webhookEventId,
+);
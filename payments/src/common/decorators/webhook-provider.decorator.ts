@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const WEBHOOK_PROVIDER_KEY = 'webhookProvider';
+
+// Provider of a webhook route without a :provider parameter
+export const WebhookProvider = (provider: string) =>
+  SetMetadata(WEBHOOK_PROVIDER_KEY, provider);
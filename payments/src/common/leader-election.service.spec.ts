@@ -0,0 +1,56 @@
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { LeaderElectionService } from './leader-election.service';
+
+describe('LeaderElectionService', () => {
+  // Minimal stand-in for the lease scripts over a key-value map
+  const store = new Map<string, string>();
+  const redis = {
+    eval: jest.fn(
+      (script: string, _keys: number, key: string, owner: string) => {
+        const current = store.get(key);
+        if (script.includes('PEXPIRE')) {
+          if (current === undefined) {
+            store.set(key, owner);
+          }
+          return Promise.resolve(
+            current === undefined || current === owner ? 1 : 0,
+          );
+        }
+        if (current === owner) {
+          store.delete(key);
+          return Promise.resolve(1);
+        }
+        return Promise.resolve(0);
+      },
+    ),
+  };
+  const redisService = {
+    getClient: () => redis,
+  } as unknown as RedisService;
+
+  beforeEach(() => {
+    store.clear();
+  });
+
+  it('should elect a single leader per job', async () => {
+    const first = new LeaderElectionService(redisService);
+    const second = new LeaderElectionService(redisService);
+
+    await expect(first.acquire('reconciliation', 1000)).resolves.toBe(true);
+    await expect(second.acquire('reconciliation', 1000)).resolves.toBe(false);
+    await expect(first.acquire('reconciliation', 1000)).resolves.toBe(true);
+    await expect(second.acquire('sweeper', 1000)).resolves.toBe(true);
+  });
+
+  it('should hand over leadership once released', async () => {
+    const first = new LeaderElectionService(redisService);
+    const second = new LeaderElectionService(redisService);
+    await first.acquire('reconciliation', 1000);
+
+    await second.release('reconciliation');
+    await expect(second.acquire('reconciliation', 1000)).resolves.toBe(false);
+
+    await first.release('reconciliation');
+    await expect(second.acquire('reconciliation', 1000)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+// Takes the lease when free, extends it when this instance holds it
+const ACQUIRE_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if owner == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+if not owner then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Picks one instance to run a background job when the service is scaled
+ * out. Leadership is a Redis lease per job: the leader renews it on every
+ * run, and when it stops another instance takes over once the lease has
+ * expired.
+ */
+@Injectable()
+export class LeaderElectionService {
+  private readonly redis: Redis;
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomUUID()}`;
+
+  constructor(private readonly redisService: RedisService) {
+    this.redis = this.redisService.getClient();
+  }
+
+  /**
+   * True when this instance holds (or just took) the lease of `name` for
+   * the next `leaseMs`.
+   */
+  async acquire(name: string, leaseMs: number): Promise<boolean> {
+    const result = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      1,
+      leaderKey(name),
+      this.instanceId,
+      leaseMs,
+    );
+    return result === 1;
+  }
+
+  /**
+   * Give up the lease on shutdown, so another instance takes over without
+   * waiting for it to expire.
+   */
+  async release(name: string): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 1, leaderKey(name), this.instanceId);
+  }
+}
+
+function leaderKey(name: string): string {
+  return `leader:${name}`;
+}
@@ -0,0 +1,155 @@
+import { Logger } from '@nestjs/common';
+import { LeaderElectionService } from './leader-election.service';
+import { countResults, LeaderJob } from './leader-job';
+
+describe('LeaderJob', () => {
+  const leaderElection = {
+    acquire: jest.fn(),
+    release: jest.fn(),
+  };
+  const run = jest.fn();
+  const logger = new Logger('LeaderJobSpec');
+
+  const leaderJob = (enabled = true) =>
+    new LeaderJob(
+      leaderElection as unknown as LeaderElectionService,
+      logger,
+      { name: 'test-job', label: 'Test job', enabled, intervalSeconds: 10 },
+      run,
+    );
+
+  beforeEach(() => {
+    leaderElection.acquire.mockResolvedValue(true);
+    leaderElection.release.mockResolvedValue(undefined);
+    run.mockResolvedValue(undefined);
+    jest.spyOn(logger, 'log').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('runIfLeader', () => {
+    it('should run the job on the leader, with a lease of two intervals', async () => {
+      await leaderJob().runIfLeader();
+
+      expect(leaderElection.acquire).toHaveBeenCalledWith('test-job', 20000);
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run the job on followers', async () => {
+      leaderElection.acquire.mockResolvedValue(false);
+
+      await leaderJob().runIfLeader();
+
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should skip a run while the previous one is still going', async () => {
+      let finish: () => void = () => undefined;
+      run.mockReturnValue(
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        }),
+      );
+      const job = leaderJob();
+
+      const first = job.runIfLeader();
+      await job.runIfLeader();
+      finish();
+      await first;
+
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should survive a failed run and a Redis outage', async () => {
+      run.mockRejectedValueOnce(new Error('Database unavailable'));
+      const job = leaderJob();
+
+      await expect(job.runIfLeader()).resolves.toBeUndefined();
+      leaderElection.acquire.mockRejectedValue(
+        new Error('Connection is closed'),
+      );
+      await expect(job.runIfLeader()).resolves.toBeUndefined();
+    });
+
+    it('should renew the lease every interval while a run goes on', async () => {
+      jest.useFakeTimers();
+      let finish: () => void = () => undefined;
+      let signal: AbortSignal | undefined;
+      run.mockImplementation((runSignal: AbortSignal) => {
+        signal = runSignal;
+        return new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+      });
+
+      const running = leaderJob().runIfLeader();
+      await jest.advanceTimersByTimeAsync(25000);
+      finish();
+      await running;
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(leaderElection.acquire).toHaveBeenCalledTimes(3);
+      expect(signal?.aborted).toBe(false);
+    });
+
+    it('should abort the run once the lease cannot be renewed', async () => {
+      jest.useFakeTimers();
+      let finish: () => void = () => undefined;
+      let signal: AbortSignal | undefined;
+      run.mockImplementation((runSignal: AbortSignal) => {
+        signal = runSignal;
+        return new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+      });
+
+      const running = leaderJob().runIfLeader();
+      await jest.advanceTimersByTimeAsync(0);
+      leaderElection.acquire.mockResolvedValue(false);
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(signal?.aborted).toBe(true);
+      finish();
+      await running;
+    });
+  });
+
+  describe('start and stop', () => {
+    it('should not schedule disabled jobs', async () => {
+      const job = leaderJob(false);
+
+      job.start();
+      await job.stop();
+
+      expect(leaderElection.release).not.toHaveBeenCalled();
+    });
+
+    it('should run every interval and release the lease on stop', async () => {
+      jest.useFakeTimers();
+      const job = leaderJob();
+
+      job.start();
+      await jest.advanceTimersByTimeAsync(20000);
+      await job.stop();
+      await jest.advanceTimersByTimeAsync(20000);
+
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(leaderElection.release).toHaveBeenCalledWith('test-job');
+    });
+  });
+
+  describe('countResults', () => {
+    it('should count the items per result', () => {
+      expect(countResults(['sent', 'failed', 'sent'])).toEqual({
+        sent: 2,
+        failed: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { Logger } from '@nestjs/common';
+import { LeaderElectionService } from './leader-election.service';
+
+export interface LeaderJobOptions {
+  // Name of the leader lease
+  name: string;
+  // Name of the job in logs, e.g. 'Reconciliation job'
+  label: string;
+  enabled: boolean;
+  intervalSeconds: number;
+}
+
+/**
+ * Schedule of a background job run by one instance at a time. Every
+ * instance ticks every `intervalSeconds`, but only the holder of the
+ * Redis lease runs the job. The lease lasts two intervals and is renewed
+ * every interval while a run goes on, so a long run is not picked up by a
+ * second instance; a run whose lease cannot be renewed is aborted through
+ * its signal before another instance may take over.
+ */
+export class LeaderJob {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly leaderElectionService: LeaderElectionService,
+    private readonly logger: Logger,
+    private readonly options: LeaderJobOptions,
+    private readonly run: (signal: AbortSignal) => Promise<unknown>,
+  ) {}
+
+  start(): void {
+    if (!this.options.enabled) {
+      this.logger.log(`${this.options.label} disabled`);
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.runIfLeader(),
+      this.options.intervalSeconds * 1000,
+    );
+    this.timer.unref();
+  }
+
+  /**
+   * Stop scheduling runs and give up the lease, so another instance takes
+   * over without waiting for it to expire.
+   */
+  async stop(): Promise<void> {
+    if (!this.timer) {
+      return;
+    }
+    clearInterval(this.timer);
+    await this.leaderElectionService
+      .release(this.options.name)
+      .catch((error: Error) =>
+        this.logger.warn(
+          `Failed to release ${this.options.name} leadership: ${error.message}`,
+        ),
+      );
+  }
+
+  /**
+   * One scheduled run. Skipped on followers, and while the previous run of
+   * this instance is still going.
+   */
+  async runIfLeader(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    const controller = new AbortController();
+    let renewal: NodeJS.Timeout | undefined;
+    try {
+      if (!(await this.acquire())) {
+        return;
+      }
+      renewal = setInterval(
+        () => void this.renew(controller),
+        this.options.intervalSeconds * 1000,
+      );
+      renewal.unref();
+      await this.run(controller.signal);
+    } catch (error) {
+      this.logger.error(
+        `${this.options.label} run failed: ${(error as Error).message}`,
+      );
+    } finally {
+      clearInterval(renewal);
+      this.running = false;
+    }
+  }
+
+  private acquire(): Promise<boolean> {
+    return this.leaderElectionService.acquire(
+      this.options.name,
+      this.options.intervalSeconds * 2 * 1000,
+    );
+  }
+
+  private async renew(controller: AbortController): Promise<void> {
+    if (controller.signal.aborted) {
+      return;
+    }
+    try {
+      if (await this.acquire()) {
+        return;
+      }
+      this.logger.warn(
+        `${this.options.label} lost its leadership, stopping the run`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to renew ${this.options.name} leadership, stopping the run: ${(error as Error).message}`,
+      );
+    }
+    controller.abort();
+  }
+}
+
+/**
+ * Number of items per result of a batch run.
+ */
+export function countResults<R extends string>(
+  results: R[],
+): Partial<Record<R, number>> {
+  const summary: Partial<Record<R, number>> = {};
+  for (const result of results) {
+    summary[result] = (summary[result] ?? 0) + 1;
+  }
+  return summary;
+}
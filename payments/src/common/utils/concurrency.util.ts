@@ -0,0 +1,24 @@
+/**
+ * Like Promise.all over `items.map(fn)`, with at most `concurrency` calls
+ * in flight. Results keep the order of `items`. Once `signal` aborts no
+ * further item is started, and the results stop at the last started one.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+  return results.slice(0, next);
+}
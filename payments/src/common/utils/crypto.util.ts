@@ -0,0 +1,42 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+/**
+ * Encrypt a secret for storage with AES-256-GCM. The key is derived from
+ * the given passphrase; the result is `iv.tag.ciphertext` in base64url.
+ */
+export function encryptSecret(plaintext: string, passphrase: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString('base64url'))
+    .join('.');
+}
+
+/**
+ * Decrypt a value produced by `encryptSecret`. Throws if the value was
+ * tampered with or encrypted under another passphrase.
+ */
+export function decryptSecret(encrypted: string, passphrase: string): string {
+  const [iv, tag, ciphertext] = encrypted
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+function deriveKey(passphrase: string): Buffer {
+  return createHash('sha256').update(passphrase).digest();
+}
@@ -0,0 +1,51 @@
+import { assertPublicUrl, isPublicAddress } from './network.util';
+
+describe('isPublicAddress', () => {
+  it('should accept public addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+  });
+
+  it('should refuse loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('should refuse what is not an address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('should accept public IP hosts', async () => {
+    await expect(
+      assertPublicUrl('https://93.184.216.34/webhooks'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should refuse non-public IP hosts', async () => {
+    await expect(
+      assertPublicUrl('https://[::1]:8443/webhooks'),
+    ).rejects.toThrow('::1 does not resolve to a public address');
+  });
+
+  it('should refuse names resolving to non-public addresses', async () => {
+    await expect(
+      assertPublicUrl('https://localhost/webhooks'),
+    ).rejects.toMatchObject({ code: 'ENONPUBLIC' });
+  });
+});
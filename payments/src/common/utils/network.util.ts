@@ -0,0 +1,108 @@
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Loopback, private, link-local, shared and reserved ranges, never reached
+// on behalf of a client
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const IPV4_MAPPED = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+/**
+ * Whether `address` (IPv4 or IPv6) is on the public internet. IPv4
+ * addresses mapped into IPv6 are judged as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = IPV4_MAPPED.exec(address)?.[1];
+  if (mapped) {
+    return isPublicAddress(mapped);
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Throws unless the host of `url` is a public address or only resolves to
+ * public addresses.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) {
+    if (!isPublicAddress(hostname)) {
+      throw nonPublicError(hostname);
+    }
+    return;
+  }
+  await new Promise<void>((resolve, reject) =>
+    publicLookup(hostname, { all: true }, (error) =>
+      error ? reject(error) : resolve(),
+    ),
+  );
+}
+
+/**
+ * dns.lookup refusing hosts that resolve to a non-public address. Given to
+ * an HTTP agent, the connection is made to the address checked, so the
+ * host cannot resolve to another one in between.
+ */
+export const publicLookup = ((
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address?: string | LookupAddress[],
+    family?: number,
+  ) => void,
+) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    if (
+      addresses.length === 0 ||
+      !addresses.every(({ address }) => isPublicAddress(address))
+    ) {
+      callback(nonPublicError(hostname));
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+      return;
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+function nonPublicError(host: string): NodeJS.ErrnoException {
+  return Object.assign(
+    new Error(`${host} does not resolve to a public address`),
+    { code: 'ENONPUBLIC' },
+  );
+}
@@ -0,0 +1,56 @@
+import {
+  findInsecureSecrets,
+  MIN_PRODUCTION_SECRET_LENGTH,
+} from './secrets.util';
+
+describe('findInsecureSecrets', () => {
+  const strong = 'x'.repeat(MIN_PRODUCTION_SECRET_LENGTH);
+  const production = {
+    NODE_ENV: 'production',
+    MERCHANT_WEBHOOK_ENCRYPTION_KEY: strong,
+    MTN_WEBHOOK_SECRET: strong,
+    AIRTEL_WEBHOOK_SECRET: strong,
+  };
+
+  it('should accept strong secrets in production', () => {
+    expect(findInsecureSecrets(production)).toEqual([]);
+  });
+
+  it('should not check secrets outside production', () => {
+    expect(findInsecureSecrets({ NODE_ENV: 'development' })).toEqual([]);
+  });
+
+  it('should reject missing required secrets', () => {
+    expect(
+      findInsecureSecrets({
+        ...production,
+        MERCHANT_WEBHOOK_ENCRYPTION_KEY: '',
+      }),
+    ).toEqual(['MERCHANT_WEBHOOK_ENCRYPTION_KEY is not set']);
+  });
+
+  it('should reject the development defaults from docker-compose', () => {
+    expect(
+      findInsecureSecrets({
+        ...production,
+        MTN_WEBHOOK_SECRET: 'w3b6k9m2p5s8v1y4b7e0h3k6n9q2t5x8',
+        MERCHANT_WEBHOOK_ENCRYPTION_KEY: 'e5r1t7y3u9i2o6p0a4s8d2f7g1h5j3k9',
+      }),
+    ).toEqual([
+      'MERCHANT_WEBHOOK_ENCRYPTION_KEY uses a published default value',
+      'MTN_WEBHOOK_SECRET uses a published default value',
+    ]);
+  });
+
+  it('should check provider webhook secrets only when set', () => {
+    const { AIRTEL_WEBHOOK_SECRET, ...withoutAirtel } = production;
+
+    expect(AIRTEL_WEBHOOK_SECRET).toBe(strong);
+    expect(findInsecureSecrets(withoutAirtel)).toEqual([]);
+    expect(
+      findInsecureSecrets({ ...production, MTN_WEBHOOK_SECRET: 'short' }),
+    ).toEqual([
+      `MTN_WEBHOOK_SECRET must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters`,
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Secrets the service reads from the environment. Required ones must be
+ * set; optional ones are only checked when present.
+ */
+const REQUIRED_SECRETS = ['MERCHANT_WEBHOOK_ENCRYPTION_KEY'];
+const OPTIONAL_SECRETS = ['MTN_WEBHOOK_SECRET', 'AIRTEL_WEBHOOK_SECRET'];
+
+/**
+ * Values published in docker-compose.yml, the README and .env.example for
+ * local development.
+ */
+const DEFAULT_SECRETS = new Set([
+  'change-me',
+  'w3b6k9m2p5s8v1y4b7e0h3k6n9q2t5x8',
+  'a8c2e6g0i4k8m2o6q0s4u8w2y6b0d4f8',
+  'e5r1t7y3u9i2o6p0a4s8d2f7g1h5j3k9',
+]);
+
+export const MIN_PRODUCTION_SECRET_LENGTH = 32;
+
+/**
+ * Missing, default or short secrets in a production environment, as
+ * messages; empty when the configuration is acceptable. Outside
+ * production nothing is checked.
+ */
+export function findInsecureSecrets(
+  env: NodeJS.ProcessEnv = process.env,
+): string[] {
+  if (env.NODE_ENV !== 'production') {
+    return [];
+  }
+
+  const problems: string[] = [];
+  for (const name of [...REQUIRED_SECRETS, ...OPTIONAL_SECRETS]) {
+    const value = env[name];
+    if (!value) {
+      if (REQUIRED_SECRETS.includes(name)) {
+        problems.push(`${name} is not set`);
+      }
+    } else if (DEFAULT_SECRETS.has(value)) {
+      problems.push(`${name} uses a published default value`);
+    } else if (value.length < MIN_PRODUCTION_SECRET_LENGTH) {
+      problems.push(
+        `${name} must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters`,
+      );
+    }
+  }
+  return problems;
+}
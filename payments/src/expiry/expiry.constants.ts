@@ -0,0 +1,23 @@
+// Set to false to stop this instance from running the sweeper
+export const PAYMENT_EXPIRY_ENABLED =
+  process.env.PAYMENT_EXPIRY_ENABLED !== 'false';
+
+// How often each instance tries to run the sweeper (only the leader does)
+export const PAYMENT_EXPIRY_INTERVAL_SECONDS =
+  Number(process.env.PAYMENT_EXPIRY_INTERVAL_SECONDS) || 60;
+
+// Overdue payments expired per run
+export const PAYMENT_EXPIRY_BATCH_SIZE =
+  Number(process.env.PAYMENT_EXPIRY_BATCH_SIZE) || 100;
+
+// Delay before payments the sweeper could not expire are attempted again,
+// so payments the provider refuses to withdraw do not hold up the others
+export const PAYMENT_EXPIRY_RETRY_SECONDS =
+  Number(process.env.PAYMENT_EXPIRY_RETRY_SECONDS) || 5 * 60;
+
+// Provider cancel requests in flight at once
+export const PAYMENT_EXPIRY_CONCURRENCY =
+  Number(process.env.PAYMENT_EXPIRY_CONCURRENCY) || 5;
+
+// Leader lease name
+export const PAYMENT_EXPIRY_JOB = 'payment-expiry';
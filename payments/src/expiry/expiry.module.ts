@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { PaymentsModule } from '../payments/payments.module';
+import { ExpiryService } from './expiry.service';
+
+@Module({
+  imports: [PaymentsModule],
+  providers: [ExpiryService],
+})
+export class ExpiryModule {}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentStatus } from '@prisma/client';
+import { ExpiryService } from './expiry.service';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentsRepository } from '../payments/payments.repository';
+import { LeaderElectionService } from '../common/leader-election.service';
+import { PAYMENT_EXPIRY_RETRY_SECONDS } from './expiry.constants';
+
+describe('ExpiryService', () => {
+  let service: ExpiryService;
+
+  const overduePayment = (id: number) => ({
+    id,
+    reference_id: `PAY-${id}-ABC`,
+    status: PaymentStatus.PENDING,
+    provider_name: 'MTN',
+    provider_transaction_id: `MTN-SUCCESS-${id}`,
+    expires_at: new Date(Date.now() - 1000),
+  });
+
+  const mockPaymentsService = {
+    expirePayment: jest.fn(),
+  };
+
+  const mockRepository = {
+    findExpired: jest.fn(),
+    markExpiryAttempted: jest.fn(),
+  };
+
+  const mockLeaderElection = {
+    acquire: jest.fn(),
+    release: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExpiryService,
+        { provide: PaymentsService, useValue: mockPaymentsService },
+        { provide: PaymentsRepository, useValue: mockRepository },
+        { provide: LeaderElectionService, useValue: mockLeaderElection },
+      ],
+    }).compile();
+
+    service = module.get<ExpiryService>(ExpiryService);
+
+    mockLeaderElection.acquire.mockResolvedValue(true);
+    mockRepository.findExpired.mockResolvedValue([]);
+    mockRepository.markExpiryAttempted.mockResolvedValue(0);
+    mockPaymentsService.expirePayment.mockResolvedValue('expired');
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('runIfLeader', () => {
+    it('should not touch payments on instances that are not the leader', async () => {
+      mockLeaderElection.acquire.mockResolvedValue(false);
+
+      await service.runIfLeader();
+
+      expect(mockRepository.findExpired).not.toHaveBeenCalled();
+    });
+
+    it('should expire overdue payments on the leader', async () => {
+      const payment = overduePayment(1);
+      mockRepository.findExpired.mockResolvedValue([payment]);
+
+      await service.runIfLeader();
+
+      expect(mockLeaderElection.acquire).toHaveBeenCalledWith(
+        'payment-expiry',
+        expect.any(Number),
+      );
+      expect(mockPaymentsService.expirePayment).toHaveBeenCalledWith(payment);
+    });
+  });
+
+  describe('expireOverduePayments', () => {
+    it('should look up payments overdue now', async () => {
+      const before = Date.now();
+
+      await service.expireOverduePayments();
+
+      const [[now, attemptedBefore]] = mockRepository.findExpired.mock
+        .calls as [[Date, Date, number]];
+      expect(now.getTime()).toBeGreaterThanOrEqual(before);
+      expect(attemptedBefore.getTime()).toBe(
+        now.getTime() - PAYMENT_EXPIRY_RETRY_SECONDS * 1000,
+      );
+    });
+
+    it('should hold attempted payments back until the retry delay is over', async () => {
+      mockRepository.findExpired.mockResolvedValue([
+        overduePayment(1),
+        overduePayment(2),
+      ]);
+      mockPaymentsService.expirePayment.mockResolvedValue('provider_refused');
+
+      await service.expireOverduePayments();
+
+      expect(mockRepository.markExpiryAttempted).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(Date),
+      );
+    });
+
+    it('should count the result of every payment, including failures', async () => {
+      mockRepository.findExpired.mockResolvedValue([
+        overduePayment(1),
+        overduePayment(2),
+        overduePayment(3),
+      ]);
+      mockPaymentsService.expirePayment
+        .mockResolvedValueOnce('expired')
+        .mockResolvedValueOnce('provider_refused')
+        .mockRejectedValueOnce(new Error('Payment status changed'));
+
+      await expect(service.expireOverduePayments()).resolves.toEqual({
+        expired: 1,
+        provider_refused: 1,
+        error: 1,
+      });
+    });
+
+    it('should do nothing without overdue payments', async () => {
+      await expect(service.expireOverduePayments()).resolves.toEqual({});
+      expect(mockPaymentsService.expirePayment).not.toHaveBeenCalled();
+      expect(mockRepository.markExpiryAttempted).not.toHaveBeenCalled();
+    });
+  });
+});
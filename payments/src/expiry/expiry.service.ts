@@ -0,0 +1,132 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Payment } from '@prisma/client';
+import { Counter } from 'prom-client';
+import { register } from '../metrics/registry';
+import { LeaderElectionService } from '../common/leader-election.service';
+import { countResults, LeaderJob } from '../common/leader-job';
+import { mapWithConcurrency } from '../common/utils/concurrency.util';
+import { PaymentsRepository } from '../payments/payments.repository';
+import { ExpiryResult, PaymentsService } from '../payments/payments.service';
+import {
+  PAYMENT_EXPIRY_BATCH_SIZE,
+  PAYMENT_EXPIRY_CONCURRENCY,
+  PAYMENT_EXPIRY_ENABLED,
+  PAYMENT_EXPIRY_INTERVAL_SECONDS,
+  PAYMENT_EXPIRY_JOB,
+  PAYMENT_EXPIRY_RETRY_SECONDS,
+} from './expiry.constants';
+
+type ExpiryOutcome = ExpiryResult | 'error';
+
+const paymentExpiries = new Counter({
+  name: 'payments_expiry_total',
+  help: 'Overdue payments handled by the expiry sweeper',
+  labelNames: ['provider', 'result'] as const,
+  registers: [register],
+});
+
+/**
+ * Moves INITIATED and PENDING payments past their `expires_at` to EXPIRED,
+ * so a customer ignoring the payment prompt does not leave the payment
+ * open forever. Every instance schedules the sweeper, but only the
+ * Redis-elected leader runs it.
+ */
+@Injectable()
+export class ExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ExpiryService.name);
+  private readonly job: LeaderJob;
+
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly paymentsRepository: PaymentsRepository,
+    leaderElectionService: LeaderElectionService,
+  ) {
+    this.job = new LeaderJob(
+      leaderElectionService,
+      this.logger,
+      {
+        name: PAYMENT_EXPIRY_JOB,
+        label: 'Payment expiry sweeper',
+        enabled: PAYMENT_EXPIRY_ENABLED,
+        intervalSeconds: PAYMENT_EXPIRY_INTERVAL_SECONDS,
+      },
+      (signal) => this.expireOverduePayments(signal),
+    );
+  }
+
+  onModuleInit(): void {
+    this.job.start();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.job.stop();
+  }
+
+  /**
+   * One scheduled run. Skipped on followers, and while the previous run of
+   * this instance is still going.
+   */
+  runIfLeader(): Promise<void> {
+    return this.job.runIfLeader();
+  }
+
+  /**
+   * Expire one batch of overdue payments, PAYMENT_EXPIRY_CONCURRENCY at a
+   * time. Returns the number of payments per result.
+   */
+  async expireOverduePayments(
+    signal?: AbortSignal,
+  ): Promise<Partial<Record<ExpiryOutcome, number>>> {
+    const now = new Date();
+    const payments = await this.paymentsRepository.findExpired(
+      now,
+      new Date(now.getTime() - PAYMENT_EXPIRY_RETRY_SECONDS * 1000),
+      PAYMENT_EXPIRY_BATCH_SIZE,
+    );
+    if (payments.length === 0) {
+      return {};
+    }
+
+    // Attempted payments wait PAYMENT_EXPIRY_RETRY_SECONDS before the next
+    // attempt, so payments the sweeper cannot expire do not starve the rest
+    await this.paymentsRepository.markExpiryAttempted(
+      payments.map((payment) => payment.id),
+      now,
+    );
+
+    const results = await mapWithConcurrency(
+      payments,
+      PAYMENT_EXPIRY_CONCURRENCY,
+      (payment) => this.expire(payment),
+      signal,
+    );
+
+    const summary = countResults(results);
+    this.logger.log(
+      `Handled ${results.length} overdue payments: ${JSON.stringify(summary)}`,
+    );
+    return summary;
+  }
+
+  private async expire(payment: Payment): Promise<ExpiryOutcome> {
+    let result: ExpiryOutcome;
+    try {
+      result = await this.paymentsService.expirePayment(payment);
+    } catch (error) {
+      this.logger.error(
+        `Failed to expire payment ${payment.reference_id}: ${(error as Error).message}`,
+      );
+      result = 'error';
+    }
+    paymentExpiries.inc({
+      provider: payment.provider_name ?? 'unknown',
+      result,
+    });
+    return result;
+  }
+}
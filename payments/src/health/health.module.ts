@@ -3,11 +3,16 @@ import { TerminusModule } from '@nestjs/terminus';
 import { HealthController } from './health.controller';
 import { PrismaService } from '../common/database/prisma.service';
 import { RedisHealthIndicator } from './redis.health';
+import { ProviderCircuitsHealthIndicator } from './provider-circuits.health';
+import { ProviderResilienceModule } from '../provider-resilience/provider-resilience.module';
 
 @Module({
-    imports: [TerminusModule],
-    controllers: [HealthController],
-    providers: [PrismaService, RedisHealthIndicator],
+  imports: [TerminusModule, ProviderResilienceModule],
+  controllers: [HealthController],
+  providers: [
+    PrismaService,
+    RedisHealthIndicator,
+    ProviderCircuitsHealthIndicator,
+  ],
 })
-export class HealthModule { }
-
+export class HealthModule {}
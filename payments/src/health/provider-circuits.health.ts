@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import {
+  HealthIndicatorService,
+  HealthIndicatorResult,
+} from '@nestjs/terminus';
+import { CircuitBreakerService } from '../provider-resilience/circuit-breaker.service';
+
+@Injectable()
+export class ProviderCircuitsHealthIndicator {
+  constructor(
+    private readonly circuitBreaker: CircuitBreakerService,
+    private readonly healthIndicatorService: HealthIndicatorService,
+  ) {}
+
+  /**
+   * Circuit state of each provider. Open circuits leave the service up:
+   * payments of the other providers still go through.
+   */
+  async check(key: string): Promise<HealthIndicatorResult> {
+    const indicator = this.healthIndicatorService.check(key);
+
+    try {
+      return indicator.up(await this.circuitBreaker.states());
+    } catch (error) {
+      return indicator.down({ message: (error as Error).message });
+    }
+  }
+}
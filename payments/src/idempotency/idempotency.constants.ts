@@ -0,0 +1,20 @@
+import {
+  PROVIDER_CALL_TIMEOUT_MS,
+  PROVIDER_MAX_RETRIES,
+  PROVIDER_RETRY_DELAY_MS,
+} from '../provider-resilience/provider-resilience.constants';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+// How long a key and its stored response are replayed
+export const IDEMPOTENCY_KEY_TTL_HOURS =
+  Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+
+// Upper bound for a request holding the in-flight lock, released earlier on
+// completion: a provider call with all its retries, plus the rest of the request
+export const IDEMPOTENCY_LOCK_TTL_MS =
+  (PROVIDER_MAX_RETRIES + 1) * PROVIDER_CALL_TIMEOUT_MS +
+  PROVIDER_RETRY_DELAY_MS * (2 ** PROVIDER_MAX_RETRIES - 1) +
+  30 * 1000;
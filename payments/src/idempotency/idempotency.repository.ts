@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/database/prisma.service';
+
+@Injectable()
+export class IdempotencyRepository {
+  private readonly logger = new Logger(IdempotencyRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findActive(
+    user_id: number,
+    key: string,
+    now: Date,
+  ): Promise<IdempotencyKey | null> {
+    return this.prisma.idempotencyKey.findFirst({
+      where: { user_id, key, expires_at: { gt: now } },
+    });
+  }
+
+  /**
+   * Store the response of a key; replaces an expired record of the same key
+   */
+  async save(data: {
+    user_id: number;
+    key: string;
+    request_hash: string;
+    response: Prisma.InputJsonValue;
+    expires_at: Date;
+  }): Promise<IdempotencyKey> {
+    this.logger.debug(
+      `Storing idempotency key ${data.key} of user ${data.user_id}`,
+    );
+    const { user_id, key, ...values } = data;
+    return this.prisma.idempotencyKey.upsert({
+      where: { user_id_key: { user_id, key } },
+      create: data,
+      update: { ...values, created_at: new Date() },
+    });
+  }
+}
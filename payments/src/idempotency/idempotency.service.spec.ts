@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyRepository } from './idempotency.repository';
+import { UtilsService } from '../common/utils.service';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+
+  const body = {
+    amount: 1000,
+    currency: 'UGX',
+    customer_phone: '+256700000000',
+  };
+  const response = { reference_id: 'PAY-1-ABC', status: 'PENDING' };
+
+  const mockRepository = {
+    findActive: jest.fn(),
+    save: jest.fn(),
+  };
+
+  const mockUtilsService = {
+    redisLock: jest.fn(),
+    redisUnlock: jest.fn(),
+  };
+
+  // Stores what the first request saved so the next lookup finds it
+  const rememberSaved = () =>
+    mockRepository.save.mockImplementation((record: object) => {
+      mockRepository.findActive.mockResolvedValue(record);
+      return Promise.resolve(record);
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        { provide: IdempotencyRepository, useValue: mockRepository },
+        { provide: UtilsService, useValue: mockUtilsService },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+
+    mockRepository.findActive.mockResolvedValue(null);
+    mockUtilsService.redisLock.mockResolvedValue(true);
+    mockUtilsService.redisUnlock.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should run the handler without a key', async () => {
+    const handler = jest.fn().mockResolvedValue(response);
+
+    await expect(service.execute(7, undefined, body, handler)).resolves.toBe(
+      response,
+    );
+    expect(mockRepository.findActive).not.toHaveBeenCalled();
+    expect(mockUtilsService.redisLock).not.toHaveBeenCalled();
+  });
+
+  it('should store the first response under the key', async () => {
+    const handler = jest.fn().mockResolvedValue(response);
+
+    await expect(service.execute(7, 'key-1', body, handler)).resolves.toBe(
+      response,
+    );
+
+    expect(mockUtilsService.redisLock).toHaveBeenCalledWith(
+      'idempotency:7:key-1',
+      expect.any(Number),
+    );
+    expect(mockRepository.save).toHaveBeenCalledWith({
+      user_id: 7,
+      key: 'key-1',
+      request_hash: expect.stringMatching(/^[0-9a-f]{64}$/) as string,
+      response,
+      expires_at: expect.any(Date) as Date,
+    });
+    expect(mockUtilsService.redisUnlock).toHaveBeenCalledWith(
+      'idempotency:7:key-1',
+    );
+  });
+
+  it('should replay the stored response to a retry with the same body', async () => {
+    rememberSaved();
+    const handler = jest.fn().mockResolvedValue(response);
+    await service.execute(7, 'key-1', body, handler);
+
+    const retried = await service.execute(
+      7,
+      'key-1',
+      // Same fields in another order
+      { customer_phone: '+256700000000', currency: 'UGX', amount: 1000 },
+      handler,
+    );
+
+    expect(retried).toEqual(response);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a different body under the same key with 422', async () => {
+    rememberSaved();
+    const handler = jest.fn().mockResolvedValue(response);
+    await service.execute(7, 'key-1', body, handler);
+
+    await expect(
+      service.execute(7, 'key-1', { ...body, amount: 2000 }, handler),
+    ).rejects.toThrow(UnprocessableEntityException);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a duplicate while the first request is in flight', async () => {
+    mockUtilsService.redisLock.mockResolvedValue(false);
+    const handler = jest.fn();
+
+    await expect(service.execute(7, 'key-1', body, handler)).rejects.toThrow(
+      ConflictException,
+    );
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockUtilsService.redisUnlock).not.toHaveBeenCalled();
+  });
+
+  it('should replay a response stored by another instance while waiting for the lock', async () => {
+    // Hash of the body, as stored by the instance that completed first
+    await service.execute(
+      8,
+      'probe',
+      body,
+      jest.fn().mockResolvedValue(response),
+    );
+    const [[{ request_hash }]] = mockRepository.save.mock.calls as [
+      [{ request_hash: string }],
+    ];
+    jest.clearAllMocks();
+    mockRepository.findActive
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ request_hash, response });
+    const handler = jest.fn();
+
+    await expect(service.execute(7, 'key-1', body, handler)).resolves.toEqual(
+      response,
+    );
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockRepository.save).not.toHaveBeenCalled();
+    expect(mockUtilsService.redisUnlock).toHaveBeenCalledWith(
+      'idempotency:7:key-1',
+    );
+  });
+
+  it('should not store failed requests so they can be retried', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('Provider down'));
+
+    await expect(service.execute(7, 'key-1', body, handler)).rejects.toThrow(
+      'Provider down',
+    );
+    expect(mockRepository.save).not.toHaveBeenCalled();
+    expect(mockUtilsService.redisUnlock).toHaveBeenCalledWith(
+      'idempotency:7:key-1',
+    );
+  });
+
+  it('should keep the checkpoint of a request that failed after it', async () => {
+    rememberSaved();
+    const handler = jest.fn(
+      async (checkpoint: (response: object) => Promise<void>) => {
+        await checkpoint({ ...response, status: 'INITIATED' });
+        throw new Error('Provider down');
+      },
+    );
+
+    await expect(service.execute(7, 'key-1', body, handler)).rejects.toThrow(
+      'Provider down',
+    );
+    await expect(service.execute(7, 'key-1', body, handler)).resolves.toEqual({
+      ...response,
+      status: 'INITIATED',
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep keys of different users apart', async () => {
+    const handler = jest.fn().mockResolvedValue(response);
+
+    await service.execute(8, 'key-1', body, handler);
+
+    expect(mockRepository.findActive).toHaveBeenCalledWith(
+      8,
+      'key-1',
+      expect.any(Date),
+    );
+  });
+
+  it('should reject keys longer than 255 characters', async () => {
+    await expect(
+      service.execute(7, 'k'.repeat(256), body, jest.fn()),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { UtilsService } from '../common/utils.service';
+import { IdempotencyRepository } from './idempotency.repository';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  IDEMPOTENCY_LOCK_TTL_MS,
+} from './idempotency.constants';
+
+/**
+ * Makes retried POST requests safe: the first response sent under an
+ * `Idempotency-Key` is stored per user and returned again to every retry
+ * with the same body. Concurrent requests with the same key are serialized
+ * with a Redis lock, so only one of them runs across all instances.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(
+    private readonly idempotencyRepository: IdempotencyRepository,
+    private readonly utilsService: UtilsService,
+  ) {}
+
+  /**
+   * Run `handler` once per (user, key). Without a key the handler always
+   * runs. Failed requests are not stored, so they can be retried, unless
+   * the handler stored a response with `checkpoint` before failing: the
+   * request already had effects, and retries get that response.
+   */
+  async execute<T>(
+    user_id: number,
+    key: string | undefined,
+    body: unknown,
+    handler: (checkpoint: (response: T) => Promise<void>) => Promise<T>,
+  ): Promise<T> {
+    if (key === undefined) {
+      return handler(() => Promise.resolve());
+    }
+    if (key.length === 0 || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      throw new BadRequestException(
+        `${IDEMPOTENCY_KEY_HEADER} must be 1 to ${IDEMPOTENCY_KEY_MAX_LENGTH} characters`,
+      );
+    }
+
+    const request_hash = hashBody(body);
+    const stored = await this.findStoredResponse<T>(user_id, key, request_hash);
+    if (stored !== undefined) {
+      return stored;
+    }
+
+    const lockKey = `idempotency:${user_id}:${key}`;
+    const locked = await this.utilsService.redisLock(
+      lockKey,
+      IDEMPOTENCY_LOCK_TTL_MS,
+    );
+    if (!locked) {
+      this.logger.warn(
+        `Request with idempotency key ${key} of user ${user_id} already in progress`,
+      );
+      throw new ConflictException(
+        `A request with this ${IDEMPOTENCY_KEY_HEADER} is already in progress`,
+      );
+    }
+
+    try {
+      // Another instance may have completed the request before we got the lock
+      const completed = await this.findStoredResponse<T>(
+        user_id,
+        key,
+        request_hash,
+      );
+      if (completed !== undefined) {
+        return completed;
+      }
+
+      const store = async (response: T): Promise<void> => {
+        await this.idempotencyRepository.save({
+          user_id,
+          key,
+          request_hash,
+          response: JSON.parse(
+            JSON.stringify(response),
+          ) as Prisma.InputJsonValue,
+          expires_at: new Date(
+            Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000,
+          ),
+        });
+      };
+
+      const response = await handler(store);
+      await store(response);
+      return response;
+    } finally {
+      await this.utilsService.redisUnlock(lockKey);
+    }
+  }
+
+  private async findStoredResponse<T>(
+    user_id: number,
+    key: string,
+    request_hash: string,
+  ): Promise<T | undefined> {
+    const record = await this.idempotencyRepository.findActive(
+      user_id,
+      key,
+      new Date(),
+    );
+    if (!record) {
+      return undefined;
+    }
+    if (record.request_hash !== request_hash) {
+      this.logger.warn(
+        `Idempotency key ${key} of user ${user_id} reused with a different body`,
+      );
+      throw new UnprocessableEntityException(
+        `${IDEMPOTENCY_KEY_HEADER} was already used with a different request body`,
+      );
+    }
+
+    this.logger.log(
+      `Replaying response for idempotency key ${key} of user ${user_id}`,
+    );
+    return record.response as T;
+  }
+}
+
+/**
+ * SHA-256 of the body serialized with sorted keys, so the same fields in
+ * another order count as the same request
+ */
+function hashBody(body: unknown): string {
+  return createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([name, entry]) => `${JSON.stringify(name)}:${canonicalJson(entry)}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
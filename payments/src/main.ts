@@ -5,10 +5,19 @@ import { AppModule } from './app.module';
 import { logger } from './common/logger/logger';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { AccessLoggerInterceptor } from './common/interceptors/access-logger.interceptor';
+import { findInsecureSecrets } from './common/utils/secrets.util';
 
 async function bootstrap() {
+  // Never serve production traffic with secrets published in the repository
+  const insecureSecrets = findInsecureSecrets();
+  if (insecureSecrets.length > 0) {
+    throw new Error(`Refusing to start: ${insecureSecrets.join('; ')}`);
+  }
+
   const app = await NestFactory.create(AppModule, {
     logger: logger,
+    // Webhook signatures are computed over the exact bytes received
+    rawBody: true,
   });
 
   app.enableCors();
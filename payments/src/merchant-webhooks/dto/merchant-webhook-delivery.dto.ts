@@ -0,0 +1,147 @@
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { MerchantWebhookDeliveryStatus } from '@prisma/client';
+import {
+  MERCHANT_WEBHOOK_DEFAULT_PAGE_SIZE,
+  MERCHANT_WEBHOOK_MAX_PAGE_SIZE,
+} from '../merchant-webhooks.constants';
+
+export class ListMerchantWebhookDeliveriesQueryDto {
+  @ApiProperty({
+    description:
+      'Only deliveries in this status; DEAD lists the dead-letter store',
+    enum: MerchantWebhookDeliveryStatus,
+    required: false,
+  })
+  @IsEnum(MerchantWebhookDeliveryStatus)
+  @IsOptional()
+  status?: MerchantWebhookDeliveryStatus;
+
+  @ApiProperty({
+    description: 'Only deliveries to this endpoint',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  endpoint_id?: number;
+
+  @ApiProperty({
+    description: 'Only events of this payment',
+    example: 'PAY-1234567890-ABC123',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  payment_reference_id?: string;
+
+  @ApiProperty({
+    description: 'Number of deliveries returned',
+    minimum: 1,
+    maximum: MERCHANT_WEBHOOK_MAX_PAGE_SIZE,
+    default: MERCHANT_WEBHOOK_DEFAULT_PAGE_SIZE,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MERCHANT_WEBHOOK_MAX_PAGE_SIZE)
+  @IsOptional()
+  limit?: number;
+}
+
+export class MerchantWebhookAttemptResponseDto {
+  @ApiProperty({ description: 'Attempt ID' })
+  id: number;
+
+  @ApiProperty({
+    description: 'HTTP status returned by the endpoint',
+    required: false,
+    nullable: true,
+  })
+  response_status: number | null;
+
+  @ApiProperty({
+    description: 'Why no response was received (timeout, connection error)',
+    required: false,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({ description: 'Time the endpoint took to answer' })
+  duration_ms: number;
+
+  @ApiProperty({ description: 'Time of the attempt' })
+  created_at: Date;
+}
+
+export class MerchantWebhookDeliveryResponseDto {
+  @ApiProperty({ description: 'Delivery ID' })
+  id: number;
+
+  @ApiProperty({ description: 'Endpoint the event is sent to' })
+  endpoint_id: number;
+
+  @ApiProperty({
+    description: 'Event ID, sent in the X-Webhook-Id header',
+    example: 'evt_3b1f9c2e-8a4d-4f6b-9e21-7c5d0a9b8e43',
+  })
+  event_id: string;
+
+  @ApiProperty({ description: 'Event type', example: 'payment.succeeded' })
+  event_type: string;
+
+  @ApiProperty({ description: 'Payment the event is about' })
+  payment_reference_id: string;
+
+  @ApiProperty({
+    description: 'JSON body sent to the endpoint',
+    type: 'object',
+    additionalProperties: true,
+  })
+  payload: unknown;
+
+  @ApiProperty({
+    description: 'Delivery status',
+    enum: MerchantWebhookDeliveryStatus,
+  })
+  status: MerchantWebhookDeliveryStatus;
+
+  @ApiProperty({ description: 'Attempts made so far' })
+  attempt_count: number;
+
+  @ApiProperty({
+    description: 'When the next attempt is due; null once delivered or dead',
+    required: false,
+    nullable: true,
+  })
+  next_attempt_at: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  last_attempt_at: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  delivered_at: Date | null;
+
+  @ApiProperty({
+    description: 'When the attempts ran out',
+    required: false,
+    nullable: true,
+  })
+  dead_lettered_at: Date | null;
+
+  @ApiProperty({ description: 'Time the event was queued' })
+  created_at: Date;
+
+  @ApiProperty({ description: 'Delivery last update timestamp' })
+  updated_at: Date;
+}
+
+export class MerchantWebhookDeliveryDetailResponseDto extends MerchantWebhookDeliveryResponseDto {
+  @ApiProperty({
+    description: 'Attempts, oldest first',
+    type: [MerchantWebhookAttemptResponseDto],
+  })
+  attempts: MerchantWebhookAttemptResponseDto[];
+}
@@ -0,0 +1,58 @@
+import { IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateMerchantWebhookEndpointDto {
+  @ApiProperty({
+    description: 'HTTPS URL receiving the signed payment events',
+    example: 'https://shop.example.com/webhooks/opareta',
+  })
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    description: 'Note to tell endpoints apart',
+    required: false,
+    example: 'Order fulfilment',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class MerchantWebhookEndpointResponseDto {
+  @ApiProperty({ description: 'Endpoint ID' })
+  id: number;
+
+  @ApiProperty({ description: 'Merchant receiving the events' })
+  merchant_id: number;
+
+  @ApiProperty({ description: 'URL the events are sent to' })
+  url: string;
+
+  @ApiProperty({
+    description: 'Note to tell endpoints apart',
+    required: false,
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({ description: 'False once the endpoint is deleted' })
+  is_active: boolean;
+
+  @ApiProperty({ description: 'Endpoint creation timestamp' })
+  created_at: Date;
+
+  @ApiProperty({ description: 'Endpoint last update timestamp' })
+  updated_at: Date;
+}
+
+export class CreatedMerchantWebhookEndpointResponseDto extends MerchantWebhookEndpointResponseDto {
+  @ApiProperty({
+    description:
+      'Secret the events are signed with. Only returned when the endpoint is created',
+    example: 'whsec_Zx8mQ2...',
+  })
+  secret: string;
+}
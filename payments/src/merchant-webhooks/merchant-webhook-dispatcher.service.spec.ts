@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MerchantWebhookDispatcherService } from './merchant-webhook-dispatcher.service';
+import { MerchantWebhooksService } from './merchant-webhooks.service';
+import { MerchantWebhooksRepository } from './merchant-webhooks.repository';
+import { LeaderElectionService } from '../common/leader-election.service';
+import { MERCHANT_WEBHOOK_CLAIM_SECONDS } from './merchant-webhooks.constants';
+
+describe('MerchantWebhookDispatcherService', () => {
+  let service: MerchantWebhookDispatcherService;
+
+  const dueDelivery = (id: number) => ({
+    id,
+    event_type: 'payment.succeeded',
+    attempt_count: 0,
+    endpoint: { id: 1, url: 'https://shop.example.com/webhooks' },
+  });
+
+  const mockMerchantWebhooksService = {
+    deliver: jest.fn(),
+  };
+
+  const mockRepository = {
+    findDue: jest.fn(),
+    claimDue: jest.fn(),
+  };
+
+  const mockLeaderElection = {
+    acquire: jest.fn(),
+    release: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MerchantWebhookDispatcherService,
+        {
+          provide: MerchantWebhooksService,
+          useValue: mockMerchantWebhooksService,
+        },
+        { provide: MerchantWebhooksRepository, useValue: mockRepository },
+        { provide: LeaderElectionService, useValue: mockLeaderElection },
+      ],
+    }).compile();
+
+    service = module.get<MerchantWebhookDispatcherService>(
+      MerchantWebhookDispatcherService,
+    );
+
+    mockLeaderElection.acquire.mockResolvedValue(true);
+    mockRepository.findDue.mockResolvedValue([]);
+    mockRepository.claimDue.mockImplementation((deliveries: unknown[]) =>
+      Promise.resolve(deliveries),
+    );
+    mockMerchantWebhooksService.deliver.mockResolvedValue('delivered');
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('runIfLeader', () => {
+    it('should not send events on instances that are not the leader', async () => {
+      mockLeaderElection.acquire.mockResolvedValue(false);
+
+      await service.runIfLeader();
+
+      expect(mockRepository.findDue).not.toHaveBeenCalled();
+    });
+
+    it('should send due deliveries on the leader', async () => {
+      const delivery = dueDelivery(1);
+      mockRepository.findDue.mockResolvedValue([delivery]);
+
+      await service.runIfLeader();
+
+      expect(mockLeaderElection.acquire).toHaveBeenCalledWith(
+        'merchant-webhooks',
+        expect.any(Number),
+      );
+      expect(mockMerchantWebhooksService.deliver).toHaveBeenCalledWith(
+        delivery,
+      );
+    });
+
+    it('should survive a Redis outage', async () => {
+      mockLeaderElection.acquire.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(service.runIfLeader()).resolves.toBeUndefined();
+      expect(mockRepository.findDue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatchDueDeliveries', () => {
+    it('should summarize the results and keep going after an error', async () => {
+      mockRepository.findDue.mockResolvedValue([
+        dueDelivery(1),
+        dueDelivery(2),
+        dueDelivery(3),
+        dueDelivery(4),
+      ]);
+      mockMerchantWebhooksService.deliver
+        .mockResolvedValueOnce('delivered')
+        .mockResolvedValueOnce('retry_scheduled')
+        .mockRejectedValueOnce(
+          new Error('Unsupported state or unable to authenticate data'),
+        )
+        .mockResolvedValueOnce('dead_lettered');
+
+      const summary = await service.dispatchDueDeliveries();
+
+      expect(summary).toEqual({
+        delivered: 1,
+        retry_scheduled: 1,
+        error: 1,
+        dead_lettered: 1,
+      });
+    });
+
+    it('should only send the deliveries it claimed', async () => {
+      const before = Date.now();
+      mockRepository.findDue.mockResolvedValue([
+        dueDelivery(1),
+        dueDelivery(2),
+      ]);
+      mockRepository.claimDue.mockResolvedValue([dueDelivery(2)]);
+
+      await expect(service.dispatchDueDeliveries()).resolves.toEqual({
+        delivered: 1,
+      });
+
+      const [[, until]] = mockRepository.claimDue.mock.calls as [
+        [unknown[], Date],
+      ];
+      expect(until.getTime()).toBeGreaterThanOrEqual(
+        before + MERCHANT_WEBHOOK_CLAIM_SECONDS * 1000,
+      );
+      expect(mockMerchantWebhooksService.deliver).toHaveBeenCalledTimes(1);
+      expect(mockMerchantWebhooksService.deliver).toHaveBeenCalledWith(
+        dueDelivery(2),
+      );
+    });
+
+    it('should do nothing when no delivery is due', async () => {
+      await expect(service.dispatchDueDeliveries()).resolves.toEqual({});
+      expect(mockMerchantWebhooksService.deliver).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Counter } from 'prom-client';
+import { register } from '../metrics/registry';
+import { LeaderElectionService } from '../common/leader-election.service';
+import { countResults, LeaderJob } from '../common/leader-job';
+import { mapWithConcurrency } from '../common/utils/concurrency.util';
+import {
+  DeliveryResult,
+  MerchantWebhooksService,
+} from './merchant-webhooks.service';
+import {
+  MerchantWebhookDeliveryWithEndpoint,
+  MerchantWebhooksRepository,
+} from './merchant-webhooks.repository';
+import {
+  MERCHANT_WEBHOOK_BATCH_SIZE,
+  MERCHANT_WEBHOOK_CLAIM_SECONDS,
+  MERCHANT_WEBHOOK_CONCURRENCY,
+  MERCHANT_WEBHOOK_ENABLED,
+  MERCHANT_WEBHOOK_JOB,
+  MERCHANT_WEBHOOK_POLL_INTERVAL_SECONDS,
+} from './merchant-webhooks.constants';
+
+type DispatchOutcome = DeliveryResult | 'error';
+
+const merchantWebhookDeliveries = new Counter({
+  name: 'payments_merchant_webhook_deliveries_total',
+  help: 'Attempts to deliver payment events to merchant webhook endpoints',
+  labelNames: ['event_type', 'result'] as const,
+  registers: [register],
+});
+
+/**
+ * Sends the payment events queued for merchant endpoints. Every instance
+ * polls for due deliveries, but only the Redis-elected leader sends them,
+ * so an event is not delivered twice by two instances at once.
+ */
+@Injectable()
+export class MerchantWebhookDispatcherService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(MerchantWebhookDispatcherService.name);
+  private readonly job: LeaderJob;
+
+  constructor(
+    private readonly merchantWebhooksService: MerchantWebhooksService,
+    private readonly merchantWebhooksRepository: MerchantWebhooksRepository,
+    leaderElectionService: LeaderElectionService,
+  ) {
+    this.job = new LeaderJob(
+      leaderElectionService,
+      this.logger,
+      {
+        name: MERCHANT_WEBHOOK_JOB,
+        label: 'Merchant webhook dispatcher',
+        enabled: MERCHANT_WEBHOOK_ENABLED,
+        intervalSeconds: MERCHANT_WEBHOOK_POLL_INTERVAL_SECONDS,
+      },
+      (signal) => this.dispatchDueDeliveries(signal),
+    );
+  }
+
+  onModuleInit(): void {
+    this.job.start();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.job.stop();
+  }
+
+  /**
+   * One scheduled run. Skipped on followers, and while the previous run of
+   * this instance is still going.
+   */
+  runIfLeader(): Promise<void> {
+    return this.job.runIfLeader();
+  }
+
+  /**
+   * Attempt one batch of due deliveries, MERCHANT_WEBHOOK_CONCURRENCY at a
+   * time. Returns the number of deliveries per result.
+   */
+  async dispatchDueDeliveries(
+    signal?: AbortSignal,
+  ): Promise<Partial<Record<DispatchOutcome, number>>> {
+    const now = new Date();
+    const due = await this.merchantWebhooksRepository.findDue(
+      now,
+      MERCHANT_WEBHOOK_BATCH_SIZE,
+    );
+    if (due.length === 0) {
+      return {};
+    }
+
+    // Claimed first, so a delivery is not sent twice when another run, on
+    // this leader or the next one, overlaps this one
+    const deliveries = await this.merchantWebhooksRepository.claimDue(
+      due,
+      new Date(now.getTime() + MERCHANT_WEBHOOK_CLAIM_SECONDS * 1000),
+    );
+
+    const results = await mapWithConcurrency(
+      deliveries,
+      MERCHANT_WEBHOOK_CONCURRENCY,
+      (delivery) => this.dispatch(delivery),
+      signal,
+    );
+
+    const summary = countResults(results);
+    this.logger.log(
+      `Attempted ${results.length} merchant webhook deliveries: ${JSON.stringify(summary)}`,
+    );
+    return summary;
+  }
+
+  private async dispatch(
+    delivery: MerchantWebhookDeliveryWithEndpoint,
+  ): Promise<DispatchOutcome> {
+    let result: DispatchOutcome;
+    try {
+      result = await this.merchantWebhooksService.deliver(delivery);
+    } catch (error) {
+      this.logger.error(
+        `Failed to attempt merchant webhook delivery ${delivery.id}: ${(error as Error).message}`,
+      );
+      result = 'error';
+    }
+    merchantWebhookDeliveries.inc({ event_type: delivery.event_type, result });
+    return result;
+  }
+}
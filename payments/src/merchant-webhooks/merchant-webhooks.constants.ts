@@ -0,0 +1,72 @@
+import { PaymentStatus } from '@prisma/client';
+import type { PaymentRefundState } from '../payments/payments.constants';
+
+// Permission to register endpoints and inspect deliveries (merchant and admin roles)
+export const MANAGE_MERCHANT_WEBHOOKS_PERMISSION = 'merchant_webhooks:manage';
+
+// Event sent when a payment enters a status; INITIATED is never entered by a change
+export const PAYMENT_EVENT_TYPES: Partial<Record<PaymentStatus, string>> = {
+  [PaymentStatus.PENDING]: 'payment.pending',
+  [PaymentStatus.SUCCESS]: 'payment.succeeded',
+  [PaymentStatus.FAILED]: 'payment.failed',
+  [PaymentStatus.EXPIRED]: 'payment.expired',
+  [PaymentStatus.CANCELLED]: 'payment.cancelled',
+};
+
+// Event sent when a successful refund leaves the payment in a refund state
+export const PAYMENT_REFUND_EVENT_TYPES: Record<PaymentRefundState, string> = {
+  PARTIALLY_REFUNDED: 'payment.partially_refunded',
+  REFUNDED: 'payment.refunded',
+};
+
+// Prefix of generated signing secrets, shown to the merchant once
+export const MERCHANT_WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// Identifies the event, the same across retries so receivers can deduplicate
+export const MERCHANT_WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+
+// Set to false to stop this instance from running the dispatcher
+export const MERCHANT_WEBHOOK_ENABLED =
+  process.env.MERCHANT_WEBHOOK_ENABLED !== 'false';
+
+// How often each instance tries to run the dispatcher (only the leader does)
+export const MERCHANT_WEBHOOK_POLL_INTERVAL_SECONDS =
+  Number(process.env.MERCHANT_WEBHOOK_POLL_INTERVAL_SECONDS) || 5;
+
+// Due deliveries attempted per run
+export const MERCHANT_WEBHOOK_BATCH_SIZE =
+  Number(process.env.MERCHANT_WEBHOOK_BATCH_SIZE) || 50;
+
+// Requests to merchant endpoints in flight at once
+export const MERCHANT_WEBHOOK_CONCURRENCY =
+  Number(process.env.MERCHANT_WEBHOOK_CONCURRENCY) || 10;
+
+// Time allowed for a merchant endpoint to answer
+export const MERCHANT_WEBHOOK_TIMEOUT_MS =
+  Number(process.env.MERCHANT_WEBHOOK_TIMEOUT_MS) || 10_000;
+
+// Deliveries picked by a run are held back from other runs this long,
+// longer than the run can take; those of a run that died are retried after
+export const MERCHANT_WEBHOOK_CLAIM_SECONDS =
+  Math.ceil(MERCHANT_WEBHOOK_BATCH_SIZE / MERCHANT_WEBHOOK_CONCURRENCY) *
+    (MERCHANT_WEBHOOK_TIMEOUT_MS / 1000) +
+  60;
+
+// Attempts before a delivery is moved to the dead-letter store
+export const MERCHANT_WEBHOOK_MAX_ATTEMPTS =
+  Number(process.env.MERCHANT_WEBHOOK_MAX_ATTEMPTS) || 8;
+
+// Delay before the first retry, doubled after every failed attempt
+export const MERCHANT_WEBHOOK_RETRY_BASE_SECONDS =
+  Number(process.env.MERCHANT_WEBHOOK_RETRY_BASE_SECONDS) || 30;
+
+// Longest delay between two attempts
+export const MERCHANT_WEBHOOK_RETRY_MAX_SECONDS =
+  Number(process.env.MERCHANT_WEBHOOK_RETRY_MAX_SECONDS) || 60 * 60;
+
+export const MERCHANT_WEBHOOK_DEFAULT_PAGE_SIZE = 50;
+
+export const MERCHANT_WEBHOOK_MAX_PAGE_SIZE = 100;
+
+// Leader lease name
+export const MERCHANT_WEBHOOK_JOB = 'merchant-webhooks';
@@ -0,0 +1,313 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type {
+  MerchantWebhookAttempt,
+  MerchantWebhookDelivery,
+  MerchantWebhookEndpoint,
+} from '@prisma/client';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { MerchantWebhooksService } from './merchant-webhooks.service';
+import type { MerchantWebhookDeliveryWithAttempts } from './merchant-webhooks.repository';
+import {
+  CreateMerchantWebhookEndpointDto,
+  CreatedMerchantWebhookEndpointResponseDto,
+  MerchantWebhookEndpointResponseDto,
+} from './dto/merchant-webhook-endpoint.dto';
+import {
+  ListMerchantWebhookDeliveriesQueryDto,
+  MerchantWebhookAttemptResponseDto,
+  MerchantWebhookDeliveryDetailResponseDto,
+  MerchantWebhookDeliveryResponseDto,
+} from './dto/merchant-webhook-delivery.dto';
+import {
+  MANAGE_MERCHANT_WEBHOOKS_PERMISSION,
+  MERCHANT_WEBHOOK_MAX_ATTEMPTS,
+} from './merchant-webhooks.constants';
+
+@ApiTags('Merchant Webhooks')
+@Controller('payments/merchant-webhooks')
+@UseGuards(AuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class MerchantWebhooksController {
+  constructor(
+    private readonly merchantWebhooksService: MerchantWebhooksService,
+  ) {}
+
+  @Post('endpoints')
+  @HttpCode(HttpStatus.CREATED)
+  @Permissions(MANAGE_MERCHANT_WEBHOOKS_PERMISSION)
+  @ApiOperation({
+    summary: 'Register a webhook endpoint',
+    description:
+      'Every status change of the payments received by the caller as the merchant is then POSTed to the URL as a signed event (payment.pending, payment.succeeded, payment.failed, payment.expired, payment.cancelled). The signing secret is only returned in this response.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Endpoint registered',
+    type: CreatedMerchantWebhookEndpointResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'The URL is not a valid HTTPS URL' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: `Missing ${MANAGE_MERCHANT_WEBHOOKS_PERMISSION} permission`,
+  })
+  async createEndpoint(
+    @Body() createEndpointDto: CreateMerchantWebhookEndpointDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CreatedMerchantWebhookEndpointResponseDto> {
+    const { endpoint, secret } =
+      await this.merchantWebhooksService.createEndpoint(
+        createEndpointDto,
+        user,
+      );
+    return { ...toEndpointResponse(endpoint), secret };
+  }
+
+  @Get('endpoints')
+  @Permissions(MANAGE_MERCHANT_WEBHOOKS_PERMISSION)
+  @ApiOperation({
+    summary: 'List webhook endpoints',
+    description:
+      'Active endpoints of the caller, or of every merchant with the payments:read_all permission. Secrets are not returned.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoints',
+    type: [MerchantWebhookEndpointResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: `Missing ${MANAGE_MERCHANT_WEBHOOKS_PERMISSION} permission`,
+  })
+  async listEndpoints(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MerchantWebhookEndpointResponseDto[]> {
+    const endpoints = await this.merchantWebhooksService.listEndpoints(user);
+    return endpoints.map(toEndpointResponse);
+  }
+
+  @Delete('endpoints/:id')
+  @Permissions(MANAGE_MERCHANT_WEBHOOKS_PERMISSION)
+  @ApiOperation({
+    summary: 'Delete a webhook endpoint',
+    description:
+      'Stops sending events to the endpoint. Its deliveries stay visible; those not made yet are no longer attempted.',
+  })
+  @ApiParam({ name: 'id', description: 'Endpoint ID', example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoint deactivated',
+    type: MerchantWebhookEndpointResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Endpoint not found, deleted or owned by another merchant',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: `Missing ${MANAGE_MERCHANT_WEBHOOKS_PERMISSION} permission`,
+  })
+  async deleteEndpoint(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MerchantWebhookEndpointResponseDto> {
+    const endpoint = await this.merchantWebhooksService.deleteEndpoint(
+      id,
+      user,
+    );
+    return toEndpointResponse(endpoint);
+  }
+
+  @Get('deliveries')
+  @Permissions(MANAGE_MERCHANT_WEBHOOKS_PERMISSION)
+  @ApiOperation({
+    summary: 'List webhook deliveries',
+    description:
+      'Events queued for the endpoints of the caller, newest first. Filter on status=DEAD to browse the dead-letter store.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries',
+    type: [MerchantWebhookDeliveryResponseDto],
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: `Missing ${MANAGE_MERCHANT_WEBHOOKS_PERMISSION} permission`,
+  })
+  async listDeliveries(
+    @Query() query: ListMerchantWebhookDeliveriesQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MerchantWebhookDeliveryResponseDto[]> {
+    const deliveries = await this.merchantWebhooksService.listDeliveries(
+      query,
+      user,
+    );
+    return deliveries.map(toDeliveryResponse);
+  }
+
+  @Get('deliveries/:id')
+  @Permissions(MANAGE_MERCHANT_WEBHOOKS_PERMISSION)
+  @ApiOperation({
+    summary: 'Get a webhook delivery',
+    description:
+      'The delivery with every attempt made: response status and body, or the network error, and how long the endpoint took.',
+  })
+  @ApiParam({ name: 'id', description: 'Delivery ID', example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery and its attempts',
+    type: MerchantWebhookDeliveryDetailResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found or owned by another merchant',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: `Missing ${MANAGE_MERCHANT_WEBHOOKS_PERMISSION} permission`,
+  })
+  async getDelivery(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MerchantWebhookDeliveryDetailResponseDto> {
+    const delivery = await this.merchantWebhooksService.getDelivery(id, user);
+    return toDeliveryDetailResponse(delivery);
+  }
+
+  @Post('deliveries/:id/redeliver')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(MANAGE_MERCHANT_WEBHOOKS_PERMISSION)
+  @ApiOperation({
+    summary: 'Redeliver a dead-lettered event',
+    description: `Moves a DEAD delivery back to PENDING: it is sent again within seconds, with ${MERCHANT_WEBHOOK_MAX_ATTEMPTS} new attempts. The event keeps its ID, so receivers can recognise a copy they already processed.`,
+  })
+  @ApiParam({ name: 'id', description: 'Delivery ID', example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery requeued',
+    type: MerchantWebhookDeliveryDetailResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found or owned by another merchant',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The delivery is not DEAD, or its endpoint was deleted',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: `Missing ${MANAGE_MERCHANT_WEBHOOKS_PERMISSION} permission`,
+  })
+  async redeliver(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MerchantWebhookDeliveryDetailResponseDto> {
+    const delivery = await this.merchantWebhooksService.redeliver(id, user);
+    return toDeliveryDetailResponse(delivery);
+  }
+}
+
+function toEndpointResponse(
+  endpoint: MerchantWebhookEndpoint,
+): MerchantWebhookEndpointResponseDto {
+  const {
+    id,
+    merchant_id,
+    url,
+    description,
+    is_active,
+    created_at,
+    updated_at,
+  } = endpoint;
+  return {
+    id,
+    merchant_id,
+    url,
+    description,
+    is_active,
+    created_at,
+    updated_at,
+  };
+}
+
+function toDeliveryResponse(
+  delivery: MerchantWebhookDelivery,
+): MerchantWebhookDeliveryResponseDto {
+  const {
+    id,
+    endpoint_id,
+    event_id,
+    event_type,
+    payment_reference_id,
+    payload,
+    status,
+    attempt_count,
+    next_attempt_at,
+    last_attempt_at,
+    delivered_at,
+    dead_lettered_at,
+    created_at,
+    updated_at,
+  } = delivery;
+  return {
+    id,
+    endpoint_id,
+    event_id,
+    event_type,
+    payment_reference_id,
+    payload,
+    status,
+    attempt_count,
+    next_attempt_at,
+    last_attempt_at,
+    delivered_at,
+    dead_lettered_at,
+    created_at,
+    updated_at,
+  };
+}
+
+function toDeliveryDetailResponse(
+  delivery: MerchantWebhookDeliveryWithAttempts,
+): MerchantWebhookDeliveryDetailResponseDto {
+  return {
+    ...toDeliveryResponse(delivery),
+    attempts: delivery.attempts.map(toAttemptResponse),
+  };
+}
+
+function toAttemptResponse(
+  attempt: MerchantWebhookAttempt,
+): MerchantWebhookAttemptResponseDto {
+  const { id, response_status, error, duration_ms, created_at } = attempt;
+  return { id, response_status, error, duration_ms, created_at };
+}
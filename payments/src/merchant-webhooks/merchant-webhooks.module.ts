@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { MerchantWebhooksController } from './merchant-webhooks.controller';
+import { MerchantWebhooksService } from './merchant-webhooks.service';
+import { MerchantWebhooksRepository } from './merchant-webhooks.repository';
+import { MerchantWebhookDispatcherService } from './merchant-webhook-dispatcher.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [MerchantWebhooksController],
+  providers: [
+    MerchantWebhooksService,
+    MerchantWebhooksRepository,
+    MerchantWebhookDispatcherService,
+  ],
+  exports: [MerchantWebhooksRepository],
+})
+export class MerchantWebhooksModule {}
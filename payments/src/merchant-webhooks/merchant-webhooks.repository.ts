@@ -0,0 +1,236 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  MerchantWebhookAttempt,
+  MerchantWebhookDelivery,
+  MerchantWebhookDeliveryStatus,
+  MerchantWebhookEndpoint,
+  Payment,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../common/database/prisma.service';
+import { PAYMENT_EVENT_TYPES } from './merchant-webhooks.constants';
+
+export type MerchantWebhookDeliveryWithEndpoint = MerchantWebhookDelivery & {
+  endpoint: MerchantWebhookEndpoint;
+};
+
+export type MerchantWebhookDeliveryWithAttempts =
+  MerchantWebhookDeliveryWithEndpoint & {
+    attempts: MerchantWebhookAttempt[];
+  };
+
+@Injectable()
+export class MerchantWebhooksRepository {
+  private readonly logger = new Logger(MerchantWebhooksRepository.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async createEndpoint(
+    data: Prisma.MerchantWebhookEndpointUncheckedCreateInput,
+  ): Promise<MerchantWebhookEndpoint> {
+    this.logger.debug(
+      `Registering webhook endpoint of merchant ${data.merchant_id}`,
+    );
+    return this.prisma.merchantWebhookEndpoint.create({ data });
+  }
+
+  /**
+   * Active endpoints, oldest first
+   */
+  async findEndpoints(
+    where: Prisma.MerchantWebhookEndpointWhereInput,
+  ): Promise<MerchantWebhookEndpoint[]> {
+    return this.prisma.merchantWebhookEndpoint.findMany({
+      where: { ...where, is_active: true },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async findEndpointById(id: number): Promise<MerchantWebhookEndpoint | null> {
+    return this.prisma.merchantWebhookEndpoint.findUnique({ where: { id } });
+  }
+
+  async deactivateEndpoint(id: number): Promise<MerchantWebhookEndpoint> {
+    this.logger.debug(`Deactivating webhook endpoint ${id}`);
+    return this.prisma.merchantWebhookEndpoint.update({
+      where: { id },
+      data: { is_active: false },
+    });
+  }
+
+  /**
+   * Queue the event of a payment status change for every active endpoint
+   * of its merchant, or `event_type` for changes that keep the status.
+   * Runs in the transaction of the change, so an event is queued if and
+   * only if the change is committed. Returns the number of deliveries
+   * queued.
+   */
+  async enqueuePaymentEvent(
+    tx: Prisma.TransactionClient,
+    payment: Payment & { currency: { name: string } },
+    previous_status: PaymentStatus,
+    event_type = PAYMENT_EVENT_TYPES[payment.status],
+  ): Promise<number> {
+    if (!event_type || payment.merchant_id === null) {
+      return 0;
+    }
+
+    const endpoints = await tx.merchantWebhookEndpoint.findMany({
+      where: { merchant_id: payment.merchant_id, is_active: true },
+      select: { id: true },
+    });
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const event_id = `evt_${randomUUID()}`;
+    const payload = {
+      id: event_id,
+      type: event_type,
+      created_at: new Date().toISOString(),
+      data: {
+        reference_id: payment.reference_id,
+        status: payment.status,
+        previous_status,
+        amount: payment.amount,
+        currency: payment.currency.name,
+        refunded_amount: payment.refunded_amount,
+        provider_name: payment.provider_name,
+        provider_transaction_id: payment.provider_transaction_id,
+        created_at: payment.created_at.toISOString(),
+        updated_at: payment.updated_at.toISOString(),
+      },
+    } satisfies Prisma.InputJsonValue;
+
+    const { count } = await tx.merchantWebhookDelivery.createMany({
+      data: endpoints.map(({ id }) => ({
+        endpoint_id: id,
+        event_id,
+        event_type,
+        payment_reference_id: payment.reference_id,
+        payload,
+      })),
+    });
+    this.logger.debug(
+      `Queued ${event_type} of payment ${payment.reference_id} for ${count} endpoints`,
+    );
+    return count;
+  }
+
+  /**
+   * Deliveries matching `where`, newest first
+   */
+  async findDeliveries(
+    where: Prisma.MerchantWebhookDeliveryWhereInput,
+    take: number,
+  ): Promise<MerchantWebhookDelivery[]> {
+    return this.prisma.merchantWebhookDelivery.findMany({
+      where,
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      take,
+    });
+  }
+
+  /**
+   * A delivery with its endpoint and its attempts, oldest attempt first
+   */
+  async findDeliveryById(
+    id: number,
+  ): Promise<MerchantWebhookDeliveryWithAttempts | null> {
+    return this.prisma.merchantWebhookDelivery.findUnique({
+      where: { id },
+      include: {
+        endpoint: true,
+        attempts: { orderBy: [{ created_at: 'asc' }, { id: 'asc' }] },
+      },
+    });
+  }
+
+  /**
+   * PENDING deliveries to active endpoints whose next attempt is due,
+   * longest waiting first
+   */
+  async findDue(
+    now: Date,
+    take: number,
+  ): Promise<MerchantWebhookDeliveryWithEndpoint[]> {
+    return this.prisma.merchantWebhookDelivery.findMany({
+      where: {
+        status: MerchantWebhookDeliveryStatus.PENDING,
+        next_attempt_at: { lte: now },
+        endpoint: { is_active: true },
+      },
+      include: { endpoint: true },
+      orderBy: [{ next_attempt_at: 'asc' }, { id: 'asc' }],
+      take,
+    });
+  }
+
+  /**
+   * Push the next attempt of due deliveries to `until`, so no other run
+   * picks them meanwhile. Returns the deliveries claimed, leaving out those
+   * attempted or claimed by another run since they were found.
+   */
+  async claimDue(
+    deliveries: MerchantWebhookDeliveryWithEndpoint[],
+    until: Date,
+  ): Promise<MerchantWebhookDeliveryWithEndpoint[]> {
+    const claimed: MerchantWebhookDeliveryWithEndpoint[] = [];
+    for (const delivery of deliveries) {
+      const { count } = await this.prisma.merchantWebhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: MerchantWebhookDeliveryStatus.PENDING,
+          next_attempt_at: delivery.next_attempt_at,
+        },
+        data: { next_attempt_at: until },
+      });
+      if (count === 1) {
+        claimed.push(delivery);
+      }
+    }
+    return claimed;
+  }
+
+  /**
+   * Store an attempt and the state of its delivery it led to
+   */
+  async recordAttempt(
+    delivery_id: number,
+    attempt: Omit<
+      Prisma.MerchantWebhookAttemptUncheckedCreateInput,
+      'delivery_id'
+    >,
+    data: Prisma.MerchantWebhookDeliveryUpdateInput,
+  ): Promise<MerchantWebhookDelivery> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.merchantWebhookAttempt.create({
+        data: { ...attempt, delivery_id },
+      });
+      return tx.merchantWebhookDelivery.update({
+        where: { id: delivery_id },
+        data,
+      });
+    });
+  }
+
+  /**
+   * Move a DEAD delivery back to PENDING with a fresh attempt budget. Returns
+   * false when the delivery was not DEAD anymore.
+   */
+  async requeueDead(id: number, now: Date): Promise<boolean> {
+    this.logger.debug(`Requeueing dead webhook delivery ${id}`);
+    const { count } = await this.prisma.merchantWebhookDelivery.updateMany({
+      where: { id, status: MerchantWebhookDeliveryStatus.DEAD },
+      data: {
+        status: MerchantWebhookDeliveryStatus.PENDING,
+        attempt_count: 0,
+        next_attempt_at: now,
+        dead_lettered_at: null,
+      },
+    });
+    return count === 1;
+  }
+}
@@ -0,0 +1,373 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  MerchantWebhookDeliveryStatus,
+  MerchantWebhookEndpoint,
+} from '@prisma/client';
+import {
+  MerchantWebhooksService,
+  retryDelaySeconds,
+} from './merchant-webhooks.service';
+import { MerchantWebhooksRepository } from './merchant-webhooks.repository';
+import type { MerchantWebhookDeliveryWithAttempts } from './merchant-webhooks.repository';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { decryptSecret, encryptSecret } from '../common/utils/crypto.util';
+import { assertPublicUrl } from '../common/utils/network.util';
+import { signPayload } from '../payments/webhook-signature.guard';
+
+const mockPost = jest.fn<Promise<unknown>, unknown[]>();
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { post: (...args: unknown[]) => mockPost(...args) },
+}));
+jest.mock('../common/utils/network.util', () => ({
+  assertPublicUrl: jest.fn(),
+  publicLookup: jest.fn(),
+}));
+const mockAssertPublicUrl = jest.mocked(assertPublicUrl);
+
+describe('MerchantWebhooksService', () => {
+  let service: MerchantWebhooksService;
+
+  const encryptionKey = 'test-merchant-webhook-key';
+  const secret = 'whsec_test';
+
+  const merchant: AuthenticatedUser = {
+    user_id: 7,
+    phone_number: '+256700000007',
+    roles: ['merchant'],
+    permissions: ['merchant_webhooks:manage'],
+  };
+  const admin: AuthenticatedUser = {
+    user_id: 1,
+    phone_number: '+256700000001',
+    roles: ['admin'],
+    permissions: ['merchant_webhooks:manage', 'payments:read_all'],
+  };
+
+  const endpoint = (
+    overrides: Partial<MerchantWebhookEndpoint> = {},
+  ): MerchantWebhookEndpoint => ({
+    id: 3,
+    merchant_id: merchant.user_id,
+    url: 'https://shop.example.com/webhooks',
+    secret: encryptSecret(secret, encryptionKey),
+    description: null,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  const delivery = (
+    overrides: Partial<MerchantWebhookDeliveryWithAttempts> = {},
+  ): MerchantWebhookDeliveryWithAttempts => ({
+    id: 11,
+    endpoint_id: 3,
+    event_id: 'evt_1',
+    event_type: 'payment.succeeded',
+    payment_reference_id: 'PAY-1-ABC',
+    payload: {
+      id: 'evt_1',
+      type: 'payment.succeeded',
+      data: { status: 'SUCCESS' },
+    },
+    status: MerchantWebhookDeliveryStatus.PENDING,
+    attempt_count: 0,
+    next_attempt_at: new Date(),
+    last_attempt_at: null,
+    delivered_at: null,
+    dead_lettered_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    endpoint: endpoint(),
+    attempts: [],
+    ...overrides,
+  });
+
+  const mockRepository = {
+    createEndpoint: jest.fn(),
+    findEndpoints: jest.fn(),
+    findEndpointById: jest.fn(),
+    deactivateEndpoint: jest.fn(),
+    findDeliveries: jest.fn(),
+    findDeliveryById: jest.fn(),
+    recordAttempt: jest.fn(),
+    requeueDead: jest.fn(),
+  };
+
+  const createService = async (): Promise<MerchantWebhooksService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MerchantWebhooksService,
+        { provide: MerchantWebhooksRepository, useValue: mockRepository },
+      ],
+    }).compile();
+    return module.get<MerchantWebhooksService>(MerchantWebhooksService);
+  };
+
+  beforeEach(async () => {
+    process.env.MERCHANT_WEBHOOK_ENCRYPTION_KEY = encryptionKey;
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should refuse to start without MERCHANT_WEBHOOK_ENCRYPTION_KEY', async () => {
+    delete process.env.MERCHANT_WEBHOOK_ENCRYPTION_KEY;
+
+    await expect(createService()).rejects.toThrow(
+      'MERCHANT_WEBHOOK_ENCRYPTION_KEY is not set',
+    );
+  });
+
+  describe('createEndpoint', () => {
+    it('should return the secret once and store it encrypted', async () => {
+      mockRepository.createEndpoint.mockImplementation((data: object) =>
+        Promise.resolve({ ...endpoint(), ...data }),
+      );
+
+      const result = await service.createEndpoint(
+        { url: 'https://shop.example.com/webhooks' },
+        merchant,
+      );
+
+      expect(result.secret).toMatch(/^whsec_/);
+      const [stored] = mockRepository.createEndpoint.mock.calls[0] as [
+        MerchantWebhookEndpoint,
+      ];
+      expect(stored.merchant_id).toBe(merchant.user_id);
+      expect(stored.secret).not.toContain(result.secret);
+      expect(decryptSecret(stored.secret, encryptionKey)).toBe(result.secret);
+    });
+
+    it('should refuse URLs of non-public hosts', async () => {
+      mockAssertPublicUrl.mockRejectedValue(
+        new Error('169.254.169.254 does not resolve to a public address'),
+      );
+
+      await expect(
+        service.createEndpoint(
+          { url: 'https://169.254.169.254/latest/meta-data' },
+          merchant,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.createEndpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listEndpoints', () => {
+    it('should only list the endpoints of the merchant', async () => {
+      mockRepository.findEndpoints.mockResolvedValue([]);
+
+      await service.listEndpoints(merchant);
+      await service.listEndpoints(admin);
+
+      expect(mockRepository.findEndpoints).toHaveBeenNthCalledWith(1, {
+        merchant_id: merchant.user_id,
+      });
+      expect(mockRepository.findEndpoints).toHaveBeenNthCalledWith(2, {});
+    });
+  });
+
+  describe('deleteEndpoint', () => {
+    it('should deactivate the endpoint', async () => {
+      mockRepository.findEndpointById.mockResolvedValue(endpoint());
+      mockRepository.deactivateEndpoint.mockResolvedValue(
+        endpoint({ is_active: false }),
+      );
+
+      await service.deleteEndpoint(3, merchant);
+
+      expect(mockRepository.deactivateEndpoint).toHaveBeenCalledWith(3);
+    });
+
+    it('should not reveal endpoints of other merchants', async () => {
+      mockRepository.findEndpointById.mockResolvedValue(
+        endpoint({ merchant_id: 99 }),
+      );
+
+      await expect(service.deleteEndpoint(3, merchant)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockRepository.deactivateEndpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listDeliveries', () => {
+    it('should scope deliveries to the endpoints of the merchant', async () => {
+      mockRepository.findDeliveries.mockResolvedValue([]);
+
+      await service.listDeliveries({ status: 'DEAD', limit: 10 }, merchant);
+
+      expect(mockRepository.findDeliveries).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'DEAD',
+          endpoint: { merchant_id: merchant.user_id },
+        }),
+        10,
+      );
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should requeue a dead delivery', async () => {
+      mockRepository.findDeliveryById.mockResolvedValue(
+        delivery({
+          status: MerchantWebhookDeliveryStatus.DEAD,
+          attempt_count: 8,
+        }),
+      );
+      mockRepository.requeueDead.mockResolvedValue(true);
+
+      await service.redeliver(11, merchant);
+
+      expect(mockRepository.requeueDead).toHaveBeenCalledWith(
+        11,
+        expect.any(Date),
+      );
+    });
+
+    it('should refuse deliveries that are not dead', async () => {
+      mockRepository.findDeliveryById.mockResolvedValue(delivery());
+
+      await expect(service.redeliver(11, merchant)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockRepository.requeueDead).not.toHaveBeenCalled();
+    });
+
+    it('should refuse deliveries of deleted endpoints', async () => {
+      mockRepository.findDeliveryById.mockResolvedValue(
+        delivery({
+          status: MerchantWebhookDeliveryStatus.DEAD,
+          endpoint: endpoint({ is_active: false }),
+        }),
+      );
+
+      await expect(service.redeliver(11, merchant)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('deliver', () => {
+    it('should send the signed event and mark it delivered on 2xx', async () => {
+      mockPost.mockResolvedValue({ status: 204, data: '' });
+
+      await expect(service.deliver(delivery())).resolves.toBe('delivered');
+
+      const [url, body, config] = mockPost.mock.calls[0] as [
+        string,
+        string,
+        { headers: Record<string, string> },
+      ];
+      expect(url).toBe('https://shop.example.com/webhooks');
+      const timestamp = config.headers['X-Webhook-Timestamp'];
+      expect(config.headers['X-Webhook-Signature']).toBe(
+        `sha256=${signPayload(secret, timestamp, body)}`,
+      );
+      expect(config.headers['X-Webhook-Id']).toBe('evt_1');
+      expect(JSON.parse(body)).toMatchObject({ type: 'payment.succeeded' });
+
+      const [id, attempt, data] = mockRepository.recordAttempt.mock
+        .calls[0] as [
+        number,
+        { response_status: number },
+        { status: string; attempt_count: number },
+      ];
+      expect(id).toBe(11);
+      expect(attempt.response_status).toBe(204);
+      expect(data).toMatchObject({ status: 'DELIVERED', attempt_count: 1 });
+    });
+
+    it('should schedule a retry with backoff on an error response', async () => {
+      mockPost.mockResolvedValue({ status: 500, data: 'Internal error' });
+
+      const before = Date.now();
+      await expect(
+        service.deliver(delivery({ attempt_count: 2 })),
+      ).resolves.toBe('retry_scheduled');
+
+      const [, attempt, data] = mockRepository.recordAttempt.mock.calls[0] as [
+        number,
+        object,
+        { status?: string; attempt_count: number; next_attempt_at: Date },
+      ];
+      expect(attempt).toEqual({
+        response_status: 500,
+        error: undefined,
+        duration_ms: expect.any(Number) as number,
+      });
+      expect(data.status).toBeUndefined();
+      expect(data.attempt_count).toBe(3);
+      expect(data.next_attempt_at.getTime()).toBeGreaterThanOrEqual(
+        before + retryDelaySeconds(3) * 1000,
+      );
+    });
+
+    it('should record network errors as failed attempts', async () => {
+      mockPost.mockRejectedValue(new Error('timeout of 10000ms exceeded'));
+
+      await expect(service.deliver(delivery())).resolves.toBe(
+        'retry_scheduled',
+      );
+
+      const [, attempt] = mockRepository.recordAttempt.mock.calls[0] as [
+        number,
+        { response_status?: number; error: string },
+      ];
+      expect(attempt.response_status).toBeUndefined();
+      expect(attempt.error).toBe('timeout of 10000ms exceeded');
+    });
+
+    it('should not send events to hosts that no longer resolve to public addresses', async () => {
+      mockAssertPublicUrl.mockRejectedValue(
+        new Error('shop.example.com does not resolve to a public address'),
+      );
+
+      await expect(service.deliver(delivery())).resolves.toBe(
+        'retry_scheduled',
+      );
+
+      expect(mockPost).not.toHaveBeenCalled();
+      const [, attempt] = mockRepository.recordAttempt.mock.calls[0] as [
+        number,
+        { error: string },
+      ];
+      expect(attempt.error).toBe(
+        'shop.example.com does not resolve to a public address',
+      );
+    });
+
+    it('should dead-letter the delivery after the last attempt', async () => {
+      mockPost.mockResolvedValue({ status: 410, data: '' });
+
+      await expect(
+        service.deliver(delivery({ attempt_count: 7 })),
+      ).resolves.toBe('dead_lettered');
+
+      const [, , data] = mockRepository.recordAttempt.mock.calls[0] as [
+        number,
+        object,
+        { status: string; next_attempt_at: Date | null },
+      ];
+      expect(data).toMatchObject({ status: 'DEAD', next_attempt_at: null });
+    });
+  });
+
+  describe('retryDelaySeconds', () => {
+    it('should double the delay per attempt up to the maximum', () => {
+      expect(retryDelaySeconds(1)).toBe(30);
+      expect(retryDelaySeconds(2)).toBe(60);
+      expect(retryDelaySeconds(3)).toBe(120);
+      expect(retryDelaySeconds(20)).toBe(3600);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  MerchantWebhookDelivery,
+  MerchantWebhookDeliveryStatus,
+  MerchantWebhookEndpoint,
+  Prisma,
+} from '@prisma/client';
+import Axios from 'axios';
+import { randomBytes } from 'crypto';
+import { Agent } from 'https';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { decryptSecret, encryptSecret } from '../common/utils/crypto.util';
+import { assertPublicUrl, publicLookup } from '../common/utils/network.util';
+import { signPayload } from '../payments/webhook-signature.guard';
+import {
+  READ_ALL_PAYMENTS_PERMISSION,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../payments/payments.constants';
+import {
+  MerchantWebhookDeliveryWithAttempts,
+  MerchantWebhookDeliveryWithEndpoint,
+  MerchantWebhooksRepository,
+} from './merchant-webhooks.repository';
+import { CreateMerchantWebhookEndpointDto } from './dto/merchant-webhook-endpoint.dto';
+import { ListMerchantWebhookDeliveriesQueryDto } from './dto/merchant-webhook-delivery.dto';
+import {
+  MERCHANT_WEBHOOK_DEFAULT_PAGE_SIZE,
+  MERCHANT_WEBHOOK_ID_HEADER,
+  MERCHANT_WEBHOOK_MAX_ATTEMPTS,
+  MERCHANT_WEBHOOK_RETRY_BASE_SECONDS,
+  MERCHANT_WEBHOOK_RETRY_MAX_SECONDS,
+  MERCHANT_WEBHOOK_SECRET_PREFIX,
+  MERCHANT_WEBHOOK_TIMEOUT_MS,
+} from './merchant-webhooks.constants';
+
+// What an attempt did with its delivery
+export type DeliveryResult = 'delivered' | 'retry_scheduled' | 'dead_lettered';
+
+// Connects only to public addresses, the ones checked when resolving
+const publicAgent = new Agent({ lookup: publicLookup });
+
+/**
+ * Endpoints merchants register to be told about their payments, and
+ * delivery of the queued events to them. Events are signed like provider
+ * webhooks: HMAC-SHA256 of `<timestamp>.<body>` under the endpoint secret,
+ * sent in X-Webhook-Timestamp and X-Webhook-Signature.
+ */
+@Injectable()
+export class MerchantWebhooksService {
+  private readonly logger = new Logger(MerchantWebhooksService.name);
+  private readonly encryptionKey: string;
+
+  constructor(
+    private readonly merchantWebhooksRepository: MerchantWebhooksRepository,
+  ) {
+    if (!process.env.MERCHANT_WEBHOOK_ENCRYPTION_KEY) {
+      throw new Error('MERCHANT_WEBHOOK_ENCRYPTION_KEY is not set');
+    }
+    this.encryptionKey = process.env.MERCHANT_WEBHOOK_ENCRYPTION_KEY;
+  }
+
+  /**
+   * Register an endpoint for the caller. Its host must resolve to public
+   * addresses only, so events cannot be aimed at internal services. The
+   * generated secret is returned here only; it is stored encrypted.
+   */
+  async createEndpoint(
+    dto: CreateMerchantWebhookEndpointDto,
+    user: AuthenticatedUser,
+  ): Promise<{ endpoint: MerchantWebhookEndpoint; secret: string }> {
+    try {
+      await assertPublicUrl(dto.url);
+    } catch (error) {
+      throw new BadRequestException(
+        `Webhook URL rejected: ${(error as Error).message}`,
+      );
+    }
+
+    const secret = `${MERCHANT_WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const endpoint = await this.merchantWebhooksRepository.createEndpoint({
+      merchant_id: user.user_id,
+      url: dto.url,
+      description: dto.description,
+      secret: encryptSecret(secret, this.encryptionKey),
+    });
+
+    this.logger.log(
+      `Merchant ${user.user_id} registered webhook endpoint ${endpoint.id}`,
+    );
+    return { endpoint, secret };
+  }
+
+  async listEndpoints(
+    user: AuthenticatedUser,
+  ): Promise<MerchantWebhookEndpoint[]> {
+    return this.merchantWebhooksRepository.findEndpoints(
+      canSeeAll(user) ? {} : { merchant_id: user.user_id },
+    );
+  }
+
+  /**
+   * Stop sending events to an endpoint. Its deliveries are kept, those not
+   * made yet are no longer attempted.
+   */
+  async deleteEndpoint(
+    id: number,
+    user: AuthenticatedUser,
+  ): Promise<MerchantWebhookEndpoint> {
+    const endpoint = await this.merchantWebhooksRepository.findEndpointById(id);
+    if (!endpoint || !endpoint.is_active || !canAccess(endpoint, user)) {
+      throw new NotFoundException(`Webhook endpoint ${id} not found`);
+    }
+
+    this.logger.log(`Deactivating webhook endpoint ${id}`);
+    return this.merchantWebhooksRepository.deactivateEndpoint(id);
+  }
+
+  async listDeliveries(
+    query: ListMerchantWebhookDeliveriesQueryDto,
+    user: AuthenticatedUser,
+  ): Promise<MerchantWebhookDelivery[]> {
+    const where: Prisma.MerchantWebhookDeliveryWhereInput = {
+      status: query.status,
+      endpoint_id: query.endpoint_id,
+      payment_reference_id: query.payment_reference_id,
+      ...(!canSeeAll(user) && { endpoint: { merchant_id: user.user_id } }),
+    };
+    return this.merchantWebhooksRepository.findDeliveries(
+      where,
+      query.limit ?? MERCHANT_WEBHOOK_DEFAULT_PAGE_SIZE,
+    );
+  }
+
+  async getDelivery(
+    id: number,
+    user: AuthenticatedUser,
+  ): Promise<MerchantWebhookDeliveryWithAttempts> {
+    const delivery = await this.merchantWebhooksRepository.findDeliveryById(id);
+    if (!delivery || !canAccess(delivery.endpoint, user)) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Take a delivery out of the dead-letter store: it is attempted again on
+   * the next dispatcher run, with MERCHANT_WEBHOOK_MAX_ATTEMPTS new attempts.
+   */
+  async redeliver(
+    id: number,
+    user: AuthenticatedUser,
+  ): Promise<MerchantWebhookDeliveryWithAttempts> {
+    const delivery = await this.getDelivery(id, user);
+    if (!delivery.endpoint.is_active) {
+      throw new ConflictException(
+        `Webhook endpoint ${delivery.endpoint_id} was deleted`,
+      );
+    }
+    if (
+      delivery.status !== MerchantWebhookDeliveryStatus.DEAD ||
+      !(await this.merchantWebhooksRepository.requeueDead(id, new Date()))
+    ) {
+      throw new ConflictException(
+        `Only DEAD deliveries can be redelivered, delivery ${id} is ${delivery.status}`,
+      );
+    }
+
+    this.logger.log(`Delivery ${id} requeued by user ${user.user_id}`);
+    return this.getDelivery(id, user);
+  }
+
+  /**
+   * Make one attempt of a delivery and record it. A 2xx response delivers
+   * the event; anything else schedules a retry with exponential backoff,
+   * until MERCHANT_WEBHOOK_MAX_ATTEMPTS is reached and the delivery is
+   * dead-lettered. The host is resolved again and only reached on public
+   * addresses, whatever it resolved to at registration. Only the status of
+   * the response is kept, never its body.
+   */
+  async deliver(
+    delivery: MerchantWebhookDeliveryWithEndpoint,
+  ): Promise<DeliveryResult> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const secret = decryptSecret(delivery.endpoint.secret, this.encryptionKey);
+
+    const startedAt = Date.now();
+    let response_status: number | undefined;
+    let error: string | undefined;
+    try {
+      await assertPublicUrl(delivery.endpoint.url);
+      const response = await Axios.post<string>(delivery.endpoint.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [MERCHANT_WEBHOOK_ID_HEADER]: delivery.event_id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signPayload(secret, timestamp, body)}`,
+        },
+        timeout: MERCHANT_WEBHOOK_TIMEOUT_MS,
+        httpsAgent: publicAgent,
+        maxRedirects: 0,
+        responseType: 'text',
+        validateStatus: () => true,
+      });
+      response_status = response.status;
+    } catch (requestError) {
+      error = (requestError as Error).message;
+    }
+    const duration_ms = Date.now() - startedAt;
+
+    const now = new Date();
+    const attempt_count = delivery.attempt_count + 1;
+    let result: DeliveryResult;
+    let data: Prisma.MerchantWebhookDeliveryUpdateInput;
+    if (
+      response_status !== undefined &&
+      response_status >= 200 &&
+      response_status < 300
+    ) {
+      result = 'delivered';
+      data = {
+        status: MerchantWebhookDeliveryStatus.DELIVERED,
+        delivered_at: now,
+        next_attempt_at: null,
+      };
+    } else if (attempt_count >= MERCHANT_WEBHOOK_MAX_ATTEMPTS) {
+      result = 'dead_lettered';
+      data = {
+        status: MerchantWebhookDeliveryStatus.DEAD,
+        dead_lettered_at: now,
+        next_attempt_at: null,
+      };
+      this.logger.warn(
+        `Delivery ${delivery.id} of ${delivery.event_type} to endpoint ${delivery.endpoint_id} dead-lettered after ${attempt_count} attempts`,
+      );
+    } else {
+      result = 'retry_scheduled';
+      data = {
+        next_attempt_at: new Date(
+          now.getTime() + retryDelaySeconds(attempt_count) * 1000,
+        ),
+      };
+    }
+
+    await this.merchantWebhooksRepository.recordAttempt(
+      delivery.id,
+      { response_status, error, duration_ms },
+      { ...data, attempt_count, last_attempt_at: now },
+    );
+    return result;
+  }
+}
+
+/**
+ * Delay after the given number of failed attempts: the base delay doubled
+ * per attempt, capped at MERCHANT_WEBHOOK_RETRY_MAX_SECONDS
+ */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(
+    MERCHANT_WEBHOOK_RETRY_BASE_SECONDS * 2 ** (attempts - 1),
+    MERCHANT_WEBHOOK_RETRY_MAX_SECONDS,
+  );
+}
+
+/**
+ * Merchants manage their own endpoints; READ_ALL_PAYMENTS_PERMISSION
+ * grants access to those of every merchant.
+ */
+function canAccess(
+  endpoint: MerchantWebhookEndpoint,
+  user: AuthenticatedUser,
+): boolean {
+  return canSeeAll(user) || endpoint.merchant_id === user.user_id;
+}
+
+function canSeeAll(user: AuthenticatedUser): boolean {
+  return user.permissions.includes(READ_ALL_PAYMENTS_PERMISSION);
+}
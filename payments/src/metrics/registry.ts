@@ -0,0 +1,5 @@
+import { Registry, collectDefaultMetrics } from 'prom-client';
+
+// Registry served by GET /metrics; application metrics register here
+export const register = new Registry();
+collectDefaultMetrics({ register });
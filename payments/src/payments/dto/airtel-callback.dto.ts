@@ -0,0 +1,62 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { AIRTEL_STATUSES } from '../payments.constants';
+
+export class AirtelCallbackTransactionDto {
+  @ApiProperty({
+    description: 'Transaction ID sent at initiation: the payment reference ID',
+    example: 'PAY-1760788800000-1A2B3C4D',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  id: string;
+
+  @ApiProperty({
+    description: 'Outcome described by Airtel',
+    example: 'Paid UGX 5,000 to OPARETA, Trans ID MP210603.1234.L06941.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  message?: string;
+
+  @ApiProperty({
+    description:
+      'TS (succeeded), TF (failed) or TE (expired); TIP and TA while in progress',
+    enum: Object.keys(AIRTEL_STATUSES),
+    example: 'TS',
+  })
+  @IsIn(Object.keys(AIRTEL_STATUSES))
+  status_code: string;
+
+  @ApiProperty({
+    description: 'Airtel Money ID of the transaction, used for refunds',
+    example: 'MP210603.1234.L06941',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  airtel_money_id?: string;
+}
+
+/**
+ * Collection callback in Airtel's own format, sent to
+ * POST /payments/webhook/airtel
+ */
+export class AirtelCallbackDto {
+  @ApiProperty({ type: AirtelCallbackTransactionDto })
+  @ValidateNested()
+  @Type(() => AirtelCallbackTransactionDto)
+  transaction: AirtelCallbackTransactionDto;
+}
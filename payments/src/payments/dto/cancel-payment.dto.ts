@@ -0,0 +1,14 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CancelPaymentDto {
+  @ApiProperty({
+    description: 'Why the payment is cancelled, kept in the payment history',
+    required: false,
+    example: 'Customer changed the order',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -1,4 +1,12 @@
-import { IsEmail, IsEnum, IsNotEmpty, IsNumber, IsString, Min } from 'class-validator';
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class CreatePaymentDto {
@@ -21,16 +29,20 @@ export class CreatePaymentDto {
   currency: string;
 
   @ApiProperty({
-    description: 'Payment method',
+    description:
+      'Payment method. Chosen from the network of the customer phone number when omitted; must belong to that network when given',
     example: 'MOBILE_MONEY',
+    required: false,
   })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  payment_method: string;
+  payment_method?: string;
 
   @ApiProperty({
-    description: 'Customer phone number',
-    example: '+256700000000',
+    description:
+      'Customer phone number, in E.164 or national format. Stored in E.164',
+    example: '+256772123456',
   })
   @IsString()
   @IsNotEmpty()
@@ -44,4 +56,3 @@ export class CreatePaymentDto {
   @IsEmail()
   customer_email?: string;
 }
-
@@ -0,0 +1,170 @@
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentStatus } from '@prisma/client';
+import { PaymentResponseDto } from './payment-response.dto';
+import {
+  PAYMENT_SORT_FIELDS,
+  PAYMENTS_DEFAULT_PAGE_SIZE,
+  PAYMENTS_MAX_PAGE_SIZE,
+  SORT_ORDERS,
+} from '../payments.constants';
+import type { PaymentSortField, SortOrder } from '../payments.constants';
+
+export class ListPaymentsQueryDto {
+  @ApiProperty({
+    description: 'Only payments in this status',
+    enum: PaymentStatus,
+    required: false,
+  })
+  @IsEnum(PaymentStatus)
+  @IsOptional()
+  status?: PaymentStatus;
+
+  @ApiProperty({
+    description: 'Currency code',
+    example: 'UGX',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  currency?: string;
+
+  @ApiProperty({
+    description: 'Payment method',
+    example: 'MOBILE_MONEY',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  payment_method?: string;
+
+  @ApiProperty({
+    description: 'Provider that processed the payment',
+    example: 'MTN',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  provider?: string;
+
+  @ApiProperty({
+    description: 'Customer phone number',
+    example: '+256700000000',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  customer_phone?: string;
+
+  @ApiProperty({
+    description: 'Minimum amount (inclusive)',
+    example: 1000,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsOptional()
+  min_amount?: number;
+
+  @ApiProperty({
+    description: 'Maximum amount (inclusive)',
+    example: 50000,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsOptional()
+  max_amount?: number;
+
+  @ApiProperty({
+    description: 'Created at or after this time (ISO 8601)',
+    example: '2026-10-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsISO8601()
+  @IsOptional()
+  created_from?: string;
+
+  @ApiProperty({
+    description: 'Created at or before this time (ISO 8601)',
+    example: '2026-10-31T23:59:59.999Z',
+    required: false,
+  })
+  @IsISO8601()
+  @IsOptional()
+  created_to?: string;
+
+  @ApiProperty({
+    description: 'Sort field',
+    enum: PAYMENT_SORT_FIELDS,
+    default: 'created_at',
+    required: false,
+  })
+  @IsIn(PAYMENT_SORT_FIELDS)
+  @IsOptional()
+  sort_by?: PaymentSortField;
+
+  @ApiProperty({
+    description: 'Sort direction',
+    enum: SORT_ORDERS,
+    default: 'desc',
+    required: false,
+  })
+  @IsIn(SORT_ORDERS)
+  @IsOptional()
+  sort_order?: SortOrder;
+
+  @ApiProperty({
+    description: 'Page size',
+    minimum: 1,
+    maximum: PAYMENTS_MAX_PAGE_SIZE,
+    default: PAYMENTS_DEFAULT_PAGE_SIZE,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(PAYMENTS_MAX_PAGE_SIZE)
+  @IsOptional()
+  limit?: number;
+
+  @ApiProperty({
+    description:
+      'Opaque cursor from next_cursor of the previous page. Use the same sort_by and sort_order',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
+
+export class PaymentListResponseDto {
+  @ApiProperty({
+    description: 'Payments of this page',
+    type: [PaymentResponseDto],
+  })
+  data: PaymentResponseDto[];
+
+  @ApiProperty({
+    description: 'Cursor of the next page, null on the last page',
+    type: String,
+    nullable: true,
+    example:
+      'eyJzIjoiY3JlYXRlZF9hdCIsIm8iOiJkZXNjIiwidiI6IjIwMjYtMTAtMThUMTA6MDA6MDAuMDAwWiIsImlkIjo0Mn0',
+  })
+  next_cursor: string | null;
+
+  @ApiProperty({ description: 'Whether more payments follow this page' })
+  has_more: boolean;
+}
@@ -1,15 +1,20 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { PaymentStatus } from '@prisma/client';
+import { PAYMENT_REFUND_STATES } from '../payments.constants';
+import type { PaymentRefundState } from '../payments.constants';
 
 export class PaymentResponseDto {
-
   @ApiProperty({ description: 'Unique payment reference' })
   reference_id: string;
 
   @ApiProperty({ description: 'Customer phone number' })
   customer_phone: string;
 
-  @ApiProperty({ description: 'Customer email', required: false, nullable: true })
+  @ApiProperty({
+    description: 'Customer email',
+    required: false,
+    nullable: true,
+  })
   customer_email?: string | null;
 
   @ApiProperty({ description: 'Payment amount' })
@@ -18,23 +23,59 @@ export class PaymentResponseDto {
   @ApiProperty({ description: 'Payment status', enum: PaymentStatus })
   status: PaymentStatus;
 
+  @ApiProperty({ description: 'Sum of the successful refunds' })
+  refunded_amount: number;
+
+  @ApiProperty({
+    description:
+      'Refund state of a SUCCESS payment; null until a refund succeeds',
+    enum: PAYMENT_REFUND_STATES,
+    nullable: true,
+  })
+  refund_status: PaymentRefundState | null;
+
   @ApiProperty({ description: 'Payment method' })
   payment_method: string;
 
   @ApiProperty({ description: 'Currency' })
   currency: string;
 
-  @ApiProperty({ description: 'Provider transaction ID', required: false, nullable: true })
+  @ApiProperty({
+    description: 'Provider transaction ID',
+    required: false,
+    nullable: true,
+  })
   provider_transaction_id?: string | null;
 
-  @ApiProperty({ description: 'Provider name', required: false, nullable: true })
+  @ApiProperty({
+    description: 'Provider name',
+    required: false,
+    nullable: true,
+  })
   provider_name?: string | null;
 
+  @ApiProperty({
+    description: 'ID of the user who created the payment',
+    required: false,
+    nullable: true,
+  })
+  user_id?: number | null;
+
+  @ApiProperty({
+    description: 'ID of the merchant account the payment belongs to',
+    required: false,
+    nullable: true,
+  })
+  merchant_id?: number | null;
+
+  @ApiProperty({
+    description: 'When the payment expires unless it reached a final status',
+  })
+  expires_at: Date;
+
   @ApiProperty({ description: 'Payment creation timestamp' })
   created_at: Date;
 
   @ApiProperty({ description: 'Payment last update timestamp' })
   updated_at: Date;
 }
-
-
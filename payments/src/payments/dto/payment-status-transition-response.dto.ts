@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentStatus, PaymentStatusSource } from '@prisma/client';
+
+export class PaymentStatusTransitionResponseDto {
+  @ApiProperty({ description: 'Status before the change', enum: PaymentStatus })
+  from_status: PaymentStatus;
+
+  @ApiProperty({ description: 'Status after the change', enum: PaymentStatus })
+  to_status: PaymentStatus;
+
+  @ApiProperty({
+    description: 'What caused the change',
+    enum: PaymentStatusSource,
+  })
+  source: PaymentStatusSource;
+
+  @ApiProperty({
+    description:
+      'User who caused the change; null for provider webhooks and jobs',
+    required: false,
+    nullable: true,
+  })
+  actor_user_id: number | null;
+
+  @ApiProperty({
+    description: 'Reason given for the change',
+    required: false,
+    nullable: true,
+  })
+  reason: string | null;
+
+  @ApiProperty({ description: 'Time of the change' })
+  created_at: Date;
+}
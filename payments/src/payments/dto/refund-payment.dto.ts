@@ -0,0 +1,31 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefundPaymentDto {
+  @ApiProperty({
+    description:
+      'Amount to refund; defaults to everything not refunded yet. All refunds of a payment together cannot exceed its amount',
+    required: false,
+    example: 500.0,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @IsOptional()
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Why the money is returned',
+    required: false,
+    example: 'Item out of stock',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RefundStatus } from '@prisma/client';
+
+export class RefundResponseDto {
+  @ApiProperty({ description: 'Unique refund reference' })
+  reference_id: string;
+
+  @ApiProperty({ description: 'Reference of the refunded payment' })
+  payment_reference_id: string;
+
+  @ApiProperty({ description: 'Refunded amount' })
+  amount: number;
+
+  @ApiProperty({ description: 'Refund status', enum: RefundStatus })
+  status: RefundStatus;
+
+  @ApiProperty({
+    description: 'Reason given for the refund',
+    required: false,
+    nullable: true,
+  })
+  reason: string | null;
+
+  @ApiProperty({
+    description: 'Provider refund ID',
+    required: false,
+    nullable: true,
+  })
+  provider_refund_id: string | null;
+
+  @ApiProperty({
+    description: 'Why the provider did not refund',
+    required: false,
+    nullable: true,
+  })
+  failure_reason: string | null;
+
+  @ApiProperty({
+    description: 'ID of the user who requested the refund',
+    required: false,
+    nullable: true,
+  })
+  requested_by_user_id: number | null;
+
+  @ApiProperty({ description: 'Refund creation timestamp' })
+  created_at: Date;
+
+  @ApiProperty({ description: 'Refund last update timestamp' })
+  updated_at: Date;
+}
@@ -1,4 +1,10 @@
-import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { PaymentStatus } from '@prisma/client';
 
@@ -28,5 +34,14 @@ export class UpdatePaymentStatusDto {
   @IsString()
   @IsOptional()
   provider_transaction_id?: string;
-}
 
+  @ApiProperty({
+    description: 'Why the status is being set, kept in the payment history',
+    required: false,
+    example: 'Confirmed with MTN support, ticket 48213',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
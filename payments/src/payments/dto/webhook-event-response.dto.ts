@@ -0,0 +1,87 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  PaymentStatus,
+  WebhookOutcome,
+  WebhookSignatureResult,
+} from '@prisma/client';
+
+export class WebhookEventResponseDto {
+  @ApiProperty({ description: 'Delivery ID' })
+  id: number;
+
+  @ApiProperty({
+    description: 'Provider that sent the delivery',
+    example: 'mtn',
+  })
+  provider: string;
+
+  @ApiProperty({
+    description: 'Provider event ID',
+    required: false,
+    nullable: true,
+  })
+  event_id: string | null;
+
+  @ApiProperty({
+    description: 'Payment reference named in the payload',
+    required: false,
+    nullable: true,
+  })
+  payment_reference_id: string | null;
+
+  @ApiProperty({
+    description: 'Status reported in the payload',
+    enum: PaymentStatus,
+    required: false,
+    nullable: true,
+  })
+  status: PaymentStatus | null;
+
+  @ApiProperty({
+    description: 'Provider transaction ID reported in the payload',
+    required: false,
+    nullable: true,
+  })
+  provider_transaction_id: string | null;
+
+  @ApiProperty({
+    description: 'Event time reported in the payload',
+    required: false,
+    nullable: true,
+  })
+  timestamp: Date | null;
+
+  @ApiProperty({ description: 'Request body exactly as received' })
+  raw_payload: string;
+
+  @ApiProperty({
+    description: 'Request headers, without Authorization and Cookie',
+    type: 'object',
+    additionalProperties: { type: 'string' },
+  })
+  headers: unknown;
+
+  @ApiProperty({
+    description:
+      'Result of the signature check; null for deliveries received before signatures were checked',
+    enum: WebhookSignatureResult,
+    nullable: true,
+  })
+  signature_result: WebhookSignatureResult | null;
+
+  @ApiProperty({
+    description: 'What processing did with the delivery',
+    enum: WebhookOutcome,
+  })
+  outcome: WebhookOutcome;
+
+  @ApiProperty({
+    description: 'Why the delivery was rejected or failed',
+    required: false,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({ description: 'Time the delivery was received' })
+  created_at: Date;
+}
@@ -4,11 +4,24 @@ import {
   IsOptional,
   IsString,
   IsDateString,
+  MaxLength,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { PaymentStatus } from '@prisma/client';
 
 export class WebhookDto {
+  @ApiProperty({
+    description:
+      'Provider event ID, the same for every retry of an event. Without it, retries are recognised by provider_transaction_id and status',
+    example: 'evt_8f14e45fceea167a',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  event_id?: string;
+
   @ApiProperty({
     description: 'Payment reference ID',
     example: 'REF-1234567890',
@@ -42,4 +55,3 @@ export class WebhookDto {
   @IsNotEmpty()
   timestamp: string;
 }
-
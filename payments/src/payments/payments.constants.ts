@@ -0,0 +1,129 @@
+import { PaymentStatus } from '@prisma/client';
+
+// Permission to see payments of other users (support and admin roles)
+export const READ_ALL_PAYMENTS_PERMISSION = 'payments:read_all';
+
+// Role whose payments are also recorded as merchant payments
+export const MERCHANT_ROLE = 'merchant';
+
+export const PAYMENTS_DEFAULT_PAGE_SIZE = 20;
+
+export const PAYMENTS_MAX_PAGE_SIZE = 100;
+
+// Columns GET /payments can be sorted by; ties are broken by id
+export const PAYMENT_SORT_FIELDS = ['created_at', 'amount'] as const;
+
+export type PaymentSortField = (typeof PAYMENT_SORT_FIELDS)[number];
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+// Shared HMAC secrets of the providers allowed to call POST /payments/webhook/:provider
+export const WEBHOOK_SECRETS: Record<string, string | undefined> = {
+  mtn: process.env.MTN_WEBHOOK_SECRET,
+  airtel: process.env.AIRTEL_WEBHOOK_SECRET,
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// Maximum age (and clock skew) of a signed webhook, limits replays
+export const WEBHOOK_TOLERANCE_SECONDS =
+  Number(process.env.WEBHOOK_TOLERANCE_SECONDS) || 5 * 60;
+
+// Permission to browse the webhook deliveries of a payment (admin role)
+export const READ_WEBHOOK_EVENTS_PERMISSION = 'webhooks:read';
+
+// Newest deliveries returned per payment by GET /payments/:reference/webhook-events
+export const WEBHOOK_EVENTS_LIST_LIMIT = 100;
+
+// Request headers not stored with webhook deliveries
+export const REDACTED_WEBHOOK_HEADERS = ['authorization', 'cookie'];
+
+// Longest payload value copied to the indexed columns of a delivery
+export const WEBHOOK_FIELD_MAX_LENGTH = 255;
+
+// Derived from the refunded amount, shown next to the SUCCESS status
+export const PAYMENT_REFUND_STATES = [
+  'PARTIALLY_REFUNDED',
+  'REFUNDED',
+] as const;
+
+export type PaymentRefundState = (typeof PAYMENT_REFUND_STATES)[number];
+
+// PENDING refunds of providers that cannot tell their outcome are failed,
+// releasing their amount, once this old
+export const REFUND_UNCONFIRMED_MAX_AGE_SECONDS =
+  Number(process.env.REFUND_UNCONFIRMED_MAX_AGE_SECONDS) || 24 * 60 * 60;
+
+// Airtel's staging API; production is https://openapi.airtel.africa
+export const AIRTEL_DEFAULT_API_URL = 'https://openapiuat.airtel.africa';
+
+export const AIRTEL_DEFAULT_COUNTRY = 'UG';
+
+export const AIRTEL_DEFAULT_CURRENCY = 'UGX';
+
+// Per HTTP request; a payment makes up to two (token, collection)
+export const AIRTEL_TIMEOUT_MS =
+  Number(process.env.AIRTEL_TIMEOUT_MS) || 10_000;
+
+/**
+ * Airtel transaction status codes: TS succeeded, TF failed, TE expired
+ * (the customer never answered), TIP and TA are still in progress.
+ */
+export const AIRTEL_STATUSES: Record<string, PaymentStatus> = {
+  TS: PaymentStatus.SUCCESS,
+  TF: PaymentStatus.FAILED,
+  TE: PaymentStatus.EXPIRED,
+  TIP: PaymentStatus.PENDING,
+  TA: PaymentStatus.PENDING,
+};
+
+// Access tokens are renewed this long before Airtel expires them
+export const AIRTEL_TOKEN_REFRESH_MARGIN_SECONDS = 60;
+
+/**
+ * Where MtnProvider sends payments: `mock` simulates MoMo in process,
+ * `stand-in` calls the local server of `pnpm mock:mtn`, `sandbox` calls the
+ * MoMo developer sandbox (or production, with MTN_API_URL and
+ * MTN_TARGET_ENVIRONMENT set).
+ */
+export const MTN_MODES = ['mock', 'stand-in', 'sandbox'] as const;
+
+export type MtnMode = (typeof MTN_MODES)[number];
+
+export const MTN_DEFAULT_API_URLS: Record<Exclude<MtnMode, 'mock'>, string> = {
+  'stand-in': 'http://localhost:4020',
+  sandbox: 'https://sandbox.momodeveloper.mtn.com',
+};
+
+// X-Target-Environment of the sandbox; production ones are per country, e.g. mtnuganda
+export const MTN_DEFAULT_TARGET_ENVIRONMENT = 'sandbox';
+
+// Per HTTP request; a payment makes up to three (token, account check,
+// request to pay)
+export const MTN_TIMEOUT_MS = Number(process.env.MTN_TIMEOUT_MS) || 10_000;
+
+/**
+ * Request to pay statuses of the MoMo Collection API. FAILED requests the
+ * customer never answered carry the EXPIRED reason.
+ */
+export const MTN_STATUSES: Record<string, PaymentStatus> = {
+  PENDING: PaymentStatus.PENDING,
+  SUCCESSFUL: PaymentStatus.SUCCESS,
+  FAILED: PaymentStatus.FAILED,
+};
+
+export const MTN_EXPIRED_REASON = 'EXPIRED';
+
+// Access tokens are renewed this long before MoMo expires them
+export const MTN_TOKEN_REFRESH_MARGIN_SECONDS = 60;
+
+// Delay before pending payments of the mock mode and the stand-in settle
+export const MTN_MOCK_DEFAULT_SETTLE_AFTER_MS = 5000;
+
+// Where the mock mode sends the webhooks of settled payments
+export const MTN_MOCK_DEFAULT_CALLBACK_URL =
+  'http://localhost:3002/payments/webhook/mtn';
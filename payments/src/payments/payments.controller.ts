@@ -4,7 +4,10 @@ import {
   Get,
   Body,
   Param,
+  Query,
+  Headers,
   UseGuards,
+  UseInterceptors,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
@@ -14,28 +17,69 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { PaymentsService } from './payments.service';
+import { paymentRefundState } from './payments.repository';
+import type { PaymentWithRelations } from './payments.repository';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentStatusDto } from './dto/update-payment-status.dto';
 import { WebhookDto } from './dto/webhook.dto';
+import { AirtelCallbackDto } from './dto/airtel-callback.dto';
+import { CancelPaymentDto } from './dto/cancel-payment.dto';
+import { RefundPaymentDto } from './dto/refund-payment.dto';
+import { RefundResponseDto } from './dto/refund-response.dto';
 import { PaymentResponseDto } from './dto/payment-response.dto';
+import {
+  ListPaymentsQueryDto,
+  PaymentListResponseDto,
+} from './dto/list-payments.dto';
+import type { Refund } from '@prisma/client';
 import { AuthGuard } from '../auth/auth.guard';
+import { WebhookSignatureGuard } from './webhook-signature.guard';
+import { WebhookEventInterceptor } from './webhook-event.interceptor';
+import { WebhookEventsService } from './webhook-events.service';
+import { WebhookEventResponseDto } from './dto/webhook-event-response.dto';
+import { PaymentStatusTransitionResponseDto } from './dto/payment-status-transition-response.dto';
 import { Public } from '../common/decorators/public.decorator';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { WebhookEventId } from '../common/decorators/webhook-event-id.decorator';
+import { WebhookProvider } from '../common/decorators/webhook-provider.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IDEMPOTENCY_KEY_HEADER } from '../idempotency/idempotency.constants';
+import {
+  READ_WEBHOOK_EVENTS_PERMISSION,
+  WEBHOOK_EVENTS_LIST_LIMIT,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './payments.constants';
 
 @ApiTags('Payments')
 @Controller('payments')
 @UseGuards(AuthGuard)
 @ApiBearerAuth('JWT-auth')
 export class PaymentsController {
-  constructor(private readonly paymentsService: PaymentsService) { }
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly webhookEventsService: WebhookEventsService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @Permissions('payments:create')
   @ApiOperation({
     summary: 'Initiate a payment',
     description:
-      'Create a new payment.',
+      'Create a new payment owned by the authenticated user. Send an Idempotency-Key header to retry safely: a retry with the same key and body returns the original response instead of creating another payment.',
+  })
+  @ApiHeader({
+    name: IDEMPOTENCY_KEY_HEADER,
+    description:
+      'Unique key per payment attempt (e.g. a UUID), kept for 24 hours',
+    required: false,
   })
   @ApiResponse({
     status: 201,
@@ -44,21 +88,71 @@ export class PaymentsController {
   })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing payments:create permission',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A request with the same Idempotency-Key is in progress',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency-Key already used with a different body',
+  })
   async createPayment(
     @Body() createPaymentDto: CreatePaymentDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
   ): Promise<PaymentResponseDto> {
-    const createdPayment = await this.paymentsService.createPayment(createPaymentDto);
+    return this.idempotencyService.execute(
+      user.user_id,
+      idempotencyKey,
+      createPaymentDto,
+      async (checkpoint) => {
+        // Retries must find this payment even if the provider call fails
+        const createdPayment = await this.paymentsService.createPayment(
+          createPaymentDto,
+          user,
+          (payment) => checkpoint(toPaymentResponse(payment)),
+        );
+        return toPaymentResponse(createdPayment);
+      },
+    );
+  }
+
+  @Get()
+  @Permissions('payments:read')
+  @ApiOperation({
+    summary: 'List payments',
+    description:
+      'List the payments visible to the caller (their own, or all with the payments:read_all permission), with filters, sorting and cursor pagination. Pass next_cursor as cursor to read the next page.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Page of payments',
+    type: PaymentListResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing payments:read permission' })
+  async listPayments(
+    @Query() query: ListPaymentsQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PaymentListResponseDto> {
+    const page = await this.paymentsService.listPayments(query, user);
     return {
-      ...createdPayment,
-      payment_method: createdPayment.payment_method.name,
-      currency: createdPayment.currency.name,
+      ...page,
+      data: page.data.map(toPaymentResponse),
     };
   }
 
   @Get(':payment_reference_id')
+  @Permissions('payments:read')
   @ApiOperation({
     summary: 'Get payment by payment_reference_id',
-    description: 'Retrieve payment details using the payment reference ID',
+    description:
+      'Retrieve payment details using the payment reference ID. Only the owner of the payment, or callers with the payments:read_all permission, can see it.',
   })
   @ApiParam({
     name: 'payment_reference_id',
@@ -70,24 +164,236 @@ export class PaymentsController {
     description: 'Payment found',
     type: PaymentResponseDto,
   })
-  @ApiResponse({ status: 404, description: 'Payment not found' })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found or owned by another user',
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing payments:read permission' })
   async getPaymentByReference(
     @Param('payment_reference_id') payment_reference_id: string,
+    @CurrentUser() user: AuthenticatedUser,
   ): Promise<PaymentResponseDto> {
-    const payment = await this.paymentsService.getPaymentByReference(payment_reference_id);
-    return {
-      ...payment,
-      payment_method: payment.payment_method.name,
-      currency: payment.currency.name,
-    };
+    const payment = await this.paymentsService.getPaymentByReference(
+      payment_reference_id,
+      user,
+    );
+    return toPaymentResponse(payment);
+  }
+
+  @Get(':payment_reference_id/history')
+  @Permissions('payments:read')
+  @ApiOperation({
+    summary: 'Get payment status history',
+    description:
+      'Every status change of the payment, oldest first, with what caused it (provider initiation, webhook, manual callback, reconciliation, expiry or cancellation), the user who did and the reason. Same visibility as GET /payments/:payment_reference_id. Changes made before the history was recorded are not listed.',
+  })
+  @ApiParam({
+    name: 'payment_reference_id',
+    description: 'Payment reference ID',
+    example: 'PAY-1234567890-ABC123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Status changes',
+    type: [PaymentStatusTransitionResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found or owned by another user',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing payments:read permission' })
+  async getPaymentHistory(
+    @Param('payment_reference_id') payment_reference_id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PaymentStatusTransitionResponseDto[]> {
+    const transitions = await this.paymentsService.getPaymentHistory(
+      payment_reference_id,
+      user,
+    );
+    return transitions.map(
+      ({
+        from_status,
+        to_status,
+        source,
+        actor_user_id,
+        reason,
+        created_at,
+      }) => ({
+        from_status,
+        to_status,
+        source,
+        actor_user_id,
+        reason,
+        created_at,
+      }),
+    );
+  }
+
+  @Get(':payment_reference_id/webhook-events')
+  @Permissions(READ_WEBHOOK_EVENTS_PERMISSION)
+  @ApiOperation({
+    summary: 'List webhook deliveries of a payment',
+    description: `Every provider webhook delivery that named the payment, newest first (up to ${WEBHOOK_EVENTS_LIST_LIMIT}), with the raw payload, headers, signature check result, outcome and error. Rejected and failed deliveries are included. Restricted to operators with the ${READ_WEBHOOK_EVENTS_PERMISSION} permission.`,
+  })
+  @ApiParam({
+    name: 'payment_reference_id',
+    description: 'Payment reference ID',
+    example: 'PAY-1234567890-ABC123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook deliveries',
+    type: [WebhookEventResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: `Missing ${READ_WEBHOOK_EVENTS_PERMISSION} permission`,
+  })
+  async listWebhookEvents(
+    @Param('payment_reference_id') payment_reference_id: string,
+  ): Promise<WebhookEventResponseDto[]> {
+    return this.webhookEventsService.listForPayment(payment_reference_id);
+  }
+
+  @Post(':payment_reference_id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @Permissions('payments:cancel')
+  @ApiOperation({
+    summary: 'Cancel a payment',
+    description:
+      'Cancel an INITIATED or PENDING payment. The provider is asked to withdraw the payment request first when it supports it; if the customer already approved it, the payment is left unchanged. Same visibility as GET /payments/:payment_reference_id.',
+  })
+  @ApiParam({
+    name: 'payment_reference_id',
+    description: 'Payment reference ID',
+    example: 'PAY-1234567890-ABC123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment cancelled',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The payment is already in a final status',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found or owned by another user',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The provider could not cancel the payment, or its status changed concurrently',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing payments:cancel permission',
+  })
+  async cancelPayment(
+    @Param('payment_reference_id') payment_reference_id: string,
+    @Body() cancelDto: CancelPaymentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PaymentResponseDto> {
+    const cancelledPayment = await this.paymentsService.cancelPayment(
+      payment_reference_id,
+      cancelDto,
+      user,
+    );
+    return toPaymentResponse(cancelledPayment);
+  }
+
+  @Post(':payment_reference_id/refunds')
+  @HttpCode(HttpStatus.CREATED)
+  @Permissions('payments:refund')
+  @ApiOperation({
+    summary: 'Refund a payment',
+    description:
+      'Return money of a SUCCESS payment through its provider. Without amount, everything not refunded yet is returned; partial refunds can follow each other until the payment amount is reached. A refund the provider rejects has status FAILED and does not count towards that limit. Same visibility as GET /payments/:payment_reference_id.',
+  })
+  @ApiParam({
+    name: 'payment_reference_id',
+    description: 'Payment reference ID',
+    example: 'PAY-1234567890-ABC123',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Refund created',
+    type: RefundResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'The payment is not SUCCESS, or the amount exceeds what is left to refund',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found or owned by another user',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing payments:refund permission',
+  })
+  async refundPayment(
+    @Param('payment_reference_id') payment_reference_id: string,
+    @Body() refundDto: RefundPaymentDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<RefundResponseDto> {
+    const refund = await this.paymentsService.refundPayment(
+      payment_reference_id,
+      refundDto,
+      user,
+    );
+    return toRefundResponse(refund, payment_reference_id);
+  }
+
+  @Get(':payment_reference_id/refunds')
+  @Permissions('payments:read')
+  @ApiOperation({
+    summary: 'List refunds of a payment',
+    description:
+      'Every refund of the payment, oldest first, including failed ones. Same visibility as GET /payments/:payment_reference_id.',
+  })
+  @ApiParam({
+    name: 'payment_reference_id',
+    description: 'Payment reference ID',
+    example: 'PAY-1234567890-ABC123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Refunds',
+    type: [RefundResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found or owned by another user',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing payments:read permission' })
+  async listRefunds(
+    @Param('payment_reference_id') payment_reference_id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<RefundResponseDto[]> {
+    const refunds = await this.paymentsService.listRefunds(
+      payment_reference_id,
+      user,
+    );
+    return refunds.map((refund) =>
+      toRefundResponse(refund, payment_reference_id),
+    );
   }
 
   @Post('/callback')
+  @Permissions('payments:update_status')
   @ApiOperation({
     summary: 'Update payment status',
     description:
-      'Update the status of a payment (simulating provider callback).',
+      'Update the status of a payment (simulating provider callback). Restricted to operators with the payments:update_status permission. The change is recorded in the payment history with the operator and the reason given.',
   })
   @ApiResponse({
     status: 200,
@@ -96,40 +402,210 @@ export class PaymentsController {
   })
   @ApiResponse({ status: 400, description: 'Invalid state transition' })
   @ApiResponse({ status: 404, description: 'Payment not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The payment status changed concurrently',
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing payments:update_status permission',
+  })
   async updatePaymentStatus(
     @Body() updateDto: UpdatePaymentStatusDto,
+    @CurrentUser() user: AuthenticatedUser,
   ): Promise<PaymentResponseDto> {
-    const updatedPayment = await this.paymentsService.updatePaymentStatus(updateDto);
-    return {
-      ...updatedPayment,
-      payment_method: updatedPayment.payment_method.name,
-      currency: updatedPayment.currency.name,
-    };
+    const updatedPayment = await this.paymentsService.updatePaymentStatus(
+      updateDto,
+      user,
+    );
+    return toPaymentResponse(updatedPayment);
   }
 
+  // Path of the webhook before providers had their own; kept for MTN, which
+  // was the only provider sending to it
   @Post('webhook')
   @HttpCode(HttpStatus.OK)
   @Public()
+  @WebhookProvider('mtn')
+  @UseGuards(WebhookSignatureGuard)
+  @UseInterceptors(WebhookEventInterceptor)
   @ApiOperation({
-    summary: 'Handle payment webhook',
+    summary: 'Handle MTN payment webhook (deprecated path)',
     description:
-      'Receive payment status updates from payment provider. Implements idempotency to prevent duplicate processing.',
+      'Former path of the payment webhook, handled as POST /payments/webhook/mtn: signed with the MTN webhook secret, logged and deduplicated the same way. New integrations use /payments/webhook/:provider.',
+    deprecated: true,
+  })
+  @ApiHeader({
+    name: WEBHOOK_TIMESTAMP_HEADER,
+    description: 'Unix time (seconds) the webhook was signed at',
+    required: true,
+  })
+  @ApiHeader({
+    name: WEBHOOK_SIGNATURE_HEADER,
+    description: 'sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">',
+    required: true,
   })
   @ApiResponse({
     status: 200,
     description: 'Webhook processed successfully',
     type: PaymentResponseDto,
   })
-  @ApiResponse({ status: 400, description: 'Invalid webhook data or state transition' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid webhook data or state transition',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, stale or invalid signature',
+  })
   @ApiResponse({ status: 404, description: 'Payment not found' })
-  async handleWebhook(@Body() webhookDto: WebhookDto): Promise<PaymentResponseDto> {
-    const updatedPayment = await this.paymentsService.handleWebhook(webhookDto);
-    return {
-      ...updatedPayment,
-      payment_method: updatedPayment.payment_method.name,
-      currency: updatedPayment.currency.name,
-    };
+  async handleMtnWebhook(
+    @Body() webhookDto: WebhookDto,
+    @WebhookEventId() webhookEventId: number,
+  ): Promise<PaymentResponseDto> {
+    const updatedPayment = await this.paymentsService.handleWebhook(
+      webhookDto,
+      'mtn',
+      webhookEventId,
+    );
+    return toPaymentResponse(updatedPayment);
+  }
+
+  // Declared before webhook/:provider, which would otherwise match it
+  @Post('webhook/airtel')
+  @HttpCode(HttpStatus.OK)
+  @Public()
+  @WebhookProvider('airtel')
+  @UseGuards(WebhookSignatureGuard)
+  @UseInterceptors(WebhookEventInterceptor)
+  @ApiOperation({
+    summary: 'Handle Airtel Money callback',
+    description:
+      'Receive collection results from Airtel in its own callback format. Signed, logged and deduplicated like other provider webhooks, with the secret shared with Airtel; retries are recognised by airtel_money_id and status.',
+  })
+  @ApiHeader({
+    name: WEBHOOK_TIMESTAMP_HEADER,
+    description: 'Unix time (seconds) the callback was signed at',
+    required: true,
+  })
+  @ApiHeader({
+    name: WEBHOOK_SIGNATURE_HEADER,
+    description: 'sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">',
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Callback processed successfully',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid callback data or state transition',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, stale or invalid signature',
+  })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async handleAirtelCallback(
+    @Body() callback: AirtelCallbackDto,
+    @WebhookEventId() webhookEventId: number,
+  ): Promise<PaymentResponseDto> {
+    const updatedPayment = await this.paymentsService.handleAirtelCallback(
+      callback,
+      webhookEventId,
+    );
+    return toPaymentResponse(updatedPayment);
+  }
+
+  @Post('webhook/:provider')
+  @HttpCode(HttpStatus.OK)
+  @Public()
+  @UseGuards(WebhookSignatureGuard)
+  @UseInterceptors(WebhookEventInterceptor)
+  @ApiOperation({
+    summary: 'Handle payment webhook',
+    description:
+      'Receive payment status updates from payment provider. The body must be signed with the provider\'s webhook secret: HMAC-SHA256 over "<timestamp>.<raw body>". Every delivery is logged; retries of an event already applied (same event_id, or same provider_transaction_id and status) return the payment without changing it.',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Provider sending the webhook',
+    example: 'mtn',
+  })
+  @ApiHeader({
+    name: WEBHOOK_TIMESTAMP_HEADER,
+    description: 'Unix time (seconds) the webhook was signed at',
+    required: true,
+  })
+  @ApiHeader({
+    name: WEBHOOK_SIGNATURE_HEADER,
+    description: 'sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">',
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook processed successfully',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid webhook data or state transition',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing, stale or invalid signature',
+  })
+  @ApiResponse({ status: 404, description: 'Payment or provider not found' })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Body() webhookDto: WebhookDto,
+    @WebhookEventId() webhookEventId: number,
+  ): Promise<PaymentResponseDto> {
+    const updatedPayment = await this.paymentsService.handleWebhook(
+      webhookDto,
+      provider,
+      webhookEventId,
+    );
+    return toPaymentResponse(updatedPayment);
   }
 }
 
+function toPaymentResponse(payment: PaymentWithRelations): PaymentResponseDto {
+  return {
+    ...payment,
+    payment_method: payment.payment_method.name,
+    currency: payment.currency.name,
+    refund_status: paymentRefundState(payment),
+  };
+}
+
+function toRefundResponse(
+  refund: Refund,
+  payment_reference_id: string,
+): RefundResponseDto {
+  const {
+    reference_id,
+    amount,
+    status,
+    reason,
+    provider_refund_id,
+    failure_reason,
+    requested_by_user_id,
+    created_at,
+    updated_at,
+  } = refund;
+  return {
+    reference_id,
+    payment_reference_id,
+    amount,
+    status,
+    reason,
+    provider_refund_id,
+    failure_reason,
+    requested_by_user_id,
+    created_at,
+    updated_at,
+  };
+}
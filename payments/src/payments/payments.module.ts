@@ -3,17 +3,32 @@ import { PaymentsController } from './payments.controller';
 import { PaymentsService } from './payments.service';
 import { PaymentsRepository } from './payments.repository';
 import { AuthModule } from '../auth/auth.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { MerchantWebhooksModule } from '../merchant-webhooks/merchant-webhooks.module';
+import { ProviderRoutingModule } from '../provider-routing/provider-routing.module';
+import { ProviderResilienceModule } from '../provider-resilience/provider-resilience.module';
 import { MtnProvider } from './providers/mtn.provider';
+import { MtnMomoClient } from './providers/mtn-momo.client';
+import { AirtelProvider } from './providers/airtel.provider';
+import { WebhookEventsService } from './webhook-events.service';
 
 @Module({
-  imports: [AuthModule],
+  imports: [
+    AuthModule,
+    IdempotencyModule,
+    MerchantWebhooksModule,
+    ProviderRoutingModule,
+    ProviderResilienceModule,
+  ],
   controllers: [PaymentsController],
   providers: [
     PaymentsService,
     PaymentsRepository,
     MtnProvider,
+    MtnMomoClient,
+    AirtelProvider,
+    WebhookEventsService,
   ],
   exports: [PaymentsService, PaymentsRepository],
 })
-export class PaymentsModule { }
-
+export class PaymentsModule {}
@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  PaymentStatus,
+  PaymentStatusSource,
+  Refund,
+  RefundStatus,
+} from '@prisma/client';
+import { PaymentsRepository, paymentRefundState } from './payments.repository';
+import { PrismaService } from '../common/database/prisma.service';
+import { MerchantWebhooksRepository } from '../merchant-webhooks/merchant-webhooks.repository';
+
+describe('PaymentsRepository', () => {
+  let repository: PaymentsRepository;
+
+  const tx = {
+    refund: {
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    payment: {
+      update: jest.fn(),
+    },
+    paymentStatusTransition: {
+      create: jest.fn(),
+    },
+  };
+
+  const mockMerchantWebhooksRepository = {
+    enqueuePaymentEvent: jest.fn(),
+  };
+
+  const mockPrisma = {
+    $transaction: jest.fn((run: (client: typeof tx) => Promise<unknown>) =>
+      run(tx),
+    ),
+  };
+
+  const refund: Refund = {
+    id: 1,
+    reference_id: 'REF-1-ABC',
+    payment_id: 1,
+    amount: 400,
+    status: RefundStatus.PENDING,
+    reason: null,
+    provider_refund_id: null,
+    failure_reason: null,
+    requested_by_user_id: 1,
+    status_checked_at: null,
+    created_at: new Date('2026-10-18T12:00:00Z'),
+    updated_at: new Date('2026-10-18T12:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsRepository,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: MerchantWebhooksRepository,
+          useValue: mockMerchantWebhooksRepository,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<PaymentsRepository>(PaymentsRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('completeRefund', () => {
+    it('should add a successful refund to the refunded amount', async () => {
+      const completed = { ...refund, status: RefundStatus.SUCCESS };
+      const payment = {
+        id: 1,
+        status: PaymentStatus.SUCCESS,
+        amount: 1000,
+        refunded_amount: 400,
+      };
+      tx.refund.updateMany.mockResolvedValue({ count: 1 });
+      tx.refund.findUniqueOrThrow.mockResolvedValue(completed);
+      tx.payment.update.mockResolvedValue(payment);
+
+      await expect(
+        repository.completeRefund(refund, {
+          status: RefundStatus.SUCCESS,
+          provider_refund_id: 'RFD-1',
+        }),
+      ).resolves.toEqual(completed);
+
+      expect(tx.refund.updateMany).toHaveBeenCalledWith({
+        where: { id: refund.id, status: RefundStatus.PENDING },
+        data: { status: RefundStatus.SUCCESS, provider_refund_id: 'RFD-1' },
+      });
+      expect(tx.payment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: refund.payment_id },
+          data: { refunded_amount: { increment: 400 } },
+        }),
+      );
+    });
+
+    it('should record a successful refund in the history and notify the merchant', async () => {
+      const payment = {
+        id: 1,
+        status: PaymentStatus.SUCCESS,
+        amount: 1000,
+        refunded_amount: 1000,
+      };
+      tx.refund.updateMany.mockResolvedValue({ count: 1 });
+      tx.refund.findUniqueOrThrow.mockResolvedValue(refund);
+      tx.payment.update.mockResolvedValue(payment);
+
+      await repository.completeRefund(refund, { status: RefundStatus.SUCCESS });
+
+      expect(tx.paymentStatusTransition.create).toHaveBeenCalledWith({
+        data: {
+          payment_id: 1,
+          from_status: PaymentStatus.SUCCESS,
+          to_status: PaymentStatus.SUCCESS,
+          source: PaymentStatusSource.REFUND,
+          actor_user_id: 1,
+          reason: 'Refund REF-1-ABC of 400 succeeded',
+        },
+      });
+      expect(
+        mockMerchantWebhooksRepository.enqueuePaymentEvent,
+      ).toHaveBeenCalledWith(
+        tx,
+        payment,
+        PaymentStatus.SUCCESS,
+        'payment.refunded',
+      );
+    });
+
+    it('should not record failed refunds', async () => {
+      tx.refund.updateMany.mockResolvedValue({ count: 1 });
+      tx.refund.findUniqueOrThrow.mockResolvedValue(refund);
+
+      await repository.completeRefund(refund, {
+        status: RefundStatus.FAILED,
+        failure_reason: 'Insufficient balance',
+      });
+
+      expect(tx.payment.update).not.toHaveBeenCalled();
+      expect(tx.paymentStatusTransition.create).not.toHaveBeenCalled();
+      expect(
+        mockMerchantWebhooksRepository.enqueuePaymentEvent,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should not count a refund completed twice', async () => {
+      const completed = { ...refund, status: RefundStatus.SUCCESS };
+      tx.refund.updateMany.mockResolvedValue({ count: 0 });
+      tx.refund.findUniqueOrThrow.mockResolvedValue(completed);
+
+      await expect(
+        repository.completeRefund(refund, { status: RefundStatus.SUCCESS }),
+      ).resolves.toEqual(completed);
+
+      expect(tx.payment.update).not.toHaveBeenCalled();
+      expect(
+        mockMerchantWebhooksRepository.enqueuePaymentEvent,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('paymentRefundState', () => {
+    it('should derive the refund state from the refunded amount', () => {
+      expect(
+        paymentRefundState({ amount: 1000, refunded_amount: 0 }),
+      ).toBeNull();
+      expect(paymentRefundState({ amount: 1000, refunded_amount: 400 })).toBe(
+        'PARTIALLY_REFUNDED',
+      );
+      expect(
+        paymentRefundState({
+          amount: 1000,
+          refunded_amount: 333.33 + 333.33 + 333.34,
+        }),
+      ).toBe('REFUNDED');
+    });
+  });
+});
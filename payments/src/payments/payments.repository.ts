@@ -1,12 +1,26 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import { PrismaService } from '../common/database/prisma.service';
+import { MerchantWebhooksRepository } from '../merchant-webhooks/merchant-webhooks.repository';
+import { PAYMENT_REFUND_EVENT_TYPES } from '../merchant-webhooks/merchant-webhooks.constants';
+import type { PaymentRefundState } from './payments.constants';
 import {
   Payment,
   PaymentStatus,
   PaymentMethod,
   Currency,
   PaymentProvider,
+  PaymentStatusSource,
+  PaymentStatusTransition,
   Prisma,
+  Refund,
+  RefundStatus,
+  WebhookEvent,
+  WebhookOutcome,
 } from '@prisma/client';
 
 export type PaymentWithRelations = Payment & {
@@ -23,11 +37,50 @@ export type PaymentWithRelations = Payment & {
   };
 };
 
+export type PaymentMethodWithProvider = PaymentMethod & {
+  payment_provider: PaymentProvider;
+};
+
+export type RefundWithPayment = Refund & {
+  payment: Payment & { currency: { name: string } };
+};
+
+// Recorded as a PaymentStatusTransition with the status change it describes
+export interface StatusChange {
+  // Status the change was decided from; the update fails if it moved since
+  from_status: PaymentStatus;
+  source: PaymentStatusSource;
+  actor_user_id?: number;
+  reason?: string;
+}
+
+const PAYMENT_RELATIONS = {
+  currency: {
+    select: {
+      name: true,
+      id: true,
+    },
+  },
+  payment_method: {
+    select: {
+      name: true,
+      payment_provider: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.PaymentInclude;
+
 @Injectable()
 export class PaymentsRepository {
   private readonly logger = new Logger(PaymentsRepository.name);
 
-  constructor(private readonly prisma: PrismaService) { }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly merchantWebhooksRepository: MerchantWebhooksRepository,
+  ) {}
 
   async getCurrencyByName(name: string): Promise<Currency | null> {
     return this.prisma.currency.findUnique({
@@ -41,9 +94,22 @@ export class PaymentsRepository {
     });
   }
 
-  async getPaymentMethodByName(name: string): Promise<PaymentMethod | null> {
+  async getPaymentMethodByName(
+    name: string,
+  ): Promise<PaymentMethodWithProvider | null> {
     return this.prisma.paymentMethod.findUnique({
       where: { name },
+      include: { payment_provider: true },
+    });
+  }
+
+  /**
+   * Every payment method with its provider, oldest first
+   */
+  async getPaymentMethodsWithProvider(): Promise<PaymentMethodWithProvider[]> {
+    return this.prisma.paymentMethod.findMany({
+      include: { payment_provider: true },
+      orderBy: { id: 'asc' },
     });
   }
   async getPaymentMethodById(id: number): Promise<PaymentMethod | null> {
@@ -52,14 +118,18 @@ export class PaymentsRepository {
     });
   }
 
-  async getPaymentMethodWithProvider(id: number): Promise<(PaymentMethod & { payment_provider: PaymentProvider }) | null> {
+  async getPaymentMethodWithProvider(
+    id: number,
+  ): Promise<PaymentMethodWithProvider | null> {
     return this.prisma.paymentMethod.findUnique({
       where: { id },
       include: { payment_provider: true },
     });
   }
 
-  async getPaymentProviderByName(name: string): Promise<PaymentProvider | null> {
+  async getPaymentProviderByName(
+    name: string,
+  ): Promise<PaymentProvider | null> {
     return this.prisma.paymentProvider.findUnique({
       where: { name },
     });
@@ -79,6 +149,9 @@ export class PaymentsRepository {
     currency_id: number;
     payment_method_id: number;
     status?: PaymentStatus;
+    user_id?: number;
+    merchant_id?: number;
+    expires_at: Date;
   }): Promise<PaymentWithRelations> {
     this.logger.debug(`Creating payment with reference: ${data.reference_id}`);
     return this.prisma.payment.create({
@@ -86,51 +159,31 @@ export class PaymentsRepository {
         ...data,
         status: data.status || PaymentStatus.INITIATED,
       },
-      include: {
-        currency: {
-          select: {
-            name: true,
-            id: true,
-          }
-        },
-        payment_method: {
-          select: {
-            name: true,
-            payment_provider: {
-              select: {
-                name: true,
-              }
-            }
-          }
-        },
-
-      }
+      include: PAYMENT_RELATIONS,
     });
   }
 
-  async findByReference(reference_id: string): Promise<PaymentWithRelations | null> {
+  async findByReference(
+    reference_id: string,
+  ): Promise<PaymentWithRelations | null> {
     this.logger.debug(`Finding payment by reference: ${reference_id}`);
     return this.prisma.payment.findUnique({
       where: { reference_id },
-      include: {
-        currency: {
-          select: {
-            name: true,
-            id: true,
-          }
-        },
-        payment_method: {
-          select: {
-            name: true,
-            payment_provider: {
-              select: {
-                name: true,
-              }
-            }
-          }
-        },
+      include: PAYMENT_RELATIONS,
+    });
+  }
 
-      }
+  async findMany(
+    where: Prisma.PaymentWhereInput,
+    orderBy: Prisma.PaymentOrderByWithRelationInput[],
+    take: number,
+  ): Promise<PaymentWithRelations[]> {
+    this.logger.debug(`Listing up to ${take} payments`);
+    return this.prisma.payment.findMany({
+      where,
+      orderBy,
+      take,
+      include: PAYMENT_RELATIONS,
     });
   }
 
@@ -138,25 +191,7 @@ export class PaymentsRepository {
     this.logger.debug(`Finding payment by ID: ${id}`);
     return this.prisma.payment.findUnique({
       where: { id },
-      include: {
-        currency: {
-          select: {
-            name: true,
-            id: true,
-          }
-        },
-        payment_method: {
-          select: {
-            name: true,
-            payment_provider: {
-              select: {
-                name: true,
-              }
-            }
-          }
-        },
-
-      }
+      include: PAYMENT_RELATIONS,
     });
   }
 
@@ -176,28 +211,14 @@ export class PaymentsRepository {
           provider_transaction_id,
         }),
       },
-      include: {
-        currency: {
-          select: {
-            name: true,
-            id: true,
-          }
-        },
-        payment_method: {
-          select: {
-            name: true,
-            payment_provider: {
-              select: {
-                name: true,
-              }
-            }
-          }
-        },
-
-      }
+      include: PAYMENT_RELATIONS,
     });
   }
 
+  /**
+   * Update a payment. With `change`, a status change is recorded in its
+   * history in the same transaction.
+   */
   async updateByReference(
     reference_id: string,
     data: {
@@ -205,66 +226,293 @@ export class PaymentsRepository {
       provider_transaction_id?: string;
       provider_name?: string;
     },
+    change?: StatusChange,
   ): Promise<PaymentWithRelations> {
     this.logger.debug(`Updating payment by reference: ${reference_id}`);
+    if (change && data.status && data.status !== change.from_status) {
+      return this.prisma.$transaction((tx) =>
+        this.changeStatus(tx, { reference_id }, data, change),
+      );
+    }
     return this.prisma.payment.update({
       where: { reference_id },
       data,
-      include: {
-        currency: {
-          select: {
-            name: true,
-            id: true,
-          }
-        },
-        payment_method: {
-          select: {
-            name: true,
-            payment_provider: {
-              select: {
-                name: true,
-              }
-            }
-          }
-        },
+      include: PAYMENT_RELATIONS,
+    });
+  }
+
+  /**
+   * PENDING payments neither updated nor checked with the provider since
+   * `before`, least recently touched first
+   */
+  async findStalePending(before: Date, take: number): Promise<Payment[]> {
+    this.logger.debug(
+      `Finding up to ${take} payments pending since before ${before.toISOString()}`,
+    );
+    return this.prisma.payment.findMany({
+      where: {
+        status: PaymentStatus.PENDING,
+        updated_at: { lt: before },
+        OR: [
+          { status_checked_at: null },
+          { status_checked_at: { lt: before } },
+        ],
+      },
+      orderBy: [{ updated_at: 'asc' }, { id: 'asc' }],
+      take,
+    });
+  }
+
+  /**
+   * INITIATED or PENDING payments past their expiry and not attempted by
+   * the sweeper since `attemptedBefore`, oldest expiry first
+   */
+  async findExpired(
+    now: Date,
+    attemptedBefore: Date,
+    take: number,
+  ): Promise<Payment[]> {
+    this.logger.debug(
+      `Finding up to ${take} payments expired at ${now.toISOString()}`,
+    );
+    return this.prisma.payment.findMany({
+      where: {
+        status: { in: [PaymentStatus.INITIATED, PaymentStatus.PENDING] },
+        expires_at: { lte: now },
+        OR: [
+          { expiry_attempted_at: null },
+          { expiry_attempted_at: { lt: attemptedBefore } },
+        ],
+      },
+      orderBy: [{ expires_at: 'asc' }, { id: 'asc' }],
+      take,
+    });
+  }
+
+  async markStatusChecked(ids: number[], checkedAt: Date): Promise<number> {
+    const result = await this.prisma.payment.updateMany({
+      where: { id: { in: ids } },
+      data: { status_checked_at: checkedAt },
+    });
+    return result.count;
+  }
+
+  async markExpiryAttempted(ids: number[], attemptedAt: Date): Promise<number> {
+    const result = await this.prisma.payment.updateMany({
+      where: { id: { in: ids } },
+      data: { expiry_attempted_at: attemptedAt },
+    });
+    return result.count;
+  }
 
+  /**
+   * Status changes of a payment, oldest first
+   */
+  async findStatusTransitions(
+    payment_id: number,
+  ): Promise<PaymentStatusTransition[]> {
+    this.logger.debug(`Finding status history of payment ID: ${payment_id}`);
+    return this.prisma.paymentStatusTransition.findMany({
+      where: { payment_id },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  /**
+   * Reserve a refund of a payment. The payment row is locked while the
+   * refunds not failed are summed, so concurrent requests cannot refund
+   * more than the payment amount together. Without `amount`, the whole
+   * remainder is refunded.
+   */
+  async createRefund(
+    payment: { id: number; reference_id: string; amount: number },
+    data: {
+      reference_id: string;
+      amount?: number;
+      reason?: string;
+      requested_by_user_id: number;
+    },
+  ): Promise<Refund> {
+    this.logger.debug(
+      `Creating refund ${data.reference_id} for payment ID: ${payment.id}`,
+    );
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT 1 FROM "Payment" WHERE "id" = ${payment.id} FOR UPDATE`;
+      const reserved = await tx.refund.aggregate({
+        where: { payment_id: payment.id, status: { not: RefundStatus.FAILED } },
+        _sum: { amount: true },
+      });
+
+      const refundable = roundAmount(
+        payment.amount - (reserved._sum.amount ?? 0),
+      );
+      if (refundable <= 0) {
+        throw new BadRequestException(
+          `Payment ${payment.reference_id} is already fully refunded`,
+        );
+      }
+      const amount = data.amount ?? refundable;
+      if (amount > refundable) {
+        throw new BadRequestException(
+          `Refund amount exceeds the refundable amount of ${refundable}`,
+        );
       }
+
+      return tx.refund.create({
+        data: { ...data, amount, payment_id: payment.id },
+      });
     });
   }
 
-  async findWebhookEvent(payment_reference_id: string) {
-    this.logger.debug(`Finding webhook event by payment reference ID: ${payment_reference_id}`);
-    return this.prisma.webhookEvent.findUnique({
-      where: { payment_reference_id },
+  /**
+   * Record the provider's answer for a PENDING refund. A successful refund
+   * is added to the refunded amount of its payment in the same transaction.
+   * A refund completed concurrently is returned as it is, so it is never
+   * counted twice.
+   */
+  async completeRefund(
+    refund: Refund,
+    data: {
+      status: RefundStatus;
+      provider_refund_id?: string;
+      failure_reason?: string;
+    },
+  ): Promise<Refund> {
+    this.logger.debug(
+      `Completing refund ${refund.reference_id} with status ${data.status}`,
+    );
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.refund.updateMany({
+        where: { id: refund.id, status: RefundStatus.PENDING },
+        data,
+      });
+      const updated = await tx.refund.findUniqueOrThrow({
+        where: { id: refund.id },
+      });
+      if (count === 0) {
+        this.logger.warn(
+          `Refund ${refund.reference_id} already ${updated.status}, not completed again`,
+        );
+        return updated;
+      }
+      if (data.status === RefundStatus.SUCCESS) {
+        const payment = await tx.payment.update({
+          where: { id: refund.payment_id },
+          data: { refunded_amount: { increment: refund.amount } },
+          include: PAYMENT_RELATIONS,
+        });
+        await this.recordChange(
+          tx,
+          payment,
+          {
+            from_status: payment.status,
+            source: PaymentStatusSource.REFUND,
+            actor_user_id: refund.requested_by_user_id ?? undefined,
+            reason: `Refund ${refund.reference_id} of ${refund.amount} succeeded`,
+          },
+          PAYMENT_REFUND_EVENT_TYPES[paymentRefundState(payment)!],
+        );
+      }
+      return updated;
     });
   }
 
-  async createWebhookEvent(data: {
-    payment_reference_id: string;
-    status: PaymentStatus;
-    provider_transaction_id: string;
-    timestamp: Date;
-    is_processed: boolean;
-  }) {
+  /**
+   * PENDING refunds neither updated nor checked with the provider since
+   * `before`, least recently touched first
+   */
+  async findStalePendingRefunds(
+    before: Date,
+    take: number,
+  ): Promise<RefundWithPayment[]> {
     this.logger.debug(
-      `Creating webhook event with payment reference ID: ${data.payment_reference_id}`,
+      `Finding up to ${take} refunds pending since before ${before.toISOString()}`,
     );
-    return this.prisma.webhookEvent.create({
-      data: {
-        provider_transaction_id: data.provider_transaction_id,
-        timestamp: data.timestamp,
-        status: data.status,
-        payment_reference_id: data.payment_reference_id,
-        is_processed: data.is_processed,
+    return this.prisma.refund.findMany({
+      where: {
+        status: RefundStatus.PENDING,
+        updated_at: { lt: before },
+        OR: [
+          { status_checked_at: null },
+          { status_checked_at: { lt: before } },
+        ],
       },
+      include: {
+        payment: { include: { currency: { select: { name: true } } } },
+      },
+      orderBy: [{ updated_at: 'asc' }, { id: 'asc' }],
+      take,
+    });
+  }
+
+  async markRefundStatusChecked(
+    ids: number[],
+    checkedAt: Date,
+  ): Promise<number> {
+    const result = await this.prisma.refund.updateMany({
+      where: { id: { in: ids } },
+      data: { status_checked_at: checkedAt },
     });
+    return result.count;
+  }
+
+  /**
+   * Refunds of a payment, oldest first
+   */
+  async findRefunds(payment_id: number): Promise<Refund[]> {
+    this.logger.debug(`Finding refunds of payment ID: ${payment_id}`);
+    return this.prisma.refund.findMany({
+      where: { payment_id },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async createWebhookEvent(
+    data: Prisma.WebhookEventUncheckedCreateInput,
+  ): Promise<WebhookEvent> {
+    this.logger.debug(
+      `Recording ${data.provider} webhook delivery with outcome ${data.outcome}`,
+    );
+    return this.prisma.webhookEvent.create({ data });
   }
 
-  async markWebhookAsProcessed(payment_reference_id: string) {
-    this.logger.debug(`Marking webhook as processed: ${payment_reference_id}`);
+  async updateWebhookEvent(
+    id: number,
+    data: Prisma.WebhookEventUncheckedUpdateInput,
+  ): Promise<WebhookEvent> {
+    this.logger.debug(`Updating webhook delivery ${id}`);
     return this.prisma.webhookEvent.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * The delivery of `provider` that applied the event identified by `dedup_key`
+   */
+  async findProcessedWebhookEvent(
+    provider: string,
+    dedup_key: string,
+  ): Promise<WebhookEvent | null> {
+    this.logger.debug(
+      `Finding processed ${provider} webhook event ${dedup_key}`,
+    );
+    return this.prisma.webhookEvent.findUnique({
+      where: { provider_dedup_key: { provider, dedup_key } },
+    });
+  }
+
+  async findWebhookEventsByPaymentReference(
+    payment_reference_id: string,
+    take: number,
+  ): Promise<WebhookEvent[]> {
+    this.logger.debug(
+      `Finding webhook deliveries for payment reference: ${payment_reference_id}`,
+    );
+    return this.prisma.webhookEvent.findMany({
       where: { payment_reference_id },
-      data: { is_processed: true },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      take,
     });
   }
 
@@ -274,62 +522,122 @@ export class PaymentsRepository {
     return this.prisma.$transaction(callback);
   }
 
+  /**
+   * Apply a webhook delivery: claims its dedup key, updates the payment and
+   * records the status change in one transaction. Fails with P2002 when
+   * another delivery of the same event was applied first.
+   */
   async processWebhookTransaction(
     paymentId: number,
+    webhookEventId: number,
     webhookData: {
-      payment_reference_id: string;
       status: PaymentStatus;
       provider_transaction_id: string;
-      timestamp: Date;
+      dedup_key: string;
     },
+    change: StatusChange,
   ): Promise<PaymentWithRelations> {
     this.logger.debug(
-      `Processing webhook transaction for payment ID: ${paymentId}`,
+      `Processing webhook delivery ${webhookEventId} for payment ID: ${paymentId}`,
     );
     return this.prisma.$transaction(async (tx) => {
-      await tx.webhookEvent.upsert({
-        where: {
-          payment_reference_id: webhookData.payment_reference_id,
-        },
-        create: {
-          status: webhookData.status,
-          provider_transaction_id: webhookData.provider_transaction_id,
-          timestamp: webhookData.timestamp,
-          is_processed: true,
-          payment_reference_id: webhookData.payment_reference_id,
-        },
-        update: {
-          is_processed: true,
-          status: webhookData.status,
+      await tx.webhookEvent.update({
+        where: { id: webhookEventId },
+        data: {
+          outcome: WebhookOutcome.PROCESSED,
+          dedup_key: webhookData.dedup_key,
         },
       });
 
-      return tx.payment.update({
-        where: { id: paymentId },
-        data: {
+      return this.changeStatus(
+        tx,
+        { id: paymentId },
+        {
           status: webhookData.status,
           provider_transaction_id: webhookData.provider_transaction_id,
         },
-        include: {
-          currency: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          payment_method: {
-            select: {
-              name: true,
-              payment_provider: {
-                select: {
-                  name: true,
-                },
-              },
-            },
-          },
-        },
-      });
+        change,
+      );
+    });
+  }
+
+  /**
+   * Compare-and-set on the status the change was decided from, so
+   * concurrent updates cannot both apply or record a wrong `from_status`.
+   * The change is recorded in the history and queued for the merchant's
+   * webhook endpoints in the same transaction.
+   */
+  private async changeStatus(
+    tx: Prisma.TransactionClient,
+    where: { id: number } | { reference_id: string },
+    data: Prisma.PaymentUpdateManyMutationInput,
+    change: StatusChange,
+  ): Promise<PaymentWithRelations> {
+    const { count } = await tx.payment.updateMany({
+      where: { ...where, status: change.from_status },
+      data,
+    });
+    if (count === 0) {
+      throw new ConflictException(
+        `Payment status changed from ${change.from_status} concurrently, retry`,
+      );
+    }
+
+    const payment = await tx.payment.findUniqueOrThrow({
+      where,
+      include: PAYMENT_RELATIONS,
+    });
+    await this.recordChange(tx, payment, change);
+    return payment;
+  }
+
+  /**
+   * History entry and merchant event of a change of `payment`, in the
+   * transaction of the change. `event_type` names the event of changes
+   * that keep the status.
+   */
+  private async recordChange(
+    tx: Prisma.TransactionClient,
+    payment: PaymentWithRelations,
+    change: StatusChange,
+    event_type?: string,
+  ): Promise<void> {
+    await tx.paymentStatusTransition.create({
+      data: {
+        payment_id: payment.id,
+        from_status: change.from_status,
+        to_status: payment.status,
+        source: change.source,
+        actor_user_id: change.actor_user_id,
+        reason: change.reason,
+      },
     });
+    await this.merchantWebhooksRepository.enqueuePaymentEvent(
+      tx,
+      payment,
+      change.from_status,
+      event_type,
+    );
   }
 }
 
+/**
+ * REFUNDED once successful refunds add up to the payment amount,
+ * PARTIALLY_REFUNDED before that; null for payments without refunds.
+ */
+export function paymentRefundState(
+  payment: Pick<Payment, 'amount' | 'refunded_amount'>,
+): PaymentRefundState | null {
+  if (payment.refunded_amount <= 0) {
+    return null;
+  }
+  return Math.round(payment.refunded_amount * 100) >=
+    Math.round(payment.amount * 100)
+    ? 'REFUNDED'
+    : 'PARTIALLY_REFUNDED';
+}
+
+// Amounts are stored as floats; compare them to the cent
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
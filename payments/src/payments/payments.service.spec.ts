@@ -1,13 +1,29 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  GatewayTimeoutException,
+  NotFoundException,
+} from '@nestjs/common';
 import { PaymentsService } from './payments.service';
 import { PaymentsRepository } from './payments.repository';
 import { MtnProvider } from './providers/mtn.provider';
+import { AirtelProvider } from './providers/airtel.provider';
+import { ProviderRoutingService } from '../provider-routing/provider-routing.service';
+import { ProviderResilienceService } from '../provider-resilience/provider-resilience.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentStatusDto } from './dto/update-payment-status.dto';
 import { WebhookDto } from './dto/webhook.dto';
-import { PaymentStatus } from '@prisma/client';
+import {
+  Payment,
+  PaymentStatus,
+  PaymentStatusSource,
+  Prisma,
+  RefundStatus,
+  WebhookOutcome,
+} from '@prisma/client';
 import { UtilsService } from '../common/utils.service';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
 
 describe('PaymentsService', () => {
   let service: PaymentsService;
@@ -23,11 +39,53 @@ describe('PaymentsService', () => {
     payment_method: 'MOBILE_MONEY',
     currency: 'UGX',
     provider_transaction_id: null,
-    provider_name: 'MTN_UGANDA',
+    provider_name: 'MTN',
+    user_id: 7,
+    merchant_id: null,
+    expires_at: new Date(Date.now() + 15 * 60 * 1000),
+    refunded_amount: 0,
     created_at: new Date(),
     updated_at: new Date(),
   };
 
+  const customer: AuthenticatedUser = {
+    user_id: 7,
+    phone_number: '+256700000000',
+    roles: ['customer'],
+    permissions: ['payments:create', 'payments:read'],
+  };
+
+  const otherCustomer: AuthenticatedUser = {
+    ...customer,
+    user_id: 8,
+    phone_number: '+256700000001',
+  };
+
+  const merchant: AuthenticatedUser = {
+    user_id: 9,
+    phone_number: '+256700000002',
+    roles: ['merchant'],
+    permissions: ['payments:create', 'payments:read'],
+  };
+
+  const support: AuthenticatedUser = {
+    user_id: 10,
+    phone_number: '+256700000003',
+    roles: ['support'],
+    permissions: ['payments:read', 'payments:read_all', 'users:unlock'],
+  };
+
+  const operator: AuthenticatedUser = {
+    user_id: 1,
+    phone_number: '+256700000004',
+    roles: ['admin'],
+    permissions: [
+      'payments:read',
+      'payments:read_all',
+      'payments:update_status',
+    ],
+  };
+
   const mockPaymentWithRelations = {
     ...mockPayment,
     currency: {
@@ -42,24 +100,76 @@ describe('PaymentsService', () => {
     },
   };
 
+  // Payment row as read by the background jobs
+  const pendingPayment: Payment = {
+    id: mockPayment.id,
+    reference_id: mockPayment.reference_id,
+    customer_phone: mockPayment.customer_phone,
+    customer_email: mockPayment.customer_email,
+    amount: mockPayment.amount,
+    status: PaymentStatus.PENDING,
+    payment_method_id: 1,
+    currency_id: 1,
+    provider_transaction_id: 'MTN-SUCCESS-1',
+    provider_name: 'MTN',
+    user_id: mockPayment.user_id,
+    merchant_id: null,
+    paymentProviderId: null,
+    status_checked_at: null,
+    expires_at: mockPayment.expires_at,
+    expiry_attempted_at: null,
+    refunded_amount: 0,
+    created_at: mockPayment.created_at,
+    updated_at: mockPayment.updated_at,
+  };
+
   const mockRepository = {
     create: jest.fn(),
     findByReference: jest.fn(),
     findById: jest.fn(),
+    findMany: jest.fn<
+      Promise<unknown[]>,
+      [
+        Prisma.PaymentWhereInput,
+        Prisma.PaymentOrderByWithRelationInput[],
+        number,
+      ]
+    >(),
     updateStatus: jest.fn(),
     updateByReference: jest.fn(),
-    findWebhookEvent: jest.fn(),
-    createWebhookEvent: jest.fn(),
-    markWebhookAsProcessed: jest.fn(),
+    findProcessedWebhookEvent: jest.fn(),
+    updateWebhookEvent: jest.fn(),
     processWebhookTransaction: jest.fn(),
+    findStatusTransitions: jest.fn(),
     getCurrencyByName: jest.fn(),
     getPaymentMethodByName: jest.fn(),
+    getPaymentMethodsWithProvider: jest.fn(),
+    createRefund: jest.fn(),
+    completeRefund: jest.fn(),
+    findRefunds: jest.fn(),
   };
 
   const mockMtnProvider = {
     getProviderName: jest.fn().mockReturnValue('MTN'),
+    newTransactionId: jest.fn(),
+    initiatePayment: jest.fn(),
+    checkPaymentStatus: jest.fn(),
+    cancelPayment: jest.fn(),
+    refund: jest.fn(),
+  };
+
+  const mockAirtelProvider = {
+    getProviderName: jest.fn().mockReturnValue('AIRTEL'),
     initiatePayment: jest.fn(),
     checkPaymentStatus: jest.fn(),
+    refund: jest.fn(),
+    checkRefundStatus: jest.fn(),
+    toWebhook: jest.fn(),
+  };
+
+  // Providers are called unguarded
+  const mockProviderResilience = {
+    wrap: (provider: unknown) => provider,
   };
 
   const mockUtilsService = {
@@ -71,6 +181,7 @@ describe('PaymentsService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PaymentsService,
+        ProviderRoutingService,
         {
           provide: PaymentsRepository,
           useValue: mockRepository,
@@ -79,10 +190,18 @@ describe('PaymentsService', () => {
           provide: MtnProvider,
           useValue: mockMtnProvider,
         },
+        {
+          provide: AirtelProvider,
+          useValue: mockAirtelProvider,
+        },
         {
           provide: UtilsService,
           useValue: mockUtilsService,
         },
+        {
+          provide: ProviderResilienceService,
+          useValue: mockProviderResilience,
+        },
       ],
     }).compile();
 
@@ -99,7 +218,7 @@ describe('PaymentsService', () => {
       amount: 1000.0,
       currency: 'USD',
       payment_method: 'MOBILE_MONEY',
-      customer_phone: '+256700000000',
+      customer_phone: '+256772123456',
       customer_email: 'test@example.com',
     };
 
@@ -108,6 +227,7 @@ describe('PaymentsService', () => {
       const paymentMethod = {
         id: 1,
         name: 'MOBILE_MONEY',
+        expiry_minutes: 15,
         payment_provider: { name: 'MTN' },
       };
 
@@ -127,7 +247,8 @@ describe('PaymentsService', () => {
         provider_name: 'MTN',
       });
 
-      const result = await service.createPayment(createDto);
+      const before = Date.now();
+      const result = await service.createPayment(createDto, customer);
 
       expect(result).toHaveProperty('reference_id');
       expect(mockRepository.getCurrencyByName).toHaveBeenCalledWith(
@@ -144,17 +265,175 @@ describe('PaymentsService', () => {
           currency_id: currency.id,
           payment_method_id: paymentMethod.id,
           status: PaymentStatus.INITIATED,
+          user_id: customer.user_id,
+          merchant_id: undefined,
+        }),
+      );
+      const [[created]] = mockRepository.create.mock.calls as [
+        [{ expires_at: Date }],
+      ];
+      expect(created.expires_at.getTime()).toBeGreaterThanOrEqual(
+        before + 15 * 60 * 1000,
+      );
+      expect(mockRepository.updateByReference).toHaveBeenCalledWith(
+        mockPaymentWithRelations.reference_id,
+        {
+          status: PaymentStatus.PENDING,
+          provider_transaction_id: 'TXN123',
+          provider_name: 'MTN',
+        },
+        {
+          from_status: PaymentStatus.INITIATED,
+          source: PaymentStatusSource.PROVIDER_INITIATION,
+          actor_user_id: customer.user_id,
+          reason: 'Initiated with MTN',
+        },
+      );
+    });
+
+    it('should record the merchant when a merchant creates the payment', async () => {
+      mockRepository.getCurrencyByName.mockResolvedValue({
+        id: 1,
+        name: 'USD',
+      });
+      mockRepository.getPaymentMethodByName.mockResolvedValue({
+        id: 1,
+        name: 'MOBILE_MONEY',
+        expiry_minutes: 15,
+        payment_provider: { name: 'MTN' },
+      });
+      mockRepository.create.mockResolvedValue(mockPaymentWithRelations);
+      mockMtnProvider.initiatePayment.mockResolvedValue({
+        success: true,
+        provider_transaction_id: 'TXN123',
+        status: PaymentStatus.PENDING,
+        message: 'Payment initiated',
+      });
+      mockRepository.updateByReference.mockResolvedValue(
+        mockPaymentWithRelations,
+      );
+
+      await service.createPayment(createDto, merchant);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: merchant.user_id,
+          merchant_id: merchant.user_id,
         }),
       );
     });
 
+    it('should report the stored payment before calling the provider', async () => {
+      mockRepository.getCurrencyByName.mockResolvedValue({
+        id: 1,
+        name: 'USD',
+      });
+      mockRepository.getPaymentMethodByName.mockResolvedValue({
+        id: 1,
+        name: 'MOBILE_MONEY',
+        expiry_minutes: 15,
+        payment_provider: { name: 'MTN' },
+      });
+      mockRepository.create.mockResolvedValue(mockPaymentWithRelations);
+      mockMtnProvider.initiatePayment.mockRejectedValue(
+        new Error('MTN did not answer'),
+      );
+      const onCreated = jest.fn().mockResolvedValue(undefined);
+
+      await expect(
+        service.createPayment(createDto, customer, onCreated),
+      ).rejects.toThrow('MTN did not answer');
+      expect(onCreated).toHaveBeenCalledWith(mockPaymentWithRelations);
+    });
+
+    describe('with a transaction ID chosen before the call', () => {
+      beforeEach(() => {
+        mockRepository.getCurrencyByName.mockResolvedValue({
+          id: 1,
+          name: 'USD',
+        });
+        mockRepository.getPaymentMethodByName.mockResolvedValue({
+          id: 1,
+          name: 'MOBILE_MONEY',
+          expiry_minutes: 15,
+          payment_provider: { name: 'MTN' },
+        });
+        mockRepository.create.mockResolvedValue(mockPaymentWithRelations);
+        mockRepository.updateByReference.mockResolvedValue(
+          mockPaymentWithRelations,
+        );
+        mockMtnProvider.newTransactionId.mockReturnValueOnce('MOMO-REF-1');
+      });
+
+      it('should store it with the provider before calling the provider', async () => {
+        mockMtnProvider.initiatePayment.mockResolvedValue({
+          success: true,
+          provider_transaction_id: 'MOMO-REF-1',
+          status: PaymentStatus.PENDING,
+        });
+
+        await service.createPayment(createDto, customer);
+
+        expect(mockRepository.updateByReference).toHaveBeenNthCalledWith(
+          1,
+          mockPaymentWithRelations.reference_id,
+          { provider_transaction_id: 'MOMO-REF-1', provider_name: 'MTN' },
+        );
+        expect(mockMtnProvider.initiatePayment).toHaveBeenCalledWith(
+          expect.objectContaining({ provider_transaction_id: 'MOMO-REF-1' }),
+        );
+        expect(
+          mockRepository.updateByReference.mock.invocationCallOrder[0],
+        ).toBeLessThan(
+          mockMtnProvider.initiatePayment.mock.invocationCallOrder[0],
+        );
+      });
+
+      it('should leave the payment PENDING when the provider does not answer', async () => {
+        mockMtnProvider.initiatePayment.mockRejectedValue(
+          new GatewayTimeoutException('MTN did not answer within 45000 ms'),
+        );
+
+        await service.createPayment(createDto, customer);
+
+        expect(mockRepository.updateByReference).toHaveBeenLastCalledWith(
+          mockPaymentWithRelations.reference_id,
+          {
+            status: PaymentStatus.PENDING,
+            provider_transaction_id: 'MOMO-REF-1',
+            provider_name: 'MTN',
+          },
+          {
+            from_status: PaymentStatus.INITIATED,
+            source: PaymentStatusSource.PROVIDER_INITIATION,
+            actor_user_id: customer.user_id,
+            reason:
+              'Initiated with MTN, outcome unknown: MTN did not answer within 45000 ms',
+          },
+        );
+      });
+
+      it('should throw when the provider certainly did not get the payment', async () => {
+        mockMtnProvider.initiatePayment.mockRejectedValue(
+          Object.assign(new Error('connect ECONNREFUSED'), {
+            code: 'ECONNREFUSED',
+          }),
+        );
+
+        await expect(
+          service.createPayment(createDto, customer),
+        ).rejects.toThrow('connect ECONNREFUSED');
+        expect(mockRepository.updateByReference).toHaveBeenCalledTimes(1);
+      });
+    });
+
     it('should throw NotFoundException when currency not found', async () => {
       mockRepository.getCurrencyByName.mockResolvedValue(null);
 
-      await expect(service.createPayment(createDto)).rejects.toThrow(
+      await expect(service.createPayment(createDto, customer)).rejects.toThrow(
         NotFoundException,
       );
-      await expect(service.createPayment(createDto)).rejects.toThrow(
+      await expect(service.createPayment(createDto, customer)).rejects.toThrow(
         `Currency ${createDto.currency} not found`,
       );
       expect(mockRepository.getCurrencyByName).toHaveBeenCalledWith(
@@ -169,10 +448,10 @@ describe('PaymentsService', () => {
       mockRepository.getCurrencyByName.mockResolvedValue(currency);
       mockRepository.getPaymentMethodByName.mockResolvedValue(null);
 
-      await expect(service.createPayment(createDto)).rejects.toThrow(
+      await expect(service.createPayment(createDto, customer)).rejects.toThrow(
         NotFoundException,
       );
-      await expect(service.createPayment(createDto)).rejects.toThrow(
+      await expect(service.createPayment(createDto, customer)).rejects.toThrow(
         `Payment method ${createDto.payment_method} not found`,
       );
       expect(mockRepository.getCurrencyByName).toHaveBeenCalledWith(
@@ -193,6 +472,7 @@ describe('PaymentsService', () => {
       const paymentMethod = {
         id: 1,
         name: 'MOBILE_MONEY',
+        expiry_minutes: 15,
         payment_provider: { name: 'MTN' },
       };
 
@@ -215,10 +495,95 @@ describe('PaymentsService', () => {
         provider_name: 'MTN',
       });
 
-      await service.createPayment(createDtoUGX);
+      await service.createPayment(createDtoUGX, customer);
 
       expect(mockRepository.getCurrencyByName).toHaveBeenCalledWith('UGX');
     });
+
+    describe('provider routing', () => {
+      const methods = [
+        {
+          id: 1,
+          name: 'MOBILE_MONEY',
+          expiry_minutes: 15,
+          payment_provider: { name: 'MTN_UGANDA' },
+        },
+        {
+          id: 2,
+          name: 'AIRTEL_MONEY',
+          expiry_minutes: 15,
+          payment_provider: { name: 'AIRTEL_UGANDA' },
+        },
+      ];
+
+      beforeEach(() => {
+        mockRepository.getCurrencyByName.mockResolvedValue({
+          id: 2,
+          name: 'UGX',
+        });
+        mockRepository.getPaymentMethodsWithProvider.mockResolvedValue(methods);
+        mockRepository.create.mockResolvedValue(mockPaymentWithRelations);
+        mockAirtelProvider.initiatePayment.mockResolvedValue({
+          success: true,
+          provider_transaction_id: mockPayment.reference_id,
+          status: PaymentStatus.PENDING,
+        });
+        mockRepository.updateByReference.mockResolvedValue(
+          mockPaymentWithRelations,
+        );
+      });
+
+      it('should pick the payment method of the network of the phone', async () => {
+        await service.createPayment(
+          { amount: 5000, currency: 'UGX', customer_phone: '0752 123 456' },
+          customer,
+        );
+
+        expect(mockRepository.getPaymentMethodByName).not.toHaveBeenCalled();
+        expect(mockRepository.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            customer_phone: '+256752123456',
+            payment_method_id: 2,
+          }),
+        );
+      });
+
+      it('should reject a payment method of another network', async () => {
+        mockRepository.getPaymentMethodByName.mockResolvedValue(methods[0]);
+
+        await expect(
+          service.createPayment(
+            {
+              amount: 5000,
+              currency: 'UGX',
+              payment_method: 'MOBILE_MONEY',
+              customer_phone: '+256752123456',
+            },
+            customer,
+          ),
+        ).rejects.toThrow(BadRequestException);
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('should require a payment method for numbers outside the known ranges', async () => {
+        await expect(
+          service.createPayment(
+            { amount: 5000, currency: 'UGX', customer_phone: '+256392123456' },
+            customer,
+          ),
+        ).rejects.toThrow('payment_method is required');
+      });
+
+      it('should reject phone numbers that cannot be read', async () => {
+        await expect(
+          service.createPayment(
+            { ...createDto, customer_phone: '+2567721234' },
+            customer,
+          ),
+        ).rejects.toThrow(BadRequestException);
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('getPaymentByReference', () => {
@@ -227,6 +592,7 @@ describe('PaymentsService', () => {
 
       const result = await service.getPaymentByReference(
         mockPayment.reference_id,
+        customer,
       );
 
       expect(result).toEqual(mockPayment);
@@ -239,8 +605,264 @@ describe('PaymentsService', () => {
       mockRepository.findByReference.mockResolvedValue(null);
 
       await expect(
-        service.getPaymentByReference('INVALID-REF'),
+        service.getPaymentByReference('INVALID-REF', customer),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException for a payment of another user', async () => {
+      mockRepository.findByReference.mockResolvedValue(mockPayment);
+
+      await expect(
+        service.getPaymentByReference(mockPayment.reference_id, otherCustomer),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should return the payment to the merchant it belongs to', async () => {
+      const merchantPayment = {
+        ...mockPayment,
+        user_id: merchant.user_id,
+        merchant_id: merchant.user_id,
+      };
+      mockRepository.findByReference.mockResolvedValue(merchantPayment);
+
+      await expect(
+        service.getPaymentByReference(mockPayment.reference_id, merchant),
+      ).resolves.toEqual(merchantPayment);
+    });
+
+    it('should return any payment to callers with payments:read_all', async () => {
+      mockRepository.findByReference.mockResolvedValue(mockPayment);
+
+      await expect(
+        service.getPaymentByReference(mockPayment.reference_id, support),
+      ).resolves.toEqual(mockPayment);
+    });
+
+    it('should hide payments without an owner from regular users', async () => {
+      mockRepository.findByReference.mockResolvedValue({
+        ...mockPayment,
+        user_id: null,
+      });
+
+      await expect(
+        service.getPaymentByReference(mockPayment.reference_id, customer),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getPaymentHistory', () => {
+    const transitions = [
+      {
+        id: 1,
+        payment_id: mockPayment.id,
+        from_status: PaymentStatus.INITIATED,
+        to_status: PaymentStatus.PENDING,
+        source: PaymentStatusSource.PROVIDER_INITIATION,
+        actor_user_id: customer.user_id,
+        reason: 'Initiated with MTN',
+        created_at: new Date(),
+      },
+    ];
+
+    it('should return the status changes of an owned payment', async () => {
+      mockRepository.findByReference.mockResolvedValue(
+        mockPaymentWithRelations,
+      );
+      mockRepository.findStatusTransitions.mockResolvedValue(transitions);
+
+      const result = await service.getPaymentHistory(
+        mockPayment.reference_id,
+        customer,
+      );
+
+      expect(result).toEqual(transitions);
+      expect(mockRepository.findStatusTransitions).toHaveBeenCalledWith(
+        mockPayment.id,
+      );
+    });
+
+    it('should hide the history of payments of other users', async () => {
+      mockRepository.findByReference.mockResolvedValue(
+        mockPaymentWithRelations,
+      );
+
+      await expect(
+        service.getPaymentHistory(mockPayment.reference_id, otherCustomer),
       ).rejects.toThrow(NotFoundException);
+      expect(mockRepository.findStatusTransitions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listPayments', () => {
+    const paymentAt = (id: number, created_at: string, amount = 1000) => ({
+      ...mockPaymentWithRelations,
+      id,
+      amount,
+      created_at: new Date(created_at),
+    });
+    const conditionsOfCall = (call: number) =>
+      mockRepository.findMany.mock.calls[call][0]
+        .AND as Prisma.PaymentWhereInput[];
+
+    it("should list the caller's payments newest first by default", async () => {
+      mockRepository.findMany.mockResolvedValue([]);
+
+      const result = await service.listPayments({}, customer);
+
+      expect(result).toEqual({ data: [], has_more: false, next_cursor: null });
+      expect(mockRepository.findMany).toHaveBeenCalledWith(
+        {
+          AND: [
+            {
+              OR: [
+                { user_id: customer.user_id },
+                { merchant_id: customer.user_id },
+              ],
+            },
+            expect.objectContaining({ status: undefined }),
+          ],
+        },
+        [{ created_at: 'desc' }, { id: 'desc' }],
+        21,
+      );
+    });
+
+    it('should not restrict callers with payments:read_all', async () => {
+      mockRepository.findMany.mockResolvedValue([]);
+
+      await service.listPayments({}, support);
+
+      expect(conditionsOfCall(0)[0]).toEqual({});
+    });
+
+    it('should apply the filters', async () => {
+      mockRepository.findMany.mockResolvedValue([]);
+
+      await service.listPayments(
+        {
+          status: PaymentStatus.SUCCESS,
+          currency: 'UGX',
+          payment_method: 'MOBILE_MONEY',
+          provider: 'MTN',
+          customer_phone: '+256700000000',
+          min_amount: 500,
+          max_amount: 5000,
+          created_from: '2026-10-01T00:00:00.000Z',
+          created_to: '2026-10-31T00:00:00.000Z',
+        },
+        customer,
+      );
+
+      expect(conditionsOfCall(0)[1]).toEqual({
+        status: PaymentStatus.SUCCESS,
+        currency: { name: 'UGX' },
+        payment_method: { name: 'MOBILE_MONEY' },
+        provider_name: 'MTN',
+        customer_phone: '+256700000000',
+        amount: { gte: 500, lte: 5000 },
+        created_at: {
+          gte: new Date('2026-10-01T00:00:00.000Z'),
+          lte: new Date('2026-10-31T00:00:00.000Z'),
+        },
+      });
+    });
+
+    it('should return a cursor that continues after the last payment', async () => {
+      mockRepository.findMany.mockResolvedValueOnce([
+        paymentAt(3, '2026-10-18T12:00:00.000Z'),
+        paymentAt(2, '2026-10-18T11:00:00.000Z'),
+        paymentAt(1, '2026-10-18T10:00:00.000Z'),
+      ]);
+
+      const first = await service.listPayments({ limit: 2 }, customer);
+
+      expect(first.data.map((payment) => payment.id)).toEqual([3, 2]);
+      expect(first.has_more).toBe(true);
+      expect(first.next_cursor).toEqual(expect.any(String));
+
+      mockRepository.findMany.mockResolvedValueOnce([
+        paymentAt(1, '2026-10-18T10:00:00.000Z'),
+      ]);
+
+      const second = await service.listPayments(
+        { limit: 2, cursor: first.next_cursor! },
+        customer,
+      );
+
+      expect(second).toMatchObject({ has_more: false, next_cursor: null });
+      expect(conditionsOfCall(1)[2]).toEqual({
+        OR: [
+          { created_at: { lt: new Date('2026-10-18T11:00:00.000Z') } },
+          { created_at: new Date('2026-10-18T11:00:00.000Z'), id: { lt: 2 } },
+        ],
+      });
+    });
+
+    it('should page ascending by amount', async () => {
+      mockRepository.findMany.mockResolvedValueOnce([
+        paymentAt(5, '2026-10-18T10:00:00.000Z', 500),
+        paymentAt(4, '2026-10-18T10:00:00.000Z', 700),
+      ]);
+
+      const first = await service.listPayments(
+        { sort_by: 'amount', sort_order: 'asc', limit: 1 },
+        customer,
+      );
+      mockRepository.findMany.mockResolvedValueOnce([]);
+      await service.listPayments(
+        {
+          sort_by: 'amount',
+          sort_order: 'asc',
+          limit: 1,
+          cursor: first.next_cursor!,
+        },
+        customer,
+      );
+
+      expect(mockRepository.findMany.mock.calls[1][1]).toEqual([
+        { amount: 'asc' },
+        { id: 'asc' },
+      ]);
+      expect(conditionsOfCall(1)[2]).toEqual({
+        OR: [{ amount: { gt: 500 } }, { amount: 500, id: { gt: 5 } }],
+      });
+    });
+
+    it('should reject a cursor issued for another sort order', async () => {
+      mockRepository.findMany.mockResolvedValueOnce([
+        paymentAt(2, '2026-10-18T11:00:00.000Z'),
+        paymentAt(1, '2026-10-18T10:00:00.000Z'),
+      ]);
+      const first = await service.listPayments({ limit: 1 }, customer);
+
+      await expect(
+        service.listPayments(
+          { sort_order: 'asc', cursor: first.next_cursor! },
+          customer,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(
+        service.listPayments({ cursor: 'not-a-cursor' }, customer),
+      ).rejects.toThrow('Invalid cursor');
+      await expect(
+        service.listPayments(
+          {
+            cursor: Buffer.from(
+              JSON.stringify({
+                sort_by: 'id',
+                sort_order: 'desc',
+                value: 1,
+                id: 1,
+              }),
+            ).toString('base64url'),
+          },
+          customer,
+        ),
+      ).rejects.toThrow('Invalid cursor');
+      expect(mockRepository.findMany).not.toHaveBeenCalled();
     });
   });
 
@@ -256,7 +878,10 @@ describe('PaymentsService', () => {
       mockRepository.findByReference.mockResolvedValue(mockPayment);
       mockRepository.updateByReference.mockResolvedValue(updatedPayment);
 
-      const result = await service.updatePaymentStatus(updateDto);
+      const result = await service.updatePaymentStatus(
+        { ...updateDto, reason: 'Confirmed with MTN support' },
+        operator,
+      );
 
       expect(result.status).toBe(PaymentStatus.PENDING);
       expect(mockRepository.updateByReference).toHaveBeenCalledWith(
@@ -265,6 +890,12 @@ describe('PaymentsService', () => {
           status: updateDto.status,
           provider_transaction_id: updateDto.provider_transaction_id,
         },
+        {
+          from_status: PaymentStatus.INITIATED,
+          source: PaymentStatusSource.MANUAL_CALLBACK,
+          actor_user_id: operator.user_id,
+          reason: 'Confirmed with MTN support',
+        },
       );
     });
 
@@ -283,7 +914,7 @@ describe('PaymentsService', () => {
       mockRepository.findByReference.mockResolvedValue(pendingPayment);
       mockRepository.updateByReference.mockResolvedValue(updatedPayment);
 
-      const result = await service.updatePaymentStatus(updateDto);
+      const result = await service.updatePaymentStatus(updateDto, operator);
 
       expect(result.status).toBe(PaymentStatus.SUCCESS);
       expect(mockRepository.updateByReference).toHaveBeenCalledWith(
@@ -292,6 +923,7 @@ describe('PaymentsService', () => {
           status: PaymentStatus.SUCCESS,
           provider_transaction_id: 'TXN123',
         },
+        expect.objectContaining({ from_status: PaymentStatus.PENDING }),
       );
     });
 
@@ -310,7 +942,7 @@ describe('PaymentsService', () => {
       mockRepository.findByReference.mockResolvedValue(pendingPayment);
       mockRepository.updateByReference.mockResolvedValue(updatedPayment);
 
-      const result = await service.updatePaymentStatus(updateDto);
+      const result = await service.updatePaymentStatus(updateDto, operator);
 
       expect(result.status).toBe(PaymentStatus.FAILED);
       expect(mockRepository.updateByReference).toHaveBeenCalledWith(
@@ -319,6 +951,7 @@ describe('PaymentsService', () => {
           status: PaymentStatus.FAILED,
           provider_transaction_id: 'TXN123',
         },
+        expect.objectContaining({ from_status: PaymentStatus.PENDING }),
       );
     });
 
@@ -330,9 +963,9 @@ describe('PaymentsService', () => {
         status: PaymentStatus.PENDING,
       };
 
-      await expect(service.updatePaymentStatus(updateDto)).rejects.toThrow(
-        NotFoundException,
-      );
+      await expect(
+        service.updatePaymentStatus(updateDto, operator),
+      ).rejects.toThrow(NotFoundException);
     });
 
     it('should throw BadRequestException for invalid state transition from INITIATED to SUCCESS', async () => {
@@ -343,12 +976,12 @@ describe('PaymentsService', () => {
 
       mockRepository.findByReference.mockResolvedValue(mockPayment);
 
-      await expect(service.updatePaymentStatus(updateDto)).rejects.toThrow(
-        BadRequestException,
-      );
-      await expect(service.updatePaymentStatus(updateDto)).rejects.toThrow(
-        'Invalid state transition',
-      );
+      await expect(
+        service.updatePaymentStatus(updateDto, operator),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.updatePaymentStatus(updateDto, operator),
+      ).rejects.toThrow('Invalid state transition');
     });
 
     it('should throw BadRequestException for invalid state transition from SUCCESS to PENDING', async () => {
@@ -360,9 +993,9 @@ describe('PaymentsService', () => {
 
       mockRepository.findByReference.mockResolvedValue(successPayment);
 
-      await expect(service.updatePaymentStatus(updateDto)).rejects.toThrow(
-        BadRequestException,
-      );
+      await expect(
+        service.updatePaymentStatus(updateDto, operator),
+      ).rejects.toThrow(BadRequestException);
     });
 
     it('should throw BadRequestException for invalid state transition from FAILED to SUCCESS', async () => {
@@ -374,9 +1007,524 @@ describe('PaymentsService', () => {
 
       mockRepository.findByReference.mockResolvedValue(failedPayment);
 
-      await expect(service.updatePaymentStatus(updateDto)).rejects.toThrow(
-        BadRequestException,
+      await expect(
+        service.updatePaymentStatus(updateDto, operator),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException for invalid state transition from EXPIRED to SUCCESS', async () => {
+      const expiredPayment = { ...mockPayment, status: PaymentStatus.EXPIRED };
+      const updateDto: UpdatePaymentStatusDto = {
+        payment_reference_id: mockPayment.reference_id,
+        status: PaymentStatus.SUCCESS,
+      };
+
+      mockRepository.findByReference.mockResolvedValue(expiredPayment);
+
+      await expect(
+        service.updatePaymentStatus(updateDto, operator),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('reconcilePayment', () => {
+    it('should apply the status reported by the provider', async () => {
+      mockMtnProvider.checkPaymentStatus.mockResolvedValue({
+        status: PaymentStatus.SUCCESS,
+        provider_transaction_id: 'MTN-SUCCESS-1',
+        message: 'Payment completed successfully',
+      });
+
+      await expect(service.reconcilePayment(pendingPayment)).resolves.toBe(
+        'updated',
+      );
+      expect(mockMtnProvider.checkPaymentStatus).toHaveBeenCalledWith({
+        provider_transaction_id: 'MTN-SUCCESS-1',
+        reference_id: mockPayment.reference_id,
+      });
+      expect(mockRepository.updateByReference).toHaveBeenCalledWith(
+        mockPayment.reference_id,
+        {
+          status: PaymentStatus.SUCCESS,
+          provider_transaction_id: 'MTN-SUCCESS-1',
+        },
+        {
+          from_status: PaymentStatus.PENDING,
+          source: PaymentStatusSource.RECONCILIATION,
+          reason: 'MTN status check: Payment completed successfully',
+        },
+      );
+    });
+
+    it('should leave payments the provider still reports as pending', async () => {
+      mockMtnProvider.checkPaymentStatus.mockResolvedValue({
+        status: PaymentStatus.PENDING,
+        provider_transaction_id: 'MTN-SUCCESS-1',
+      });
+
+      await expect(service.reconcilePayment(pendingPayment)).resolves.toBe(
+        'unchanged',
+      );
+      expect(mockRepository.updateByReference).not.toHaveBeenCalled();
+    });
+
+    it('should not apply transitions the state machine rejects', async () => {
+      mockMtnProvider.checkPaymentStatus.mockResolvedValue({
+        status: PaymentStatus.INITIATED,
+        provider_transaction_id: 'MTN-SUCCESS-1',
+      });
+
+      await expect(service.reconcilePayment(pendingPayment)).resolves.toBe(
+        'invalid_transition',
+      );
+      expect(mockRepository.updateByReference).not.toHaveBeenCalled();
+    });
+
+    it('should skip payments of providers it cannot query', async () => {
+      await expect(
+        service.reconcilePayment({ ...pendingPayment, provider_name: 'MPESA' }),
+      ).resolves.toBe('unsupported_provider');
+      expect(mockMtnProvider.checkPaymentStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelPayment', () => {
+    const pendingPaymentWithRelations = {
+      ...mockPaymentWithRelations,
+      status: PaymentStatus.PENDING,
+      provider_transaction_id: 'MTN-SUCCESS-1',
+    };
+
+    it('should withdraw the request at the provider and cancel the payment', async () => {
+      mockRepository.findByReference.mockResolvedValue(
+        pendingPaymentWithRelations,
+      );
+      mockMtnProvider.cancelPayment.mockResolvedValue({ success: true });
+      mockRepository.updateByReference.mockResolvedValue({
+        ...pendingPaymentWithRelations,
+        status: PaymentStatus.CANCELLED,
+      });
+
+      const result = await service.cancelPayment(
+        mockPayment.reference_id,
+        { reason: 'Customer changed the order' },
+        customer,
+      );
+
+      expect(result.status).toBe(PaymentStatus.CANCELLED);
+      expect(mockMtnProvider.cancelPayment).toHaveBeenCalledWith({
+        provider_transaction_id: 'MTN-SUCCESS-1',
+        reference_id: mockPayment.reference_id,
+      });
+      expect(mockRepository.updateByReference).toHaveBeenCalledWith(
+        mockPayment.reference_id,
+        { status: PaymentStatus.CANCELLED },
+        {
+          from_status: PaymentStatus.PENDING,
+          source: PaymentStatusSource.CANCELLATION,
+          actor_user_id: customer.user_id,
+          reason: 'Customer changed the order',
+        },
+      );
+    });
+
+    it('should cancel payments not sent to the provider locally', async () => {
+      mockRepository.findByReference.mockResolvedValue(
+        mockPaymentWithRelations,
+      );
+      mockRepository.updateByReference.mockResolvedValue({
+        ...mockPaymentWithRelations,
+        status: PaymentStatus.CANCELLED,
+      });
+
+      await service.cancelPayment(mockPayment.reference_id, {}, customer);
+
+      expect(mockMtnProvider.cancelPayment).not.toHaveBeenCalled();
+      expect(mockRepository.updateByReference).toHaveBeenCalledWith(
+        mockPayment.reference_id,
+        { status: PaymentStatus.CANCELLED },
+        expect.objectContaining({ from_status: PaymentStatus.INITIATED }),
+      );
+    });
+
+    it('should keep the payment when the provider can no longer cancel it', async () => {
+      mockRepository.findByReference.mockResolvedValue(
+        pendingPaymentWithRelations,
+      );
+      mockMtnProvider.cancelPayment.mockResolvedValue({
+        success: false,
+        message: 'Payment request is no longer pending',
+      });
+
+      await expect(
+        service.cancelPayment(mockPayment.reference_id, {}, customer),
+      ).rejects.toThrow(ConflictException);
+      expect(mockRepository.updateByReference).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for payments in a final status', async () => {
+      mockRepository.findByReference.mockResolvedValue({
+        ...mockPaymentWithRelations,
+        status: PaymentStatus.SUCCESS,
+      });
+
+      await expect(
+        service.cancelPayment(mockPayment.reference_id, {}, customer),
+      ).rejects.toThrow('Cannot cancel a payment in status SUCCESS');
+      expect(mockMtnProvider.cancelPayment).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for payments of other users', async () => {
+      mockRepository.findByReference.mockResolvedValue(
+        pendingPaymentWithRelations,
+      );
+
+      await expect(
+        service.cancelPayment(mockPayment.reference_id, {}, otherCustomer),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockRepository.updateByReference).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundPayment', () => {
+    const successfulPayment = {
+      ...mockPaymentWithRelations,
+      status: PaymentStatus.SUCCESS,
+      provider_transaction_id: 'MTN-SUCCESS-1',
+    };
+
+    const pendingRefund = {
+      id: 3,
+      reference_id: 'RFD-1234567890-ABC123',
+      payment_id: mockPayment.id,
+      amount: 400,
+      status: RefundStatus.PENDING,
+      reason: 'Item out of stock',
+      provider_refund_id: null,
+      failure_reason: null,
+      requested_by_user_id: merchant.user_id,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    const merchantPayment = {
+      ...successfulPayment,
+      merchant_id: merchant.user_id,
+    };
+
+    it('should reserve the refund and return it with the provider result', async () => {
+      mockRepository.findByReference.mockResolvedValue(merchantPayment);
+      mockRepository.createRefund.mockResolvedValue(pendingRefund);
+      mockMtnProvider.refund.mockResolvedValue({
+        status: RefundStatus.SUCCESS,
+        provider_refund_id: 'MTN-REFUND-1',
+      });
+      mockRepository.completeRefund.mockResolvedValue({
+        ...pendingRefund,
+        status: RefundStatus.SUCCESS,
+        provider_refund_id: 'MTN-REFUND-1',
+      });
+
+      const result = await service.refundPayment(
+        mockPayment.reference_id,
+        { amount: 400, reason: 'Item out of stock' },
+        merchant,
+      );
+
+      expect(result.status).toBe(RefundStatus.SUCCESS);
+      const [[, reserved]] = mockRepository.createRefund.mock.calls as [
+        [unknown, { reference_id: string }],
+      ];
+      expect(reserved.reference_id).toMatch(/^RFD-/);
+      expect(mockRepository.createRefund).toHaveBeenCalledWith(
+        merchantPayment,
+        {
+          reference_id: reserved.reference_id,
+          amount: 400,
+          reason: 'Item out of stock',
+          requested_by_user_id: merchant.user_id,
+        },
+      );
+      expect(mockMtnProvider.refund).toHaveBeenCalledWith({
+        provider_transaction_id: 'MTN-SUCCESS-1',
+        refund_reference_id: pendingRefund.reference_id,
+        amount: 400,
+        payment_amount: 1000,
+        currency: 'UGX',
+        reason: 'Item out of stock',
+      });
+      expect(mockRepository.completeRefund).toHaveBeenCalledWith(
+        pendingRefund,
+        {
+          status: RefundStatus.SUCCESS,
+          provider_refund_id: 'MTN-REFUND-1',
+          failure_reason: undefined,
+        },
+      );
+    });
+
+    it('should refund the whole remainder without an amount', async () => {
+      mockRepository.findByReference.mockResolvedValue(merchantPayment);
+      mockRepository.createRefund.mockResolvedValue({
+        ...pendingRefund,
+        amount: 1000,
+      });
+      mockMtnProvider.refund.mockResolvedValue({
+        status: RefundStatus.SUCCESS,
+      });
+
+      await service.refundPayment(mockPayment.reference_id, {}, merchant);
+
+      expect(mockRepository.createRefund).toHaveBeenCalledWith(
+        merchantPayment,
+        expect.objectContaining({ amount: undefined }),
+      );
+      expect(mockMtnProvider.refund).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1000 }),
+      );
+    });
+
+    it('should keep the provider message of a failed refund', async () => {
+      mockRepository.findByReference.mockResolvedValue(merchantPayment);
+      mockRepository.createRefund.mockResolvedValue(pendingRefund);
+      mockMtnProvider.refund.mockResolvedValue({
+        status: RefundStatus.FAILED,
+        message: 'Original transaction was not completed',
+      });
+
+      await service.refundPayment(
+        mockPayment.reference_id,
+        { amount: 400 },
+        merchant,
+      );
+
+      expect(mockRepository.completeRefund).toHaveBeenCalledWith(
+        pendingRefund,
+        {
+          status: RefundStatus.FAILED,
+          provider_refund_id: undefined,
+          failure_reason: 'Original transaction was not completed',
+        },
+      );
+    });
+
+    it('should release the reserved amount when the provider refuses the call', async () => {
+      mockRepository.findByReference.mockResolvedValue(merchantPayment);
+      mockRepository.createRefund.mockResolvedValue(pendingRefund);
+      mockMtnProvider.refund.mockRejectedValue(
+        Object.assign(new Error('Request failed with status code 400'), {
+          response: { status: 400 },
+        }),
+      );
+
+      await expect(
+        service.refundPayment(
+          mockPayment.reference_id,
+          { amount: 400 },
+          merchant,
+        ),
+      ).rejects.toThrow('Request failed with status code 400');
+      expect(mockRepository.completeRefund).toHaveBeenCalledWith(
+        pendingRefund,
+        {
+          status: RefundStatus.FAILED,
+          failure_reason: 'Request failed with status code 400',
+        },
+      );
+    });
+
+    it('should keep the amount reserved when the provider call times out', async () => {
+      mockRepository.findByReference.mockResolvedValue(merchantPayment);
+      mockRepository.createRefund.mockResolvedValue(pendingRefund);
+      mockMtnProvider.refund.mockRejectedValue(
+        new GatewayTimeoutException('MTN did not answer within 10000 ms'),
+      );
+
+      await expect(
+        service.refundPayment(
+          mockPayment.reference_id,
+          { amount: 400 },
+          merchant,
+        ),
+      ).resolves.toEqual(pendingRefund);
+      expect(mockRepository.completeRefund).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for payments that are not SUCCESS', async () => {
+      mockRepository.findByReference.mockResolvedValue({
+        ...merchantPayment,
+        status: PaymentStatus.PENDING,
+      });
+
+      await expect(
+        service.refundPayment(
+          mockPayment.reference_id,
+          { amount: 400 },
+          merchant,
+        ),
+      ).rejects.toThrow('Cannot refund a payment in status PENDING');
+      expect(mockRepository.createRefund).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for payments of other users', async () => {
+      mockRepository.findByReference.mockResolvedValue(successfulPayment);
+
+      await expect(
+        service.refundPayment(
+          mockPayment.reference_id,
+          { amount: 400 },
+          merchant,
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockMtnProvider.refund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileRefund', () => {
+    const pendingRefund = {
+      id: 3,
+      reference_id: 'RFD-1234567890-ABC123',
+      payment_id: mockPayment.id,
+      amount: 1000,
+      status: RefundStatus.PENDING,
+      reason: null,
+      provider_refund_id: null,
+      failure_reason: null,
+      requested_by_user_id: merchant.user_id,
+      status_checked_at: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+      payment: {
+        ...pendingPayment,
+        status: PaymentStatus.SUCCESS,
+        provider_name: 'AIRTEL',
+        provider_transaction_id: 'MP1.ABC',
+        currency: { name: 'UGX' },
+      },
+    };
+
+    it('should record the outcome reported by the provider', async () => {
+      mockAirtelProvider.checkRefundStatus.mockResolvedValue({
+        status: RefundStatus.SUCCESS,
+        provider_refund_id: 'RF1.ABC',
+      });
+
+      await expect(service.reconcileRefund(pendingRefund)).resolves.toBe(
+        'updated',
+      );
+      expect(mockAirtelProvider.checkRefundStatus).toHaveBeenCalledWith({
+        provider_transaction_id: 'MP1.ABC',
+        refund_reference_id: pendingRefund.reference_id,
+        amount: 1000,
+        payment_amount: mockPayment.amount,
+        currency: 'UGX',
+        reason: undefined,
+      });
+      expect(mockRepository.completeRefund).toHaveBeenCalledWith(
+        pendingRefund,
+        {
+          status: RefundStatus.SUCCESS,
+          provider_refund_id: 'RF1.ABC',
+          failure_reason: undefined,
+        },
+      );
+    });
+
+    it('should leave refunds the provider still reports pending', async () => {
+      mockAirtelProvider.checkRefundStatus.mockResolvedValue({
+        status: RefundStatus.PENDING,
+      });
+
+      await expect(service.reconcileRefund(pendingRefund)).resolves.toBe(
+        'unchanged',
       );
+      expect(mockRepository.completeRefund).not.toHaveBeenCalled();
+    });
+
+    it('should leave recent refunds of providers without a refund check', async () => {
+      await expect(
+        service.reconcileRefund({
+          ...pendingRefund,
+          payment: { ...pendingRefund.payment, provider_name: 'MTN' },
+        }),
+      ).resolves.toBe('unchanged');
+      expect(mockRepository.completeRefund).not.toHaveBeenCalled();
+    });
+
+    it('should fail old refunds of providers without a refund check', async () => {
+      const refund = {
+        ...pendingRefund,
+        created_at: new Date(Date.now() - 25 * 60 * 60 * 1000),
+        payment: { ...pendingRefund.payment, provider_name: 'MTN' },
+      };
+
+      await expect(service.reconcileRefund(refund)).resolves.toBe('updated');
+      expect(mockRepository.completeRefund).toHaveBeenCalledWith(refund, {
+        status: RefundStatus.FAILED,
+        failure_reason: 'Outcome not confirmed by MTN within 86400 seconds',
+      });
+    });
+  });
+
+  describe('expirePayment', () => {
+    it('should withdraw the request at the provider and expire the payment', async () => {
+      mockMtnProvider.cancelPayment.mockResolvedValue({ success: true });
+
+      await expect(service.expirePayment(pendingPayment)).resolves.toBe(
+        'expired',
+      );
+      expect(mockRepository.updateByReference).toHaveBeenCalledWith(
+        mockPayment.reference_id,
+        { status: PaymentStatus.EXPIRED },
+        {
+          from_status: PaymentStatus.PENDING,
+          source: PaymentStatusSource.EXPIRY,
+          reason: `Not completed by ${mockPayment.expires_at.toISOString()}`,
+        },
+      );
+    });
+
+    it('should leave payments the provider refuses to withdraw', async () => {
+      mockMtnProvider.cancelPayment.mockResolvedValue({ success: false });
+
+      await expect(service.expirePayment(pendingPayment)).resolves.toBe(
+        'provider_refused',
+      );
+      expect(mockRepository.updateByReference).not.toHaveBeenCalled();
+    });
+
+    it('should expire payments of providers without a cancel hook while still pending there', async () => {
+      const airtelPayment = { ...pendingPayment, provider_name: 'AIRTEL' };
+      mockAirtelProvider.checkPaymentStatus.mockResolvedValue({
+        status: PaymentStatus.PENDING,
+        provider_transaction_id: 'AIRTEL-TXN-1',
+      });
+
+      await expect(service.expirePayment(airtelPayment)).resolves.toBe(
+        'expired',
+      );
+      expect(mockAirtelProvider.checkPaymentStatus).toHaveBeenCalledWith({
+        provider_transaction_id: pendingPayment.provider_transaction_id,
+        reference_id: mockPayment.reference_id,
+      });
+      expect(mockRepository.updateByReference).toHaveBeenCalledWith(
+        mockPayment.reference_id,
+        { status: PaymentStatus.EXPIRED },
+        expect.objectContaining({ source: PaymentStatusSource.EXPIRY }),
+      );
+    });
+
+    it('should leave payments completed at a provider without a cancel hook', async () => {
+      const airtelPayment = { ...pendingPayment, provider_name: 'AIRTEL' };
+      mockAirtelProvider.checkPaymentStatus.mockResolvedValue({
+        status: PaymentStatus.SUCCESS,
+        provider_transaction_id: 'AIRTEL-TXN-1',
+      });
+
+      await expect(service.expirePayment(airtelPayment)).resolves.toBe(
+        'provider_refused',
+      );
+      expect(mockRepository.updateByReference).not.toHaveBeenCalled();
     });
   });
 
@@ -387,6 +1535,20 @@ describe('PaymentsService', () => {
       provider_transaction_id: 'TXN123',
       timestamp: new Date().toISOString(),
     };
+    const deliveryId = 42;
+
+    it("should reject updates from another provider than the payment's", async () => {
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
+      mockRepository.findByReference.mockResolvedValue({
+        ...mockPaymentWithRelations,
+        status: PaymentStatus.PENDING,
+      });
+
+      await expect(
+        service.handleWebhook(webhookDto, 'airtel', deliveryId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockRepository.processWebhookTransaction).not.toHaveBeenCalled();
+    });
 
     it('should process webhook successfully from PENDING to SUCCESS', async () => {
       const pendingPayment = {
@@ -400,26 +1562,37 @@ describe('PaymentsService', () => {
         provider_transaction_id: 'TXN123',
       };
 
-      mockRepository.findWebhookEvent.mockResolvedValue(null);
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
       mockRepository.findByReference.mockResolvedValue(pendingPayment);
-      mockRepository.processWebhookTransaction.mockResolvedValue(updatedPayment);
+      mockRepository.processWebhookTransaction.mockResolvedValue(
+        updatedPayment,
+      );
 
-      const result = await service.handleWebhook(webhookDto);
+      const result = await service.handleWebhook(webhookDto, 'mtn', deliveryId);
 
       expect(result.status).toBe(PaymentStatus.SUCCESS);
       expect(result.provider_transaction_id).toBe('TXN123');
-      expect(mockRepository.findWebhookEvent).toHaveBeenCalledWith(
-        webhookDto.payment_reference_id,
+      expect(mockRepository.findProcessedWebhookEvent).toHaveBeenCalledWith(
+        'mtn',
+        'TXN123:SUCCESS',
       );
       expect(mockRepository.processWebhookTransaction).toHaveBeenCalledWith(
         pendingPayment.id,
+        deliveryId,
         {
-          payment_reference_id: webhookDto.payment_reference_id,
           status: webhookDto.status,
           provider_transaction_id: webhookDto.provider_transaction_id,
-          timestamp: expect.any(Date),
+          dedup_key: 'TXN123:SUCCESS',
+        },
+        {
+          from_status: PaymentStatus.PENDING,
+          source: PaymentStatusSource.WEBHOOK,
+          reason: `Webhook delivery ${deliveryId} from mtn`,
         },
       );
+      expect(mockUtilsService.redisUnlock).toHaveBeenCalledWith(
+        `payment:webhook:${webhookDto.payment_reference_id}`,
+      );
     });
 
     it('should process webhook successfully from PENDING to FAILED', async () => {
@@ -438,33 +1611,42 @@ describe('PaymentsService', () => {
         provider_transaction_id: 'TXN123',
       };
 
-      mockRepository.findWebhookEvent.mockResolvedValue(null);
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
       mockRepository.findByReference.mockResolvedValue(pendingPayment);
-      mockRepository.processWebhookTransaction.mockResolvedValue(updatedPayment);
+      mockRepository.processWebhookTransaction.mockResolvedValue(
+        updatedPayment,
+      );
 
-      const result = await service.handleWebhook(failedWebhookDto);
+      const result = await service.handleWebhook(
+        failedWebhookDto,
+        'mtn',
+        deliveryId,
+      );
 
       expect(result.status).toBe(PaymentStatus.FAILED);
       expect(result.provider_transaction_id).toBe('TXN123');
       expect(mockRepository.processWebhookTransaction).toHaveBeenCalledWith(
         pendingPayment.id,
+        deliveryId,
         {
-          payment_reference_id: failedWebhookDto.payment_reference_id,
           status: failedWebhookDto.status,
           provider_transaction_id: failedWebhookDto.provider_transaction_id,
-          timestamp: expect.any(Date),
+          dedup_key: 'TXN123:FAILED',
         },
+        expect.objectContaining({ source: PaymentStatusSource.WEBHOOK }),
       );
     });
 
     it('should handle idempotency - return existing payment if webhook already processed', async () => {
       const existingWebhook = {
         id: 1,
+        provider: 'mtn',
         payment_reference_id: mockPayment.reference_id,
         status: PaymentStatus.SUCCESS,
         provider_transaction_id: 'TXN123',
         timestamp: new Date(),
-        is_processed: true,
+        outcome: WebhookOutcome.PROCESSED,
+        dedup_key: 'TXN123:SUCCESS',
       };
 
       const processedPayment = {
@@ -473,24 +1655,97 @@ describe('PaymentsService', () => {
         provider_transaction_id: 'TXN123',
       };
 
-      mockRepository.findWebhookEvent.mockResolvedValue(existingWebhook);
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(
+        existingWebhook,
+      );
       mockRepository.findByReference.mockResolvedValue(processedPayment);
 
-      const result = await service.handleWebhook(webhookDto);
+      const result = await service.handleWebhook(webhookDto, 'mtn', deliveryId);
 
       expect(result).toEqual(processedPayment);
       expect(result.status).toBe(PaymentStatus.SUCCESS);
       expect(mockRepository.processWebhookTransaction).not.toHaveBeenCalled();
+      expect(mockRepository.updateWebhookEvent).toHaveBeenCalledWith(
+        deliveryId,
+        { outcome: WebhookOutcome.DUPLICATE },
+      );
     });
 
-    it('should throw NotFoundException when payment not found', async () => {
-      mockRepository.findWebhookEvent.mockResolvedValue(null);
+    it('should deduplicate on the provider event id when sent', async () => {
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
+      mockRepository.findByReference.mockResolvedValue({
+        ...mockPaymentWithRelations,
+        status: PaymentStatus.PENDING,
+      });
+      mockRepository.processWebhookTransaction.mockResolvedValue(
+        mockPaymentWithRelations,
+      );
+
+      await service.handleWebhook(
+        { ...webhookDto, event_id: 'evt_1' },
+        'MTN',
+        deliveryId,
+      );
+
+      expect(mockRepository.findProcessedWebhookEvent).toHaveBeenCalledWith(
+        'mtn',
+        'evt_1',
+      );
+      expect(mockRepository.processWebhookTransaction).toHaveBeenCalledWith(
+        1,
+        deliveryId,
+        expect.objectContaining({ dedup_key: 'evt_1' }),
+        expect.objectContaining({
+          reason: `Webhook delivery ${deliveryId} from mtn`,
+        }),
+      );
+    });
+
+    it('should apply a SUCCESS delivery after the PENDING one of the same transaction', async () => {
+      // Only the PENDING delivery of TXN123 was applied so far
+      mockRepository.findProcessedWebhookEvent.mockImplementation(
+        (_provider: string, dedup_key: string) =>
+          Promise.resolve(
+            dedup_key === 'TXN123:PENDING' ? { id: 1, dedup_key } : null,
+          ),
+      );
+      mockRepository.findByReference.mockResolvedValue({
+        ...mockPaymentWithRelations,
+        status: PaymentStatus.PENDING,
+        provider_transaction_id: 'TXN123',
+      });
+      mockRepository.processWebhookTransaction.mockResolvedValue(
+        mockPaymentWithRelations,
+      );
+
+      await service.handleWebhook(webhookDto, 'mtn', deliveryId);
+
+      expect(mockRepository.processWebhookTransaction).toHaveBeenCalled();
+      expect(mockRepository.updateWebhookEvent).not.toHaveBeenCalled();
+    });
+
+    it('should release the payment lock when processing fails', async () => {
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
       mockRepository.findByReference.mockResolvedValue(null);
 
-      await expect(service.handleWebhook(webhookDto)).rejects.toThrow(
-        NotFoundException,
+      await expect(
+        service.handleWebhook(webhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockUtilsService.redisUnlock).toHaveBeenCalledWith(
+        `payment:webhook:${webhookDto.payment_reference_id}`,
       );
-      await expect(service.handleWebhook(webhookDto)).rejects.toThrow(
+    });
+
+    it('should throw NotFoundException when payment not found', async () => {
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
+      mockRepository.findByReference.mockResolvedValue(null);
+
+      await expect(
+        service.handleWebhook(webhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        service.handleWebhook(webhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow(
         `Payment with reference ${webhookDto.payment_reference_id} not found`,
       );
     });
@@ -500,27 +1755,29 @@ describe('PaymentsService', () => {
         id: 1,
         payment_reference_id: mockPayment.reference_id,
         status: PaymentStatus.SUCCESS,
-        is_processed: true,
+        outcome: WebhookOutcome.PROCESSED,
       };
 
-      mockRepository.findWebhookEvent.mockResolvedValue(existingWebhook);
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(
+        existingWebhook,
+      );
       mockRepository.findByReference.mockResolvedValue(null);
 
-      await expect(service.handleWebhook(webhookDto)).rejects.toThrow(
-        NotFoundException,
-      );
+      await expect(
+        service.handleWebhook(webhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow(NotFoundException);
     });
 
     it('should throw BadRequestException for invalid state transition from INITIATED to SUCCESS', async () => {
-      mockRepository.findWebhookEvent.mockResolvedValue(null);
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
       mockRepository.findByReference.mockResolvedValue(mockPayment);
 
-      await expect(service.handleWebhook(webhookDto)).rejects.toThrow(
-        BadRequestException,
-      );
-      await expect(service.handleWebhook(webhookDto)).rejects.toThrow(
-        'Invalid state transition',
-      );
+      await expect(
+        service.handleWebhook(webhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.handleWebhook(webhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow('Invalid state transition');
     });
 
     it('should throw BadRequestException for invalid state transition from SUCCESS to PENDING', async () => {
@@ -533,12 +1790,12 @@ describe('PaymentsService', () => {
         status: PaymentStatus.PENDING,
       };
 
-      mockRepository.findWebhookEvent.mockResolvedValue(null);
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
       mockRepository.findByReference.mockResolvedValue(successPayment);
 
-      await expect(service.handleWebhook(invalidWebhookDto)).rejects.toThrow(
-        BadRequestException,
-      );
+      await expect(
+        service.handleWebhook(invalidWebhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow(BadRequestException);
     });
 
     it('should throw BadRequestException for invalid state transition from FAILED to SUCCESS', async () => {
@@ -547,13 +1804,80 @@ describe('PaymentsService', () => {
         status: PaymentStatus.FAILED,
       };
 
-      mockRepository.findWebhookEvent.mockResolvedValue(null);
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
       mockRepository.findByReference.mockResolvedValue(failedPayment);
 
-      await expect(service.handleWebhook(webhookDto)).rejects.toThrow(
-        BadRequestException,
+      await expect(
+        service.handleWebhook(webhookDto, 'mtn', deliveryId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should accept a webhook repeating the current status without changes', async () => {
+      const pendingPayment = {
+        ...mockPaymentWithRelations,
+        status: PaymentStatus.PENDING,
+      };
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
+      mockRepository.findByReference.mockResolvedValue(pendingPayment);
+
+      await expect(
+        service.handleWebhook(
+          { ...webhookDto, status: PaymentStatus.PENDING },
+          'mtn',
+          deliveryId,
+        ),
+      ).resolves.toBe(pendingPayment);
+      expect(mockRepository.processWebhookTransaction).not.toHaveBeenCalled();
+      expect(mockRepository.updateWebhookEvent).toHaveBeenCalledWith(
+        deliveryId,
+        {
+          outcome: WebhookOutcome.DUPLICATE,
+        },
       );
     });
   });
-});
 
+  describe('handleAirtelCallback', () => {
+    it('should apply the callback as an airtel webhook', async () => {
+      const callback = {
+        transaction: {
+          id: mockPayment.reference_id,
+          status_code: 'TS',
+          airtel_money_id: 'MP210603.1234.L06941',
+        },
+      };
+      const pendingPayment = {
+        ...mockPaymentWithRelations,
+        id: 1,
+        status: PaymentStatus.PENDING,
+        provider_name: 'AIRTEL',
+      };
+      mockAirtelProvider.toWebhook.mockReturnValue({
+        payment_reference_id: mockPayment.reference_id,
+        status: PaymentStatus.SUCCESS,
+        provider_transaction_id: 'MP210603.1234.L06941',
+        timestamp: new Date().toISOString(),
+      });
+      mockRepository.findProcessedWebhookEvent.mockResolvedValue(null);
+      mockRepository.findByReference.mockResolvedValue(pendingPayment);
+      mockRepository.processWebhookTransaction.mockResolvedValue({
+        ...pendingPayment,
+        status: PaymentStatus.SUCCESS,
+      });
+
+      await service.handleAirtelCallback(callback, 42);
+
+      expect(mockAirtelProvider.toWebhook).toHaveBeenCalledWith(callback);
+      expect(mockRepository.processWebhookTransaction).toHaveBeenCalledWith(
+        pendingPayment.id,
+        42,
+        {
+          status: PaymentStatus.SUCCESS,
+          provider_transaction_id: 'MP210603.1234.L06941',
+          dedup_key: 'MP210603.1234.L06941:SUCCESS',
+        },
+        expect.objectContaining({ source: PaymentStatusSource.WEBHOOK }),
+      );
+    });
+  });
+});
@@ -2,17 +2,85 @@ import {
   Injectable,
   Logger,
   BadRequestException,
+  ConflictException,
   NotFoundException,
 } from '@nestjs/common';
-import { PaymentWithRelations, PaymentsRepository } from './payments.repository';
+import {
+  PaymentMethodWithProvider,
+  PaymentWithRelations,
+  PaymentsRepository,
+  RefundWithPayment,
+} from './payments.repository';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentStatusDto } from './dto/update-payment-status.dto';
 import { WebhookDto } from './dto/webhook.dto';
-import { PaymentStatus, Payment } from '@prisma/client';
+import { AirtelCallbackDto } from './dto/airtel-callback.dto';
+import { CancelPaymentDto } from './dto/cancel-payment.dto';
+import { RefundPaymentDto } from './dto/refund-payment.dto';
+import {
+  PaymentStatus,
+  PaymentStatusSource,
+  PaymentStatusTransition,
+  Payment,
+  Prisma,
+  Refund,
+  RefundStatus,
+  WebhookOutcome,
+} from '@prisma/client';
 import { randomUUID } from 'crypto';
-import { PaymentProvider } from './providers/provider.interface';
+import {
+  CancelPaymentResponse,
+  InitiatePaymentResponse,
+  PaymentProvider,
+  RefundRequest,
+  RefundResponse,
+} from './providers/provider.interface';
 import { MtnProvider } from './providers/mtn.provider';
+import { AirtelProvider } from './providers/airtel.provider';
+import {
+  ProviderRoutingService,
+  RoutedPhone,
+} from '../provider-routing/provider-routing.service';
+import {
+  isNotProcessed,
+  ProviderResilienceService,
+} from '../provider-resilience/provider-resilience.service';
 import { UtilsService } from 'src/common/utils.service';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { ListPaymentsQueryDto } from './dto/list-payments.dto';
+import {
+  MERCHANT_ROLE,
+  PAYMENT_SORT_FIELDS,
+  PAYMENTS_DEFAULT_PAGE_SIZE,
+  READ_ALL_PAYMENTS_PERMISSION,
+  REFUND_UNCONFIRMED_MAX_AGE_SECONDS,
+  SORT_ORDERS,
+} from './payments.constants';
+import type { PaymentSortField, SortOrder } from './payments.constants';
+
+// Position of the last payment of a page, in the sort order it was read with
+interface PaymentCursor {
+  sort_by: PaymentSortField;
+  sort_order: SortOrder;
+  value: string | number;
+  id: number;
+}
+
+// What a provider status check did to a payment
+export type ReconciliationResult =
+  | 'updated'
+  | 'unchanged'
+  | 'invalid_transition'
+  | 'unsupported_provider';
+
+// What the expiry sweeper did to an overdue payment
+export type ExpiryResult = 'expired' | 'provider_refused';
+
+export interface PaymentPage {
+  data: PaymentWithRelations[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
 
 @Injectable()
 export class PaymentsService {
@@ -22,49 +90,101 @@ export class PaymentsService {
   constructor(
     private readonly paymentsRepository: PaymentsRepository,
     private readonly mtnProvider: MtnProvider,
+    private readonly airtelProvider: AirtelProvider,
     private readonly utilsService: UtilsService,
+    private readonly providerRouting: ProviderRoutingService,
+    private readonly providerResilience: ProviderResilienceService,
   ) {
     this.providerMap = new Map<string, PaymentProvider>();
 
+    // Provider calls go through timeouts, retries and circuit breakers
+    const mtn = this.providerResilience.wrap(this.mtnProvider);
+    const airtel = this.providerResilience.wrap(this.airtelProvider);
+
     // Map both 'MTN' and 'MTN_UGANDA' to the same provider for compatibility
-    this.providerMap.set(this.mtnProvider.getProviderName(), this.mtnProvider);
-    this.providerMap.set('MTN_UGANDA', this.mtnProvider);
+    this.providerMap.set(mtn.getProviderName(), mtn);
+    this.providerMap.set('MTN_UGANDA', mtn);
+    this.providerMap.set(airtel.getProviderName(), airtel);
+    this.providerMap.set('AIRTEL_UGANDA', airtel);
   }
 
-
   private generatePaymentReference(): string {
     const timestamp = Date.now();
     const uuid = randomUUID().substring(0, 8).toUpperCase();
     return `PAY-${timestamp}-${uuid}`;
   }
 
+  private generateRefundReference(): string {
+    const timestamp = Date.now();
+    const uuid = randomUUID().substring(0, 8).toUpperCase();
+    return `RFD-${timestamp}-${uuid}`;
+  }
+
+  /**
+   * Users see the payments they created, or received as the merchant;
+   * READ_ALL_PAYMENTS_PERMISSION grants access to every payment.
+   */
+  private canAccess(payment: Payment, user: AuthenticatedUser): boolean {
+    return (
+      user.permissions.includes(READ_ALL_PAYMENTS_PERMISSION) ||
+      payment.user_id === user.user_id ||
+      payment.merchant_id === user.user_id
+    );
+  }
+
+  /**
+   * Query counterpart of canAccess
+   */
+  private accessScope(user: AuthenticatedUser): Prisma.PaymentWhereInput {
+    if (user.permissions.includes(READ_ALL_PAYMENTS_PERMISSION)) {
+      return {};
+    }
+    return {
+      OR: [{ user_id: user.user_id }, { merchant_id: user.user_id }],
+    };
+  }
 
   private validateStateTransition(
     currentStatus: PaymentStatus,
     newStatus: PaymentStatus,
   ): boolean {
     const validTransitions: Record<PaymentStatus, PaymentStatus[]> = {
-      [PaymentStatus.INITIATED]: [PaymentStatus.PENDING],
-      [PaymentStatus.PENDING]: [PaymentStatus.SUCCESS, PaymentStatus.FAILED],
+      [PaymentStatus.INITIATED]: [
+        PaymentStatus.PENDING,
+        PaymentStatus.EXPIRED,
+        PaymentStatus.CANCELLED,
+      ],
+      [PaymentStatus.PENDING]: [
+        PaymentStatus.SUCCESS,
+        PaymentStatus.FAILED,
+        PaymentStatus.EXPIRED,
+        PaymentStatus.CANCELLED,
+      ],
       [PaymentStatus.SUCCESS]: [],
       [PaymentStatus.FAILED]: [],
+      [PaymentStatus.EXPIRED]: [],
+      [PaymentStatus.CANCELLED]: [],
     };
 
     const allowedStates = validTransitions[currentStatus] || [];
     return allowedStates.includes(newStatus);
   }
 
-  private async initiatePayment(payment: (Payment & {
-    currency: {
-      name: string;
-      id: number;
-    }, payment_method: {
-      name: string;
-      payment_provider: {
+  private async initiatePayment(
+    payment: Payment & {
+      currency: {
         name: string;
+        id: number;
       };
-    }
-  })): Promise<PaymentWithRelations> {
+      payment_method: {
+        name: string;
+        payment_provider: {
+          name: string;
+        };
+      };
+    },
+    user: AuthenticatedUser,
+  ): Promise<PaymentWithRelations> {
     this.logger.log(
       `Initiating payment with provider for reference: ${payment.reference_id}`,
     );
@@ -76,22 +196,62 @@ export class PaymentsService {
       customer_email: payment.customer_email || undefined,
       reference_id: payment.reference_id,
     };
-    const provider = this.providerMap.get(payment.payment_method.payment_provider.name);
+    const provider = this.providerMap.get(
+      payment.payment_method.payment_provider.name,
+    );
     if (!provider) {
-      throw new NotFoundException(
-        `Payment provider not supported`,
-      );
+      throw new NotFoundException(`Payment provider not supported`);
     }
 
-    const response = await provider.initiatePayment(initiateRequest);
+    // Stored before the call, so a payment whose answer is lost can still be
+    // reconciled and matched with its webhook
+    const provider_transaction_id =
+      provider.newTransactionId?.(initiateRequest);
+    if (provider_transaction_id) {
+      await this.paymentsRepository.updateByReference(payment.reference_id, {
+        provider_transaction_id,
+        provider_name: provider.getProviderName(),
+      });
+    }
+
+    let response: InitiatePaymentResponse;
+    let reason = `Initiated with ${provider.getProviderName()}`;
+    try {
+      response = await provider.initiatePayment({
+        ...initiateRequest,
+        provider_transaction_id,
+      });
+    } catch (error) {
+      if (!provider_transaction_id || isNotProcessed(error)) {
+        throw error;
+      }
+      // The provider may have taken the payment: left PENDING for
+      // reconciliation to look up
+      this.logger.warn(
+        `Outcome of payment ${payment.reference_id} at ${provider.getProviderName()} unknown: ${(error as Error).message}`,
+      );
+      response = {
+        success: true,
+        provider_transaction_id,
+        status: PaymentStatus.PENDING,
+      };
+      reason = `${reason}, outcome unknown: ${(error as Error).message}`;
+    }
 
     const updatedPayment = await this.paymentsRepository.updateByReference(
       payment.reference_id,
       {
         status: response.status,
-        provider_transaction_id: response.provider_transaction_id,
+        provider_transaction_id:
+          response.provider_transaction_id || provider_transaction_id,
         provider_name: provider.getProviderName(),
       },
+      {
+        from_status: payment.status,
+        source: PaymentStatusSource.PROVIDER_INITIATION,
+        actor_user_id: user.user_id,
+        reason,
+      },
     );
 
     this.logger.log(
@@ -101,52 +261,129 @@ export class PaymentsService {
     return updatedPayment;
   }
 
-  async createPayment(createPaymentDto: CreatePaymentDto) {
-    this.logger.log('Creating new payment');
+  /**
+   * Create a payment and send it to its provider. `onCreated` runs once the
+   * payment is stored, before the provider is called.
+   */
+  async createPayment(
+    createPaymentDto: CreatePaymentDto,
+    user: AuthenticatedUser,
+    onCreated?: (payment: PaymentWithRelations) => Promise<void>,
+  ) {
+    this.logger.log(`Creating new payment for user ${user.user_id}`);
 
     const reference_id = this.generatePaymentReference();
     this.logger.debug(`Generated payment reference: ${reference_id}`);
 
-    const currency = await this.paymentsRepository.getCurrencyByName(createPaymentDto.currency);
+    const currency = await this.paymentsRepository.getCurrencyByName(
+      createPaymentDto.currency,
+    );
     if (!currency) {
-      throw new NotFoundException(`Currency ${createPaymentDto.currency} not found`);
+      throw new NotFoundException(
+        `Currency ${createPaymentDto.currency} not found`,
+      );
     }
 
-    const payment_method = await this.paymentsRepository.getPaymentMethodByName(createPaymentDto.payment_method);
-    if (!payment_method) {
-      throw new NotFoundException(`Payment method ${createPaymentDto.payment_method} not found`);
-    }
+    const phone = this.providerRouting.route(createPaymentDto.customer_phone);
+    const payment_method = await this.resolvePaymentMethod(
+      createPaymentDto.payment_method,
+      phone,
+    );
 
     const payment = await this.paymentsRepository.create({
       reference_id,
-      customer_phone: createPaymentDto.customer_phone,
+      customer_phone: phone.customer_phone,
       customer_email: createPaymentDto.customer_email,
       amount: createPaymentDto.amount,
       currency_id: currency.id,
       payment_method_id: payment_method.id,
       status: PaymentStatus.INITIATED,
-
+      user_id: user.user_id,
+      merchant_id: user.roles.includes(MERCHANT_ROLE)
+        ? user.user_id
+        : undefined,
+      expires_at: new Date(
+        Date.now() + payment_method.expiry_minutes * 60 * 1000,
+      ),
     });
 
     this.logger.log(
       `Payment created successfully with reference: ${reference_id}`,
     );
+    await onCreated?.(payment);
+
+    return await this.initiatePayment(payment, user);
+  }
+
+  /**
+   * The payment method named by the client, or the first one of the
+   * provider owning the number range of the phone when it names none.
+   * Providers are compared through providerMap, so aliases of one
+   * provider match.
+   */
+  private async resolvePaymentMethod(
+    name: string | undefined,
+    phone: RoutedPhone,
+  ): Promise<PaymentMethodWithProvider> {
+    const routedProvider = phone.provider
+      ? this.providerMap.get(phone.provider)
+      : undefined;
 
-    return await this.initiatePayment(payment);
+    if (name === undefined) {
+      if (!routedProvider) {
+        throw new BadRequestException(
+          `No payment provider serves ${phone.customer_phone}, payment_method is required`,
+        );
+      }
+      const methods =
+        await this.paymentsRepository.getPaymentMethodsWithProvider();
+      const method = methods.find(
+        (candidate) =>
+          this.providerMap.get(candidate.payment_provider.name) ===
+          routedProvider,
+      );
+      if (!method) {
+        throw new NotFoundException(
+          `No payment method of ${routedProvider.getProviderName()} found`,
+        );
+      }
+      this.logger.debug(
+        `Routed ${phone.customer_phone} to payment method ${method.name}`,
+      );
+      return method;
+    }
+
+    const method = await this.paymentsRepository.getPaymentMethodByName(name);
+    if (!method) {
+      throw new NotFoundException(`Payment method ${name} not found`);
+    }
+    if (
+      routedProvider &&
+      this.providerMap.get(method.payment_provider.name) !== routedProvider
+    ) {
+      throw new BadRequestException(
+        `Phone number ${phone.customer_phone} is on the ${phone.provider} network, not on the one of payment method ${name}`,
+      );
+    }
+    return method;
   }
 
   /**
-   * Get payment by reference
+   * Get payment by reference. Payments of other users are reported as not
+   * found, so references cannot be probed.
    */
-  async getPaymentByReference(reference_id: string): Promise<PaymentWithRelations> {
+  async getPaymentByReference(
+    reference_id: string,
+    user: AuthenticatedUser,
+  ): Promise<PaymentWithRelations> {
     this.logger.log(`Getting payment by reference: ${reference_id}`);
 
-    const payment = await this.paymentsRepository.findByReference(
-      reference_id,
-    );
+    const payment = await this.paymentsRepository.findByReference(reference_id);
 
-    if (!payment) {
-      this.logger.warn(`Payment not found with reference: ${reference_id}`);
+    if (!payment || !this.canAccess(payment, user)) {
+      this.logger.warn(
+        `Payment not found with reference: ${reference_id} for user ${user.user_id}`,
+      );
       throw new NotFoundException(
         `Payment with reference ${reference_id} not found`,
       );
@@ -155,21 +392,113 @@ export class PaymentsService {
     return payment;
   }
 
+  /**
+   * Status changes of a payment, oldest first. Same visibility rules as
+   * getPaymentByReference.
+   */
+  async getPaymentHistory(
+    reference_id: string,
+    user: AuthenticatedUser,
+  ): Promise<PaymentStatusTransition[]> {
+    const payment = await this.getPaymentByReference(reference_id, user);
+    return this.paymentsRepository.findStatusTransitions(payment.id);
+  }
+
+  /**
+   * Filtered page of the payments visible to the user. Pages are read by
+   * keyset on (sort field, id), so the ordering stays stable while new
+   * payments are created.
+   */
+  async listPayments(
+    query: ListPaymentsQueryDto,
+    user: AuthenticatedUser,
+  ): Promise<PaymentPage> {
+    const sort_by = query.sort_by ?? 'created_at';
+    const sort_order = query.sort_order ?? 'desc';
+    const limit = query.limit ?? PAYMENTS_DEFAULT_PAGE_SIZE;
+
+    const conditions: Prisma.PaymentWhereInput[] = [
+      this.accessScope(user),
+      {
+        status: query.status,
+        currency: query.currency ? { name: query.currency } : undefined,
+        payment_method: query.payment_method
+          ? { name: query.payment_method }
+          : undefined,
+        provider_name: query.provider,
+        customer_phone: query.customer_phone,
+        amount: { gte: query.min_amount, lte: query.max_amount },
+        created_at: {
+          gte: query.created_from ? new Date(query.created_from) : undefined,
+          lte: query.created_to ? new Date(query.created_to) : undefined,
+        },
+      },
+    ];
+
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      if (cursor.sort_by !== sort_by || cursor.sort_order !== sort_order) {
+        throw new BadRequestException(
+          'Cursor was issued for a different sort_by or sort_order',
+        );
+      }
+      const value =
+        sort_by === 'created_at' ? new Date(cursor.value) : cursor.value;
+      const after = sort_order === 'asc' ? 'gt' : 'lt';
+      conditions.push({
+        OR: [
+          { [sort_by]: { [after]: value } },
+          { [sort_by]: value, id: { [after]: cursor.id } },
+        ],
+      });
+    }
+
+    // One extra row tells whether another page follows
+    const payments = await this.paymentsRepository.findMany(
+      { AND: conditions },
+      [{ [sort_by]: sort_order }, { id: sort_order }],
+      limit + 1,
+    );
+
+    const has_more = payments.length > limit;
+    const data = payments.slice(0, limit);
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      has_more,
+      next_cursor:
+        has_more && last
+          ? encodeCursor({
+              sort_by,
+              sort_order,
+              value:
+                sort_by === 'created_at'
+                  ? last.created_at.toISOString()
+                  : last.amount,
+              id: last.id,
+            })
+          : null,
+    };
+  }
 
   async updatePaymentStatus(
     updateDto: UpdatePaymentStatusDto,
+    user: AuthenticatedUser,
   ): Promise<PaymentWithRelations> {
-    const { payment_reference_id, status, provider_transaction_id } = updateDto;
+    const { payment_reference_id, status, provider_transaction_id, reason } =
+      updateDto;
     this.logger.log(
       `Updating payment status for reference: ${payment_reference_id} to ${status}`,
     );
 
-    const payment = await this.paymentsRepository.findByReference(
-      payment_reference_id,
-    );
+    const payment =
+      await this.paymentsRepository.findByReference(payment_reference_id);
 
     if (!payment) {
-      this.logger.warn(`Payment not found with reference: ${payment_reference_id}`);
+      this.logger.warn(
+        `Payment not found with reference: ${payment_reference_id}`,
+      );
       throw new NotFoundException(
         `Payment with reference ${payment_reference_id} not found`,
       );
@@ -190,6 +519,12 @@ export class PaymentsService {
         status: status,
         provider_transaction_id: provider_transaction_id,
       },
+      {
+        from_status: payment.status,
+        source: PaymentStatusSource.MANUAL_CALLBACK,
+        actor_user_id: user.user_id,
+        reason,
+      },
     );
 
     this.logger.log(
@@ -199,8 +534,331 @@ export class PaymentsService {
     return updatedPayment;
   }
 
+  /**
+   * Ask the provider for the status of a payment whose webhook may have
+   * been lost, and apply it through the same state machine as webhooks.
+   */
+  async reconcilePayment(payment: Payment): Promise<ReconciliationResult> {
+    const provider = payment.provider_name
+      ? this.providerMap.get(payment.provider_name)
+      : undefined;
+    if (!provider || !payment.provider_transaction_id) {
+      this.logger.warn(
+        `Cannot check status of payment ${payment.reference_id} with provider ${payment.provider_name}`,
+      );
+      return 'unsupported_provider';
+    }
+
+    const response = await provider.checkPaymentStatus({
+      provider_transaction_id: payment.provider_transaction_id,
+      reference_id: payment.reference_id,
+    });
+
+    if (response.status === payment.status) {
+      return 'unchanged';
+    }
+
+    if (!this.validateStateTransition(payment.status, response.status)) {
+      this.logger.warn(
+        `Provider reported ${response.status} for payment ${payment.reference_id} in status ${payment.status}, not applied`,
+      );
+      return 'invalid_transition';
+    }
+
+    await this.paymentsRepository.updateByReference(
+      payment.reference_id,
+      {
+        status: response.status,
+        provider_transaction_id: response.provider_transaction_id,
+      },
+      {
+        from_status: payment.status,
+        source: PaymentStatusSource.RECONCILIATION,
+        reason: `${provider.getProviderName()} status check: ${response.message ?? response.status}`,
+      },
+    );
 
-  async handleWebhook(webhookDto: WebhookDto): Promise<PaymentWithRelations> {
+    this.logger.log(
+      `Payment ${payment.reference_id} reconciled from ${payment.status} to ${response.status}`,
+    );
+    return 'updated';
+  }
+
+  /**
+   * Cancel an INITIATED or PENDING payment on behalf of the user. Same
+   * visibility rules as getPaymentByReference. The provider withdraws the
+   * request first when it supports it; if it no longer can, the payment
+   * is left as is.
+   */
+  async cancelPayment(
+    reference_id: string,
+    cancelDto: CancelPaymentDto,
+    user: AuthenticatedUser,
+  ): Promise<PaymentWithRelations> {
+    const payment = await this.getPaymentByReference(reference_id, user);
+
+    if (
+      !this.validateStateTransition(payment.status, PaymentStatus.CANCELLED)
+    ) {
+      this.logger.warn(
+        `Cannot cancel payment ${reference_id} in status ${payment.status}`,
+      );
+      throw new BadRequestException(
+        `Cannot cancel a payment in status ${payment.status}`,
+      );
+    }
+
+    const withdrawal = await this.withdrawAtProvider(payment);
+    if (!withdrawal.success) {
+      this.logger.warn(
+        `Provider ${payment.provider_name} refused to cancel payment ${reference_id}: ${withdrawal.message}`,
+      );
+      throw new ConflictException(
+        `The provider could not cancel the payment: ${withdrawal.message ?? 'no reason given'}`,
+      );
+    }
+
+    const cancelledPayment = await this.paymentsRepository.updateByReference(
+      reference_id,
+      { status: PaymentStatus.CANCELLED },
+      {
+        from_status: payment.status,
+        source: PaymentStatusSource.CANCELLATION,
+        actor_user_id: user.user_id,
+        reason: cancelDto.reason,
+      },
+    );
+
+    this.logger.log(
+      `Payment ${reference_id} cancelled by user ${user.user_id}`,
+    );
+    return cancelledPayment;
+  }
+
+  /**
+   * Return money of a SUCCESS payment through its provider, in full or in
+   * part. The refund is reserved before the provider is called, so the
+   * refunds of a payment never exceed its amount. It is released when the
+   * provider refuses the refund, and kept with the refund PENDING when the
+   * call failed without telling whether the provider acted on it. Same
+   * visibility rules as getPaymentByReference.
+   */
+  async refundPayment(
+    reference_id: string,
+    refundDto: RefundPaymentDto,
+    user: AuthenticatedUser,
+  ): Promise<Refund> {
+    const payment = await this.getPaymentByReference(reference_id, user);
+
+    if (payment.status !== PaymentStatus.SUCCESS) {
+      this.logger.warn(
+        `Cannot refund payment ${reference_id} in status ${payment.status}`,
+      );
+      throw new BadRequestException(
+        `Cannot refund a payment in status ${payment.status}`,
+      );
+    }
+
+    const provider = payment.provider_name
+      ? this.providerMap.get(payment.provider_name)
+      : undefined;
+    if (!provider || !payment.provider_transaction_id) {
+      throw new NotFoundException(`Payment provider not supported`);
+    }
+
+    const refund = await this.paymentsRepository.createRefund(payment, {
+      reference_id: this.generateRefundReference(),
+      amount: refundDto.amount,
+      reason: refundDto.reason,
+      requested_by_user_id: user.user_id,
+    });
+    this.logger.log(
+      `Refunding ${refund.amount} of payment ${reference_id} with ${provider.getProviderName()} as ${refund.reference_id}`,
+    );
+
+    let response: RefundResponse;
+    try {
+      response = await provider.refund(
+        refundRequest(payment, payment.provider_transaction_id, refund),
+      );
+    } catch (error) {
+      if (!isNotProcessed(error)) {
+        // The provider may have acted on it: the amount stays reserved until reconciliation learns the outcome
+        this.logger.warn(
+          `Outcome of refund ${refund.reference_id} unknown, left PENDING: ${(error as Error).message}`,
+        );
+        return refund;
+      }
+      // Releases the reserved amount; the provider call can be retried with a new refund
+      await this.paymentsRepository.completeRefund(refund, {
+        status: RefundStatus.FAILED,
+        failure_reason: (error as Error).message,
+      });
+      throw error;
+    }
+
+    const completedRefund = await this.paymentsRepository.completeRefund(
+      refund,
+      {
+        status: response.status,
+        provider_refund_id: response.provider_refund_id,
+        failure_reason:
+          response.status === RefundStatus.FAILED
+            ? response.message
+            : undefined,
+      },
+    );
+
+    this.logger.log(
+      `Refund ${refund.reference_id} of payment ${reference_id}: ${response.status}`,
+    );
+    return completedRefund;
+  }
+
+  /**
+   * Ask the provider for the outcome of a refund left PENDING, and record
+   * it once final. A FAILED outcome releases the reserved amount. Refunds
+   * of providers that cannot be asked are failed once
+   * REFUND_UNCONFIRMED_MAX_AGE_SECONDS old, for an operator to check.
+   */
+  async reconcileRefund(
+    refund: RefundWithPayment,
+  ): Promise<ReconciliationResult> {
+    const { payment } = refund;
+    const provider = payment.provider_name
+      ? this.providerMap.get(payment.provider_name)
+      : undefined;
+    if (!provider?.checkRefundStatus || !payment.provider_transaction_id) {
+      return this.failUnconfirmedRefund(refund);
+    }
+
+    const response = await provider.checkRefundStatus(
+      refundRequest(payment, payment.provider_transaction_id, refund),
+    );
+    if (response.status === RefundStatus.PENDING) {
+      return 'unchanged';
+    }
+
+    await this.paymentsRepository.completeRefund(refund, {
+      status: response.status,
+      provider_refund_id: response.provider_refund_id,
+      failure_reason:
+        response.status === RefundStatus.FAILED ? response.message : undefined,
+    });
+
+    this.logger.log(
+      `Refund ${refund.reference_id} of payment ${payment.reference_id} reconciled to ${response.status}`,
+    );
+    return 'updated';
+  }
+
+  private async failUnconfirmedRefund(
+    refund: RefundWithPayment,
+  ): Promise<ReconciliationResult> {
+    const { payment } = refund;
+    const age = Date.now() - refund.created_at.getTime();
+    if (age < REFUND_UNCONFIRMED_MAX_AGE_SECONDS * 1000) {
+      return 'unchanged';
+    }
+
+    await this.paymentsRepository.completeRefund(refund, {
+      status: RefundStatus.FAILED,
+      failure_reason: `Outcome not confirmed by ${payment.provider_name} within ${REFUND_UNCONFIRMED_MAX_AGE_SECONDS} seconds`,
+    });
+    this.logger.warn(
+      `Refund ${refund.reference_id} of payment ${payment.reference_id} failed unconfirmed, check it with ${payment.provider_name} before refunding again`,
+    );
+    return 'updated';
+  }
+
+  /**
+   * Refunds of a payment, oldest first. Same visibility rules as
+   * getPaymentByReference.
+   */
+  async listRefunds(
+    reference_id: string,
+    user: AuthenticatedUser,
+  ): Promise<Refund[]> {
+    const payment = await this.getPaymentByReference(reference_id, user);
+    return this.paymentsRepository.findRefunds(payment.id);
+  }
+
+  /**
+   * Expire a payment past its expiry window. Like a cancellation, the
+   * provider withdraws the request first; payments it refuses to withdraw
+   * are left to reconciliation.
+   */
+  async expirePayment(payment: Payment): Promise<ExpiryResult> {
+    const withdrawal = await this.withdrawAtProvider(payment);
+    if (!withdrawal.success) {
+      this.logger.warn(
+        `Provider ${payment.provider_name} refused to withdraw overdue payment ${payment.reference_id}: ${withdrawal.message}`,
+      );
+      return 'provider_refused';
+    }
+
+    await this.paymentsRepository.updateByReference(
+      payment.reference_id,
+      { status: PaymentStatus.EXPIRED },
+      {
+        from_status: payment.status,
+        source: PaymentStatusSource.EXPIRY,
+        reason: `Not completed by ${payment.expires_at.toISOString()}`,
+      },
+    );
+
+    this.logger.log(
+      `Payment ${payment.reference_id} expired in status ${payment.status}`,
+    );
+    return 'expired';
+  }
+
+  /**
+   * Call the provider cancel hook for payments sent to a provider that has
+   * one. Payments sent to a provider without one are checked with it
+   * instead, and only closed while it still reports them PENDING; payments
+   * never sent can be closed locally.
+   */
+  private async withdrawAtProvider(
+    payment: Payment,
+  ): Promise<CancelPaymentResponse> {
+    const provider = payment.provider_name
+      ? this.providerMap.get(payment.provider_name)
+      : undefined;
+    if (!provider || !payment.provider_transaction_id) {
+      return { success: true };
+    }
+
+    const request = {
+      provider_transaction_id: payment.provider_transaction_id,
+      reference_id: payment.reference_id,
+    };
+    if (provider.cancelPayment) {
+      return provider.cancelPayment(request);
+    }
+
+    const response = await provider.checkPaymentStatus(request);
+    if (response.status !== PaymentStatus.PENDING) {
+      return {
+        success: false,
+        message: `The provider reports the payment ${response.status}`,
+      };
+    }
+    return { success: true };
+  }
+
+  /**
+   * Apply a provider status update. `provider` is the authenticated sender
+   * (see WebhookSignatureGuard): it may only update its own payments.
+   * `webhookEventId` is the logged delivery, marked PROCESSED when applied
+   * or DUPLICATE when an earlier delivery of the same event was, or the
+   * payment already has the status.
+   */
+  async handleWebhook(
+    webhookDto: WebhookDto,
+    provider: string,
+    webhookEventId: number,
+  ): Promise<PaymentWithRelations> {
     const lockKey = `payment:webhook:${webhookDto.payment_reference_id}`;
     const lock = await this.utilsService.redisLock(lockKey, 1000 * 10);
     if (!lock) {
@@ -213,20 +871,56 @@ export class PaymentsService {
       `Processing webhook for payment reference: ${webhookDto.payment_reference_id}`,
     );
 
-    const existingWebhook = await this.paymentsRepository.findWebhookEvent(
-      webhookDto.payment_reference_id,
+    try {
+      return await this.applyWebhook(webhookDto, provider, webhookEventId);
+    } finally {
+      await this.utilsService.redisUnlock(lockKey);
+    }
+  }
+
+  /**
+   * Apply a callback in Airtel's format, translated to a webhook
+   */
+  async handleAirtelCallback(
+    callback: AirtelCallbackDto,
+    webhookEventId: number,
+  ): Promise<PaymentWithRelations> {
+    return this.handleWebhook(
+      this.airtelProvider.toWebhook(callback),
+      'airtel',
+      webhookEventId,
     );
+  }
 
-    if (existingWebhook && existingWebhook.is_processed) {
+  private async applyWebhook(
+    webhookDto: WebhookDto,
+    provider: string,
+    webhookEventId: number,
+  ): Promise<PaymentWithRelations> {
+    // Providers retry deliveries; a retry carries the same event, not a new status change
+    const dedup_key =
+      webhookDto.event_id ??
+      `${webhookDto.provider_transaction_id}:${webhookDto.status}`;
+
+    const processedEvent =
+      await this.paymentsRepository.findProcessedWebhookEvent(
+        provider.toLowerCase(),
+        dedup_key,
+      );
+
+    if (processedEvent) {
       this.logger.log(
-        `Webhook for payment reference ${webhookDto.payment_reference_id} already processed, returning existing payment`,
+        `Webhook event ${dedup_key} for payment reference ${webhookDto.payment_reference_id} already processed by delivery ${processedEvent.id}, returning existing payment`,
       );
       const payment = await this.paymentsRepository.findByReference(
-        webhookDto.payment_reference_id,
+        processedEvent.payment_reference_id ?? webhookDto.payment_reference_id,
       );
       if (!payment) {
         throw new NotFoundException('Payment not found');
       }
+      await this.paymentsRepository.updateWebhookEvent(webhookEventId, {
+        outcome: WebhookOutcome.DUPLICATE,
+      });
       return payment;
     }
 
@@ -243,6 +937,26 @@ export class PaymentsService {
       );
     }
 
+    if (payment.provider_name?.toLowerCase() !== provider.toLowerCase()) {
+      this.logger.warn(
+        `Webhook from ${provider} for payment ${webhookDto.payment_reference_id} of provider ${payment.provider_name}`,
+      );
+      throw new NotFoundException(
+        `Payment with reference ${webhookDto.payment_reference_id} not found`,
+      );
+    }
+
+    // Providers also report statuses the payment already has, e.g. Airtel's TIP
+    if (payment.status === webhookDto.status) {
+      this.logger.log(
+        `Payment ${webhookDto.payment_reference_id} already ${payment.status}, webhook delivery ${webhookEventId} changes nothing`,
+      );
+      await this.paymentsRepository.updateWebhookEvent(webhookEventId, {
+        outcome: WebhookOutcome.DUPLICATE,
+      });
+      return payment;
+    }
+
     if (!this.validateStateTransition(payment.status, webhookDto.status)) {
       this.logger.warn(
         `Invalid state transition from ${payment.status} to ${webhookDto.status} for payment ${webhookDto.payment_reference_id}`,
@@ -252,15 +966,21 @@ export class PaymentsService {
       );
     }
 
-    const updatedPayment = await this.paymentsRepository.processWebhookTransaction(
-      payment.id,
-      {
-        payment_reference_id: webhookDto.payment_reference_id,
-        status: webhookDto.status,
-        provider_transaction_id: webhookDto.provider_transaction_id,
-        timestamp: new Date(webhookDto.timestamp),
-      },
-    );
+    const updatedPayment =
+      await this.paymentsRepository.processWebhookTransaction(
+        payment.id,
+        webhookEventId,
+        {
+          status: webhookDto.status,
+          provider_transaction_id: webhookDto.provider_transaction_id,
+          dedup_key,
+        },
+        {
+          from_status: payment.status,
+          source: PaymentStatusSource.WEBHOOK,
+          reason: `Webhook delivery ${webhookEventId} from ${provider.toLowerCase()}`,
+        },
+      );
 
     this.logger.log(
       `Webhook processed successfully for payment ${webhookDto.payment_reference_id}, status updated to ${webhookDto.status}`,
@@ -269,3 +989,49 @@ export class PaymentsService {
     return updatedPayment;
   }
 }
+
+// The provider request of a refund, also used to check on it later
+function refundRequest(
+  payment: Pick<Payment, 'amount'> & { currency: { name: string } },
+  provider_transaction_id: string,
+  refund: Refund,
+): RefundRequest {
+  return {
+    provider_transaction_id,
+    refund_reference_id: refund.reference_id,
+    amount: refund.amount,
+    payment_amount: payment.amount,
+    currency: payment.currency.name,
+    reason: refund.reason ?? undefined,
+  };
+}
+
+function encodeCursor(cursor: PaymentCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(encoded: string): PaymentCursor {
+  let cursor: Partial<PaymentCursor>;
+  try {
+    cursor = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as Partial<PaymentCursor>;
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const valid =
+    cursor !== null &&
+    typeof cursor === 'object' &&
+    PAYMENT_SORT_FIELDS.includes(cursor.sort_by as PaymentSortField) &&
+    SORT_ORDERS.includes(cursor.sort_order as SortOrder) &&
+    Number.isInteger(cursor.id) &&
+    (cursor.sort_by === 'created_at'
+      ? typeof cursor.value === 'string' &&
+        !Number.isNaN(Date.parse(cursor.value))
+      : typeof cursor.value === 'number');
+  if (!valid) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return cursor as PaymentCursor;
+}
@@ -0,0 +1,264 @@
+import { ConfigService } from '@nestjs/config';
+import { PaymentStatus, RefundStatus } from '@prisma/client';
+import { AirtelProvider } from './airtel.provider';
+import {
+  AirtelMockServer,
+  startAirtelMockServer,
+} from '../../../test/mocks/airtel-mock-server';
+
+describe('AirtelProvider', () => {
+  let server: AirtelMockServer;
+  let provider: AirtelProvider;
+
+  const createProvider = (config: Record<string, string> = {}) =>
+    new AirtelProvider(
+      new ConfigService({
+        AIRTEL_API_URL: server.url,
+        AIRTEL_CLIENT_ID: 'airtel-client-id',
+        AIRTEL_CLIENT_SECRET: 'airtel-client-secret',
+        ...config,
+      }),
+    );
+
+  const collect = (reference_id: string, customer_phone = '+256700000000') =>
+    provider.initiatePayment({
+      amount: 5000,
+      currency: 'UGX',
+      customer_phone,
+      reference_id,
+    });
+
+  beforeAll(async () => {
+    server = await startAirtelMockServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    provider = createProvider();
+  });
+
+  describe('initiatePayment', () => {
+    it('should request a collection from the subscriber', async () => {
+      await expect(collect('PAY-1-A')).resolves.toMatchObject({
+        success: true,
+        provider_transaction_id: 'PAY-1-A',
+        status: PaymentStatus.PENDING,
+      });
+
+      const request = server.requests.find(
+        ({ path }) => path === '/merchant/v1/payments/',
+      );
+      expect(request?.headers).toMatchObject({
+        'x-country': 'UG',
+        'x-currency': 'UGX',
+      });
+      expect(request?.headers.authorization).toMatch(/^Bearer \w+$/);
+      expect(request?.body).toEqual({
+        reference: 'PAY-1-A',
+        subscriber: { country: 'UG', currency: 'UGX', msisdn: '700000000' },
+        transaction: {
+          amount: 5000,
+          country: 'UG',
+          currency: 'UGX',
+          id: 'PAY-1-A',
+        },
+      });
+    });
+
+    it('should reuse the access token until it expires', async () => {
+      await collect('PAY-2-A');
+      await collect('PAY-2-B');
+
+      expect(
+        server.requests.filter(({ path }) => path === '/auth/oauth2/token'),
+      ).toHaveLength(1);
+    });
+
+    it('should fail payments Airtel refuses', async () => {
+      await expect(collect('PAY-3-A', '+256700000003')).resolves.toEqual({
+        success: false,
+        provider_transaction_id: '',
+        status: PaymentStatus.FAILED,
+        message: 'The subscriber is not registered',
+      });
+    });
+
+    it('should fail payments in another currency without calling Airtel', async () => {
+      await expect(
+        provider.initiatePayment({
+          amount: 10,
+          currency: 'USD',
+          customer_phone: '+256700000000',
+          reference_id: 'PAY-4-A',
+        }),
+      ).resolves.toMatchObject({ status: PaymentStatus.FAILED });
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should fail payments when the credentials are refused', async () => {
+      provider = createProvider({ AIRTEL_CLIENT_SECRET: 'wrong' });
+
+      await expect(collect('PAY-5-A')).resolves.toMatchObject({
+        success: false,
+        status: PaymentStatus.FAILED,
+      });
+      expect(server.transactions.has('PAY-5-A')).toBe(false);
+    });
+  });
+
+  describe('checkPaymentStatus', () => {
+    it('should report collections in progress as pending', async () => {
+      await collect('PAY-6-A');
+
+      await expect(
+        provider.checkPaymentStatus({
+          provider_transaction_id: 'PAY-6-A',
+          reference_id: 'PAY-6-A',
+        }),
+      ).resolves.toMatchObject({
+        status: PaymentStatus.PENDING,
+        provider_transaction_id: 'PAY-6-A',
+      });
+    });
+
+    it('should report the outcome with the Airtel Money ID', async () => {
+      await collect('PAY-7-A');
+      await collect('PAY-7-B', '+256700000001');
+      await collect('PAY-7-C', '+256700000002');
+      const settled = await server.settle('PAY-7-A');
+      await server.settle('PAY-7-B');
+      await server.settle('PAY-7-C');
+
+      const status = (reference_id: string) =>
+        provider.checkPaymentStatus({
+          provider_transaction_id: reference_id,
+          reference_id,
+        });
+      await expect(status('PAY-7-A')).resolves.toMatchObject({
+        status: PaymentStatus.SUCCESS,
+        provider_transaction_id: settled.airtel_money_id,
+      });
+      await expect(status('PAY-7-B')).resolves.toMatchObject({
+        status: PaymentStatus.FAILED,
+        message: 'Insufficient funds',
+      });
+      await expect(status('PAY-7-C')).resolves.toMatchObject({
+        status: PaymentStatus.EXPIRED,
+      });
+    });
+
+    it('should throw for transactions Airtel does not know', async () => {
+      await expect(
+        provider.checkPaymentStatus({
+          provider_transaction_id: 'PAY-8-A',
+          reference_id: 'PAY-8-A',
+        }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('refund', () => {
+    const refund = (provider_transaction_id: string, amount = 5000) =>
+      provider.refund({
+        provider_transaction_id,
+        refund_reference_id: 'RFD-1-A',
+        amount,
+        payment_amount: 5000,
+        currency: 'UGX',
+      });
+
+    it('should reverse a completed collection', async () => {
+      await collect('PAY-9-A');
+      const { airtel_money_id } = await server.settle('PAY-9-A');
+
+      const response = await refund(airtel_money_id!);
+
+      expect(response.status).toBe(RefundStatus.SUCCESS);
+      expect(response.provider_refund_id).toMatch(/^RF/);
+      await expect(refund(airtel_money_id!)).resolves.toMatchObject({
+        status: RefundStatus.FAILED,
+        message: 'Transaction is not eligible for refund',
+      });
+    });
+
+    it('should fail refunds when the credentials are refused', async () => {
+      provider = createProvider({ AIRTEL_CLIENT_SECRET: 'wrong' });
+
+      await expect(refund('MP1.ABC')).resolves.toMatchObject({
+        status: RefundStatus.FAILED,
+      });
+      expect(server.requests.some(({ path }) => path.endsWith('/refund'))).toBe(
+        false,
+      );
+    });
+
+    it('should refuse partial refunds without calling Airtel', async () => {
+      await expect(refund('MP1.ABC', 1000)).resolves.toMatchObject({
+        status: RefundStatus.FAILED,
+      });
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+
+  describe('checkRefundStatus', () => {
+    const checkRefund = (provider_transaction_id: string) =>
+      provider.checkRefundStatus({
+        provider_transaction_id,
+        refund_reference_id: 'RFD-2-A',
+        amount: 5000,
+        payment_amount: 5000,
+        currency: 'UGX',
+      });
+
+    it('should make a refund that never reached Airtel', async () => {
+      await collect('PAY-10-A');
+      const { airtel_money_id } = await server.settle('PAY-10-A');
+
+      await expect(checkRefund(airtel_money_id!)).resolves.toMatchObject({
+        status: RefundStatus.SUCCESS,
+      });
+      expect(server.transactions.get('PAY-10-A')?.refunded).toBe(true);
+    });
+
+    it('should leave the refund pending when Airtel refuses the repeat', async () => {
+      await collect('PAY-11-A');
+      const { airtel_money_id } = await server.settle('PAY-11-A');
+      await provider.refund({
+        provider_transaction_id: airtel_money_id!,
+        refund_reference_id: 'RFD-2-A',
+        amount: 5000,
+        payment_amount: 5000,
+        currency: 'UGX',
+      });
+
+      await expect(checkRefund(airtel_money_id!)).resolves.toEqual({
+        status: RefundStatus.PENDING,
+        message:
+          'Airtel refused the repeated refund: Transaction is not eligible for refund',
+      });
+    });
+  });
+
+  describe('toWebhook', () => {
+    it('should translate an Airtel callback', () => {
+      expect(
+        provider.toWebhook({
+          transaction: {
+            id: 'PAY-10-A',
+            message: 'Paid UGX 5000',
+            status_code: 'TF',
+            airtel_money_id: 'MP1.ABC',
+          },
+        }),
+      ).toMatchObject({
+        payment_reference_id: 'PAY-10-A',
+        provider_transaction_id: 'MP1.ABC',
+        status: PaymentStatus.FAILED,
+      });
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentStatus, RefundStatus } from '@prisma/client';
+import Axios, { AxiosError } from 'axios';
+import {
+  PaymentProvider,
+  InitiatePaymentRequest,
+  InitiatePaymentResponse,
+  CheckPaymentStatusRequest,
+  CheckPaymentStatusResponse,
+  RefundRequest,
+  RefundResponse,
+} from './provider.interface';
+import { WebhookDto } from '../dto/webhook.dto';
+import { AirtelCallbackDto } from '../dto/airtel-callback.dto';
+import {
+  AIRTEL_DEFAULT_API_URL,
+  AIRTEL_DEFAULT_COUNTRY,
+  AIRTEL_DEFAULT_CURRENCY,
+  AIRTEL_STATUSES,
+  AIRTEL_TIMEOUT_MS,
+  AIRTEL_TOKEN_REFRESH_MARGIN_SECONDS,
+} from '../payments.constants';
+
+// Every Airtel Open API response carries its outcome next to the data
+interface AirtelEnvelope<T> {
+  data?: T;
+  status?: {
+    success?: boolean;
+    code?: string;
+    message?: string;
+    response_code?: string;
+  };
+}
+
+interface AirtelTransaction {
+  transaction?: {
+    id?: string;
+    airtel_money_id?: string;
+    status?: string;
+    message?: string;
+  };
+}
+
+interface AirtelToken {
+  access_token: string;
+  expires_in: number | string;
+}
+
+/**
+ * Airtel Money collections through the Airtel Africa Open API. Payments are
+ * identified at Airtel by our reference, which is also echoed back in
+ * callbacks; the Airtel Money ID of a completed transaction replaces it as
+ * provider transaction ID, since refunds are made against it.
+ */
+@Injectable()
+export class AirtelProvider implements PaymentProvider {
+  private readonly logger = new Logger(AirtelProvider.name);
+  private readonly providerName = 'AIRTEL';
+  private token?: { value: string; expiresAt: number };
+
+  constructor(private readonly configService: ConfigService) {}
+
+  getProviderName(): string {
+    return this.providerName;
+  }
+
+  /** Collections are sent with the payment reference as transaction ID */
+  newTransactionId(request: InitiatePaymentRequest): string {
+    return request.reference_id;
+  }
+
+  async initiatePayment(
+    request: InitiatePaymentRequest,
+  ): Promise<InitiatePaymentResponse> {
+    if (request.currency !== this.currency()) {
+      return {
+        success: false,
+        provider_transaction_id: '',
+        status: PaymentStatus.FAILED,
+        message: `Airtel Money ${this.country()} only collects ${this.currency()}`,
+      };
+    }
+
+    try {
+      await this.accessToken();
+    } catch (error) {
+      // Nothing was sent to the customer
+      return {
+        success: false,
+        provider_transaction_id: '',
+        status: PaymentStatus.FAILED,
+        message: describeFailure(error),
+      };
+    }
+
+    let response: AirtelEnvelope<AirtelTransaction>;
+    try {
+      response = await this.send<AirtelTransaction>(
+        'post',
+        '/merchant/v1/payments/',
+        {
+          reference: request.reference_id,
+          subscriber: {
+            country: this.country(),
+            currency: this.currency(),
+            msisdn: this.toMsisdn(request.customer_phone),
+          },
+          transaction: {
+            amount: request.amount,
+            country: this.country(),
+            currency: this.currency(),
+            id: request.reference_id,
+          },
+        },
+      );
+    } catch (error) {
+      if (isRejection(error)) {
+        return {
+          success: false,
+          provider_transaction_id: '',
+          status: PaymentStatus.FAILED,
+          message: describeFailure(error),
+        };
+      }
+      // The request may have reached Airtel: left PENDING for reconciliation to settle
+      this.logger.warn(
+        `Airtel did not answer the collection of ${request.reference_id}: ${describeFailure(error)}`,
+      );
+      return {
+        success: true,
+        provider_transaction_id: request.reference_id,
+        status: PaymentStatus.PENDING,
+        message: 'Payment request sent, awaiting confirmation from Airtel',
+      };
+    }
+
+    if (!response.status?.success) {
+      return {
+        success: false,
+        provider_transaction_id: '',
+        status: PaymentStatus.FAILED,
+        message: response.status?.message ?? 'Failed to initiate payment',
+      };
+    }
+
+    return {
+      success: true,
+      provider_transaction_id:
+        response.data?.transaction?.id ?? request.reference_id,
+      status: PaymentStatus.PENDING,
+      message:
+        'Payment initiated successfully. Please approve on your mobile device.',
+    };
+  }
+
+  async checkPaymentStatus(
+    request: CheckPaymentStatusRequest,
+  ): Promise<CheckPaymentStatusResponse> {
+    const id = request.reference_id ?? request.provider_transaction_id;
+    const response = await this.send<AirtelTransaction>(
+      'get',
+      `/standard/v1/payments/${encodeURIComponent(id)}`,
+    );
+
+    const transaction = response.data?.transaction;
+    const status = transaction?.status
+      ? AIRTEL_STATUSES[transaction.status]
+      : undefined;
+    if (!response.status?.success || !status) {
+      throw new Error(
+        `Airtel status check of ${id} failed: ${response.status?.message ?? `unknown status ${transaction?.status}`}`,
+      );
+    }
+
+    return {
+      status,
+      provider_transaction_id:
+        transaction?.airtel_money_id ?? request.provider_transaction_id,
+      message: transaction?.message,
+    };
+  }
+
+  /**
+   * Airtel reverses whole transactions only, so partial refunds fail
+   * without calling it.
+   */
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    if (request.amount < request.payment_amount) {
+      return {
+        status: RefundStatus.FAILED,
+        message: 'Airtel Money only refunds the full amount of a payment',
+      };
+    }
+
+    try {
+      await this.accessToken();
+    } catch (error) {
+      // Nothing was sent to Airtel
+      return { status: RefundStatus.FAILED, message: describeFailure(error) };
+    }
+
+    let response: AirtelEnvelope<AirtelTransaction>;
+    try {
+      response = await this.send<AirtelTransaction>(
+        'post',
+        '/standard/v1/payments/refund',
+        { transaction: { airtel_money_id: request.provider_transaction_id } },
+      );
+    } catch (error) {
+      if (isRejection(error)) {
+        return { status: RefundStatus.FAILED, message: describeFailure(error) };
+      }
+      throw error;
+    }
+
+    const transaction = response.data?.transaction;
+    if (!response.status?.success || transaction?.status === 'FAILED') {
+      return {
+        status: RefundStatus.FAILED,
+        message:
+          transaction?.message ?? response.status?.message ?? 'Refund failed',
+      };
+    }
+
+    return {
+      status:
+        transaction?.status === 'SUCCESS'
+          ? RefundStatus.SUCCESS
+          : RefundStatus.PENDING,
+      provider_refund_id: transaction?.airtel_money_id,
+      message: transaction?.message ?? response.status.message,
+    };
+  }
+
+  /**
+   * Airtel has no refund enquiry, but reverses a transaction only once, so
+   * the refund is asked again: Airtel accepts the repeat when the first
+   * request never reached it. A refused repeat leaves the refund PENDING,
+   * since the first request may be the reason.
+   */
+  async checkRefundStatus(request: RefundRequest): Promise<RefundResponse> {
+    const response = await this.refund(request);
+    if (response.status !== RefundStatus.FAILED) {
+      return response;
+    }
+    return {
+      status: RefundStatus.PENDING,
+      message: `Airtel refused the repeated refund: ${response.message}`,
+    };
+  }
+
+  /**
+   * Translate an Airtel callback into a webhook of the common format.
+   * Airtel sends no event ID, so retries are recognised by transaction and
+   * status.
+   */
+  toWebhook(callback: AirtelCallbackDto): WebhookDto {
+    const { id, airtel_money_id, status_code } = callback.transaction;
+    return {
+      payment_reference_id: id,
+      provider_transaction_id: airtel_money_id ?? id,
+      status: AIRTEL_STATUSES[status_code],
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async send<T>(
+    method: 'get' | 'post',
+    path: string,
+    data?: object,
+  ): Promise<AirtelEnvelope<T>> {
+    try {
+      const response = await Axios.request<AirtelEnvelope<T>>({
+        method,
+        url: `${this.apiUrl()}${path}`,
+        data,
+        timeout: AIRTEL_TIMEOUT_MS,
+        headers: {
+          Authorization: `Bearer ${await this.accessToken()}`,
+          'X-Country': this.country(),
+          'X-Currency': this.currency(),
+          'Content-Type': 'application/json',
+          Accept: '*/*',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      if ((error as AxiosError).response?.status === 401) {
+        // Revoked before its expiry: fetched again on the next call
+        this.token = undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** Client credentials token, reused until shortly before it expires */
+  private async accessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    const client_id = this.configService.get<string>('AIRTEL_CLIENT_ID');
+    const client_secret = this.configService.get<string>(
+      'AIRTEL_CLIENT_SECRET',
+    );
+    if (!client_id || !client_secret) {
+      throw new Error('AIRTEL_CLIENT_ID and AIRTEL_CLIENT_SECRET are not set');
+    }
+
+    const response = await Axios.post<AirtelToken>(
+      `${this.apiUrl()}/auth/oauth2/token`,
+      { client_id, client_secret, grant_type: 'client_credentials' },
+      { timeout: AIRTEL_TIMEOUT_MS },
+    );
+    this.token = {
+      value: response.data.access_token,
+      expiresAt:
+        Date.now() +
+        (Number(response.data.expires_in) -
+          AIRTEL_TOKEN_REFRESH_MARGIN_SECONDS) *
+          1000,
+    };
+    return this.token.value;
+  }
+
+  /** Airtel expects the subscriber number without the country dialling code */
+  private toMsisdn(phone: string): string {
+    const digits = phone.replace(/\D/g, '');
+    const dialCode = this.configService.get<string>('AIRTEL_DIAL_CODE', '256');
+    return digits.startsWith(dialCode) ? digits.slice(dialCode.length) : digits;
+  }
+
+  private apiUrl(): string {
+    return this.configService
+      .get<string>('AIRTEL_API_URL', AIRTEL_DEFAULT_API_URL)
+      .replace(/\/+$/, '');
+  }
+
+  private country(): string {
+    return this.configService.get<string>(
+      'AIRTEL_COUNTRY',
+      AIRTEL_DEFAULT_COUNTRY,
+    );
+  }
+
+  private currency(): string {
+    return this.configService.get<string>(
+      'AIRTEL_CURRENCY',
+      AIRTEL_DEFAULT_CURRENCY,
+    );
+  }
+}
+
+/** Airtel answered with a 4xx: the request was refused, not lost */
+function isRejection(error: unknown): boolean {
+  const status = (error as AxiosError).response?.status;
+  return status !== undefined && status >= 400 && status < 500;
+}
+
+function describeFailure(error: unknown): string {
+  const envelope = (error as AxiosError<AirtelEnvelope<unknown>>).response
+    ?.data;
+  return envelope?.status?.message ?? (error as Error).message;
+}
@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentStatus } from '@prisma/client';
+import Axios, { AxiosError, AxiosResponse } from 'axios';
+import {
+  MTN_DEFAULT_API_URLS,
+  MTN_EXPIRED_REASON,
+  MTN_DEFAULT_TARGET_ENVIRONMENT,
+  MTN_MODES,
+  MTN_STATUSES,
+  MTN_TIMEOUT_MS,
+  MTN_TOKEN_REFRESH_MARGIN_SECONDS,
+} from '../payments.constants';
+import type { MtnMode } from '../payments.constants';
+
+export interface MomoParty {
+  partyIdType: 'MSISDN';
+  // International number without the +, e.g. 256772123456
+  partyId: string;
+}
+
+export interface MomoRequestToPay {
+  // Decimal string, as MoMo expects
+  amount: string;
+  currency: string;
+  externalId: string;
+  payer: MomoParty;
+  payerMessage?: string;
+  payeeNote?: string;
+}
+
+export interface MomoRequestToPayStatus extends Partial<MomoRequestToPay> {
+  // PENDING, SUCCESSFUL or FAILED
+  status?: string;
+  financialTransactionId?: string;
+  // A code such as APPROVAL_REJECTED; some MoMo versions send an object
+  reason?: string | { code?: string; message?: string };
+}
+
+// Body of MoMo error responses
+export interface MomoError {
+  code?: string;
+  message?: string;
+}
+
+interface MomoToken {
+  access_token: string;
+  expires_in: number | string;
+}
+
+/**
+ * Client of the MoMo Collection API: API user tokens, request to pay, its
+ * status and account holder checks. Requests to pay are identified by the
+ * X-Reference-Id chosen by the caller, so a request whose answer was lost
+ * can still be looked up.
+ */
+@Injectable()
+export class MtnMomoClient {
+  readonly mode: MtnMode;
+  private token?: { value: string; expiresAt: number };
+
+  constructor(private readonly configService: ConfigService) {
+    const mode = this.configService.get<string>('MTN_MODE') || 'mock';
+    if (!(MTN_MODES as readonly string[]).includes(mode)) {
+      throw new Error(
+        `Invalid MTN_MODE ${mode}, expected one of ${MTN_MODES.join(', ')}`,
+      );
+    }
+    this.mode = mode as MtnMode;
+  }
+
+  /**
+   * Ask the payer to approve a payment. MoMo accepts it with a 202 and
+   * processes it asynchronously.
+   */
+  async requestToPay(
+    referenceId: string,
+    request: MomoRequestToPay,
+  ): Promise<void> {
+    await this.send('post', '/collection/v1_0/requesttopay', request, {
+      'X-Reference-Id': referenceId,
+    });
+  }
+
+  async getRequestToPay(referenceId: string): Promise<MomoRequestToPayStatus> {
+    return this.send<MomoRequestToPayStatus>(
+      'get',
+      `/collection/v1_0/requesttopay/${encodeURIComponent(referenceId)}`,
+    );
+  }
+
+  /** Whether `msisdn` (international, without the +) can pay with MoMo */
+  async isAccountHolderActive(msisdn: string): Promise<boolean> {
+    const response = await this.send<{ result?: boolean }>(
+      'get',
+      `/collection/v1_0/accountholder/msisdn/${encodeURIComponent(msisdn)}/active`,
+    );
+    return response.result === true;
+  }
+
+  private async send<T>(
+    method: 'get' | 'post',
+    path: string,
+    data?: object,
+    headers: Record<string, string> = {},
+  ): Promise<T> {
+    try {
+      const response = await Axios.request<T>({
+        method,
+        url: `${this.apiUrl()}${path}`,
+        data,
+        timeout: MTN_TIMEOUT_MS,
+        headers: {
+          ...headers,
+          Authorization: `Bearer ${await this.accessToken()}`,
+          'X-Target-Environment': this.targetEnvironment(),
+          'Ocp-Apim-Subscription-Key': this.subscriptionKey(),
+          'Content-Type': 'application/json',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      if ((error as AxiosError).response?.status === 401) {
+        // Revoked before its expiry: fetched again on the next call
+        this.token = undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** API user token, reused until shortly before it expires */
+  private async accessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    const username = this.configService.get<string>('MTN_API_USER');
+    const password = this.configService.get<string>('MTN_API_KEY');
+    if (!username || !password) {
+      throw new Error('MTN_API_USER and MTN_API_KEY are not set');
+    }
+
+    let response: AxiosResponse<MomoToken>;
+    try {
+      response = await Axios.post<MomoToken>(
+        `${this.apiUrl()}/collection/token/`,
+        undefined,
+        {
+          auth: { username, password },
+          headers: { 'Ocp-Apim-Subscription-Key': this.subscriptionKey() },
+          timeout: MTN_TIMEOUT_MS,
+        },
+      );
+    } catch (error) {
+      // Not an answer to the call being made: a refused token is a fault of
+      // the configuration or of MoMo, never of the payment
+      const status = (error as AxiosError).response?.status;
+      if (status === undefined) {
+        throw error;
+      }
+      throw new Error(`MoMo refused the API user token with ${status}`, {
+        cause: error,
+      });
+    }
+    this.token = {
+      value: response.data.access_token,
+      expiresAt:
+        Date.now() +
+        (Number(response.data.expires_in) - MTN_TOKEN_REFRESH_MARGIN_SECONDS) *
+          1000,
+    };
+    return this.token.value;
+  }
+
+  private targetEnvironment(): string {
+    return (
+      this.configService.get<string>('MTN_TARGET_ENVIRONMENT') ||
+      MTN_DEFAULT_TARGET_ENVIRONMENT
+    );
+  }
+
+  private subscriptionKey(): string {
+    const key = this.configService.get<string>('MTN_SUBSCRIPTION_KEY');
+    if (!key) {
+      throw new Error('MTN_SUBSCRIPTION_KEY is not set');
+    }
+    return key;
+  }
+
+  private apiUrl(): string {
+    const url =
+      this.configService.get<string>('MTN_API_URL') ||
+      MTN_DEFAULT_API_URLS[this.mode === 'mock' ? 'stand-in' : this.mode];
+    return url.replace(/\/+$/, '');
+  }
+}
+
+/**
+ * PaymentStatus of a MoMo status; FAILED requests the customer never
+ * answered are EXPIRED
+ */
+export function toPaymentStatus(
+  status: string | undefined,
+  reason: string | undefined,
+): PaymentStatus | undefined {
+  const paymentStatus = status ? MTN_STATUSES[status] : undefined;
+  return paymentStatus === PaymentStatus.FAILED && reason === MTN_EXPIRED_REASON
+    ? PaymentStatus.EXPIRED
+    : paymentStatus;
+}
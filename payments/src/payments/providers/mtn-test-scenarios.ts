@@ -0,0 +1,126 @@
+/**
+ * Deterministic outcomes of MTN payments in the `mock` and `stand-in`
+ * modes, so QA and merchant integrators can script them. A scenario is
+ * picked by the customer phone number, then by the amount; anything else
+ * is approved after the settle delay.
+ */
+
+import { PaymentStatus } from '@prisma/client';
+import Axios from 'axios';
+import { signPayload } from '../webhook-signature.guard';
+import {
+  MTN_TIMEOUT_MS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../payments.constants';
+
+export const MTN_TEST_SCENARIOS = [
+  'immediate_success',
+  'pending_success',
+  'pending_failed',
+  'timeout',
+  'insufficient_funds',
+  'initiation_error',
+] as const;
+
+export type MtnTestScenario = (typeof MTN_TEST_SCENARIOS)[number];
+
+// In the MTN Uganda ranges, so provider routing sends them to MTN
+export const MTN_TEST_PHONE_NUMBERS: Record<string, MtnTestScenario> = {
+  '+256770000001': 'immediate_success',
+  '+256770000002': 'pending_success',
+  '+256770000003': 'pending_failed',
+  '+256770000004': 'timeout',
+  '+256770000005': 'insufficient_funds',
+  '+256770000006': 'initiation_error',
+};
+
+export const MTN_TEST_AMOUNTS: Record<number, MtnTestScenario> = {
+  1001: 'immediate_success',
+  1002: 'pending_success',
+  1003: 'pending_failed',
+  1004: 'timeout',
+  1005: 'insufficient_funds',
+  1006: 'initiation_error',
+};
+
+/**
+ * What MoMo does with the request to pay of a scenario, in MoMo terms:
+ * refuse it, or settle it right away or after the settle delay.
+ */
+export type MtnTestOutcome =
+  | { settle: 'refused'; code: string; message: string }
+  | {
+      settle: 'immediately' | 'after_delay';
+      status: 'SUCCESSFUL' | 'FAILED';
+      reason?: string;
+    };
+
+export const MTN_TEST_OUTCOMES: Record<MtnTestScenario, MtnTestOutcome> = {
+  immediate_success: { settle: 'immediately', status: 'SUCCESSFUL' },
+  pending_success: { settle: 'after_delay', status: 'SUCCESSFUL' },
+  pending_failed: {
+    settle: 'after_delay',
+    status: 'FAILED',
+    reason: 'APPROVAL_REJECTED',
+  },
+  // The customer never answers the prompt
+  timeout: { settle: 'after_delay', status: 'FAILED', reason: 'EXPIRED' },
+  insufficient_funds: {
+    settle: 'after_delay',
+    status: 'FAILED',
+    reason: 'NOT_ENOUGH_FUNDS',
+  },
+  initiation_error: {
+    settle: 'refused',
+    code: 'PAYER_NOT_FOUND',
+    message: 'Payer not found',
+  },
+};
+
+/** `phone` in E.164; the phone number wins over the amount */
+export function mtnTestScenario(
+  phone: string,
+  amount: number,
+): MtnTestScenario {
+  return (
+    MTN_TEST_PHONE_NUMBERS[phone] ??
+    MTN_TEST_AMOUNTS[amount] ??
+    'pending_success'
+  );
+}
+
+// Outcome of a settled test payment, as POST /payments/webhook/mtn takes it
+export interface MtnTestWebhook {
+  payment_reference_id: string;
+  provider_transaction_id: string;
+  status: PaymentStatus;
+}
+
+/**
+ * Send the webhook of a settled test payment to `url`, signed with
+ * `secret`; resolves to the HTTP status of the answer
+ */
+export async function sendMtnTestWebhook(
+  url: string,
+  secret: string,
+  webhook: MtnTestWebhook,
+): Promise<number> {
+  const body = JSON.stringify({
+    event_id: `evt_${webhook.provider_transaction_id}`,
+    ...webhook,
+    timestamp: new Date().toISOString(),
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const response = await Axios.post(url, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signPayload(secret, timestamp, body)}`,
+    },
+    timeout: MTN_TIMEOUT_MS,
+    validateStatus: () => true,
+  });
+  return response.status;
+}
@@ -0,0 +1,452 @@
+import { ConfigService } from '@nestjs/config';
+import { PaymentStatus, RefundStatus } from '@prisma/client';
+import { createServer, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { MtnProvider } from './mtn.provider';
+import { MtnMomoClient } from './mtn-momo.client';
+import {
+  MtnMomoMockServer,
+  startMtnMomoMockServer,
+} from '../../../test/mocks/mtn-momo-mock-server';
+import { signPayload } from '../webhook-signature.guard';
+
+describe('MtnProvider', () => {
+  let server: MtnMomoMockServer;
+  let provider: MtnProvider;
+
+  const createProvider = (config: Record<string, string> = {}) => {
+    const configService = new ConfigService({
+      MTN_MODE: 'stand-in',
+      MTN_API_URL: server.url,
+      MTN_API_USER: 'mtn-api-user',
+      MTN_API_KEY: 'mtn-api-key',
+      MTN_SUBSCRIPTION_KEY: 'mtn-subscription-key',
+      ...config,
+    });
+    return new MtnProvider(configService, new MtnMomoClient(configService));
+  };
+
+  const collect = (
+    reference_id: string,
+    customer_phone = '+256772123456',
+    amount = 5000,
+  ) =>
+    provider.initiatePayment({
+      amount,
+      currency: 'UGX',
+      customer_phone,
+      reference_id,
+    });
+
+  const status = (provider_transaction_id: string) =>
+    provider.checkPaymentStatus({ provider_transaction_id });
+
+  beforeAll(async () => {
+    server = await startMtnMomoMockServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    server.inactive.clear();
+    provider = createProvider();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse an unknown MTN_MODE', () => {
+    expect(() => createProvider({ MTN_MODE: 'live' })).toThrow(
+      'Invalid MTN_MODE live, expected one of mock, stand-in, sandbox',
+    );
+  });
+
+  describe('initiatePayment', () => {
+    it('should send a request to pay identified by its X-Reference-Id', async () => {
+      const response = await collect('PAY-1-A');
+
+      expect(response).toMatchObject({
+        success: true,
+        status: PaymentStatus.PENDING,
+      });
+      const request = server.requests.find(
+        ({ path }) => path === '/collection/v1_0/requesttopay',
+      );
+      expect(request?.headers).toMatchObject({
+        'x-reference-id': response.provider_transaction_id,
+        'x-target-environment': 'sandbox',
+        'ocp-apim-subscription-key': 'mtn-subscription-key',
+      });
+      expect(request?.headers.authorization).toMatch(/^Bearer \w+$/);
+      expect(request?.body).toEqual({
+        amount: '5000',
+        currency: 'UGX',
+        externalId: 'PAY-1-A',
+        payer: { partyIdType: 'MSISDN', partyId: '256772123456' },
+        payerMessage: 'Payment PAY-1-A',
+        payeeNote: 'Payment PAY-1-A',
+      });
+    });
+
+    it('should send the request to pay under the transaction ID chosen for it', async () => {
+      const request = {
+        amount: 5000,
+        currency: 'UGX',
+        customer_phone: '+256772123456',
+        reference_id: 'PAY-1-B',
+      };
+      const referenceId = provider.newTransactionId(request);
+
+      await expect(
+        provider.initiatePayment({
+          ...request,
+          provider_transaction_id: referenceId,
+        }),
+      ).resolves.toMatchObject({ provider_transaction_id: referenceId });
+      expect(server.requestsToPay.has(referenceId)).toBe(true);
+    });
+
+    it('should reuse the access token until it expires', async () => {
+      await collect('PAY-2-A');
+      await collect('PAY-2-B');
+
+      expect(
+        server.requests.filter(({ path }) => path === '/collection/token/'),
+      ).toHaveLength(1);
+    });
+
+    it('should fail payments of numbers without an active account', async () => {
+      server.inactive.add('256772000000');
+
+      await expect(collect('PAY-3-A', '+256772000000')).resolves.toEqual({
+        success: false,
+        provider_transaction_id: '',
+        status: PaymentStatus.FAILED,
+        message: '+256772000000 has no active MTN MoMo account',
+      });
+      expect(
+        [...server.requestsToPay.values()].map(({ msisdn }) => msisdn),
+      ).not.toContain('256772000000');
+    });
+
+    it('should throw when the credentials are refused', async () => {
+      provider = createProvider({ MTN_API_KEY: 'wrong' });
+
+      await expect(collect('PAY-4-A')).rejects.toThrow(
+        'MoMo refused the API user token with 401',
+      );
+      expect(
+        server.requests.filter(({ path }) => path !== '/collection/token/'),
+      ).toHaveLength(0);
+    });
+
+    it('should throw when MTN MoMo is not configured', async () => {
+      provider = createProvider({ MTN_SUBSCRIPTION_KEY: '' });
+
+      await expect(collect('PAY-4-B')).rejects.toThrow(
+        'MTN_SUBSCRIPTION_KEY is not set',
+      );
+    });
+
+    it('should throw when MoMo cannot be reached', async () => {
+      provider = createProvider({ MTN_API_URL: 'http://localhost:1' });
+
+      await expect(collect('PAY-5-A')).rejects.toMatchObject({
+        code: 'ECONNREFUSED',
+      });
+    });
+
+    it('should leave interrupted requests to pay pending', async () => {
+      jest
+        .spyOn(MtnMomoClient.prototype, 'requestToPay')
+        .mockRejectedValueOnce(
+          Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+        );
+
+      await expect(collect('PAY-5-B')).resolves.toMatchObject({
+        success: true,
+        status: PaymentStatus.PENDING,
+      });
+    });
+
+    it('should leave requests to pay MoMo fails to process pending', async () => {
+      jest.spyOn(MtnMomoClient.prototype, 'requestToPay').mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 503'), {
+          code: 'ERR_BAD_RESPONSE',
+          response: { status: 503 },
+        }),
+      );
+
+      const response = await collect('PAY-5-C');
+
+      expect(response).toMatchObject({
+        success: true,
+        status: PaymentStatus.PENDING,
+      });
+      expect(response.provider_transaction_id).not.toBe('');
+    });
+  });
+
+  describe('checkPaymentStatus', () => {
+    it('should report requests to pay in progress as pending', async () => {
+      const { provider_transaction_id } = await collect('PAY-6-A');
+
+      await expect(status(provider_transaction_id)).resolves.toEqual({
+        status: PaymentStatus.PENDING,
+        provider_transaction_id,
+        amount: 5000,
+        message: undefined,
+      });
+    });
+
+    it('should report the outcome and its reason', async () => {
+      const paid = await collect('PAY-7-A');
+      const refused = await collect('PAY-7-B');
+      const ignored = await collect('PAY-7-C');
+      server.settle(paid.provider_transaction_id);
+      server.settle(refused.provider_transaction_id, {
+        status: 'FAILED',
+        reason: 'APPROVAL_REJECTED',
+      });
+      server.settle(ignored.provider_transaction_id, {
+        status: 'FAILED',
+        reason: 'EXPIRED',
+      });
+
+      await expect(status(paid.provider_transaction_id)).resolves.toMatchObject(
+        { status: PaymentStatus.SUCCESS },
+      );
+      await expect(
+        status(refused.provider_transaction_id),
+      ).resolves.toMatchObject({
+        status: PaymentStatus.FAILED,
+        message: 'APPROVAL_REJECTED',
+      });
+      await expect(
+        status(ignored.provider_transaction_id),
+      ).resolves.toMatchObject({ status: PaymentStatus.EXPIRED });
+    });
+
+    it('should throw for requests to pay MoMo does not know', async () => {
+      await expect(
+        status('0b9c1a3e-5d2f-4e8a-9c7b-1f2e3d4c5b6a'),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('refund and cancelPayment', () => {
+    it('should fail without calling MoMo', async () => {
+      await expect(
+        provider.refund({
+          provider_transaction_id: 'MTN-1',
+          refund_reference_id: 'RFD-1-A',
+          amount: 5000,
+          payment_amount: 5000,
+          currency: 'UGX',
+        }),
+      ).resolves.toMatchObject({ status: RefundStatus.FAILED });
+      await expect(
+        provider.cancelPayment({
+          provider_transaction_id: 'MTN-1',
+          reference_id: 'PAY-8-A',
+        }),
+      ).resolves.toMatchObject({ success: false });
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+
+  describe('test scenarios', () => {
+    const secret = 'mtn-webhook-secret';
+    const webhooks: { headers: IncomingHttpHeaders; body: string }[] = [];
+    const receiver = createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('end', () => {
+        webhooks.push({
+          headers: request.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+        response.writeHead(200);
+        response.end();
+      });
+    });
+
+    const delivered = async (count: number) => {
+      for (let i = 0; i < 150 && webhooks.length < count; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return webhooks;
+    };
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => receiver.close(() => resolve()));
+    });
+
+    const callbackUrl = () =>
+      `http://localhost:${(receiver.address() as AddressInfo).port}/payments/webhook/mtn`;
+
+    beforeEach(() => {
+      webhooks.length = 0;
+    });
+
+    it('should play the scenario of the payer number on the stand-in', async () => {
+      const paid = await collect('PAY-9-A', '+256770000001');
+      const refused = await collect('PAY-9-B', '+256770000006');
+      const broke = await collect('PAY-9-C', '+256770000005');
+      server.settle(broke.provider_transaction_id);
+
+      await expect(status(paid.provider_transaction_id)).resolves.toMatchObject(
+        { status: PaymentStatus.SUCCESS },
+      );
+      expect(refused).toMatchObject({
+        success: false,
+        status: PaymentStatus.FAILED,
+        message: 'Payer not found',
+      });
+      await expect(status(broke.provider_transaction_id)).resolves.toEqual(
+        expect.objectContaining({
+          status: PaymentStatus.FAILED,
+          message: 'NOT_ENOUGH_FUNDS',
+        }),
+      );
+    });
+
+    it('should call back with the outcome from the stand-in', async () => {
+      const standIn = await startMtnMomoMockServer({
+        settle_after_ms: 50,
+        callback: { url: callbackUrl(), secret },
+      });
+      provider = createProvider({ MTN_API_URL: standIn.url });
+
+      try {
+        const { provider_transaction_id } = await collect(
+          'PAY-15-A',
+          '+256770000003',
+        );
+        const [webhook] = await delivered(1);
+
+        expect(JSON.parse(webhook.body)).toMatchObject({
+          event_id: `evt_${provider_transaction_id}`,
+          payment_reference_id: 'PAY-15-A',
+          provider_transaction_id,
+          status: PaymentStatus.FAILED,
+        });
+        const timestamp = String(webhook.headers['x-webhook-timestamp']);
+        expect(webhook.headers['x-webhook-signature']).toBe(
+          `sha256=${signPayload(secret, timestamp, webhook.body)}`,
+        );
+      } finally {
+        await standIn.close();
+      }
+    });
+
+    describe('in mock mode', () => {
+      beforeEach(() => {
+        provider = createProvider({
+          MTN_MODE: 'mock',
+          MTN_MOCK_SETTLE_AFTER_MS: '1000',
+          MTN_MOCK_CALLBACK_URL: callbackUrl(),
+          MTN_WEBHOOK_SECRET: secret,
+        });
+      });
+
+      it('should succeed at once for the immediate success number', async () => {
+        const response = await collect('PAY-10-A', '+256770000001');
+
+        expect(response).toMatchObject({
+          success: true,
+          status: PaymentStatus.SUCCESS,
+        });
+        await expect(
+          status(response.provider_transaction_id),
+        ).resolves.toMatchObject({ status: PaymentStatus.SUCCESS });
+      });
+
+      it('should refuse payments of the initiation error amount', async () => {
+        await expect(
+          collect('PAY-11-A', '+256772123456', 1006),
+        ).resolves.toEqual({
+          success: false,
+          provider_transaction_id: '',
+          status: PaymentStatus.FAILED,
+          message: 'Payer not found',
+        });
+      });
+
+      it.each([
+        ['+256770000002', PaymentStatus.SUCCESS],
+        ['+256770000003', PaymentStatus.FAILED],
+        ['+256770000004', PaymentStatus.EXPIRED],
+        ['+256770000005', PaymentStatus.FAILED],
+      ])(
+        'should settle %s as %s and send the signed webhook',
+        async (phone, outcome) => {
+          const { provider_transaction_id } = await collect('PAY-12-A', phone);
+
+          await expect(status(provider_transaction_id)).resolves.toMatchObject({
+            status: PaymentStatus.PENDING,
+          });
+          const [webhook] = await delivered(1);
+          await expect(status(provider_transaction_id)).resolves.toMatchObject({
+            status: outcome,
+          });
+          const { timestamp: sentAt, ...event } = JSON.parse(
+            webhook.body,
+          ) as Record<string, string>;
+          expect(event).toEqual({
+            event_id: `evt_${provider_transaction_id}`,
+            payment_reference_id: 'PAY-12-A',
+            provider_transaction_id,
+            status: outcome,
+          });
+          expect(new Date(sentAt).toISOString()).toBe(sentAt);
+          const timestamp = String(webhook.headers['x-webhook-timestamp']);
+          expect(webhook.headers['x-webhook-signature']).toBe(
+            `sha256=${signPayload(secret, timestamp, webhook.body)}`,
+          );
+        },
+      );
+
+      it('should not send the webhook of cancelled payments', async () => {
+        const { provider_transaction_id } = await collect('PAY-13-A');
+
+        await expect(
+          provider.cancelPayment({
+            provider_transaction_id,
+            reference_id: 'PAY-13-A',
+          }),
+        ).resolves.toMatchObject({ success: true });
+        await new Promise((resolve) => setTimeout(resolve, 1200));
+        expect(webhooks).toHaveLength(0);
+      });
+
+      it('should refund only payments that succeeded', async () => {
+        const paid = await collect('PAY-14-A', '+256770000001');
+        const refused = await collect('PAY-14-B', '+256770000003');
+        const refund = (provider_transaction_id: string) =>
+          provider.refund({
+            provider_transaction_id,
+            refund_reference_id: 'RFD-14-A',
+            amount: 5000,
+            payment_amount: 5000,
+            currency: 'UGX',
+          });
+
+        await expect(
+          refund(paid.provider_transaction_id),
+        ).resolves.toMatchObject({ status: RefundStatus.SUCCESS });
+        await expect(
+          refund(refused.provider_transaction_id),
+        ).resolves.toMatchObject({ status: RefundStatus.FAILED });
+      });
+    });
+  });
+});
@@ -1,78 +1,430 @@
-import { Injectable } from '@nestjs/common';
-import { PaymentStatus } from '@prisma/client';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentStatus, RefundStatus } from '@prisma/client';
+import { AxiosError } from 'axios';
+import { randomBytes, randomUUID } from 'crypto';
 import {
   PaymentProvider,
   InitiatePaymentRequest,
   InitiatePaymentResponse,
   CheckPaymentStatusRequest,
   CheckPaymentStatusResponse,
+  CancelPaymentRequest,
+  CancelPaymentResponse,
+  RefundRequest,
+  RefundResponse,
 } from './provider.interface';
+import {
+  MomoError,
+  MomoRequestToPayStatus,
+  MtnMomoClient,
+  toPaymentStatus,
+} from './mtn-momo.client';
+import {
+  MTN_TEST_OUTCOMES,
+  MTN_TEST_SCENARIOS,
+  MtnTestScenario,
+  mtnTestScenario,
+  sendMtnTestWebhook,
+} from './mtn-test-scenarios';
+import { CONNECTION_ERROR_CODES } from '../../provider-resilience/provider-resilience.constants';
+import {
+  MTN_MOCK_DEFAULT_CALLBACK_URL,
+  MTN_MOCK_DEFAULT_SETTLE_AFTER_MS,
+} from '../payments.constants';
+
+// Transaction IDs of the mock mode: scenario, then when the payment was sent
+const MOCK_TRANSACTION_ID = /^MTN-MOCK-([a-z_]+)-(\d+)-/;
 
+/**
+ * MTN Mobile Money collections. With MTN_MODE=mock payments play the test
+ * scenario of their phone number or amount in process; otherwise they go
+ * through the MoMo Collection API, to the local stand-in or the MoMo
+ * sandbox. The X-Reference-Id of the request to pay is the provider
+ * transaction ID.
+ */
 @Injectable()
 export class MtnProvider implements PaymentProvider {
+  private readonly logger = new Logger(MtnProvider.name);
   private readonly providerName = 'MTN';
+  // Pending webhooks of the mock mode, by transaction ID
+  private readonly mockWebhooks = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly momo: MtnMomoClient,
+  ) {}
 
   getProviderName(): string {
     return this.providerName;
   }
 
+  /**
+   * The X-Reference-Id of the request to pay; in mock mode, an ID naming
+   * the test scenario of the payment
+   */
+  newTransactionId(request: InitiatePaymentRequest): string {
+    if (this.momo.mode !== 'mock') {
+      return randomUUID();
+    }
+    const scenario = mtnTestScenario(request.customer_phone, request.amount);
+    return `MTN-MOCK-${scenario}-${Date.now()}-${randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+
   async initiatePayment(
     request: InitiatePaymentRequest,
   ): Promise<InitiatePaymentResponse> {
-    // Mock implementation 
-    // - simulate API call delay
+    if (this.momo.mode === 'mock') {
+      return this.mockInitiatePayment(request);
+    }
+
+    const msisdn = request.customer_phone.replace(/\D/g, '');
+    try {
+      if (!(await this.momo.isAccountHolderActive(msisdn))) {
+        return {
+          success: false,
+          provider_transaction_id: '',
+          status: PaymentStatus.FAILED,
+          message: `${request.customer_phone} has no active MTN MoMo account`,
+        };
+      }
+    } catch (error) {
+      // Nothing was sent to the customer: only a number MoMo refuses fails
+      // the payment, other errors are left to the resilience layer
+      if (!isRejection(error)) {
+        throw error;
+      }
+      return {
+        success: false,
+        provider_transaction_id: '',
+        status: PaymentStatus.FAILED,
+        message: describeFailure(error),
+      };
+    }
+
+    const referenceId =
+      request.provider_transaction_id ?? this.newTransactionId(request);
+    try {
+      await this.momo.requestToPay(referenceId, {
+        amount: String(request.amount),
+        currency: request.currency,
+        externalId: request.reference_id,
+        payer: { partyIdType: 'MSISDN', partyId: msisdn },
+        payerMessage: `Payment ${request.reference_id}`,
+        payeeNote: `Payment ${request.reference_id}`,
+      });
+    } catch (error) {
+      if (isRejection(error)) {
+        return {
+          success: false,
+          provider_transaction_id: '',
+          status: PaymentStatus.FAILED,
+          message: describeFailure(error),
+        };
+      }
+      if (isUnsent(error)) {
+        throw error;
+      }
+      // The request may have reached MoMo: left PENDING for reconciliation to look up
+      this.logger.warn(
+        `MoMo did not answer the request to pay ${referenceId} of ${request.reference_id}: ${describeFailure(error)}`,
+      );
+    }
+
+    return {
+      success: true,
+      provider_transaction_id: referenceId,
+      status: PaymentStatus.PENDING,
+      message:
+        'Payment initiated successfully. Please approve on your mobile device.',
+    };
+  }
+
+  async checkPaymentStatus(
+    request: CheckPaymentStatusRequest,
+  ): Promise<CheckPaymentStatusResponse> {
+    if (this.momo.mode === 'mock') {
+      return this.mockCheckPaymentStatus(request);
+    }
+
+    const response = await this.momo.getRequestToPay(
+      request.provider_transaction_id,
+    );
+    const reason = describeReason(response);
+    const status = toPaymentStatus(response.status, reason);
+    if (!status) {
+      throw new Error(
+        `MoMo status check of ${request.provider_transaction_id} failed: unknown status ${response.status}`,
+      );
+    }
+
+    return {
+      status,
+      provider_transaction_id: request.provider_transaction_id,
+      amount:
+        response.amount !== undefined ? Number(response.amount) : undefined,
+      message: reason,
+    };
+  }
+
+  /**
+   * MoMo refunds are made through the Disbursement API, which is not
+   * integrated: outside mock mode they fail without calling MTN.
+   */
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    if (this.momo.mode === 'mock') {
+      return this.mockRefund(request);
+    }
+
+    return {
+      status: RefundStatus.FAILED,
+      message: 'MTN MoMo refunds are not supported by the Collection API',
+    };
+  }
+
+  /**
+   * A request to pay cannot be withdrawn: outside mock mode it is left to
+   * expire at MTN.
+   */
+  async cancelPayment(
+    request: CancelPaymentRequest,
+  ): Promise<CancelPaymentResponse> {
+    if (this.momo.mode === 'mock') {
+      return this.mockCancelPayment(request);
+    }
+
+    return {
+      success: false,
+      message: 'MTN MoMo requests to pay cannot be withdrawn',
+    };
+  }
+
+  /**
+   * Play the test scenario of the payment. Its transaction ID records the
+   * scenario and when the payment was sent, so every instance answers
+   * status checks alike.
+   */
+  private async mockInitiatePayment(
+    request: InitiatePaymentRequest,
+  ): Promise<InitiatePaymentResponse> {
     await this.simulateDelay(500);
 
-    // Mock: 90% success rate for demonstration
-    const isSuccess = Math.random() > 0.1;
+    const scenario = mtnTestScenario(request.customer_phone, request.amount);
+    const outcome = MTN_TEST_OUTCOMES[scenario];
+    if (outcome.settle === 'refused') {
+      return {
+        success: false,
+        provider_transaction_id: '',
+        status: PaymentStatus.FAILED,
+        message: outcome.message,
+      };
+    }
 
-    if (isSuccess) {
-      const successProviderTransactionId = `MTN-SUCCESS-${Date.now()}-${(Math.random() * 1000000).toFixed(0)}`;
-      const failedProviderTransactionId = `MTN-SUCCESS-${Date.now()}-${(Math.random() * 1000000).toFixed(0)}`;
-      const providerTransactionId = Math.random() > 0.4 ? successProviderTransactionId : failedProviderTransactionId;
+    const providerTransactionId =
+      request.provider_transaction_id ?? this.newTransactionId(request);
+    if (outcome.settle === 'immediately') {
       return {
         success: true,
         provider_transaction_id: providerTransactionId,
-        status: PaymentStatus.PENDING,
-        message: 'Payment initiated successfully. Please approve on your mobile device.',
+        status: this.mockStatus(providerTransactionId).status,
+        message: outcome.reason ?? 'Payment completed successfully',
       };
     }
 
+    this.scheduleMockWebhook(request.reference_id, providerTransactionId);
     return {
-      success: false,
-      provider_transaction_id: '',
-      status: PaymentStatus.FAILED,
-      message: 'Failed to initiate payment',
+      success: true,
+      provider_transaction_id: providerTransactionId,
+      status: PaymentStatus.PENDING,
+      message:
+        'Payment initiated successfully. Please approve on your mobile device.',
     };
   }
 
-  async checkPaymentStatus(
+  private async mockCheckPaymentStatus(
     request: CheckPaymentStatusRequest,
   ): Promise<CheckPaymentStatusResponse> {
-    // Mock implementation - simulate API call delay
     await this.simulateDelay(300);
 
-    // Mock: Determine status based on transaction ID pattern
-    const status = request.provider_transaction_id.includes('FAILED') ?
-      PaymentStatus.FAILED : (
-        request.provider_transaction_id.includes('SUCCESS') ? PaymentStatus.SUCCESS : PaymentStatus.PENDING
-      );
-
-
+    const { status, reason } = this.mockStatus(request.provider_transaction_id);
     return {
       status,
       provider_transaction_id: request.provider_transaction_id,
       message:
-        status === PaymentStatus.SUCCESS
+        reason ??
+        (status === PaymentStatus.SUCCESS
           ? 'Payment completed successfully'
-          : status === PaymentStatus.PENDING
-            ? 'Payment is still pending'
-            : 'Payment failed',
+          : 'Payment is still pending'),
+    };
+  }
+
+  private async mockRefund(request: RefundRequest): Promise<RefundResponse> {
+    await this.simulateDelay(500);
+
+    // Transactions that did not succeed have nothing to refund
+    if (
+      this.mockStatus(request.provider_transaction_id).status !==
+      PaymentStatus.SUCCESS
+    ) {
+      return {
+        status: RefundStatus.FAILED,
+        message: 'Original transaction was not completed',
+      };
+    }
+
+    return {
+      status: RefundStatus.SUCCESS,
+      provider_refund_id: `MTN-REFUND-${Date.now()}-${randomBytes(3).toString('hex').toUpperCase()}`,
+      message: 'Refund completed successfully',
+    };
+  }
+
+  private async mockCancelPayment(
+    request: CancelPaymentRequest,
+  ): Promise<CancelPaymentResponse> {
+    await this.simulateDelay(300);
+
+    if (
+      this.mockStatus(request.provider_transaction_id).status !==
+      PaymentStatus.PENDING
+    ) {
+      return {
+        success: false,
+        message: 'Payment request is no longer pending',
+      };
+    }
+
+    clearTimeout(this.mockWebhooks.get(request.provider_transaction_id));
+    this.mockWebhooks.delete(request.provider_transaction_id);
+    return {
+      success: true,
+      message: 'Payment request cancelled',
     };
   }
 
+  /**
+   * Status of a mock transaction now, or once settled. Transactions of the
+   * former random mock count as approved.
+   */
+  private mockStatus(
+    providerTransactionId: string,
+    settled = false,
+  ): {
+    status: PaymentStatus;
+    reason?: string;
+  } {
+    const match = MOCK_TRANSACTION_ID.exec(providerTransactionId);
+    const scenario = (MTN_TEST_SCENARIOS as readonly string[]).includes(
+      match?.[1] ?? '',
+    )
+      ? (match![1] as MtnTestScenario)
+      : 'pending_success';
+    const sentAt = match ? Number(match[2]) : 0;
+
+    const outcome = MTN_TEST_OUTCOMES[scenario];
+    if (outcome.settle === 'refused') {
+      return { status: PaymentStatus.FAILED, reason: outcome.message };
+    }
+    if (
+      outcome.settle === 'after_delay' &&
+      !settled &&
+      Date.now() < sentAt + this.mockSettleAfterMs()
+    ) {
+      return { status: PaymentStatus.PENDING };
+    }
+    return {
+      status: toPaymentStatus(outcome.status, outcome.reason)!,
+      reason: outcome.reason,
+    };
+  }
+
+  /**
+   * Send the signed webhook of the outcome to MTN_MOCK_CALLBACK_URL once the
+   * payment settles, when MTN_WEBHOOK_SECRET is set.
+   */
+  private scheduleMockWebhook(
+    referenceId: string,
+    providerTransactionId: string,
+  ): void {
+    const secret = this.configService.get<string>('MTN_WEBHOOK_SECRET');
+    if (!secret) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.mockWebhooks.delete(providerTransactionId);
+      void this.sendMockWebhook(
+        secret,
+        referenceId,
+        providerTransactionId,
+      ).catch((error: Error) =>
+        this.logger.warn(
+          `Mock webhook of ${referenceId} not delivered: ${error.message}`,
+        ),
+      );
+    }, this.mockSettleAfterMs());
+    timer.unref();
+    this.mockWebhooks.set(providerTransactionId, timer);
+  }
+
+  private async sendMockWebhook(
+    secret: string,
+    referenceId: string,
+    providerTransactionId: string,
+  ): Promise<void> {
+    const status = await sendMtnTestWebhook(
+      this.configService.get<string>('MTN_MOCK_CALLBACK_URL') ||
+        MTN_MOCK_DEFAULT_CALLBACK_URL,
+      secret,
+      {
+        payment_reference_id: referenceId,
+        provider_transaction_id: providerTransactionId,
+        // Timers may fire a little before the settle time
+        status: this.mockStatus(providerTransactionId, true).status,
+      },
+    );
+    this.logger.log(`Mock webhook of ${referenceId}: ${status}`);
+  }
+
+  private mockSettleAfterMs(): number {
+    return (
+      Number(this.configService.get<string>('MTN_MOCK_SETTLE_AFTER_MS')) ||
+      MTN_MOCK_DEFAULT_SETTLE_AFTER_MS
+    );
+  }
+
   private simulateDelay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
 
+/** MoMo answered with a 4xx: the request was refused, not lost */
+function isRejection(error: unknown): boolean {
+  const status = (error as AxiosError).response?.status;
+  return status !== undefined && status >= 400 && status < 500;
+}
+
+/**
+ * The request never left: MoMo could not be reached, or the token or the
+ * configuration it needs is missing. Any other failure may come after MoMo
+ * received it.
+ */
+function isUnsent(error: unknown): boolean {
+  const { code, response } = error as AxiosError;
+  if (code === undefined) {
+    // Not an HTTP error: failed before the request was made
+    return response === undefined;
+  }
+  return CONNECTION_ERROR_CODES.includes(code);
+}
+
+function describeFailure(error: unknown): string {
+  const body = (error as AxiosError<MomoError>).response?.data;
+  return body?.message ?? body?.code ?? (error as Error).message;
+}
+
+function describeReason(response: MomoRequestToPayStatus): string | undefined {
+  return typeof response.reason === 'string'
+    ? response.reason
+    : response.reason?.code;
+}
@@ -1,44 +1,93 @@
-import { PaymentStatus } from '@prisma/client';
+import { PaymentStatus, RefundStatus } from '@prisma/client';
 
 export interface InitiatePaymentRequest {
-    amount: number;
-    currency: string;
-    customer_phone: string;
-    customer_email?: string;
-    reference_id: string;
+  amount: number;
+  currency: string;
+  customer_phone: string;
+  customer_email?: string;
+  reference_id: string;
+  // From newTransactionId, for providers that have it
+  provider_transaction_id?: string;
 }
 
 export interface InitiatePaymentResponse {
-    success: boolean;
-    provider_transaction_id: string;
-    status: PaymentStatus;
-    message?: string;
+  success: boolean;
+  provider_transaction_id: string;
+  status: PaymentStatus;
+  message?: string;
 }
 
 export interface CheckPaymentStatusRequest {
-    provider_transaction_id: string;
-    reference_id?: string;
+  provider_transaction_id: string;
+  reference_id?: string;
 }
 
 export interface CheckPaymentStatusResponse {
-    status: PaymentStatus;
-    provider_transaction_id: string;
-    amount?: number;
-    message?: string;
+  status: PaymentStatus;
+  provider_transaction_id: string;
+  amount?: number;
+  message?: string;
+}
+
+export interface CancelPaymentRequest {
+  provider_transaction_id: string;
+  reference_id: string;
+}
+
+export interface CancelPaymentResponse {
+  // False when the provider can no longer cancel, e.g. the customer already approved
+  success: boolean;
+  message?: string;
+}
+
+export interface RefundRequest {
+  provider_transaction_id: string;
+  refund_reference_id: string;
+  amount: number;
+  // Amount of the payment refunded from
+  payment_amount: number;
+  currency: string;
+  reason?: string;
+}
+
+export interface RefundResponse {
+  // PENDING when the provider completes the refund later
+  status: RefundStatus;
+  provider_refund_id?: string;
+  message?: string;
 }
 
 export interface PaymentProvider {
+  /**
+   * ID the payment will have at the provider, for providers that let the
+   * caller choose it. Optional: it is stored before initiatePayment is
+   * called, so a payment whose answer is lost can still be looked up.
+   */
+  newTransactionId?(request: InitiatePaymentRequest): string;
 
-    initiatePayment(
-        request: InitiatePaymentRequest,
-    ): Promise<InitiatePaymentResponse>;
+  initiatePayment(
+    request: InitiatePaymentRequest,
+  ): Promise<InitiatePaymentResponse>;
 
+  checkPaymentStatus(
+    request: CheckPaymentStatusRequest,
+  ): Promise<CheckPaymentStatusResponse>;
 
-    checkPaymentStatus(
-        request: CheckPaymentStatusRequest,
-    ): Promise<CheckPaymentStatusResponse>;
+  refund(request: RefundRequest): Promise<RefundResponse>;
 
+  /**
+   * Outcome of a refund left PENDING, asked with the request it was made
+   * with. Optional: PENDING refunds of providers without it are failed
+   * after REFUND_UNCONFIRMED_MAX_AGE_SECONDS, for an operator to check.
+   */
+  checkRefundStatus?(request: RefundRequest): Promise<RefundResponse>;
 
-    getProviderName(): string;
-}
+  /**
+   * Withdraw a pending payment request at the provider. Optional: payments
+   * of providers without it are cancelled locally, as long as
+   * checkPaymentStatus still reports them PENDING.
+   */
+  cancelPayment?(request: CancelPaymentRequest): Promise<CancelPaymentResponse>;
 
+  getProviderName(): string;
+}
@@ -0,0 +1,36 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { from, mergeMap, Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { WebhookEventsService } from './webhook-events.service';
+
+/**
+ * Records why a delivery accepted by WebhookSignatureGuard was not applied,
+ * including payload validation errors raised before the handler runs.
+ */
+@Injectable()
+export class WebhookEventInterceptor implements NestInterceptor {
+  constructor(private readonly webhookEventsService: WebhookEventsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const { webhookEventId } = context
+      .switchToHttp()
+      .getRequest<{ webhookEventId?: number }>();
+
+    return next
+      .handle()
+      .pipe(
+        catchError((error: unknown) =>
+          webhookEventId === undefined
+            ? throwError(() => error)
+            : from(
+                this.webhookEventsService.markFailed(webhookEventId, error),
+              ).pipe(mergeMap(() => throwError(() => error))),
+        ),
+      );
+  }
+}
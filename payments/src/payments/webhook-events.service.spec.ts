@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import {
+  PaymentStatus,
+  WebhookOutcome,
+  WebhookSignatureResult,
+} from '@prisma/client';
+import { WebhookEventsService } from './webhook-events.service';
+import { PaymentsRepository } from './payments.repository';
+
+describe('WebhookEventsService', () => {
+  let service: WebhookEventsService;
+
+  const payload = JSON.stringify({
+    event_id: 'evt_1',
+    payment_reference_id: 'PAY-1-ABC',
+    status: 'SUCCESS',
+    provider_transaction_id: 'TXN123',
+    timestamp: '2026-10-18T12:00:00Z',
+  });
+
+  const mockRepository = {
+    createWebhookEvent: jest.fn(),
+    updateWebhookEvent: jest.fn(),
+    findWebhookEventsByPaymentReference: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookEventsService,
+        { provide: PaymentsRepository, useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<WebhookEventsService>(WebhookEventsService);
+    mockRepository.createWebhookEvent.mockImplementation((data: object) =>
+      Promise.resolve({ id: 1, ...data }),
+    );
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('record', () => {
+    it('should store the raw delivery with the fields of its payload', async () => {
+      await service.record({
+        provider: 'mtn',
+        raw_payload: payload,
+        headers: {
+          'content-type': 'application/json',
+          'x-webhook-signature': 'sha256=abc',
+          authorization: 'Bearer secret',
+          cookie: 'session=1',
+        },
+        signature_result: WebhookSignatureResult.VALID,
+      });
+
+      expect(mockRepository.createWebhookEvent).toHaveBeenCalledWith({
+        provider: 'mtn',
+        event_id: 'evt_1',
+        payment_reference_id: 'PAY-1-ABC',
+        status: PaymentStatus.SUCCESS,
+        provider_transaction_id: 'TXN123',
+        timestamp: new Date('2026-10-18T12:00:00Z'),
+        raw_payload: payload,
+        headers: {
+          'content-type': 'application/json',
+          'x-webhook-signature': 'sha256=abc',
+        },
+        signature_result: WebhookSignatureResult.VALID,
+        outcome: WebhookOutcome.RECEIVED,
+        error: undefined,
+      });
+    });
+
+    it('should store rejected deliveries as REJECTED with the reason', async () => {
+      await service.record({
+        provider: 'mtn',
+        raw_payload: payload,
+        headers: {},
+        signature_result: WebhookSignatureResult.INVALID,
+        error: 'Invalid webhook signature',
+      });
+
+      expect(mockRepository.createWebhookEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: WebhookOutcome.REJECTED,
+          error: 'Invalid webhook signature',
+        }),
+      );
+    });
+
+    it('should keep payloads that are not valid JSON without parsed fields', async () => {
+      await service.record({
+        provider: 'mtn',
+        raw_payload: 'status=SUCCESS',
+        headers: {},
+        signature_result: WebhookSignatureResult.VALID,
+      });
+
+      expect(mockRepository.createWebhookEvent).toHaveBeenCalledWith({
+        provider: 'mtn',
+        raw_payload: 'status=SUCCESS',
+        headers: {},
+        signature_result: WebhookSignatureResult.VALID,
+        outcome: WebhookOutcome.RECEIVED,
+      });
+    });
+
+    it('should read the fields of Airtel callbacks', async () => {
+      await service.record({
+        provider: 'airtel',
+        raw_payload: JSON.stringify({
+          transaction: {
+            id: 'PAY-1-ABC',
+            message: 'Paid UGX 5,000',
+            status_code: 'TS',
+            airtel_money_id: 'MP210603.1234.L06941',
+          },
+        }),
+        headers: {},
+        signature_result: WebhookSignatureResult.VALID,
+      });
+
+      expect(mockRepository.createWebhookEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider: 'airtel',
+          payment_reference_id: 'PAY-1-ABC',
+          status: PaymentStatus.SUCCESS,
+          provider_transaction_id: 'MP210603.1234.L06941',
+        }),
+      );
+    });
+
+    it('should leave out payload values of the wrong type or size', async () => {
+      await service.record({
+        provider: 'mtn',
+        raw_payload: JSON.stringify({
+          payment_reference_id: 'P'.repeat(1000),
+          status: 'REFUNDED',
+          provider_transaction_id: 123,
+          timestamp: 'yesterday',
+        }),
+        headers: {},
+        signature_result: WebhookSignatureResult.VALID,
+      });
+
+      expect(mockRepository.createWebhookEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payment_reference_id: undefined,
+          status: undefined,
+          provider_transaction_id: undefined,
+          timestamp: undefined,
+        }),
+      );
+    });
+  });
+
+  describe('markFailed', () => {
+    it('should record the validation messages of a rejected payload', async () => {
+      await service.markFailed(
+        7,
+        new BadRequestException([
+          'status must be one of the following values: INITIATED, PENDING, SUCCESS, FAILED',
+          'timestamp must be a valid ISO 8601 date string',
+        ]),
+      );
+
+      expect(mockRepository.updateWebhookEvent).toHaveBeenCalledWith(7, {
+        outcome: WebhookOutcome.FAILED,
+        error:
+          'status must be one of the following values: INITIATED, PENDING, SUCCESS, FAILED; timestamp must be a valid ISO 8601 date string',
+      });
+    });
+
+    it('should not throw when the outcome cannot be stored', async () => {
+      mockRepository.updateWebhookEvent.mockRejectedValue(
+        new Error('Connection lost'),
+      );
+
+      await expect(
+        service.markFailed(7, new Error('Payment not found')),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  it('should list the deliveries of a payment', async () => {
+    mockRepository.findWebhookEventsByPaymentReference.mockResolvedValue([]);
+
+    await expect(service.listForPayment('PAY-1-ABC')).resolves.toEqual([]);
+    expect(
+      mockRepository.findWebhookEventsByPaymentReference,
+    ).toHaveBeenCalledWith('PAY-1-ABC', 100);
+  });
+});
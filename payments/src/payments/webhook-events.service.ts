@@ -0,0 +1,171 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import {
+  PaymentStatus,
+  WebhookEvent,
+  WebhookOutcome,
+  WebhookSignatureResult,
+} from '@prisma/client';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentsRepository } from './payments.repository';
+import {
+  AIRTEL_STATUSES,
+  REDACTED_WEBHOOK_HEADERS,
+  WEBHOOK_EVENTS_LIST_LIMIT,
+  WEBHOOK_FIELD_MAX_LENGTH,
+} from './payments.constants';
+
+export interface WebhookDelivery {
+  provider: string;
+  raw_payload: string;
+  headers: IncomingHttpHeaders;
+  signature_result: WebhookSignatureResult;
+  // Why the signature was rejected
+  error?: string;
+}
+
+/**
+ * Log of inbound provider webhooks. Every delivery to a known provider is
+ * stored as it arrived, with the result of the signature check and what
+ * processing did with it, so the history of a payment can be replayed when
+ * investigating a dispute.
+ */
+@Injectable()
+export class WebhookEventsService {
+  private readonly logger = new Logger(WebhookEventsService.name);
+
+  constructor(private readonly paymentsRepository: PaymentsRepository) {}
+
+  /**
+   * Store a delivery before it is processed. Deliveries with a valid
+   * signature start as RECEIVED, the others are REJECTED.
+   */
+  async record(delivery: WebhookDelivery): Promise<WebhookEvent> {
+    return this.paymentsRepository.createWebhookEvent({
+      provider: delivery.provider,
+      ...readPayloadFields(delivery.provider, delivery.raw_payload),
+      raw_payload: delivery.raw_payload,
+      headers: redactHeaders(delivery.headers),
+      signature_result: delivery.signature_result,
+      outcome:
+        delivery.signature_result === WebhookSignatureResult.VALID
+          ? WebhookOutcome.RECEIVED
+          : WebhookOutcome.REJECTED,
+      error: delivery.error,
+    });
+  }
+
+  /**
+   * Record why a delivery was not applied. Never throws, so the original
+   * error reaches the provider.
+   */
+  async markFailed(id: number, error: unknown): Promise<void> {
+    try {
+      await this.paymentsRepository.updateWebhookEvent(id, {
+        outcome: WebhookOutcome.FAILED,
+        error: describeError(error),
+      });
+    } catch (updateError) {
+      this.logger.error(
+        `Failed to record the outcome of webhook delivery ${id}: ${(updateError as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Deliveries that named the payment, newest first, whether or not they
+   * were applied.
+   */
+  async listForPayment(payment_reference_id: string): Promise<WebhookEvent[]> {
+    return this.paymentsRepository.findWebhookEventsByPaymentReference(
+      payment_reference_id,
+      WEBHOOK_EVENTS_LIST_LIMIT,
+    );
+  }
+}
+
+/**
+ * Best-effort copy of the payload fields used to find deliveries. The
+ * payload may be invalid or unsigned, so values of the wrong type or size
+ * are left out rather than rejected.
+ */
+function readPayloadFields(provider: string, raw_payload: string) {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw_payload);
+  } catch {
+    return {};
+  }
+  if (payload === null || typeof payload !== 'object') {
+    return {};
+  }
+
+  const fields =
+    provider === 'airtel'
+      ? fromAirtelCallback(payload)
+      : (payload as Record<string, unknown>);
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.length <= WEBHOOK_FIELD_MAX_LENGTH
+      ? value
+      : undefined;
+  const timestamp =
+    typeof fields.timestamp === 'string' ? new Date(fields.timestamp) : null;
+
+  return {
+    event_id: text(fields.event_id),
+    payment_reference_id: text(fields.payment_reference_id),
+    provider_transaction_id: text(fields.provider_transaction_id),
+    status: Object.values(PaymentStatus).includes(
+      fields.status as PaymentStatus,
+    )
+      ? (fields.status as PaymentStatus)
+      : undefined,
+    timestamp:
+      timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp : undefined,
+  };
+}
+
+/**
+ * Airtel nests the transaction in its callbacks and has its own status
+ * codes; see AirtelProvider.toWebhook
+ */
+function fromAirtelCallback(payload: object): Record<string, unknown> {
+  const { transaction } = payload as { transaction?: unknown };
+  if (transaction === null || typeof transaction !== 'object') {
+    return {};
+  }
+  const { id, airtel_money_id, status_code } = transaction as Record<
+    string,
+    unknown
+  >;
+  return {
+    payment_reference_id: id,
+    provider_transaction_id: airtel_money_id ?? id,
+    status: AIRTEL_STATUSES[String(status_code)],
+  };
+}
+
+function redactHeaders(headers: IncomingHttpHeaders): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(
+        ([name, value]) =>
+          value !== undefined && !REDACTED_WEBHOOK_HEADERS.includes(name),
+      )
+      .map(([name, value]) => [
+        name,
+        Array.isArray(value) ? value.join(', ') : String(value),
+      ]),
+  );
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof HttpException) {
+    const response = error.getResponse();
+    const message =
+      typeof response === 'object' && 'message' in response
+        ? (response as { message: unknown }).message
+        : response;
+    return Array.isArray(message) ? message.join('; ') : String(message);
+  }
+  return error instanceof Error ? error.message : String(error);
+}
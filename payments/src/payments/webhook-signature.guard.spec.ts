@@ -0,0 +1,179 @@
+import {
+  ExecutionContext,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WebhookSignatureResult } from '@prisma/client';
+import { WebhookSignatureGuard, signPayload } from './webhook-signature.guard';
+import { WebhookEventsService } from './webhook-events.service';
+import { register } from '../metrics/registry';
+
+jest.mock('./payments.constants', () => ({
+  ...jest.requireActual<object>('./payments.constants'),
+  WEBHOOK_SECRETS: {
+    mtn: 'mtn-webhook-secret',
+    airtel: 'airtel-webhook-secret',
+  },
+}));
+
+describe('WebhookSignatureGuard', () => {
+  const webhookEventsService = {
+    record: jest.fn().mockResolvedValue({ id: 42 }),
+  };
+  // Provider of the route, set on routes without a :provider parameter
+  const reflector = { get: jest.fn() };
+  const guard = new WebhookSignatureGuard(
+    webhookEventsService as unknown as WebhookEventsService,
+    reflector as unknown as Reflector,
+  );
+  const body = JSON.stringify({
+    payment_reference_id: 'PAY-1-ABC',
+    status: 'SUCCESS',
+    provider_transaction_id: 'TXN123',
+    timestamp: '2026-10-18T12:00:00Z',
+  });
+
+  const now = () => String(Math.floor(Date.now() / 1000));
+
+  let request: Record<string, unknown>;
+
+  const contextFor = (
+    headers: Record<string, string | undefined>,
+    provider = 'mtn',
+    rawBody: Buffer | undefined = Buffer.from(body),
+  ): ExecutionContext => {
+    request = {
+      params: { provider },
+      rawBody,
+      headers,
+      header: (name: string) => headers[name.toLowerCase()],
+    };
+    return {
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => undefined,
+    } as unknown as ExecutionContext;
+  };
+
+  const signedHeaders = (
+    timestamp = now(),
+    secret = 'mtn-webhook-secret',
+    payload = body,
+  ) => ({
+    'x-webhook-timestamp': timestamp,
+    'x-webhook-signature': `sha256=${signPayload(secret, timestamp, payload)}`,
+  });
+
+  const failures = async (reason: string) => {
+    const metric = await register
+      .getSingleMetric('payments_webhook_signature_failures_total')
+      ?.get();
+    return (
+      metric?.values.find((value) => value.labels.reason === reason)?.value ?? 0
+    );
+  };
+
+  beforeEach(() => {
+    register.resetMetrics();
+    jest.clearAllMocks();
+  });
+
+  it('should accept a correctly signed webhook and record it', async () => {
+    const headers = signedHeaders();
+
+    await expect(guard.canActivate(contextFor(headers))).resolves.toBe(true);
+    expect(webhookEventsService.record).toHaveBeenCalledWith({
+      provider: 'mtn',
+      raw_payload: body,
+      headers,
+      signature_result: WebhookSignatureResult.VALID,
+      error: undefined,
+    });
+    expect(request.webhookEventId).toBe(42);
+  });
+
+  it('should match the provider case-insensitively', async () => {
+    await expect(
+      guard.canActivate(contextFor(signedHeaders(), 'MTN')),
+    ).resolves.toBe(true);
+    expect(webhookEventsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'mtn' }),
+    );
+  });
+
+  it('should use the provider of routes dedicated to one', async () => {
+    reflector.get.mockReturnValueOnce('airtel');
+
+    await expect(
+      guard.canActivate(
+        contextFor(signedHeaders(now(), 'airtel-webhook-secret'), 'mtn'),
+      ),
+    ).resolves.toBe(true);
+    expect(webhookEventsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'airtel' }),
+    );
+  });
+
+  it('should reject, record and count a signature made with another secret', async () => {
+    await expect(
+      guard.canActivate(contextFor(signedHeaders(now(), 'guessed-secret'))),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(webhookEventsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        signature_result: WebhookSignatureResult.INVALID,
+        error: 'Invalid webhook signature',
+      }),
+    );
+    expect(request.webhookEventId).toBeUndefined();
+    expect(await failures('invalid_signature')).toBe(1);
+  });
+
+  it('should reject a modified body', async () => {
+    const headers = signedHeaders();
+    const tampered = Buffer.from(body.replace('SUCCESS', 'FAILED'));
+
+    await expect(
+      guard.canActivate(contextFor(headers, 'mtn', tampered)),
+    ).rejects.toThrow('Invalid webhook signature');
+  });
+
+  it('should reject a replayed delivery outside the tolerance window', async () => {
+    const old = String(Math.floor(Date.now() / 1000) - 10 * 60);
+
+    await expect(
+      guard.canActivate(contextFor(signedHeaders(old))),
+    ).rejects.toThrow('Webhook timestamp is outside the tolerance window');
+    expect(webhookEventsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        signature_result: WebhookSignatureResult.STALE,
+      }),
+    );
+    expect(await failures('stale_timestamp')).toBe(1);
+  });
+
+  it('should reject a webhook without signature headers', async () => {
+    await expect(guard.canActivate(contextFor({}))).rejects.toThrow(
+      'Missing webhook signature',
+    );
+    expect(webhookEventsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        signature_result: WebhookSignatureResult.MISSING,
+      }),
+    );
+    expect(await failures('missing_signature')).toBe(1);
+  });
+
+  it('should reject a non-numeric timestamp', async () => {
+    await expect(
+      guard.canActivate(contextFor(signedHeaders('yesterday'))),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should return 404 for a provider without a webhook secret', async () => {
+    await expect(
+      guard.canActivate(contextFor(signedHeaders(), 'unknown')),
+    ).rejects.toThrow(NotFoundException);
+    expect(webhookEventsService.record).not.toHaveBeenCalled();
+    expect(await failures('unknown_provider')).toBe(1);
+  });
+});
@@ -0,0 +1,193 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import {
+  PROVIDER_CIRCUIT_FAILURE_THRESHOLD,
+  PROVIDER_CIRCUIT_OPEN_SECONDS,
+} from './provider-resilience.constants';
+
+describe('CircuitBreakerService', () => {
+  // Minimal stand-in for the Redis commands used, with key expiry
+  const store = new Map<string, { value: string; expires_at?: number }>();
+  const read = (key: string) => {
+    const entry = store.get(key);
+    if (entry?.expires_at !== undefined && entry.expires_at <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+  const redis = {
+    mget: jest.fn((...keys: string[]) =>
+      Promise.resolve(keys.map((key) => read(key)?.value ?? null)),
+    ),
+    set: jest.fn((key: string, value: string, ...options: unknown[]) => {
+      if (options.includes('NX') && read(key)) {
+        return Promise.resolve(null);
+      }
+      const ttl = Number(options[1]);
+      store.set(key, {
+        value,
+        expires_at:
+          options[0] === 'PX'
+            ? Date.now() + ttl
+            : options[0] === 'EX'
+              ? Date.now() + ttl * 1000
+              : undefined,
+      });
+      return Promise.resolve('OK');
+    }),
+    del: jest.fn((...keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+      return Promise.resolve(keys.length);
+    }),
+    incr: jest.fn((key: string) => {
+      const entry = read(key);
+      const value = String(Number(entry?.value ?? 0) + 1);
+      store.set(key, { ...entry, value });
+      return Promise.resolve(Number(value));
+    }),
+    expire: jest.fn((key: string, seconds: number) => {
+      const entry = read(key);
+      if (entry) {
+        entry.expires_at = Date.now() + seconds * 1000;
+      }
+      return Promise.resolve(entry ? 1 : 0);
+    }),
+  };
+  const redisService = {
+    getClient: () => redis,
+  } as unknown as RedisService;
+
+  let breaker: CircuitBreakerService;
+
+  // Fail calls until the circuit opens
+  const trip = async (instance = breaker) => {
+    for (let i = 0; i < PROVIDER_CIRCUIT_FAILURE_THRESHOLD; i++) {
+      await instance.recordFailure(await instance.acquire('MTN'));
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store.clear();
+    breaker = new CircuitBreakerService(redisService);
+    breaker.register('MTN');
+    breaker.register('AIRTEL');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let calls through while the provider works', async () => {
+    await expect(breaker.acquire('MTN')).resolves.toEqual({
+      provider: 'MTN',
+      state: 'closed',
+      failures: 0,
+    });
+    await expect(breaker.states()).resolves.toEqual({
+      MTN: 'closed',
+      AIRTEL: 'closed',
+    });
+  });
+
+  it('should open after the threshold of failures in a row', async () => {
+    await trip();
+
+    await expect(breaker.acquire('MTN')).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    await expect(breaker.acquire('AIRTEL')).resolves.toMatchObject({
+      state: 'closed',
+    });
+    await expect(breaker.states()).resolves.toEqual({
+      MTN: 'open',
+      AIRTEL: 'closed',
+    });
+  });
+
+  it('should fail fast with the PROVIDER_CIRCUIT_OPEN error', async () => {
+    await trip();
+
+    const rejection = (await breaker
+      .acquire('MTN')
+      .catch((error: unknown) => error)) as ServiceUnavailableException;
+    expect(rejection.getResponse()).toEqual({
+      message: 'MTN is unavailable, retry later',
+      error: 'PROVIDER_CIRCUIT_OPEN',
+    });
+  });
+
+  it('should start the run of failures again after a success', async () => {
+    for (let i = 1; i < PROVIDER_CIRCUIT_FAILURE_THRESHOLD; i++) {
+      await breaker.recordFailure(await breaker.acquire('MTN'));
+    }
+    await breaker.recordSuccess(await breaker.acquire('MTN'));
+    await breaker.recordFailure(await breaker.acquire('MTN'));
+
+    await expect(breaker.acquire('MTN')).resolves.toMatchObject({
+      state: 'closed',
+      failures: 1,
+    });
+  });
+
+  it('should share the circuit between instances', async () => {
+    const other = new CircuitBreakerService(redisService);
+
+    await trip(other);
+
+    await expect(breaker.acquire('MTN')).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+  });
+
+  describe('once the open period is over', () => {
+    beforeEach(async () => {
+      await trip();
+      jest.advanceTimersByTime(PROVIDER_CIRCUIT_OPEN_SECONDS * 1000);
+    });
+
+    it('should let a single trial call through', async () => {
+      await expect(breaker.acquire('MTN')).resolves.toMatchObject({
+        state: 'half_open',
+      });
+      await expect(breaker.acquire('MTN')).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      await expect(breaker.states()).resolves.toMatchObject({
+        MTN: 'half_open',
+      });
+    });
+
+    it('should close when the trial call succeeds', async () => {
+      await breaker.recordSuccess(await breaker.acquire('MTN'));
+
+      await expect(breaker.acquire('MTN')).resolves.toMatchObject({
+        state: 'closed',
+      });
+      await expect(breaker.states()).resolves.toMatchObject({
+        MTN: 'closed',
+      });
+    });
+
+    it('should open again when the trial call fails', async () => {
+      await breaker.recordFailure(await breaker.acquire('MTN'));
+
+      await expect(breaker.acquire('MTN')).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      await expect(breaker.states()).resolves.toMatchObject({ MTN: 'open' });
+    });
+  });
+
+  it('should let calls through when Redis is down', async () => {
+    redis.mget.mockRejectedValueOnce(new Error('Connection is closed'));
+    redis.incr.mockRejectedValueOnce(new Error('Connection is closed'));
+
+    const permit = await breaker.acquire('MTN');
+
+    expect(permit).toMatchObject({ state: 'closed' });
+    await expect(breaker.recordFailure(permit)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,210 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { Redis } from 'ioredis';
+import { Gauge } from 'prom-client';
+import { register } from '../metrics/registry';
+import {
+  PROVIDER_CALL_TIMEOUT_MS,
+  PROVIDER_CIRCUIT_FAILURE_THRESHOLD,
+  PROVIDER_CIRCUIT_FAILURE_WINDOW_SECONDS,
+  PROVIDER_CIRCUIT_OPEN_ERROR,
+  PROVIDER_CIRCUIT_OPEN_SECONDS,
+  PROVIDER_MAX_RETRIES,
+} from './provider-resilience.constants';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// State a call was let through in, handed back with its outcome
+export interface CircuitPermit {
+  provider: string;
+  state: CircuitState;
+  failures: number;
+}
+
+const STATE_VALUES: Record<CircuitState, number> = {
+  closed: 0,
+  half_open: 1,
+  open: 2,
+};
+
+const circuitStates = new Gauge({
+  name: 'payments_provider_circuit_state',
+  help: 'Circuit breaker state of each provider last seen by this instance: 0 closed, 1 half open, 2 open',
+  labelNames: ['provider'] as const,
+  registers: [register],
+});
+
+// The trial call of a half open circuit holds its slot for this long at most
+const TRIAL_TTL_MS = PROVIDER_CALL_TIMEOUT_MS * (PROVIDER_MAX_RETRIES + 2);
+
+/**
+ * Circuit breaker per provider, shared by all instances through Redis:
+ *
+ *   failures  failed calls in a row, forgotten after the failure window
+ *   open      set for PROVIDER_CIRCUIT_OPEN_SECONDS when the threshold is hit
+ *   tripped   set with `open` and kept until a trial call succeeds; while it
+ *             is set without `open` the circuit is half open
+ *   trial     taken by the single call let through a half open circuit
+ *
+ * Redis outages never block payments: calls then go through unguarded.
+ */
+@Injectable()
+export class CircuitBreakerService {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+  private readonly redis: Redis;
+  // Providers reported by states()
+  private readonly providers = new Set<string>();
+
+  constructor(private readonly redisService: RedisService) {
+    this.redis = this.redisService.getClient();
+  }
+
+  register(provider: string): void {
+    this.providers.add(provider);
+    circuitStates.set({ provider }, STATE_VALUES.closed);
+  }
+
+  /**
+   * Let a call to `provider` through, or throw ServiceUnavailableException
+   * with the PROVIDER_CIRCUIT_OPEN error while its circuit is open or its
+   * trial call is in progress.
+   */
+  async acquire(provider: string): Promise<CircuitPermit> {
+    let permit: CircuitPermit | undefined;
+    try {
+      const [open, tripped, failures] = await this.redis.mget(
+        circuitKey(provider, 'open'),
+        circuitKey(provider, 'tripped'),
+        circuitKey(provider, 'failures'),
+      );
+      if (!open && !tripped) {
+        permit = { provider, state: 'closed', failures: Number(failures) || 0 };
+      } else if (!open) {
+        const trial = await this.redis.set(
+          circuitKey(provider, 'trial'),
+          '1',
+          'PX',
+          TRIAL_TTL_MS,
+          'NX',
+        );
+        if (trial) {
+          permit = { provider, state: 'half_open', failures: 0 };
+        }
+      }
+      circuitStates.set(
+        { provider },
+        STATE_VALUES[open ? 'open' : tripped ? 'half_open' : 'closed'],
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Circuit of ${provider} not checked: ${(error as Error).message}`,
+      );
+      return { provider, state: 'closed', failures: 0 };
+    }
+
+    if (!permit) {
+      throw new ServiceUnavailableException({
+        message: `${provider} is unavailable, retry later`,
+        error: PROVIDER_CIRCUIT_OPEN_ERROR,
+      });
+    }
+    return permit;
+  }
+
+  /**
+   * The provider answered: closes a half open circuit and ends the run of
+   * failures.
+   */
+  async recordSuccess(permit: CircuitPermit): Promise<void> {
+    if (permit.state === 'closed' && permit.failures === 0) {
+      return;
+    }
+    const { provider } = permit;
+    await this.safely(provider, async () => {
+      await this.redis.del(
+        circuitKey(provider, 'failures'),
+        circuitKey(provider, 'tripped'),
+        circuitKey(provider, 'trial'),
+      );
+      if (permit.state === 'half_open') {
+        circuitStates.set({ provider }, STATE_VALUES.closed);
+        this.logger.log(`Circuit of ${provider} closed`);
+      }
+    });
+  }
+
+  /**
+   * The provider failed: opens the circuit once the threshold is hit, or
+   * right away after a failed trial call.
+   */
+  async recordFailure(permit: CircuitPermit): Promise<void> {
+    const { provider } = permit;
+    await this.safely(provider, async () => {
+      if (permit.state !== 'half_open') {
+        const key = circuitKey(provider, 'failures');
+        const failures = await this.redis.incr(key);
+        await this.redis.expire(key, PROVIDER_CIRCUIT_FAILURE_WINDOW_SECONDS);
+        if (failures < PROVIDER_CIRCUIT_FAILURE_THRESHOLD) {
+          return;
+        }
+      }
+
+      await this.redis.set(
+        circuitKey(provider, 'open'),
+        '1',
+        'EX',
+        PROVIDER_CIRCUIT_OPEN_SECONDS,
+      );
+      await this.redis.set(circuitKey(provider, 'tripped'), '1');
+      await this.redis.del(
+        circuitKey(provider, 'failures'),
+        circuitKey(provider, 'trial'),
+      );
+      circuitStates.set({ provider }, STATE_VALUES.open);
+      this.logger.warn(
+        `Circuit of ${provider} opened for ${PROVIDER_CIRCUIT_OPEN_SECONDS}s`,
+      );
+    });
+  }
+
+  /**
+   * Circuit state of every registered provider. Throws when Redis cannot
+   * be read.
+   */
+  async states(): Promise<Record<string, CircuitState>> {
+    const states: Record<string, CircuitState> = {};
+    for (const provider of this.providers) {
+      const [open, tripped] = await this.redis.mget(
+        circuitKey(provider, 'open'),
+        circuitKey(provider, 'tripped'),
+      );
+      states[provider] = open ? 'open' : tripped ? 'half_open' : 'closed';
+      circuitStates.set({ provider }, STATE_VALUES[states[provider]]);
+    }
+    return states;
+  }
+
+  private async safely(
+    provider: string,
+    update: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await update();
+    } catch (error) {
+      this.logger.warn(
+        `Circuit of ${provider} not updated: ${(error as Error).message}`,
+      );
+    }
+  }
+}
+
+function circuitKey(
+  provider: string,
+  part: 'failures' | 'open' | 'tripped' | 'trial',
+): string {
+  return `circuit:${provider}:${part}`;
+}
@@ -0,0 +1,45 @@
+// Longest wait for one provider call; the call is abandoned, not aborted.
+// Longer than the HTTP requests a call makes (MTN_TIMEOUT_MS,
+// AIRTEL_TIMEOUT_MS), so a provider gives up first and reports its outcome
+export const PROVIDER_CALL_TIMEOUT_MS =
+  Number(process.env.PROVIDER_CALL_TIMEOUT_MS) || 45000;
+
+// Further attempts of a failed call, on errors that are safe to retry
+export const PROVIDER_MAX_RETRIES = Number(
+  process.env.PROVIDER_MAX_RETRIES ?? 2,
+);
+
+// Wait before the first retry, doubled before each next one
+export const PROVIDER_RETRY_DELAY_MS =
+  Number(process.env.PROVIDER_RETRY_DELAY_MS) || 200;
+
+// Failed calls in a row that open the circuit of a provider
+export const PROVIDER_CIRCUIT_FAILURE_THRESHOLD =
+  Number(process.env.PROVIDER_CIRCUIT_FAILURE_THRESHOLD) || 5;
+
+// A run of failures is forgotten after this long without a new one
+export const PROVIDER_CIRCUIT_FAILURE_WINDOW_SECONDS =
+  Number(process.env.PROVIDER_CIRCUIT_FAILURE_WINDOW_SECONDS) || 60;
+
+// How long an open circuit rejects calls before letting a trial call through
+export const PROVIDER_CIRCUIT_OPEN_SECONDS =
+  Number(process.env.PROVIDER_CIRCUIT_OPEN_SECONDS) || 30;
+
+// `error` of the responses to calls rejected or abandoned by the resilience layer
+export const PROVIDER_CIRCUIT_OPEN_ERROR = 'PROVIDER_CIRCUIT_OPEN';
+
+export const PROVIDER_TIMEOUT_ERROR = 'PROVIDER_TIMEOUT';
+
+// Errors raised before the request reached the provider: always safe to retry
+export const CONNECTION_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+];
+
+// Errors leaving the outcome of the request unknown: retried for reads only
+export const INTERRUPTED_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+];
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { ProviderResilienceService } from './provider-resilience.service';
+
+@Module({
+  providers: [CircuitBreakerService, ProviderResilienceService],
+  exports: [CircuitBreakerService, ProviderResilienceService],
+})
+export class ProviderResilienceModule {}
@@ -0,0 +1,262 @@
+import {
+  GatewayTimeoutException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentStatus } from '@prisma/client';
+import {
+  isNotProcessed,
+  ProviderResilienceService,
+} from './provider-resilience.service';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import {
+  PROVIDER_CALL_TIMEOUT_MS,
+  PROVIDER_CIRCUIT_OPEN_ERROR,
+  PROVIDER_MAX_RETRIES,
+} from './provider-resilience.constants';
+import { PaymentProvider } from '../payments/providers/provider.interface';
+
+describe('ProviderResilienceService', () => {
+  let service: ProviderResilienceService;
+
+  const permit = { provider: 'MTN', state: 'closed', failures: 0 };
+
+  const mockCircuitBreaker = {
+    register: jest.fn(),
+    acquire: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn(),
+  };
+
+  const mockProvider = {
+    getProviderName: jest.fn().mockReturnValue('MTN'),
+    initiatePayment: jest.fn(),
+    checkPaymentStatus: jest.fn(),
+    refund: jest.fn(),
+  };
+
+  const initiateRequest = {
+    amount: 1000,
+    currency: 'UGX',
+    customer_phone: '+256772123456',
+    reference_id: 'PAY-1-A',
+  };
+
+  const statusRequest = {
+    provider_transaction_id: 'MTN-1',
+    reference_id: 'PAY-1-A',
+  };
+
+  const connectionRefused = Object.assign(new Error('connect ECONNREFUSED'), {
+    code: 'ECONNREFUSED',
+  });
+
+  const connectionReset = Object.assign(new Error('socket hang up'), {
+    code: 'ECONNRESET',
+  });
+
+  // Settles `call` while its timeouts and retry delays run out
+  const settle = async <T>(call: Promise<T>): Promise<T> => {
+    const outcome = call.then(
+      (value) => ({ value }),
+      (error: unknown) => ({ error }),
+    );
+    await jest.runAllTimersAsync();
+    const result = (await outcome) as { value?: T; error?: unknown };
+    if ('error' in result) {
+      throw result.error;
+    }
+    return result.value as T;
+  };
+
+  let provider: PaymentProvider;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProviderResilienceService,
+        { provide: CircuitBreakerService, useValue: mockCircuitBreaker },
+      ],
+    }).compile();
+
+    service = module.get<ProviderResilienceService>(ProviderResilienceService);
+
+    mockCircuitBreaker.acquire.mockResolvedValue(permit);
+    mockProvider.getProviderName.mockReturnValue('MTN');
+    provider = service.wrap(mockProvider);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.resetAllMocks();
+  });
+
+  it('should register the provider with the circuit breaker', () => {
+    expect(mockCircuitBreaker.register).toHaveBeenCalledWith('MTN');
+    expect(provider.getProviderName()).toBe('MTN');
+    expect(provider).not.toHaveProperty('cancelPayment');
+  });
+
+  it('should pass calls and their results through', async () => {
+    const response = {
+      success: true,
+      provider_transaction_id: 'MTN-1',
+      status: PaymentStatus.PENDING,
+    };
+    mockProvider.initiatePayment.mockResolvedValue(response);
+
+    await expect(provider.initiatePayment(initiateRequest)).resolves.toBe(
+      response,
+    );
+    expect(mockProvider.initiatePayment).toHaveBeenCalledWith(initiateRequest);
+    expect(mockCircuitBreaker.recordSuccess).toHaveBeenCalledWith(permit);
+  });
+
+  it('should fail fast while the circuit is open', async () => {
+    mockCircuitBreaker.acquire.mockRejectedValue(
+      new ServiceUnavailableException(),
+    );
+
+    await expect(provider.initiatePayment(initiateRequest)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    expect(mockProvider.initiatePayment).not.toHaveBeenCalled();
+  });
+
+  it('should give up on calls that outlive the timeout', async () => {
+    mockProvider.initiatePayment.mockReturnValue(new Promise(() => undefined));
+
+    const call = settle(provider.initiatePayment(initiateRequest));
+
+    await expect(call).rejects.toThrow(GatewayTimeoutException);
+    await expect(call).rejects.toMatchObject({
+      response: {
+        message: `MTN did not answer within ${PROVIDER_CALL_TIMEOUT_MS} ms`,
+        error: 'PROVIDER_TIMEOUT',
+      },
+    });
+    // The payment request may have reached MTN
+    expect(mockProvider.initiatePayment).toHaveBeenCalledTimes(1);
+    expect(mockCircuitBreaker.recordFailure).toHaveBeenCalledWith(permit);
+  });
+
+  it('should retry calls that never reached the provider', async () => {
+    mockProvider.refund
+      .mockRejectedValueOnce(connectionRefused)
+      .mockResolvedValue({ status: 'SUCCESS' });
+
+    await expect(
+      settle(
+        provider.refund({
+          provider_transaction_id: 'MTN-1',
+          refund_reference_id: 'RFD-1-A',
+          amount: 1000,
+          payment_amount: 1000,
+          currency: 'UGX',
+        }),
+      ),
+    ).resolves.toEqual({ status: 'SUCCESS' });
+    expect(mockProvider.refund).toHaveBeenCalledTimes(2);
+    expect(mockCircuitBreaker.recordFailure).not.toHaveBeenCalled();
+  });
+
+  it('should not retry payments whose outcome is unknown', async () => {
+    mockProvider.initiatePayment.mockRejectedValue(connectionReset);
+
+    await expect(
+      settle(provider.initiatePayment(initiateRequest)),
+    ).rejects.toThrow('socket hang up');
+    expect(mockProvider.initiatePayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry status checks a limited number of times', async () => {
+    mockProvider.checkPaymentStatus.mockRejectedValue(connectionReset);
+
+    await expect(
+      settle(provider.checkPaymentStatus(statusRequest)),
+    ).rejects.toThrow('socket hang up');
+    expect(mockProvider.checkPaymentStatus).toHaveBeenCalledTimes(
+      PROVIDER_MAX_RETRIES + 1,
+    );
+    expect(mockCircuitBreaker.recordFailure).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not count requests the provider refused as failures', async () => {
+    mockProvider.checkPaymentStatus.mockRejectedValue(
+      Object.assign(new Error('Request failed with status code 404'), {
+        response: { status: 404 },
+      }),
+    );
+
+    await expect(
+      settle(provider.checkPaymentStatus(statusRequest)),
+    ).rejects.toThrow('status code 404');
+    expect(mockProvider.checkPaymentStatus).toHaveBeenCalledTimes(1);
+    expect(mockCircuitBreaker.recordFailure).not.toHaveBeenCalled();
+    expect(mockCircuitBreaker.recordSuccess).toHaveBeenCalledWith(permit);
+  });
+
+  it('should not retry refund checks that may have reached the provider', async () => {
+    const checkRefundStatus = jest
+      .fn()
+      .mockRejectedValue(
+        Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+      );
+    provider = service.wrap({ ...mockProvider, checkRefundStatus });
+
+    await expect(
+      settle(
+        provider.checkRefundStatus!({
+          provider_transaction_id: 'MTN-1',
+          refund_reference_id: 'RFD-1-A',
+          amount: 1000,
+          payment_amount: 1000,
+          currency: 'UGX',
+        }),
+      ),
+    ).rejects.toThrow('socket hang up');
+    expect(checkRefundStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('should guard the cancel hook of providers that have one', async () => {
+    const cancelPayment = jest.fn().mockResolvedValue({ success: true });
+    provider = service.wrap({ ...mockProvider, cancelPayment });
+
+    await expect(provider.cancelPayment?.(statusRequest)).resolves.toEqual({
+      success: true,
+    });
+    expect(cancelPayment).toHaveBeenCalledWith(statusRequest);
+    expect(mockCircuitBreaker.acquire).toHaveBeenCalledWith('MTN');
+  });
+});
+
+describe('isNotProcessed', () => {
+  const withCode = (code: string) =>
+    Object.assign(new Error(`connect ${code}`), { code });
+  const withStatus = (status: number) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), {
+      response: { status },
+    });
+
+  it('should tell requests the provider certainly did not act on', () => {
+    expect(isNotProcessed(withStatus(400))).toBe(true);
+    expect(isNotProcessed(withCode('ECONNREFUSED'))).toBe(true);
+    expect(
+      isNotProcessed(
+        new ServiceUnavailableException({
+          message: 'MTN is unavailable, retry later',
+          error: PROVIDER_CIRCUIT_OPEN_ERROR,
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should leave failures with an unknown outcome out', () => {
+    expect(isNotProcessed(new GatewayTimeoutException())).toBe(false);
+    expect(isNotProcessed(withCode('ECONNRESET'))).toBe(false);
+    expect(isNotProcessed(withStatus(503))).toBe(false);
+    expect(isNotProcessed(new Error('Unexpected token'))).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  GatewayTimeoutException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Counter } from 'prom-client';
+import { register } from '../metrics/registry';
+import { PaymentProvider } from '../payments/providers/provider.interface';
+import {
+  CircuitBreakerService,
+  CircuitPermit,
+} from './circuit-breaker.service';
+import {
+  CONNECTION_ERROR_CODES,
+  INTERRUPTED_ERROR_CODES,
+  PROVIDER_CALL_TIMEOUT_MS,
+  PROVIDER_CIRCUIT_OPEN_ERROR,
+  PROVIDER_MAX_RETRIES,
+  PROVIDER_RETRY_DELAY_MS,
+  PROVIDER_TIMEOUT_ERROR,
+} from './provider-resilience.constants';
+
+type ProviderOperation =
+  | 'initiatePayment'
+  | 'checkPaymentStatus'
+  | 'refund'
+  | 'checkRefundStatus'
+  | 'cancelPayment';
+
+const providerCalls = new Counter({
+  name: 'payments_provider_calls_total',
+  help: 'Provider calls by outcome: success, error, timeout or rejected by an open circuit',
+  labelNames: ['provider', 'operation', 'result'] as const,
+  registers: [register],
+});
+
+/**
+ * Guards calls to payment providers. Every attempt is abandoned after
+ * PROVIDER_CALL_TIMEOUT_MS, errors that are safe to retry are retried with
+ * exponential backoff, and calls go through the circuit breaker of the
+ * provider so a failing provider is rejected fast until it recovers.
+ */
+@Injectable()
+export class ProviderResilienceService {
+  private readonly logger = new Logger(ProviderResilienceService.name);
+
+  constructor(private readonly circuitBreaker: CircuitBreakerService) {}
+
+  /**
+   * The provider with its calls guarded. Status checks are retried on any
+   * transient error; payments, refunds and cancellations only when the
+   * request never reached the provider, so money is not moved twice.
+   * Refund checks count as refunds, since a provider may make them by
+   * asking for the refund again.
+   */
+  wrap(provider: PaymentProvider): PaymentProvider {
+    const name = provider.getProviderName();
+    this.circuitBreaker.register(name);
+
+    const guarded: PaymentProvider = {
+      getProviderName: () => name,
+      initiatePayment: (request) =>
+        this.call(name, 'initiatePayment', false, () =>
+          provider.initiatePayment(request),
+        ),
+      checkPaymentStatus: (request) =>
+        this.call(name, 'checkPaymentStatus', true, () =>
+          provider.checkPaymentStatus(request),
+        ),
+      refund: (request) =>
+        this.call(name, 'refund', false, () => provider.refund(request)),
+    };
+    if (provider.newTransactionId) {
+      // Not a call to the provider
+      guarded.newTransactionId = (request) =>
+        provider.newTransactionId!(request);
+    }
+    if (provider.checkRefundStatus) {
+      guarded.checkRefundStatus = (request) =>
+        this.call(name, 'checkRefundStatus', false, () =>
+          provider.checkRefundStatus!(request),
+        );
+    }
+    if (provider.cancelPayment) {
+      guarded.cancelPayment = (request) =>
+        this.call(name, 'cancelPayment', false, () =>
+          provider.cancelPayment!(request),
+        );
+    }
+    return guarded;
+  }
+
+  private async call<T>(
+    provider: string,
+    operation: ProviderOperation,
+    idempotent: boolean,
+    send: () => Promise<T>,
+  ): Promise<T> {
+    let permit: CircuitPermit;
+    try {
+      permit = await this.circuitBreaker.acquire(provider);
+    } catch (error) {
+      providerCalls.inc({ provider, operation, result: 'rejected' });
+      throw error;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await withTimeout(provider, send());
+        providerCalls.inc({ provider, operation, result: 'success' });
+        await this.circuitBreaker.recordSuccess(permit);
+        return result;
+      } catch (error) {
+        if (
+          attempt < PROVIDER_MAX_RETRIES &&
+          isSafeToRetry(error, idempotent)
+        ) {
+          this.logger.warn(
+            `${operation} of ${provider} failed, retrying: ${(error as Error).message}`,
+          );
+          await sleep(PROVIDER_RETRY_DELAY_MS * 2 ** attempt);
+          continue;
+        }
+
+        providerCalls.inc({
+          provider,
+          operation,
+          result:
+            error instanceof GatewayTimeoutException ? 'timeout' : 'error',
+        });
+        // A provider refusing the request is still up
+        if (isProviderFault(error)) {
+          await this.circuitBreaker.recordFailure(permit);
+        } else {
+          await this.circuitBreaker.recordSuccess(permit);
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Rejects with GatewayTimeoutException, with the PROVIDER_TIMEOUT error,
+ * when the call outlives PROVIDER_CALL_TIMEOUT_MS.
+ */
+async function withTimeout<T>(provider: string, call: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new GatewayTimeoutException({
+            message: `${provider} did not answer within ${PROVIDER_CALL_TIMEOUT_MS} ms`,
+            error: PROVIDER_TIMEOUT_ERROR,
+          }),
+        ),
+      PROVIDER_CALL_TIMEOUT_MS,
+    );
+  });
+  try {
+    return await Promise.race([call, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * True when the provider certainly did not act on a guarded call that
+ * failed with `error`: it refused the request, the request never reached
+ * it, or its circuit was open. Other failures, timeouts above all, leave
+ * the outcome unknown.
+ */
+export function isNotProcessed(error: unknown): boolean {
+  if (error instanceof ServiceUnavailableException) {
+    const response = error.getResponse() as { error?: string };
+    return response.error === PROVIDER_CIRCUIT_OPEN_ERROR;
+  }
+  const code = errorCode(error);
+  if (code && CONNECTION_ERROR_CODES.includes(code)) {
+    return true;
+  }
+  const status = responseStatus(error);
+  return status !== undefined && status >= 400 && status < 500;
+}
+
+function isSafeToRetry(error: unknown, idempotent: boolean): boolean {
+  const code = errorCode(error);
+  if (code && CONNECTION_ERROR_CODES.includes(code)) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
+  return (
+    error instanceof GatewayTimeoutException ||
+    (code !== undefined && INTERRUPTED_ERROR_CODES.includes(code)) ||
+    (responseStatus(error) ?? 0) >= 500
+  );
+}
+
+function isProviderFault(error: unknown): boolean {
+  const status = responseStatus(error);
+  return status === undefined || status >= 500;
+}
+
+// Error code of Node and axios errors, e.g. ECONNREFUSED
+function errorCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+// HTTP status the provider answered with, for axios errors
+function responseStatus(error: unknown): number | undefined {
+  return (error as { response?: { status?: number } } | undefined)?.response
+    ?.status;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,15 @@
+/**
+ * Mobile numbering plan of a country: how its numbers are written and
+ * which provider each range belongs to
+ */
+export interface NumberPlan {
+  /** Country calling code, without `+` */
+  dial_code: string;
+  /** Digits after the calling code */
+  national_length: number;
+  /**
+   * Leading national digits (without the trunk `0`) of the ranges of each
+   * provider, keyed by payment provider name
+   */
+  ranges: Record<string, string[]>;
+}
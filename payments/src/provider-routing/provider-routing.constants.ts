@@ -0,0 +1,21 @@
+import { NumberPlan } from './interfaces/number-plan.interface';
+
+// Country of phone numbers written in national format, such as 0772123456
+export const PHONE_DEFAULT_COUNTRY = process.env.PHONE_DEFAULT_COUNTRY || 'UG';
+
+// Numbering plans by ISO country code; PROVIDER_NUMBER_PLANS replaces or adds countries
+export const DEFAULT_NUMBER_PLANS: Record<string, NumberPlan> = {
+  UG: {
+    dial_code: '256',
+    national_length: 9,
+    ranges: {
+      MTN_UGANDA: ['76', '77', '78'],
+      AIRTEL_UGANDA: ['70', '74', '75'],
+    },
+  },
+};
+
+// Bounds of an E.164 number, calling code included
+export const E164_MIN_DIGITS = 8;
+
+export const E164_MAX_DIGITS = 15;
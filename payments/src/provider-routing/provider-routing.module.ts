@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ProviderRoutingService } from './provider-routing.service';
+
+@Module({
+  providers: [ProviderRoutingService],
+  exports: [ProviderRoutingService],
+})
+export class ProviderRoutingModule {}
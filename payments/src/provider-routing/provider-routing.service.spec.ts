@@ -0,0 +1,121 @@
+import { BadRequestException } from '@nestjs/common';
+import { ProviderRoutingService } from './provider-routing.service';
+
+describe('ProviderRoutingService', () => {
+  let service: ProviderRoutingService;
+
+  beforeEach(() => {
+    delete process.env.PROVIDER_NUMBER_PLANS;
+    service = new ProviderRoutingService();
+  });
+
+  afterAll(() => {
+    delete process.env.PROVIDER_NUMBER_PLANS;
+  });
+
+  describe('route', () => {
+    it.each([
+      ['+256772123456', 'MTN_UGANDA'],
+      ['+256782123456', 'MTN_UGANDA'],
+      ['+256762123456', 'MTN_UGANDA'],
+      ['+256702123456', 'AIRTEL_UGANDA'],
+      ['+256752123456', 'AIRTEL_UGANDA'],
+      ['+256742123456', 'AIRTEL_UGANDA'],
+    ])('should route %s to %s', (phone, provider) => {
+      expect(service.route(phone)).toEqual({
+        customer_phone: phone,
+        country: 'UG',
+        provider,
+      });
+    });
+
+    it.each([
+      '0772123456',
+      '0772 123 456',
+      '(0772) 123-456',
+      '772123456',
+      '256772123456',
+      '00256772123456',
+      '+256 772 123 456',
+    ])('should normalize %s to E.164', (phone) => {
+      expect(service.route(phone).customer_phone).toBe('+256772123456');
+    });
+
+    it('should not route numbers outside the ranges of the plan', () => {
+      expect(service.route('0392123456')).toEqual({
+        customer_phone: '+256392123456',
+        country: 'UG',
+        provider: undefined,
+      });
+    });
+
+    it('should keep numbers of countries without a plan unrouted', () => {
+      expect(service.route('+254712345678')).toEqual({
+        customer_phone: '+254712345678',
+      });
+    });
+
+    it.each(['+2567721234567', '077212345', 'not a phone', '+12', ''])(
+      'should reject %j',
+      (phone) => {
+        expect(() => service.route(phone)).toThrow(BadRequestException);
+      },
+    );
+  });
+
+  describe('PROVIDER_NUMBER_PLANS', () => {
+    it('should add countries and prefer the most specific prefix', () => {
+      process.env.PROVIDER_NUMBER_PLANS = JSON.stringify({
+        KE: {
+          dial_code: '254',
+          national_length: 9,
+          ranges: { SAFARICOM: ['7'], AIRTEL_KENYA: ['73', '78'] },
+        },
+      });
+      service = new ProviderRoutingService();
+
+      expect(service.route('+254712345678').provider).toBe('SAFARICOM');
+      expect(service.route('+254733345678').provider).toBe('AIRTEL_KENYA');
+      expect(service.route('+256772123456').provider).toBe('MTN_UGANDA');
+    });
+
+    it('should replace the plan of a country', () => {
+      process.env.PROVIDER_NUMBER_PLANS = JSON.stringify({
+        UG: {
+          dial_code: '256',
+          national_length: 9,
+          ranges: { AIRTEL_UGANDA: ['70', '74', '75', '20'] },
+        },
+      });
+      service = new ProviderRoutingService();
+
+      expect(service.route('0202123456').provider).toBe('AIRTEL_UGANDA');
+      expect(service.route('0772123456').provider).toBeUndefined();
+    });
+
+    it('should refuse to start with an invalid plan', () => {
+      process.env.PROVIDER_NUMBER_PLANS = '{"UG":';
+      expect(() => new ProviderRoutingService()).toThrow(
+        'PROVIDER_NUMBER_PLANS is not valid JSON',
+      );
+
+      process.env.PROVIDER_NUMBER_PLANS = JSON.stringify({
+        UG: { dial_code: '+256', national_length: 9, ranges: {} },
+      });
+      expect(() => new ProviderRoutingService()).toThrow(
+        'Invalid numbering plan of UG',
+      );
+
+      process.env.PROVIDER_NUMBER_PLANS = JSON.stringify({
+        UG: {
+          dial_code: '256',
+          national_length: 9,
+          ranges: { MTN_UGANDA: ['77'], AIRTEL_UGANDA: ['77'] },
+        },
+      });
+      expect(() => new ProviderRoutingService()).toThrow(
+        'A prefix of UG is given to several providers',
+      );
+    });
+  });
+});
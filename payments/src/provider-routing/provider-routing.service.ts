@@ -0,0 +1,145 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { NumberPlan } from './interfaces/number-plan.interface';
+import {
+  DEFAULT_NUMBER_PLANS,
+  E164_MAX_DIGITS,
+  E164_MIN_DIGITS,
+  PHONE_DEFAULT_COUNTRY,
+} from './provider-routing.constants';
+
+export interface RoutedPhone {
+  /** E.164, e.g. +256772123456 */
+  customer_phone: string;
+  /** Country of the numbering plan the number belongs to */
+  country?: string;
+  /** Payment provider owning the number range, when the plan has one */
+  provider?: string;
+}
+
+/**
+ * Normalizes customer phone numbers to E.164 and finds the provider whose
+ * number range they belong to, from per-country numbering plans. The most
+ * specific matching prefix wins.
+ */
+@Injectable()
+export class ProviderRoutingService {
+  private readonly logger = new Logger(ProviderRoutingService.name);
+  private readonly plans: Record<string, NumberPlan>;
+
+  constructor() {
+    this.plans = {
+      ...DEFAULT_NUMBER_PLANS,
+      ...parseNumberPlans(process.env.PROVIDER_NUMBER_PLANS),
+    };
+    this.logger.log(
+      `Routing phone numbers of ${Object.keys(this.plans).join(', ')}`,
+    );
+  }
+
+  /**
+   * Numbers of countries without a plan are normalized but not routed.
+   * Throws BadRequestException for numbers that cannot be read.
+   */
+  route(phone: string): RoutedPhone {
+    const digits = this.toE164Digits(phone);
+
+    const match = Object.entries(this.plans).find(([, plan]) =>
+      digits.startsWith(plan.dial_code),
+    );
+    if (!match) {
+      if (digits.length < E164_MIN_DIGITS || digits.length > E164_MAX_DIGITS) {
+        throw new BadRequestException(`Invalid phone number ${phone}`);
+      }
+      return { customer_phone: `+${digits}` };
+    }
+
+    const [country, plan] = match;
+    const national = digits.slice(plan.dial_code.length);
+    if (national.length !== plan.national_length) {
+      throw new BadRequestException(`Invalid ${country} phone number ${phone}`);
+    }
+
+    let provider: string | undefined;
+    let matched = '';
+    for (const [name, prefixes] of Object.entries(plan.ranges)) {
+      for (const prefix of prefixes) {
+        if (national.startsWith(prefix) && prefix.length > matched.length) {
+          provider = name;
+          matched = prefix;
+        }
+      }
+    }
+    return { customer_phone: `+${digits}`, country, provider };
+  }
+
+  /**
+   * Digits of the number with its calling code. National numbers, with or
+   * without the trunk 0, are read in PHONE_DEFAULT_COUNTRY.
+   */
+  private toE164Digits(phone: string): string {
+    const compact = phone.replace(/[\s\-().]/g, '');
+    if (!/^(\+|00)?\d+$/.test(compact)) {
+      throw new BadRequestException(`Invalid phone number ${phone}`);
+    }
+    if (compact.startsWith('+')) {
+      return compact.slice(1);
+    }
+    if (compact.startsWith('00')) {
+      return compact.slice(2);
+    }
+
+    const plan = this.plans[PHONE_DEFAULT_COUNTRY];
+    if (compact.startsWith('0')) {
+      if (!plan) {
+        throw new BadRequestException(
+          `Phone number ${phone} must include its country code`,
+        );
+      }
+      return `${plan.dial_code}${compact.slice(1)}`;
+    }
+    return plan && compact.length === plan.national_length
+      ? `${plan.dial_code}${compact}`
+      : compact;
+  }
+}
+
+/**
+ * Plans of PROVIDER_NUMBER_PLANS, a JSON object keyed by country. Invalid
+ * plans stop the service from starting rather than misrouting payments.
+ */
+function parseNumberPlans(
+  json: string | undefined,
+): Record<string, NumberPlan> {
+  if (!json) {
+    return {};
+  }
+
+  let plans: Record<string, NumberPlan>;
+  try {
+    plans = JSON.parse(json) as Record<string, NumberPlan>;
+  } catch {
+    throw new Error('PROVIDER_NUMBER_PLANS is not valid JSON');
+  }
+
+  for (const [country, plan] of Object.entries(plans)) {
+    const prefixes = Object.values(plan?.ranges ?? {}).flat();
+    if (
+      !/^\d+$/.test(String(plan?.dial_code)) ||
+      !Number.isInteger(plan.national_length) ||
+      plan.national_length <= 0 ||
+      !plan.ranges ||
+      !Object.values(plan.ranges).every(Array.isArray) ||
+      !prefixes.every((prefix) => /^\d+$/.test(String(prefix)))
+    ) {
+      throw new Error(
+        `Invalid numbering plan of ${country} in PROVIDER_NUMBER_PLANS`,
+      );
+    }
+    if (new Set(prefixes).size !== prefixes.length) {
+      throw new Error(
+        `A prefix of ${country} is given to several providers in PROVIDER_NUMBER_PLANS`,
+      );
+    }
+  }
+  return plans;
+}
@@ -0,0 +1,22 @@
+// Set to false to stop this instance from running the job
+export const RECONCILIATION_ENABLED =
+  process.env.RECONCILIATION_ENABLED !== 'false';
+
+// How often each instance tries to run the job (only the leader does)
+export const RECONCILIATION_INTERVAL_SECONDS =
+  Number(process.env.RECONCILIATION_INTERVAL_SECONDS) || 60;
+
+// PENDING payments untouched for this long are checked with the provider
+export const RECONCILIATION_PENDING_AGE_SECONDS =
+  Number(process.env.RECONCILIATION_PENDING_AGE_SECONDS) || 5 * 60;
+
+// Payments checked per run
+export const RECONCILIATION_BATCH_SIZE =
+  Number(process.env.RECONCILIATION_BATCH_SIZE) || 100;
+
+// Provider status requests in flight at once
+export const RECONCILIATION_CONCURRENCY =
+  Number(process.env.RECONCILIATION_CONCURRENCY) || 5;
+
+// Leader lease name; the lease outlives two runs so a live leader keeps it
+export const RECONCILIATION_JOB = 'reconciliation';
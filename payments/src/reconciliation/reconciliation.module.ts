@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { PaymentsModule } from '../payments/payments.module';
+import { ReconciliationService } from './reconciliation.service';
+
+@Module({
+  imports: [PaymentsModule],
+  providers: [ReconciliationService],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentStatus, RefundStatus } from '@prisma/client';
+import { ReconciliationService } from './reconciliation.service';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentsRepository } from '../payments/payments.repository';
+import { LeaderElectionService } from '../common/leader-election.service';
+import {
+  RECONCILIATION_CONCURRENCY,
+  RECONCILIATION_PENDING_AGE_SECONDS,
+} from './reconciliation.constants';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+
+  const pendingPayment = (id: number) => ({
+    id,
+    reference_id: `PAY-${id}-ABC`,
+    status: PaymentStatus.PENDING,
+    provider_name: 'MTN',
+    provider_transaction_id: `MTN-SUCCESS-${id}`,
+  });
+
+  const pendingRefund = (id: number) => ({
+    id,
+    reference_id: `RFD-${id}-ABC`,
+    status: RefundStatus.PENDING,
+    payment: pendingPayment(id),
+  });
+
+  const mockPaymentsService = {
+    reconcilePayment: jest.fn(),
+    reconcileRefund: jest.fn(),
+  };
+
+  const mockRepository = {
+    findStalePending: jest.fn(),
+    markStatusChecked: jest.fn(),
+    findStalePendingRefunds: jest.fn(),
+    markRefundStatusChecked: jest.fn(),
+  };
+
+  const mockLeaderElection = {
+    acquire: jest.fn(),
+    release: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        { provide: PaymentsService, useValue: mockPaymentsService },
+        { provide: PaymentsRepository, useValue: mockRepository },
+        { provide: LeaderElectionService, useValue: mockLeaderElection },
+      ],
+    }).compile();
+
+    service = module.get<ReconciliationService>(ReconciliationService);
+
+    mockLeaderElection.acquire.mockResolvedValue(true);
+    mockRepository.findStalePending.mockResolvedValue([]);
+    mockRepository.markStatusChecked.mockResolvedValue(0);
+    mockPaymentsService.reconcilePayment.mockResolvedValue('updated');
+    mockRepository.findStalePendingRefunds.mockResolvedValue([]);
+    mockRepository.markRefundStatusChecked.mockResolvedValue(0);
+    mockPaymentsService.reconcileRefund.mockResolvedValue('updated');
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('runIfLeader', () => {
+    it('should not touch payments on instances that are not the leader', async () => {
+      mockLeaderElection.acquire.mockResolvedValue(false);
+
+      await service.runIfLeader();
+
+      expect(mockRepository.findStalePending).not.toHaveBeenCalled();
+    });
+
+    it('should reconcile payments on the leader', async () => {
+      mockRepository.findStalePending.mockResolvedValue([pendingPayment(1)]);
+
+      await service.runIfLeader();
+
+      expect(mockLeaderElection.acquire).toHaveBeenCalledWith(
+        'reconciliation',
+        expect.any(Number),
+      );
+      expect(mockPaymentsService.reconcilePayment).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reconcile refunds after payments on the leader', async () => {
+      mockRepository.findStalePendingRefunds.mockResolvedValue([
+        pendingRefund(1),
+      ]);
+
+      await service.runIfLeader();
+
+      expect(mockPaymentsService.reconcileRefund).toHaveBeenCalledWith(
+        pendingRefund(1),
+      );
+    });
+
+    it('should skip a run while the previous one is still going', async () => {
+      let finish: () => void = () => undefined;
+      mockRepository.findStalePending.mockReturnValue(
+        new Promise((resolve) => {
+          finish = () => resolve([]);
+        }),
+      );
+
+      const first = service.runIfLeader();
+      await service.runIfLeader();
+      finish();
+      await first;
+
+      expect(mockLeaderElection.acquire).toHaveBeenCalledTimes(1);
+    });
+
+    it('should survive a Redis outage', async () => {
+      mockLeaderElection.acquire.mockRejectedValue(
+        new Error('Connection is closed'),
+      );
+
+      await expect(service.runIfLeader()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('reconcilePendingPayments', () => {
+    it('should check payments pending for longer than the configured age', async () => {
+      const before = Date.now();
+      mockRepository.findStalePending.mockResolvedValue([
+        pendingPayment(1),
+        pendingPayment(2),
+      ]);
+
+      await service.reconcilePendingPayments();
+
+      const [[cutoff]] = mockRepository.findStalePending.mock.calls as [
+        [Date, number],
+      ];
+      expect(cutoff.getTime()).toBeLessThanOrEqual(
+        before - RECONCILIATION_PENDING_AGE_SECONDS * 1000 + 1000,
+      );
+      expect(mockRepository.markStatusChecked).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(Date),
+      );
+    });
+
+    it('should count the result of every payment, including failures', async () => {
+      mockRepository.findStalePending.mockResolvedValue([
+        pendingPayment(1),
+        pendingPayment(2),
+        pendingPayment(3),
+        pendingPayment(4),
+      ]);
+      mockPaymentsService.reconcilePayment
+        .mockResolvedValueOnce('updated')
+        .mockResolvedValueOnce('unchanged')
+        .mockRejectedValueOnce(new Error('Provider timeout'))
+        .mockResolvedValueOnce('updated');
+
+      await expect(service.reconcilePendingPayments()).resolves.toEqual({
+        updated: 2,
+        unchanged: 1,
+        error: 1,
+      });
+    });
+
+    it('should limit the provider requests in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockRepository.findStalePending.mockResolvedValue(
+        Array.from({ length: RECONCILIATION_CONCURRENCY * 3 }, (_, index) =>
+          pendingPayment(index + 1),
+        ),
+      );
+      mockPaymentsService.reconcilePayment.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlight--;
+        return 'unchanged';
+      });
+
+      await service.reconcilePendingPayments();
+
+      expect(mockPaymentsService.reconcilePayment).toHaveBeenCalledTimes(
+        RECONCILIATION_CONCURRENCY * 3,
+      );
+      expect(maxInFlight).toBe(RECONCILIATION_CONCURRENCY);
+    });
+
+    it('should do nothing without stale payments', async () => {
+      await expect(service.reconcilePendingPayments()).resolves.toEqual({});
+      expect(mockRepository.markStatusChecked).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcilePendingRefunds', () => {
+    it('should check refunds pending for longer than the configured age', async () => {
+      const before = Date.now();
+      mockRepository.findStalePendingRefunds.mockResolvedValue([
+        pendingRefund(1),
+        pendingRefund(2),
+        pendingRefund(3),
+      ]);
+      mockPaymentsService.reconcileRefund
+        .mockResolvedValueOnce('updated')
+        .mockResolvedValueOnce('unsupported_provider')
+        .mockRejectedValueOnce(new Error('Provider timeout'));
+
+      await expect(service.reconcilePendingRefunds()).resolves.toEqual({
+        updated: 1,
+        unsupported_provider: 1,
+        error: 1,
+      });
+
+      const [[cutoff]] = mockRepository.findStalePendingRefunds.mock.calls as [
+        [Date, number],
+      ];
+      expect(cutoff.getTime()).toBeLessThanOrEqual(
+        before - RECONCILIATION_PENDING_AGE_SECONDS * 1000 + 1000,
+      );
+      expect(mockRepository.markRefundStatusChecked).toHaveBeenCalledWith(
+        [1, 2, 3],
+        expect.any(Date),
+      );
+    });
+
+    it('should do nothing without stale refunds', async () => {
+      await expect(service.reconcilePendingRefunds()).resolves.toEqual({});
+      expect(mockRepository.markRefundStatusChecked).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Payment } from '@prisma/client';
+import { Counter } from 'prom-client';
+import { register } from '../metrics/registry';
+import { LeaderElectionService } from '../common/leader-election.service';
+import { countResults, LeaderJob } from '../common/leader-job';
+import { mapWithConcurrency } from '../common/utils/concurrency.util';
+import {
+  PaymentsRepository,
+  RefundWithPayment,
+} from '../payments/payments.repository';
+import {
+  PaymentsService,
+  ReconciliationResult,
+} from '../payments/payments.service';
+import {
+  RECONCILIATION_BATCH_SIZE,
+  RECONCILIATION_CONCURRENCY,
+  RECONCILIATION_ENABLED,
+  RECONCILIATION_INTERVAL_SECONDS,
+  RECONCILIATION_JOB,
+  RECONCILIATION_PENDING_AGE_SECONDS,
+} from './reconciliation.constants';
+
+type ReconciliationOutcome = ReconciliationResult | 'error';
+
+const reconciliationChecks = new Counter({
+  name: 'payments_reconciliation_checks_total',
+  help: 'Provider status checks of pending payments by the reconciliation job',
+  labelNames: ['provider', 'result'] as const,
+  registers: [register],
+});
+
+const refundReconciliationChecks = new Counter({
+  name: 'payments_refund_reconciliation_checks_total',
+  help: 'Provider status checks of pending refunds by the reconciliation job',
+  labelNames: ['provider', 'result'] as const,
+  registers: [register],
+});
+
+/**
+ * Recovers payments whose provider webhook never arrived: PENDING payments
+ * untouched for RECONCILIATION_PENDING_AGE_SECONDS are checked with their
+ * provider and moved on when it reports a final status, and so are
+ * refunds left PENDING. Every instance schedules the job, but only the
+ * Redis-elected leader runs it.
+ */
+@Injectable()
+export class ReconciliationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private readonly job: LeaderJob;
+
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly paymentsRepository: PaymentsRepository,
+    leaderElectionService: LeaderElectionService,
+  ) {
+    this.job = new LeaderJob(
+      leaderElectionService,
+      this.logger,
+      {
+        name: RECONCILIATION_JOB,
+        label: 'Reconciliation job',
+        enabled: RECONCILIATION_ENABLED,
+        intervalSeconds: RECONCILIATION_INTERVAL_SECONDS,
+      },
+      async (signal) => {
+        await this.reconcilePendingPayments(signal);
+        await this.reconcilePendingRefunds(signal);
+      },
+    );
+  }
+
+  onModuleInit(): void {
+    this.job.start();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.job.stop();
+  }
+
+  /**
+   * One scheduled run. Skipped on followers, and while the previous run of
+   * this instance is still going.
+   */
+  runIfLeader(): Promise<void> {
+    return this.job.runIfLeader();
+  }
+
+  /**
+   * Check one batch of stale PENDING payments, RECONCILIATION_CONCURRENCY
+   * at a time. Returns the number of payments per result.
+   */
+  async reconcilePendingPayments(
+    signal?: AbortSignal,
+  ): Promise<Partial<Record<ReconciliationOutcome, number>>> {
+    const now = new Date();
+    const payments = await this.paymentsRepository.findStalePending(
+      new Date(now.getTime() - RECONCILIATION_PENDING_AGE_SECONDS * 1000),
+      RECONCILIATION_BATCH_SIZE,
+    );
+    if (payments.length === 0) {
+      return {};
+    }
+
+    // Checked payments wait another RECONCILIATION_PENDING_AGE_SECONDS whatever
+    // the result, so payments the provider keeps pending do not starve the rest
+    await this.paymentsRepository.markStatusChecked(
+      payments.map((payment) => payment.id),
+      now,
+    );
+
+    const results = await mapWithConcurrency(
+      payments,
+      RECONCILIATION_CONCURRENCY,
+      (payment) => this.reconcile(payment),
+      signal,
+    );
+
+    const summary = countResults(results);
+    this.logger.log(
+      `Checked ${results.length} pending payments with their providers: ${JSON.stringify(summary)}`,
+    );
+    return summary;
+  }
+
+  /**
+   * Check one batch of stale PENDING refunds, the same way as payments.
+   * Returns the number of refunds per result.
+   */
+  async reconcilePendingRefunds(
+    signal?: AbortSignal,
+  ): Promise<Partial<Record<ReconciliationOutcome, number>>> {
+    const now = new Date();
+    const refunds = await this.paymentsRepository.findStalePendingRefunds(
+      new Date(now.getTime() - RECONCILIATION_PENDING_AGE_SECONDS * 1000),
+      RECONCILIATION_BATCH_SIZE,
+    );
+    if (refunds.length === 0) {
+      return {};
+    }
+
+    await this.paymentsRepository.markRefundStatusChecked(
+      refunds.map((refund) => refund.id),
+      now,
+    );
+
+    const results = await mapWithConcurrency(
+      refunds,
+      RECONCILIATION_CONCURRENCY,
+      (refund) => this.reconcileRefund(refund),
+      signal,
+    );
+
+    const summary = countResults(results);
+    this.logger.log(
+      `Checked ${results.length} pending refunds with their providers: ${JSON.stringify(summary)}`,
+    );
+    return summary;
+  }
+
+  private async reconcile(payment: Payment): Promise<ReconciliationOutcome> {
+    let result: ReconciliationOutcome;
+    try {
+      result = await this.paymentsService.reconcilePayment(payment);
+    } catch (error) {
+      this.logger.error(
+        `Failed to reconcile payment ${payment.reference_id}: ${(error as Error).message}`,
+      );
+      result = 'error';
+    }
+    reconciliationChecks.inc({
+      provider: payment.provider_name ?? 'unknown',
+      result,
+    });
+    return result;
+  }
+
+  private async reconcileRefund(
+    refund: RefundWithPayment,
+  ): Promise<ReconciliationOutcome> {
+    let result: ReconciliationOutcome;
+    try {
+      result = await this.paymentsService.reconcileRefund(refund);
+    } catch (error) {
+      this.logger.error(
+        `Failed to reconcile refund ${refund.reference_id}: ${(error as Error).message}`,
+      );
+      result = 'error';
+    }
+    refundReconciliationChecks.inc({
+      provider: refund.payment.provider_name ?? 'unknown',
+      result,
+    });
+    return result;
+  }
+}
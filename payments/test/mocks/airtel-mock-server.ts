@@ -0,0 +1,343 @@
+import { createHmac, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Stand-in for the Airtel Africa Open API endpoints used by AirtelProvider:
+ * client credentials tokens, collections, status enquiries and refunds.
+ * Collections stay in progress (TIP) until settled, by hand with settle()
+ * or after settle_after_ms. The final status follows the last digit of the
+ * subscriber number:
+ *
+ *   ...1  TF  failed (insufficient funds)
+ *   ...2  TE  expired (the customer never answered)
+ *   ...3  refused at initiation (not an Airtel Money subscriber)
+ *   other TS  succeeded
+ *
+ * Run it on its own with `pnpm mock:airtel`.
+ */
+
+export interface AirtelMockOptions {
+  port?: number;
+  client_id?: string;
+  client_secret?: string;
+  // Settle collections on their own after this delay
+  settle_after_ms?: number;
+  // Where settled collections are reported, signed like provider webhooks
+  callback?: { url: string; secret: string };
+}
+
+export interface AirtelMockTransaction {
+  id: string;
+  msisdn: string;
+  amount: number;
+  currency: string;
+  status: 'TIP' | 'TS' | 'TF' | 'TE';
+  airtel_money_id?: string;
+  message: string;
+  refunded: boolean;
+}
+
+export interface AirtelMockRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+export interface AirtelMockServer {
+  url: string;
+  transactions: Map<string, AirtelMockTransaction>;
+  requests: AirtelMockRequest[];
+  // Complete a collection with the outcome its subscriber number calls for
+  settle(id: string): Promise<AirtelMockTransaction>;
+  close(): Promise<void>;
+}
+
+// Fields read from request bodies, across endpoints
+interface AirtelMockBody {
+  client_id?: string;
+  client_secret?: string;
+  grant_type?: string;
+  subscriber?: { msisdn?: string };
+  transaction?: {
+    id?: string;
+    amount?: number;
+    currency?: string;
+    airtel_money_id?: string;
+  };
+}
+
+const OUTCOMES: Record<
+  string,
+  Pick<AirtelMockTransaction, 'status' | 'message'>
+> = {
+  '1': { status: 'TF', message: 'Insufficient funds' },
+  '2': { status: 'TE', message: 'Transaction expired' },
+};
+
+const SUCCESS = {
+  code: '200',
+  message: 'SUCCESS',
+  result_code: 'ESB000010',
+  success: true,
+};
+
+export async function startAirtelMockServer(
+  options: AirtelMockOptions = {},
+): Promise<AirtelMockServer> {
+  const client_id = options.client_id ?? 'airtel-client-id';
+  const client_secret = options.client_secret ?? 'airtel-client-secret';
+  const tokens = new Set<string>();
+  const transactions = new Map<string, AirtelMockTransaction>();
+  const requests: AirtelMockRequest[] = [];
+
+  const settle = async (id: string): Promise<AirtelMockTransaction> => {
+    const transaction = transactions.get(id);
+    if (!transaction) {
+      throw new Error(`Unknown Airtel mock transaction ${id}`);
+    }
+    if (transaction.status === 'TIP') {
+      Object.assign(
+        transaction,
+        OUTCOMES[transaction.msisdn.slice(-1)] ?? {
+          status: 'TS',
+          message: `Paid ${transaction.currency} ${transaction.amount}`,
+        },
+      );
+      transaction.airtel_money_id = `MP${Date.now()}.${randomBytes(3).toString('hex').toUpperCase()}`;
+      if (options.callback) {
+        await sendCallback(options.callback, transaction);
+      }
+    }
+    return transaction;
+  };
+
+  const routes = (
+    method: string,
+    path: string,
+    body: AirtelMockBody,
+    authorized: boolean,
+  ): [number, object] => {
+    if (method === 'POST' && path === '/auth/oauth2/token') {
+      if (
+        body.client_id !== client_id ||
+        body.client_secret !== client_secret ||
+        body.grant_type !== 'client_credentials'
+      ) {
+        return [401, { error: 'invalid_client' }];
+      }
+      const access_token = randomBytes(16).toString('hex');
+      tokens.add(access_token);
+      return [200, { access_token, expires_in: '180', token_type: 'bearer' }];
+    }
+
+    if (!authorized) {
+      return [401, { error: 'invalid_token' }];
+    }
+
+    if (method === 'POST' && path === '/merchant/v1/payments/') {
+      const id = String(body.transaction?.id ?? '');
+      const msisdn = String(body.subscriber?.msisdn ?? '');
+      if (!id || !/^\d{9}$/.test(msisdn)) {
+        return [400, failure('400', 'Invalid request')];
+      }
+      if (transactions.has(id)) {
+        return [200, failure('DP00800001009', 'Duplicate transaction id')];
+      }
+      if (msisdn.endsWith('3')) {
+        return [
+          200,
+          failure('DP00800001005', 'The subscriber is not registered'),
+        ];
+      }
+      transactions.set(id, {
+        id,
+        msisdn,
+        amount: Number(body.transaction?.amount),
+        currency: String(body.transaction?.currency),
+        status: 'TIP',
+        message: 'Transaction in progress',
+        refunded: false,
+      });
+      if (options.settle_after_ms !== undefined) {
+        setTimeout(
+          () =>
+            void settle(id).catch((error: Error) =>
+              console.error(`Callback of ${id} failed: ${error.message}`),
+            ),
+          options.settle_after_ms,
+        ).unref();
+      }
+      return [
+        200,
+        {
+          data: { transaction: { id, status: 'Success.' } },
+          status: { ...SUCCESS, response_code: 'DP00800001006' },
+        },
+      ];
+    }
+
+    const enquiry = /^\/standard\/v1\/payments\/([^/]+)$/.exec(path);
+    if (method === 'GET' && enquiry) {
+      const transaction = transactions.get(decodeURIComponent(enquiry[1]));
+      if (!transaction) {
+        return [404, failure('404', 'Transaction not found')];
+      }
+      const { id, airtel_money_id, message, status } = transaction;
+      return [
+        200,
+        {
+          data: { transaction: { id, airtel_money_id, message, status } },
+          status: SUCCESS,
+        },
+      ];
+    }
+
+    if (method === 'POST' && path === '/standard/v1/payments/refund') {
+      const airtel_money_id = String(body.transaction?.airtel_money_id ?? '');
+      const transaction = [...transactions.values()].find(
+        (candidate) => candidate.airtel_money_id === airtel_money_id,
+      );
+      if (!transaction || transaction.status !== 'TS' || transaction.refunded) {
+        return [
+          200,
+          failure('DP00800001010', 'Transaction is not eligible for refund'),
+        ];
+      }
+      transaction.refunded = true;
+      return [
+        200,
+        {
+          data: {
+            transaction: {
+              airtel_money_id: `RF${Date.now()}.${randomBytes(3).toString('hex').toUpperCase()}`,
+              status: 'SUCCESS',
+            },
+          },
+          status: SUCCESS,
+        },
+      ];
+    }
+
+    return [404, failure('404', 'Not found')];
+  };
+
+  const server = createServer(
+    (request: IncomingMessage, response: ServerResponse) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('end', () => {
+        let body: AirtelMockBody = {};
+        try {
+          body = chunks.length
+            ? (JSON.parse(
+                Buffer.concat(chunks).toString('utf8'),
+              ) as AirtelMockBody)
+            : {};
+        } catch {
+          // Answered as an invalid request below
+        }
+        const path = (request.url ?? '/').split('?')[0];
+        requests.push({
+          method: request.method ?? 'GET',
+          path,
+          headers: request.headers,
+          body,
+        });
+
+        const token = /^Bearer (.+)$/.exec(
+          request.headers.authorization ?? '',
+        )?.[1];
+        const [status, payload] = routes(
+          request.method ?? 'GET',
+          path,
+          body,
+          token !== undefined && tokens.has(token),
+        );
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(payload));
+      });
+    },
+  );
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${port}`,
+    transactions,
+    requests,
+    settle,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
+
+function failure(response_code: string, message: string) {
+  return {
+    data: {},
+    status: {
+      code: '200',
+      message,
+      response_code,
+      result_code: 'ESB000001',
+      success: false,
+    },
+  };
+}
+
+async function sendCallback(
+  callback: { url: string; secret: string },
+  transaction: AirtelMockTransaction,
+): Promise<void> {
+  const body = JSON.stringify({
+    transaction: {
+      id: transaction.id,
+      message: transaction.message,
+      status_code: transaction.status,
+      airtel_money_id: transaction.airtel_money_id,
+    },
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = createHmac('sha256', callback.secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  const response = await fetch(callback.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signature}`,
+    },
+    body,
+  });
+  console.log(
+    `Callback of ${transaction.id} (${transaction.status}): ${response.status}`,
+  );
+}
+
+if (require.main === module) {
+  const secret = process.env.AIRTEL_WEBHOOK_SECRET;
+  void startAirtelMockServer({
+    port: Number(process.env.AIRTEL_MOCK_PORT) || 4010,
+    client_id: process.env.AIRTEL_CLIENT_ID,
+    client_secret: process.env.AIRTEL_CLIENT_SECRET,
+    settle_after_ms: Number(process.env.AIRTEL_MOCK_SETTLE_AFTER_MS) || 5000,
+    callback: secret
+      ? {
+          url:
+            process.env.AIRTEL_MOCK_CALLBACK_URL ??
+            'http://localhost:3002/payments/webhook/airtel',
+          secret,
+        }
+      : undefined,
+  }).then((server) =>
+    console.log(`Airtel mock API listening on ${server.url}`),
+  );
+}
@@ -0,0 +1,370 @@
+import { randomBytes } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  MTN_MOCK_DEFAULT_CALLBACK_URL,
+  MTN_MOCK_DEFAULT_SETTLE_AFTER_MS,
+} from '../../src/payments/payments.constants';
+import { toPaymentStatus } from '../../src/payments/providers/mtn-momo.client';
+import {
+  MTN_TEST_OUTCOMES,
+  mtnTestScenario,
+  sendMtnTestWebhook,
+} from '../../src/payments/providers/mtn-test-scenarios';
+import type { MtnTestScenario } from '../../src/payments/providers/mtn-test-scenarios';
+
+/**
+ * Stand-in for the MoMo Collection API endpoints used by MtnMomoClient:
+ * API user tokens, request to pay, its status and account holder checks.
+ * Requests to pay play the test scenario of their payer and amount (see
+ * mtn-test-scenarios): they are refused, settled right away or stay
+ * PENDING until settled, by hand with settle() or after settle_after_ms.
+ * Numbers in `inactive` have no MoMo account. With a `callback`, settled
+ * requests to pay are reported there as signed webhooks.
+ *
+ * Run it on its own with `pnpm mock:mtn`, with MTN_MODE=stand-in.
+ */
+
+export interface MtnMomoMockOptions {
+  port?: number;
+  api_user?: string;
+  api_key?: string;
+  subscription_key?: string;
+  target_environment?: string;
+  // Settle requests to pay on their own after this delay
+  settle_after_ms?: number;
+  // Where settled requests to pay are reported, signed like provider webhooks
+  callback?: { url: string; secret: string };
+  // Do not log callbacks; the default under jest
+  quiet?: boolean;
+}
+
+export interface MtnMomoMockRequestToPay {
+  reference_id: string;
+  amount: string;
+  currency: string;
+  external_id: string;
+  msisdn: string;
+  scenario: MtnTestScenario;
+  status: 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+  reason?: string;
+  financial_transaction_id?: string;
+}
+
+export interface MtnMomoMockRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+// Final state given to a request to pay by settle()
+export type MtnMomoMockOutcome =
+  | { status: 'SUCCESSFUL' }
+  | { status: 'FAILED'; reason: string };
+
+export interface MtnMomoMockServer {
+  url: string;
+  requestsToPay: Map<string, MtnMomoMockRequestToPay>;
+  requests: MtnMomoMockRequest[];
+  // MSISDNs without an active MoMo account
+  inactive: Set<string>;
+  settle(
+    referenceId: string,
+    outcome?: MtnMomoMockOutcome,
+  ): MtnMomoMockRequestToPay;
+  close(): Promise<void>;
+}
+
+// Fields read from request bodies
+interface MtnMomoMockBody {
+  amount?: string;
+  currency?: string;
+  externalId?: string;
+  payer?: { partyIdType?: string; partyId?: string };
+}
+
+const UUID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function startMtnMomoMockServer(
+  options: MtnMomoMockOptions = {},
+): Promise<MtnMomoMockServer> {
+  const api_user = options.api_user ?? 'mtn-api-user';
+  const api_key = options.api_key ?? 'mtn-api-key';
+  const subscription_key = options.subscription_key ?? 'mtn-subscription-key';
+  const target_environment = options.target_environment ?? 'sandbox';
+  const tokens = new Set<string>();
+  const requestsToPay = new Map<string, MtnMomoMockRequestToPay>();
+  const requests: MtnMomoMockRequest[] = [];
+  const inactive = new Set<string>();
+  const quiet = options.quiet ?? process.env.JEST_WORKER_ID !== undefined;
+
+  // Without an outcome, settles the request to pay as its scenario says
+  const settle = (
+    referenceId: string,
+    outcome?: MtnMomoMockOutcome,
+  ): MtnMomoMockRequestToPay => {
+    const requestToPay = requestsToPay.get(referenceId);
+    if (!requestToPay) {
+      throw new Error(`Unknown MoMo mock request to pay ${referenceId}`);
+    }
+    if (!outcome) {
+      const scenario = MTN_TEST_OUTCOMES[requestToPay.scenario];
+      outcome =
+        scenario.settle === 'refused' || scenario.status === 'SUCCESSFUL'
+          ? { status: 'SUCCESSFUL' }
+          : {
+              status: 'FAILED',
+              reason: scenario.reason ?? 'INTERNAL_PROCESSING_ERROR',
+            };
+    }
+    if (requestToPay.status === 'PENDING') {
+      Object.assign(requestToPay, outcome);
+      if (outcome.status === 'SUCCESSFUL') {
+        requestToPay.financial_transaction_id = String(
+          parseInt(randomBytes(4).toString('hex'), 16),
+        );
+      }
+      if (options.callback) {
+        void sendCallback(options.callback, requestToPay, quiet);
+      }
+    }
+    return requestToPay;
+  };
+
+  const routes = (
+    request: IncomingMessage,
+    path: string,
+    body: MtnMomoMockBody,
+  ): [number, object?] => {
+    const method = request.method ?? 'GET';
+    const headers = request.headers;
+
+    if (headers['ocp-apim-subscription-key'] !== subscription_key) {
+      return [
+        401,
+        {
+          statusCode: 401,
+          message:
+            'Access denied due to invalid subscription key. Make sure to provide a valid key for an active subscription.',
+        },
+      ];
+    }
+
+    if (method === 'POST' && path === '/collection/token/') {
+      const expected = `Basic ${Buffer.from(`${api_user}:${api_key}`).toString('base64')}`;
+      if (headers.authorization !== expected) {
+        return [401, { error: 'login_failed' }];
+      }
+      const access_token = randomBytes(16).toString('hex');
+      tokens.add(access_token);
+      return [
+        200,
+        { access_token, token_type: 'access_token', expires_in: 3600 },
+      ];
+    }
+
+    const token = /^Bearer (.+)$/.exec(headers.authorization ?? '')?.[1];
+    if (token === undefined || !tokens.has(token)) {
+      return [401, { code: 'NOT_AUTHORIZED', message: 'Invalid token' }];
+    }
+    if (headers['x-target-environment'] !== target_environment) {
+      return [
+        404,
+        { code: 'RESOURCE_NOT_FOUND', message: 'Unknown target environment' },
+      ];
+    }
+
+    if (method === 'POST' && path === '/collection/v1_0/requesttopay') {
+      const referenceId = String(headers['x-reference-id'] ?? '');
+      if (!UUID.test(referenceId)) {
+        return [
+          400,
+          {
+            code: 'INVALID_REFERENCE_ID',
+            message: 'X-Reference-Id is not a UUID',
+          },
+        ];
+      }
+      if (requestsToPay.has(referenceId)) {
+        return [
+          409,
+          {
+            code: 'RESOURCE_ALREADY_EXIST',
+            message: 'Duplicated reference id. Creation for resource failed.',
+          },
+        ];
+      }
+      const msisdn = String(body.payer?.partyId ?? '');
+      if (
+        body.payer?.partyIdType !== 'MSISDN' ||
+        !/^\d{8,15}$/.test(msisdn) ||
+        !/^\d+(\.\d+)?$/.test(String(body.amount)) ||
+        typeof body.currency !== 'string'
+      ) {
+        return [400, { code: 'INVALID_PAYER', message: 'Invalid request' }];
+      }
+      const scenario = mtnTestScenario(`+${msisdn}`, Number(body.amount));
+      const outcome = MTN_TEST_OUTCOMES[scenario];
+      if (outcome.settle === 'refused') {
+        return [400, { code: outcome.code, message: outcome.message }];
+      }
+      requestsToPay.set(referenceId, {
+        reference_id: referenceId,
+        amount: String(body.amount),
+        currency: body.currency,
+        external_id: String(body.externalId ?? ''),
+        msisdn,
+        scenario,
+        status: 'PENDING',
+      });
+      if (outcome.settle === 'immediately') {
+        settle(referenceId);
+      } else if (options.settle_after_ms !== undefined) {
+        setTimeout(() => settle(referenceId), options.settle_after_ms).unref();
+      }
+      return [202];
+    }
+
+    const status = /^\/collection\/v1_0\/requesttopay\/([^/]+)$/.exec(path);
+    if (method === 'GET' && status) {
+      const requestToPay = requestsToPay.get(decodeURIComponent(status[1]));
+      if (!requestToPay) {
+        return [
+          404,
+          {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Requested resource was not found.',
+          },
+        ];
+      }
+      return [
+        200,
+        {
+          amount: requestToPay.amount,
+          currency: requestToPay.currency,
+          financialTransactionId: requestToPay.financial_transaction_id,
+          externalId: requestToPay.external_id,
+          payer: { partyIdType: 'MSISDN', partyId: requestToPay.msisdn },
+          status: requestToPay.status,
+          reason: requestToPay.reason,
+        },
+      ];
+    }
+
+    const holder =
+      /^\/collection\/v1_0\/accountholder\/msisdn\/([^/]+)\/active$/.exec(path);
+    if (method === 'GET' && holder) {
+      return [200, { result: !inactive.has(decodeURIComponent(holder[1])) }];
+    }
+
+    return [
+      404,
+      {
+        code: 'RESOURCE_NOT_FOUND',
+        message: 'Requested resource was not found.',
+      },
+    ];
+  };
+
+  const server = createServer(
+    (request: IncomingMessage, response: ServerResponse) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('end', () => {
+        let body: MtnMomoMockBody = {};
+        try {
+          body = chunks.length
+            ? (JSON.parse(
+                Buffer.concat(chunks).toString('utf8'),
+              ) as MtnMomoMockBody)
+            : {};
+        } catch {
+          // Answered as an invalid request below
+        }
+        const path = (request.url ?? '/').split('?')[0];
+        requests.push({
+          method: request.method ?? 'GET',
+          path,
+          headers: request.headers,
+          body,
+        });
+
+        const [status, payload] = routes(request, path, body);
+        if (payload) {
+          response.writeHead(status, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify(payload));
+        } else {
+          response.writeHead(status);
+          response.end();
+        }
+      });
+    },
+  );
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${port}`,
+    requestsToPay,
+    requests,
+    inactive,
+    settle,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
+
+async function sendCallback(
+  callback: { url: string; secret: string },
+  requestToPay: MtnMomoMockRequestToPay,
+  quiet: boolean,
+): Promise<void> {
+  try {
+    const status = await sendMtnTestWebhook(callback.url, callback.secret, {
+      payment_reference_id: requestToPay.external_id,
+      provider_transaction_id: requestToPay.reference_id,
+      status: toPaymentStatus(requestToPay.status, requestToPay.reason)!,
+    });
+    if (quiet) {
+      return;
+    }
+    console.log(
+      `Callback of ${requestToPay.reference_id} (${requestToPay.status}): ${status}`,
+    );
+  } catch (error) {
+    if (quiet) {
+      return;
+    }
+    console.warn(
+      `Callback of ${requestToPay.reference_id} not delivered: ${(error as Error).message}`,
+    );
+  }
+}
+
+if (require.main === module) {
+  const secret = process.env.MTN_WEBHOOK_SECRET;
+  void startMtnMomoMockServer({
+    port: Number(process.env.MTN_MOCK_PORT) || 4020,
+    api_user: process.env.MTN_API_USER,
+    api_key: process.env.MTN_API_KEY,
+    subscription_key: process.env.MTN_SUBSCRIPTION_KEY,
+    target_environment: process.env.MTN_TARGET_ENVIRONMENT,
+    settle_after_ms:
+      Number(process.env.MTN_MOCK_SETTLE_AFTER_MS) ||
+      MTN_MOCK_DEFAULT_SETTLE_AFTER_MS,
+    callback: secret
+      ? {
+          url:
+            process.env.MTN_MOCK_CALLBACK_URL || MTN_MOCK_DEFAULT_CALLBACK_URL,
+          secret,
+        }
+      : undefined,
+  }).then((server) => console.log(`MoMo stand-in listening on ${server.url}`));
+}